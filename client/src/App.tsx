@@ -1,35 +1,66 @@
 import React, { useEffect, useState } from "react";
 import axios from "axios";
-import LineChartVisx from "./components/LineChartVisx";
+import LineChartVisx, { WeekStatus } from "./components/LineChartVisx";
+import AccountMenu from "./components/AccountMenu";
+import StandingsTable, { Team } from "./components/StandingsTable";
+import ShareLinks from "./components/ShareLinks";
 import PlayerStats from "./pages/PlayerStats";
+import Matchups from "./pages/Matchups";
+import LiveScoring from "./pages/LiveScoring";
+import PlayoffOdds from "./pages/PlayoffOdds";
+import Lineups from "./pages/Lineups";
+import Trade from "./pages/Trade";
+import ScoringProfiles from "./pages/ScoringProfiles";
+import Draft from "./pages/Draft";
+import Transactions from "./pages/Transactions";
+import Waivers from "./pages/Waivers";
+import History from "./pages/History";
+import ProjectionAccuracy from "./pages/ProjectionAccuracy";
 
 type Point = { week: number; teamName: string; score: number };
-type Team = {
-  teamKey: string;
-  teamName: string;
-  rank: number;
-  wins: number;
-  losses: number;
-  ties: number;
-  pointsFor: number;
-};
-type View = "league" | "players";
+type ScoringProfileOption = { id: string; name: string };
+type View =
+  | "league"
+  | "matchups"
+  | "live"
+  | "playoffs"
+  | "lineups"
+  | "trade"
+  | "scoring"
+  | "draft"
+  | "transactions"
+  | "waivers"
+  | "history"
+  | "projections"
+  | "players";
 
 export default function App() {
   const [view, setView] = useState<View>("league");
   const [leagueKey, setLeagueKey] = useState<string>("461.l.329011");
   const [data, setData] = useState<Point[]>([]);
+  const [weeks, setWeeks] = useState<WeekStatus[]>([]);
+  const [demo, setDemo] = useState(false);
+  const [demoScores, setDemoScores] = useState(false);
   const [teams, setTeams] = useState<Team[]>([]);
   const [selectedTeamKey, setSelectedTeamKey] = useState<string>("");
   const [loading, setLoading] = useState(false);
   const [userLeagues, setUserLeagues] = useState<any[]>([]);
   const [showLeagueSelector, setShowLeagueSelector] = useState(false);
+  const [scoringProfiles, setScoringProfiles] = useState<
+    ScoringProfileOption[]
+  >([]);
+  const [scoringProfile, setScoringProfile] = useState<string>("");
 
   // Fetch user's leagues on mount
   useEffect(() => {
     fetchUserLeagues();
   }, []);
 
+  // Refresh the scoring profile choices when returning to the standings
+  useEffect(() => {
+    if (view === "league") fetchScoringProfiles();
+  }, [view]);
+
   async function fetchUserLeagues() {
     try {
       const res = await axios.get("/api/league/user/leagues");
@@ -39,6 +70,15 @@ export default function App() {
     }
   }
 
+  async function fetchScoringProfiles() {
+    try {
+      const res = await axios.get("/api/scoring-profiles");
+      setScoringProfiles(res.data.profiles || []);
+    } catch (err: any) {
+      // User not logged in or error - ignore
+    }
+  }
+
   async function fetchLeague() {
     if (!leagueKey) {
       alert("Enter a league key (e.g. nfl.l.12345)");
@@ -47,9 +87,17 @@ export default function App() {
     setLoading(true);
     try {
       const res = await axios.get(
-        `/api/league/${encodeURIComponent(leagueKey)}`
+        `/api/league/${encodeURIComponent(leagueKey)}`,
+        {
+          params: {
+            ...(scoringProfile ? { scoringProfile } : {}),
+            ...(demo ? { demo: true } : {}),
+          },
+        }
       );
       setData(res.data.points || []);
+      setWeeks(res.data.weeks || []);
+      setDemoScores(!!res.data.demo);
       setTeams(res.data.teams || []);
     } catch (err: any) {
       console.error(err);
@@ -107,34 +155,174 @@ export default function App() {
             League Standings
           </button>
           <button
-            onClick={() => setView("players")}
+            onClick={() => setView("matchups")}
             style={{
               padding: "8px 16px",
-              background: view === "players" ? "white" : "transparent",
-              color: view === "players" ? "#1f77b4" : "white",
+              background: view === "matchups" ? "white" : "transparent",
+              color: view === "matchups" ? "#1f77b4" : "white",
               border: "2px solid white",
               borderRadius: 4,
               cursor: "pointer",
               fontWeight: "bold",
             }}
           >
-            Player Comparison
+            Matchups
+          </button>
+          <button
+            onClick={() => setView("live")}
+            style={{
+              padding: "8px 16px",
+              background: view === "live" ? "white" : "transparent",
+              color: view === "live" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Live
+          </button>
+          <button
+            onClick={() => setView("playoffs")}
+            style={{
+              padding: "8px 16px",
+              background: view === "playoffs" ? "white" : "transparent",
+              color: view === "playoffs" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Playoff Odds
+          </button>
+          <button
+            onClick={() => setView("lineups")}
+            style={{
+              padding: "8px 16px",
+              background: view === "lineups" ? "white" : "transparent",
+              color: view === "lineups" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Lineups
+          </button>
+          <button
+            onClick={() => setView("trade")}
+            style={{
+              padding: "8px 16px",
+              background: view === "trade" ? "white" : "transparent",
+              color: view === "trade" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Trades
+          </button>
+          <button
+            onClick={() => setView("scoring")}
+            style={{
+              padding: "8px 16px",
+              background: view === "scoring" ? "white" : "transparent",
+              color: view === "scoring" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Scoring
           </button>
-          <a
-            href="/auth/yahoo/login"
+          <button
+            onClick={() => setView("draft")}
+            style={{
+              padding: "8px 16px",
+              background: view === "draft" ? "white" : "transparent",
+              color: view === "draft" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Draft
+          </button>
+          <button
+            onClick={() => setView("transactions")}
+            style={{
+              padding: "8px 16px",
+              background: view === "transactions" ? "white" : "transparent",
+              color: view === "transactions" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Transactions
+          </button>
+          <button
+            onClick={() => setView("waivers")}
+            style={{
+              padding: "8px 16px",
+              background: view === "waivers" ? "white" : "transparent",
+              color: view === "waivers" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Waivers
+          </button>
+          <button
+            onClick={() => setView("history")}
             style={{
               padding: "8px 16px",
-              background: "transparent",
-              color: "white",
+              background: view === "history" ? "white" : "transparent",
+              color: view === "history" ? "#1f77b4" : "white",
               border: "2px solid white",
               borderRadius: 4,
-              textDecoration: "none",
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            History
+          </button>
+          <button
+            onClick={() => setView("projections")}
+            style={{
+              padding: "8px 16px",
+              background: view === "projections" ? "white" : "transparent",
+              color: view === "projections" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
               fontWeight: "bold",
-              display: "inline-block",
             }}
           >
-            Connect Yahoo
-          </a>
+            Projections
+          </button>
+          <button
+            onClick={() => setView("players")}
+            style={{
+              padding: "8px 16px",
+              background: view === "players" ? "white" : "transparent",
+              color: view === "players" ? "#1f77b4" : "white",
+              border: "2px solid white",
+              borderRadius: 4,
+              cursor: "pointer",
+              fontWeight: "bold",
+            }}
+          >
+            Player Comparison
+          </button>
+          <AccountMenu onDisconnect={() => setUserLeagues([])} />
           {userLeagues.length > 0 && (
             <button
               onClick={fetchUserLeagues}
@@ -188,6 +376,30 @@ export default function App() {
               />
             </label>
             <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <select
+                value={scoringProfile}
+                onChange={(e) => setScoringProfile(e.target.value)}
+                style={{ padding: 8 }}
+                title="Scoring used for standings and weekly scores"
+              >
+                <option value="">League scoring</option>
+                {scoringProfiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </option>
+                ))}
+              </select>
+              <label
+                style={{ display: "flex", alignItems: "center", gap: 4 }}
+                title="Made-up weekly scores, for screenshots"
+              >
+                <input
+                  type="checkbox"
+                  checked={demo}
+                  onChange={(e) => setDemo(e.target.checked)}
+                />
+                Demo data
+              </label>
               <button
                 onClick={fetchLeague}
                 style={{ padding: "8px 16px" }}
@@ -254,71 +466,41 @@ export default function App() {
           )}
 
           <div style={{ marginTop: 24 }}>
-            <LineChartVisx data={data} />
+            <LineChartVisx data={data} weeks={weeks} demo={demoScores} />
           </div>
 
           {/* Team Standings Table */}
           {teams.length > 0 && (
             <div style={{ marginTop: 32 }}>
               <h3>Team Standings</h3>
-              <table
-                style={{
-                  width: "100%",
-                  borderCollapse: "collapse",
-                  marginTop: 16,
-                }}
-              >
-                <thead>
-                  <tr style={{ background: "#f0f0f0" }}>
-                    <th style={{ padding: 12, textAlign: "left" }}>Rank</th>
-                    <th style={{ padding: 12, textAlign: "left" }}>Team</th>
-                    <th style={{ padding: 12, textAlign: "center" }}>Record</th>
-                    <th style={{ padding: 12, textAlign: "right" }}>
-                      Points For
-                    </th>
-                    <th style={{ padding: 12, textAlign: "center" }}>
-                      Actions
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {teams.map((team) => (
-                    <tr
-                      key={team.teamKey}
-                      style={{ borderBottom: "1px solid #e0e0e0" }}
-                    >
-                      <td style={{ padding: 12 }}>{team.rank}</td>
-                      <td style={{ padding: 12, fontWeight: "bold" }}>
-                        {team.teamName}
-                      </td>
-                      <td style={{ padding: 12, textAlign: "center" }}>
-                        {team.wins}-{team.losses}-{team.ties}
-                      </td>
-                      <td style={{ padding: 12, textAlign: "right" }}>
-                        {team.pointsFor.toFixed(2)}
-                      </td>
-                      <td style={{ padding: 12, textAlign: "center" }}>
-                        <button
-                          onClick={() => viewTeamPlayers(team.teamKey)}
-                          style={{
-                            padding: "6px 12px",
-                            background: "#1f77b4",
-                            color: "white",
-                            border: "none",
-                            borderRadius: 4,
-                            cursor: "pointer",
-                          }}
-                        >
-                          View Players
-                        </button>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
-              </table>
+              <StandingsTable teams={teams} onViewPlayers={viewTeamPlayers} />
             </div>
           )}
+
+          {teams.length > 0 && <ShareLinks leagueKey={leagueKey} />}
         </>
+      ) : view === "matchups" ? (
+        <Matchups leagueKey={leagueKey} />
+      ) : view === "live" ? (
+        <LiveScoring leagueKey={leagueKey} />
+      ) : view === "playoffs" ? (
+        <PlayoffOdds leagueKey={leagueKey} />
+      ) : view === "lineups" ? (
+        <Lineups leagueKey={leagueKey} />
+      ) : view === "trade" ? (
+        <Trade leagueKey={leagueKey} />
+      ) : view === "scoring" ? (
+        <ScoringProfiles leagueKey={leagueKey} />
+      ) : view === "draft" ? (
+        <Draft leagueKey={leagueKey} />
+      ) : view === "transactions" ? (
+        <Transactions leagueKey={leagueKey} />
+      ) : view === "waivers" ? (
+        <Waivers leagueKey={leagueKey} />
+      ) : view === "history" ? (
+        <History leagueKey={leagueKey} />
+      ) : view === "projections" ? (
+        <ProjectionAccuracy leagueKey={leagueKey} />
       ) : (
         <PlayerStats initialTeamKey={selectedTeamKey} />
       )}
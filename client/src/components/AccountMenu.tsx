@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type Account = {
+  guid: string | null;
+  nickname: string | null;
+  connectedAt: string;
+  tokenExpiresAt: string;
+};
+
+type Props = {
+  onDisconnect: () => void;
+};
+
+const linkStyle: React.CSSProperties = {
+  padding: "8px 16px",
+  background: "transparent",
+  color: "white",
+  border: "2px solid white",
+  borderRadius: 4,
+  textDecoration: "none",
+  fontWeight: "bold",
+  display: "inline-block",
+};
+
+/**
+ * The connected Yahoo account with a disconnect button,
+ * or "Connect Yahoo" when nothing is connected
+ */
+export default function AccountMenu({ onDisconnect }: Props) {
+  const [account, setAccount] = useState<Account | null>(null);
+  const [checked, setChecked] = useState(false);
+
+  useEffect(() => {
+    fetchAccount();
+  }, []);
+
+  async function fetchAccount() {
+    try {
+      const res = await axios.get("/auth/me");
+      setAccount(res.data);
+    } catch (err: any) {
+      // Not connected
+      setAccount(null);
+    } finally {
+      setChecked(true);
+    }
+  }
+
+  async function disconnect() {
+    if (!confirm("Disconnect your Yahoo account?")) return;
+    try {
+      await axios.post("/auth/logout");
+      setAccount(null);
+      onDisconnect();
+    } catch (err: any) {
+      alert(
+        err?.response?.data?.error || err.message || "Failed to disconnect"
+      );
+    }
+  }
+
+  // Avoid flashing "Connect Yahoo" before the check finishes
+  if (!checked) return null;
+
+  if (!account) {
+    return (
+      <a href="/auth/yahoo/login" style={linkStyle}>
+        Connect Yahoo
+      </a>
+    );
+  }
+
+  const name = account.nickname || account.guid || "Yahoo account";
+  return (
+    <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+      <span
+        title={`Connected ${new Date(
+          account.connectedAt
+        ).toLocaleString()}\nAccess token expires ${new Date(
+          account.tokenExpiresAt
+        ).toLocaleTimeString()}`}
+        style={{ fontWeight: "bold" }}
+      >
+        ✓ {name}
+      </span>
+      <button
+        onClick={disconnect}
+        style={{ ...linkStyle, cursor: "pointer", fontSize: "0.9em" }}
+      >
+        Disconnect
+      </button>
+    </div>
+  );
+}
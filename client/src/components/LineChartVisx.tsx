@@ -7,17 +7,75 @@ import { LegendOrdinal } from "@visx/legend";
 
 type Point = { week: number; teamName: string; score: number };
 
-type Props = { data: Point[] };
+export type WeekStatus = {
+  week: number;
+  dataStatus: "complete" | "in-progress" | "missing";
+};
+
+type Props = {
+  data: Point[];
+  weeks?: WeekStatus[]; // Per-week data status from the league response
+  demo?: boolean; // Scores are made up
+};
+
+const bannerStyle: React.CSSProperties = {
+  background: "#fff3e0",
+  border: "1px solid #ffb74d",
+  padding: "8px 12px",
+  borderRadius: 4,
+  marginBottom: 12,
+};
+
+/**
+ * Weekly scores per team. Weeks without scores are left as gaps in the
+ * lines rather than joined over, and shaded so the gap is explained
+ */
+export default function LineChartVisx({
+  data,
+  weeks: weekStatuses = [],
+  demo,
+}: Props) {
+  // Demo scores fill every week, so there are no gaps to explain
+  const shownStatuses = demo ? [] : weekStatuses;
+  const missingWeeks = shownStatuses
+    .filter((w) => w.dataStatus === "missing")
+    .map((w) => w.week);
+  const inProgressWeeks = shownStatuses
+    .filter((w) => w.dataStatus === "in-progress")
+    .map((w) => w.week);
+
+  const banners = (
+    <>
+      {demo && (
+        <div style={bannerStyle}>
+          Demo data: these weekly scores are made up, not your league's.
+        </div>
+      )}
+      {missingWeeks.length > 0 && (
+        <div style={bannerStyle}>
+          Scores for week{missingWeeks.length > 1 ? "s" : ""}{" "}
+          {missingWeeks.join(", ")} couldn't be loaded from Yahoo, so{" "}
+          {missingWeeks.length > 1 ? "those weeks are" : "that week is"} left
+          blank. Reload to try again.
+        </div>
+      )}
+    </>
+  );
 
-export default function LineChartVisx({ data }: Props) {
   if (!data || data.length === 0) {
-    return <div>No data to show</div>;
+    return (
+      <div>
+        {banners}
+        <div>No data to show</div>
+      </div>
+    );
   }
 
   const teams = Array.from(new Set(data.map((d) => d.teamName)));
-  const weeks = Array.from(new Set(data.map((d) => d.week))).sort(
-    (a, b) => a - b
-  );
+  // Include weeks without scores so they show up as gaps
+  const weeks = Array.from(
+    new Set([...data.map((d) => d.week), ...weekStatuses.map((w) => w.week)])
+  ).sort((a, b) => a - b);
 
   const series = teams.map((team) => ({
     team,
@@ -35,6 +93,10 @@ export default function LineChartVisx({ data }: Props) {
     domain: weeks,
     range: [margin.left, width - margin.right],
   });
+  const weekWidth =
+    weeks.length > 1
+      ? (width - margin.left - margin.right) / (weeks.length - 1)
+      : 40;
 
   const allScores = data.map((d) => d.score);
   const yMin = Math.min(...allScores) - 5;
@@ -62,22 +124,43 @@ export default function LineChartVisx({ data }: Props) {
 
   return (
     <div style={{ width: "100%", overflow: "auto" }}>
+      {banners}
       <svg width={width} height={height}>
         <rect x={0} y={0} width={width} height={height} fill="#fff" rx={6} />
         <Group>
+          {[...missingWeeks, ...inProgressWeeks].map((week) => {
+            const missing = missingWeeks.includes(week);
+            const x = (xScale(week) || 0) - weekWidth / 2;
+            return (
+              <Group key={week}>
+                <rect
+                  x={x}
+                  y={margin.top}
+                  width={weekWidth}
+                  height={height - margin.top - margin.bottom}
+                  fill={missing ? "#fdecea" : "#f2f2f2"}
+                />
+                <text
+                  x={xScale(week) || 0}
+                  y={margin.top + 12}
+                  fontSize={10}
+                  fill="#888"
+                  textAnchor="middle"
+                >
+                  {missing ? "No data" : "In progress"}
+                </text>
+              </Group>
+            );
+          })}
           <AxisLeft scale={yScale} left={margin.left} />
           <AxisBottom scale={xScale} top={height - margin.bottom} />
           {series.map((s, i) => (
             <LinePath
               key={s.team}
-              data={
-                s.points.filter((p) => p.score !== null) as {
-                  week: number;
-                  score: number;
-                }[]
-              }
+              data={s.points}
+              defined={(d) => d.score !== null}
               x={(d) => xScale(d.week) || 0}
-              y={(d) => yScale(d.score)}
+              y={(d) => yScale(d.score ?? 0)}
               stroke={colorScale(s.team)}
               strokeWidth={2}
             />
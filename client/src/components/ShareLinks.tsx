@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type ShareLink = {
+  slug: string;
+  path: string;
+  leagueKey: string;
+  leagueName: string;
+  mode: "live" | "snapshot";
+  createdAt: string;
+  expiresAt: string | null;
+  expired: boolean;
+};
+
+type Props = {
+  leagueKey: string;
+};
+
+/**
+ * Publish the loaded league as a read-only link, and list or revoke
+ * the links already shared for it
+ */
+export default function ShareLinks({ leagueKey }: Props) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [mode, setMode] = useState<"live" | "snapshot">("live");
+  const [expiresInDays, setExpiresInDays] = useState<string>("30");
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetchLinks();
+  }, [leagueKey]);
+
+  async function fetchLinks() {
+    try {
+      const res = await axios.get("/api/share-links");
+      setLinks(
+        (res.data.links || []).filter(
+          (l: ShareLink) => l.leagueKey === leagueKey
+        )
+      );
+    } catch (err: any) {
+      // User not logged in or error - ignore
+    }
+  }
+
+  async function createLink() {
+    setCreating(true);
+    try {
+      await axios.post("/api/share-links", {
+        leagueKey,
+        mode,
+        ...(expiresInDays ? { expiresInDays: Number(expiresInDays) } : {}),
+      });
+      await fetchLinks();
+    } catch (err: any) {
+      alert(
+        err?.response?.data?.error || err.message || "Failed to create link"
+      );
+    } finally {
+      setCreating(false);
+    }
+  }
+
+  async function revokeLink(slug: string) {
+    if (!confirm("Revoke this link? Anyone using it will lose access.")) {
+      return;
+    }
+    try {
+      await axios.delete(`/api/share-links/${encodeURIComponent(slug)}`);
+      await fetchLinks();
+    } catch (err: any) {
+      alert(
+        err?.response?.data?.error || err.message || "Failed to revoke link"
+      );
+    }
+  }
+
+  return (
+    <div
+      style={{
+        marginTop: 32,
+        padding: 16,
+        background: "#f9f9f9",
+        border: "1px solid #ddd",
+        borderRadius: 4,
+      }}
+    >
+      <h3 style={{ marginTop: 0 }}>Share with Your League</h3>
+      <p style={{ marginTop: 0, color: "#666", fontSize: "0.9em" }}>
+        Leaguemates can open a share link without a Yahoo account. Live links
+        use your Yahoo connection on each visit; snapshots keep today's data.
+      </p>
+      <div style={{ display: "flex", gap: 8 }}>
+        <select
+          value={mode}
+          onChange={(e) => setMode(e.target.value as "live" | "snapshot")}
+          style={{ padding: 8 }}
+        >
+          <option value="live">Live</option>
+          <option value="snapshot">Snapshot</option>
+        </select>
+        <select
+          value={expiresInDays}
+          onChange={(e) => setExpiresInDays(e.target.value)}
+          style={{ padding: 8 }}
+        >
+          <option value="7">Expires in 7 days</option>
+          <option value="30">Expires in 30 days</option>
+          <option value="180">Expires in 180 days</option>
+          <option value="">Never expires</option>
+        </select>
+        <button
+          onClick={createLink}
+          style={{ padding: "8px 16px" }}
+          disabled={creating}
+        >
+          {creating ? "Creating..." : "Create Link"}
+        </button>
+      </div>
+
+      {links.length > 0 && (
+        <table
+          style={{ width: "100%", borderCollapse: "collapse", marginTop: 16 }}
+        >
+          <tbody>
+            {links.map((link) => {
+              const url = `${window.location.origin}${link.path}`;
+              return (
+                <tr
+                  key={link.slug}
+                  style={{
+                    borderBottom: "1px solid #e0e0e0",
+                    color: link.expired ? "#999" : "inherit",
+                  }}
+                >
+                  <td style={{ padding: 8 }}>
+                    <a href={link.path} target="_blank" rel="noreferrer">
+                      {url}
+                    </a>
+                  </td>
+                  <td style={{ padding: 8 }}>{link.mode}</td>
+                  <td style={{ padding: 8 }}>
+                    {link.expired
+                      ? "Expired"
+                      : link.expiresAt
+                      ? `Expires ${new Date(
+                          link.expiresAt
+                        ).toLocaleDateString()}`
+                      : "Never expires"}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    <button
+                      onClick={() => navigator.clipboard.writeText(url)}
+                      style={{ padding: "4px 8px", marginRight: 8 }}
+                    >
+                      Copy
+                    </button>
+                    <button
+                      onClick={() => revokeLink(link.slug)}
+                      style={{ padding: "4px 8px" }}
+                    >
+                      Revoke
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import React from "react";
+
+export type Team = {
+  teamKey: string;
+  teamName: string;
+  rank: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  allPlayWins: number;
+  allPlayLosses: number;
+  allPlayTies: number;
+  expectedWins: number;
+  luck: number;
+};
+
+type Props = {
+  teams: Team[];
+  onViewPlayers?: (teamKey: string) => void; // Omit for read-only views
+};
+
+export default function StandingsTable({ teams, onViewPlayers }: Props) {
+  return (
+    <table
+      style={{
+        width: "100%",
+        borderCollapse: "collapse",
+        marginTop: 16,
+      }}
+    >
+      <thead>
+        <tr style={{ background: "#f0f0f0" }}>
+          <th style={{ padding: 12, textAlign: "left" }}>Rank</th>
+          <th style={{ padding: 12, textAlign: "left" }}>Team</th>
+          <th style={{ padding: 12, textAlign: "center" }}>Record</th>
+          <th style={{ padding: 12, textAlign: "right" }}>Points For</th>
+          <th
+            style={{ padding: 12, textAlign: "center" }}
+            title="Record if every team played every other team each week"
+          >
+            All-Play
+          </th>
+          <th
+            style={{ padding: 12, textAlign: "right" }}
+            title="All-play win rate applied to one game per week"
+          >
+            Exp. Wins
+          </th>
+          <th
+            style={{ padding: 12, textAlign: "right" }}
+            title="Actual wins minus expected wins"
+          >
+            Luck
+          </th>
+          {onViewPlayers && (
+            <th style={{ padding: 12, textAlign: "center" }}>Actions</th>
+          )}
+        </tr>
+      </thead>
+      <tbody>
+        {teams.map((team) => (
+          <tr key={team.teamKey} style={{ borderBottom: "1px solid #e0e0e0" }}>
+            <td style={{ padding: 12 }}>{team.rank}</td>
+            <td style={{ padding: 12, fontWeight: "bold" }}>{team.teamName}</td>
+            <td style={{ padding: 12, textAlign: "center" }}>
+              {team.wins}-{team.losses}-{team.ties}
+            </td>
+            <td style={{ padding: 12, textAlign: "right" }}>
+              {team.pointsFor.toFixed(2)}
+            </td>
+            <td style={{ padding: 12, textAlign: "center" }}>
+              {team.allPlayWins}-{team.allPlayLosses}-{team.allPlayTies}
+            </td>
+            <td style={{ padding: 12, textAlign: "right" }}>
+              {team.expectedWins.toFixed(2)}
+            </td>
+            <td
+              style={{
+                padding: 12,
+                textAlign: "right",
+                fontWeight: "bold",
+                color:
+                  team.luck > 0
+                    ? "#2ca02c"
+                    : team.luck < 0
+                    ? "#d62728"
+                    : "inherit",
+              }}
+            >
+              {team.luck > 0 ? "+" : ""}
+              {team.luck.toFixed(2)}
+            </td>
+            {onViewPlayers && (
+              <td style={{ padding: 12, textAlign: "center" }}>
+                <button
+                  onClick={() => onViewPlayers(team.teamKey)}
+                  style={{
+                    padding: "6px 12px",
+                    background: "#1f77b4",
+                    color: "white",
+                    border: "none",
+                    borderRadius: 4,
+                    cursor: "pointer",
+                  }}
+                >
+                  View Players
+                </button>
+              </td>
+            )}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState } from "react";
+import { Group } from "@visx/group";
+import { scaleLinear, scaleTime } from "@visx/scale";
+import { Line, LinePath } from "@visx/shape";
+import { AxisLeft } from "@visx/axis";
+
+export type WinProbabilityPoint = {
+  recordedAt: string;
+  teamKey: string;
+  points: number;
+  expectedPoints: number;
+  winProbability: number;
+};
+
+type Props = {
+  teams: { teamKey: string; teamName: string }[];
+  timeline: WinProbabilityPoint[];
+};
+
+type Moment = {
+  time: Date;
+  winProbability: number; // First team's
+  points: number[]; // Per team
+};
+
+/**
+ * One entry per recorded time, carrying forward whichever team wasn't
+ * recorded then. The second team's chance is one minus the first's
+ */
+function toMoments(
+  teams: Props["teams"],
+  timeline: WinProbabilityPoint[]
+): Moment[] {
+  const moments: Moment[] = [];
+  let winProbability = 0.5;
+  const points = teams.map(() => 0);
+
+  for (const time of Array.from(new Set(timeline.map((p) => p.recordedAt)))) {
+    for (const point of timeline.filter((p) => p.recordedAt === time)) {
+      const index = teams.findIndex((t) => t.teamKey === point.teamKey);
+      if (index < 0) continue;
+      points[index] = point.points;
+      winProbability =
+        index === 0 ? point.winProbability : 1 - point.winProbability;
+    }
+    moments.push({ time: new Date(time), winProbability, points: [...points] });
+  }
+  return moments;
+}
+
+/**
+ * The first team's chance of winning over the week, as recorded by the
+ * server. Drag the slider to replay it
+ */
+export default function WinProbabilityChart({ teams, timeline }: Props) {
+  const moments = toMoments(teams, timeline);
+  const [position, setPosition] = useState<number | null>(null);
+
+  if (moments.length === 0 || teams.length < 2) {
+    return null;
+  }
+
+  // Follow the latest moment until the slider is moved
+  const shown = position ?? moments.length - 1;
+  const current = moments[shown];
+
+  const width = 300;
+  const height = 120;
+  const margin = { top: 10, right: 10, bottom: 10, left: 40 };
+
+  const start = moments[0].time;
+  const end = moments[moments.length - 1].time;
+  const xScale = scaleTime<number>({
+    // A single moment still needs a range to sit in
+    domain: [start, end > start ? end : new Date(start.getTime() + 1)],
+    range: [margin.left, width - margin.right],
+  });
+  const yScale = scaleLinear<number>({
+    domain: [0, 1],
+    range: [height - margin.bottom, margin.top],
+  });
+
+  return (
+    <div style={{ marginTop: 8 }}>
+      <svg width={width} height={height}>
+        <Group>
+          <AxisLeft
+            scale={yScale}
+            left={margin.left}
+            tickValues={[0, 0.5, 1]}
+            tickFormat={(v) => `${Math.round(Number(v) * 100)}%`}
+          />
+          <Line
+            from={{ x: margin.left, y: yScale(0.5) }}
+            to={{ x: width - margin.right, y: yScale(0.5) }}
+            stroke="#ccc"
+            strokeDasharray="4,4"
+          />
+          <LinePath
+            data={moments.slice(0, shown + 1)}
+            x={(m) => xScale(m.time) || 0}
+            y={(m) => yScale(m.winProbability)}
+            stroke="#1f77b4"
+            strokeWidth={2}
+          />
+          <circle
+            cx={xScale(current.time) || 0}
+            cy={yScale(current.winProbability)}
+            r={3}
+            fill="#1f77b4"
+          />
+        </Group>
+      </svg>
+      {moments.length > 1 && (
+        <input
+          type="range"
+          min={0}
+          max={moments.length - 1}
+          value={shown}
+          onChange={(e) => setPosition(Number(e.target.value))}
+          style={{ width }}
+          aria-label="Replay win probability"
+        />
+      )}
+      <div style={{ fontSize: "0.8em", color: "#666" }}>
+        {current.time.toLocaleString()}: {teams[0].teamName}{" "}
+        {(current.winProbability * 100).toFixed(0)}% to win (
+        {current.points.map((p) => p.toFixed(2)).join(" - ")})
+      </div>
+    </div>
+  );
+}
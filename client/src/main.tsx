@@ -3,6 +3,7 @@ import { createRoot } from "react-dom/client";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import App from "./App";
 import Login from "./pages/Login";
+import SharedLeague from "./pages/SharedLeague";
 
 createRoot(document.getElementById("root")!).render(
   <React.StrictMode>
@@ -10,6 +11,7 @@ createRoot(document.getElementById("root")!).render(
       <Routes>
         <Route path="/" element={<App />} />
         <Route path="/login" element={<Login />} />
+        <Route path="/s/:slug" element={<SharedLeague />} />
       </Routes>
     </BrowserRouter>
   </React.StrictMode>
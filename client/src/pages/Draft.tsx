@@ -0,0 +1,336 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface DraftPickAnalysis {
+  pick: number;
+  round: number;
+  teamKey: string;
+  teamName: string;
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  cost?: number;
+  points: number;
+  valueOverReplacement: number;
+  expectedValue: number;
+  surplus: number;
+}
+
+interface DraftTeamGrade {
+  teamKey: string;
+  teamName: string;
+  grade: string;
+  points: number;
+  valueOverReplacement: number;
+  surplus: number;
+}
+
+interface DraftResponse {
+  leagueKey: string;
+  draftType: "snake" | "auction";
+  rounds: number;
+  teamOrder: Array<{ teamKey: string; teamName: string }>;
+  replacementLevels: { [position: string]: number };
+  picks: DraftPickAnalysis[];
+  teamGrades: DraftTeamGrade[];
+  steals: DraftPickAnalysis[];
+  busts: DraftPickAnalysis[];
+}
+
+interface DraftProps {
+  leagueKey: string;
+}
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+// Shade a pick from red (bust) through white to green (steal)
+function surplusBackground(surplus: number, maxSurplus: number): string {
+  const strength = Math.min(Math.abs(surplus) / (maxSurplus || 1), 1) * 0.5;
+  return surplus >= 0
+    ? `rgba(44, 160, 44, ${strength})`
+    : `rgba(214, 39, 40, ${strength})`;
+}
+
+function gradeColor(grade: string): string {
+  if (grade.startsWith("A")) return "#2ca02c";
+  if (grade.startsWith("B")) return "#1f77b4";
+  if (grade.startsWith("C")) return "#ff7f0e";
+  return "#d62728";
+}
+
+export default function Draft({ leagueKey }: DraftProps) {
+  const [data, setData] = useState<DraftResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [selectedPick, setSelectedPick] = useState<DraftPickAnalysis | null>(
+    null
+  );
+
+  async function fetchDraft() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<DraftResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/draft`
+      );
+      setData(res.data);
+      setSelectedPick(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to fetch draft"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const maxSurplus = data
+    ? Math.max(...data.picks.map((p) => Math.abs(p.surplus)))
+    : 0;
+  const rounds = data
+    ? Array.from({ length: data.rounds }, (_, i) => i + 1)
+    : [];
+
+  function pickFor(teamKey: string, round: number) {
+    return data?.picks.find((p) => p.teamKey === teamKey && p.round === round);
+  }
+
+  function renderPickList(title: string, picks: DraftPickAnalysis[]) {
+    return (
+      <div style={{ flex: "1 1 300px" }}>
+        <h3>{title}</h3>
+        {picks.length === 0 && <div style={{ color: "#666" }}>None</div>}
+        {picks.map((p) => (
+          <div
+            key={p.pick}
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              padding: "4px 0",
+              borderBottom: "1px solid #f0f0f0",
+            }}
+          >
+            <span>
+              <strong>{p.name}</strong>{" "}
+              <span style={{ color: "#666", fontSize: "0.85em" }}>
+                {p.position} - pick {p.pick}
+                {p.cost !== undefined && ` ($${p.cost})`} by {p.teamName}
+              </span>
+            </span>
+            <span
+              style={{
+                color: p.surplus >= 0 ? "#2ca02c" : "#d62728",
+                fontWeight: "bold",
+              }}
+            >
+              {formatChange(p.surplus)}
+            </span>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2>Draft Board</h2>
+      <p>
+        Each pick is valued by its season-to-date points over a
+        replacement-level player at the same position, then compared with what a
+        pick in that slot is usually worth. Green picks beat their slot, red
+        picks fell short.
+      </p>
+      <button
+        onClick={fetchDraft}
+        style={{ padding: "8px 16px" }}
+        disabled={loading}
+      >
+        {loading ? "Loading..." : "Load Draft"}
+      </button>
+
+      {data && (
+        <>
+          <h3>Draft Grades</h3>
+          <table style={{ borderCollapse: "collapse", minWidth: 500 }}>
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ padding: 8, textAlign: "left" }}>Team</th>
+                <th style={{ padding: 8 }}>Grade</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Points</th>
+                <th style={{ padding: 8, textAlign: "right" }}>
+                  Value Over Replacement
+                </th>
+                <th style={{ padding: 8, textAlign: "right" }}>
+                  Value vs Slot
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.teamGrades.map((t) => (
+                <tr
+                  key={t.teamKey}
+                  style={{ borderBottom: "1px solid #f0f0f0" }}
+                >
+                  <td style={{ padding: 8 }}>{t.teamName}</td>
+                  <td
+                    style={{
+                      padding: 8,
+                      textAlign: "center",
+                      fontWeight: "bold",
+                      fontSize: "1.2em",
+                      color: gradeColor(t.grade),
+                    }}
+                  >
+                    {t.grade}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {t.points.toFixed(1)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {t.valueOverReplacement.toFixed(1)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {formatChange(t.surplus)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <div style={{ display: "flex", gap: 24, flexWrap: "wrap" }}>
+            {renderPickList("Biggest Steals", data.steals)}
+            {renderPickList("Biggest Busts", data.busts)}
+          </div>
+
+          <h3>
+            {data.draftType === "auction" ? "Auction" : "Snake"} Draft Board
+          </h3>
+          <div style={{ overflowX: "auto" }}>
+            <table
+              style={{
+                borderCollapse: "collapse",
+                tableLayout: "fixed",
+                fontSize: "0.85em",
+              }}
+            >
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={{ padding: 6, width: 50 }}>Rd</th>
+                  {data.teamOrder.map((t) => (
+                    <th key={t.teamKey} style={{ padding: 6, width: 120 }}>
+                      {t.teamName}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rounds.map((round) => (
+                  <tr key={round}>
+                    <td
+                      style={{
+                        padding: 6,
+                        textAlign: "center",
+                        fontWeight: "bold",
+                      }}
+                    >
+                      {round}
+                    </td>
+                    {data.teamOrder.map((t) => {
+                      const p = pickFor(t.teamKey, round);
+                      return (
+                        <td
+                          key={t.teamKey}
+                          onClick={() => p && setSelectedPick(p)}
+                          style={{
+                            padding: 6,
+                            border: "1px solid #e0e0e0",
+                            cursor: p ? "pointer" : undefined,
+                            verticalAlign: "top",
+                            background: p
+                              ? surplusBackground(p.surplus, maxSurplus)
+                              : undefined,
+                            outline:
+                              selectedPick && p?.pick === selectedPick.pick
+                                ? "2px solid #1f77b4"
+                                : undefined,
+                          }}
+                        >
+                          {p && (
+                            <>
+                              <div style={{ fontWeight: "bold" }}>{p.name}</div>
+                              <div style={{ color: "#666" }}>
+                                {p.position} {p.team}
+                              </div>
+                              <div>
+                                #{p.pick}
+                                {p.cost !== undefined && ` · $${p.cost}`} ·{" "}
+                                {p.points.toFixed(1)} pts
+                              </div>
+                            </>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {selectedPick && (
+            <div
+              style={{
+                marginTop: 16,
+                padding: 16,
+                border: "1px solid #e0e0e0",
+                borderRadius: 4,
+                maxWidth: 500,
+              }}
+            >
+              <h4 style={{ marginTop: 0 }}>
+                {selectedPick.name} ({selectedPick.position})
+              </h4>
+              <div>
+                Round {selectedPick.round}, pick {selectedPick.pick} by{" "}
+                {selectedPick.teamName}
+                {selectedPick.cost !== undefined &&
+                  ` for $${selectedPick.cost}`}
+              </div>
+              <div>Season points: {selectedPick.points.toFixed(1)}</div>
+              <div>
+                Value over replacement:{" "}
+                {formatChange(selectedPick.valueOverReplacement)} (replacement{" "}
+                {selectedPick.position.split(",")[0]} scored{" "}
+                {(
+                  data.replacementLevels[selectedPick.position.split(",")[0]] ||
+                  0
+                ).toFixed(1)}
+                )
+              </div>
+              <div>
+                Expected at this slot:{" "}
+                {formatChange(selectedPick.expectedValue)}
+              </div>
+              <div>
+                Value vs slot:{" "}
+                <strong
+                  style={{
+                    color: selectedPick.surplus >= 0 ? "#2ca02c" : "#d62728",
+                  }}
+                >
+                  {formatChange(selectedPick.surplus)}
+                </strong>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
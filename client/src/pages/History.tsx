@@ -0,0 +1,365 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface HistoryStanding {
+  managerId: string;
+  managerName: string;
+  teamKey: string;
+  teamName: string;
+  rank: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+}
+
+interface LeagueHistorySeason {
+  leagueKey: string;
+  season: number;
+  name: string;
+  isFinished: boolean;
+  champion?: HistoryStanding;
+  standings: HistoryStanding[];
+}
+
+interface ManagerHistoryRecord {
+  managerId: string;
+  managerName: string;
+  teamNames: string[];
+  seasons: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  winPct: number;
+  pointsFor: number;
+  pointsAgainst: number;
+  playoffWins: number;
+  playoffLosses: number;
+  championships: number;
+  bestFinish: number;
+}
+
+interface HeadToHeadRecord {
+  managerId: string;
+  opponentId: string;
+  games: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+interface HistoryHighScore {
+  season: number;
+  week: number;
+  managerId: string;
+  managerName: string;
+  teamName: string;
+  points: number;
+  opponentTeamName: string;
+  opponentPoints: number;
+  isPlayoffs: boolean;
+}
+
+interface ChampionBanner {
+  season: number;
+  leagueKey: string;
+  managerId: string;
+  managerName: string;
+  teamName: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  runnerUpTeamName?: string;
+}
+
+interface LeagueHistoryResponse {
+  leagueKey: string;
+  seasons: LeagueHistorySeason[];
+  managers: ManagerHistoryRecord[];
+  headToHead: HeadToHeadRecord[];
+  highScores: HistoryHighScore[];
+  champions: ChampionBanner[];
+}
+
+interface HistoryProps {
+  leagueKey: string;
+}
+
+function formatRecord(r: { wins: number; losses: number; ties: number }) {
+  return `${r.wins}-${r.losses}${r.ties > 0 ? `-${r.ties}` : ""}`;
+}
+
+// Shade a head-to-head cell from red (losing) through white to green (winning)
+function headToHeadBackground(record: HeadToHeadRecord): string {
+  const share = (record.wins + record.ties / 2) / record.games;
+  const strength = Math.abs(share - 0.5);
+  return share >= 0.5
+    ? `rgba(44, 160, 44, ${strength})`
+    : `rgba(214, 39, 40, ${strength})`;
+}
+
+export default function History({ leagueKey }: HistoryProps) {
+  const [data, setData] = useState<LeagueHistoryResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function fetchHistory() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<LeagueHistoryResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/history`
+      );
+      setData(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to fetch league history"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const names = new Map(
+    (data?.managers || []).map((m) => [m.managerId, m.managerName])
+  );
+  const headToHead = new Map(
+    (data?.headToHead || []).map((r) => [`${r.managerId}|${r.opponentId}`, r])
+  );
+
+  return (
+    <div>
+      <h2>League History</h2>
+      <p>
+        Every season this league has been renewed from, with managers followed
+        across seasons even when they change team names.
+      </p>
+      <button
+        onClick={fetchHistory}
+        style={{ padding: "8px 16px" }}
+        disabled={loading}
+      >
+        {loading ? "Loading..." : "Load History"}
+      </button>
+
+      {data && (
+        <>
+          <h3>Champions</h3>
+          {data.champions.length === 0 && (
+            <p style={{ color: "#666" }}>No finished seasons yet.</p>
+          )}
+          <div style={{ display: "flex", gap: 12, flexWrap: "wrap" }}>
+            {data.champions.map((c) => (
+              <div
+                key={c.season}
+                style={{
+                  width: 150,
+                  padding: "16px 12px 24px",
+                  background: "#1f77b4",
+                  color: "white",
+                  textAlign: "center",
+                  clipPath: "polygon(0 0, 100% 0, 100% 100%, 50% 88%, 0 100%)",
+                }}
+              >
+                <div style={{ fontSize: "1.6em", fontWeight: "bold" }}>
+                  {c.season}
+                </div>
+                <div style={{ fontWeight: "bold", marginTop: 8 }}>
+                  {c.teamName}
+                </div>
+                <div style={{ fontSize: "0.85em" }}>{c.managerName}</div>
+                <div style={{ fontSize: "0.85em", marginTop: 8 }}>
+                  {formatRecord(c)} · {c.pointsFor.toFixed(1)} pts
+                </div>
+                {c.runnerUpTeamName && (
+                  <div style={{ fontSize: "0.75em", marginTop: 4 }}>
+                    over {c.runnerUpTeamName}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <h3>All-Time Records</h3>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ padding: 8, textAlign: "left" }}>Manager</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Seasons</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Record</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Win %</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Points For</th>
+                <th style={{ padding: 8, textAlign: "right" }}>
+                  Points Against
+                </th>
+                <th style={{ padding: 8, textAlign: "right" }}>Playoffs</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Titles</th>
+                <th style={{ padding: 8, textAlign: "right" }}>Best Finish</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.managers.map((m) => (
+                <tr
+                  key={m.managerId}
+                  style={{ borderBottom: "1px solid #f0f0f0" }}
+                >
+                  <td style={{ padding: 8 }}>
+                    <strong>{m.managerName || m.teamNames[0]}</strong>
+                    <div style={{ color: "#666", fontSize: "0.85em" }}>
+                      {m.teamNames.join(", ")}
+                    </div>
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {m.seasons}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {formatRecord(m)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {(m.winPct * 100).toFixed(1)}%
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {m.pointsFor.toFixed(1)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {m.pointsAgainst.toFixed(1)}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {m.playoffWins}-{m.playoffLosses}
+                  </td>
+                  <td
+                    style={{
+                      padding: 8,
+                      textAlign: "right",
+                      fontWeight: "bold",
+                    }}
+                  >
+                    {m.championships > 0 ? "🏆".repeat(m.championships) : "-"}
+                  </td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {m.bestFinish || "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3>Head to Head</h3>
+          <p style={{ color: "#666", fontSize: "0.85em" }}>
+            Each row's record against each column, regular season and playoffs.
+          </p>
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ borderCollapse: "collapse", fontSize: "0.85em" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={{ padding: 6 }} />
+                  {data.managers.map((m) => (
+                    <th key={m.managerId} style={{ padding: 6 }}>
+                      {m.managerName || m.teamNames[0]}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {data.managers.map((row) => (
+                  <tr key={row.managerId}>
+                    <th style={{ padding: 6, textAlign: "left" }}>
+                      {row.managerName || row.teamNames[0]}
+                    </th>
+                    {data.managers.map((col) => {
+                      const record = headToHead.get(
+                        `${row.managerId}|${col.managerId}`
+                      );
+                      return (
+                        <td
+                          key={col.managerId}
+                          title={
+                            record
+                              ? `${record.pointsFor.toFixed(
+                                  1
+                                )} - ${record.pointsAgainst.toFixed(1)} pts`
+                              : undefined
+                          }
+                          style={{
+                            padding: 6,
+                            textAlign: "center",
+                            border: "1px solid #e0e0e0",
+                            background: record
+                              ? headToHeadBackground(record)
+                              : row.managerId === col.managerId
+                              ? "#f0f0f0"
+                              : undefined,
+                          }}
+                        >
+                          {record ? formatRecord(record) : ""}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div style={{ display: "flex", gap: 24, flexWrap: "wrap" }}>
+            <div style={{ flex: "1 1 400px" }}>
+              <h3>Highest Single-Week Scores</h3>
+              {data.highScores.map((s, i) => (
+                <div
+                  key={`${s.season}-${s.week}-${s.managerId}`}
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    padding: "4px 0",
+                    borderBottom: "1px solid #f0f0f0",
+                  }}
+                >
+                  <span>
+                    {i + 1}. <strong>{s.teamName}</strong>{" "}
+                    <span style={{ color: "#666", fontSize: "0.85em" }}>
+                      {names.get(s.managerId) || s.managerName} · {s.season}{" "}
+                      week {s.week}
+                      {s.isPlayoffs && " (playoffs)"} vs {s.opponentTeamName} (
+                      {s.opponentPoints.toFixed(1)})
+                    </span>
+                  </span>
+                  <strong>{s.points.toFixed(1)}</strong>
+                </div>
+              ))}
+            </div>
+
+            <div style={{ flex: "1 1 300px" }}>
+              <h3>Seasons</h3>
+              {data.seasons.map((s) => (
+                <div
+                  key={s.leagueKey}
+                  style={{
+                    padding: "4px 0",
+                    borderBottom: "1px solid #f0f0f0",
+                  }}
+                >
+                  <strong>{s.season}</strong> {s.name}{" "}
+                  <span style={{ color: "#666", fontSize: "0.85em" }}>
+                    {s.champion
+                      ? `won by ${s.champion.teamName}`
+                      : s.isFinished
+                      ? ""
+                      : "in progress"}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
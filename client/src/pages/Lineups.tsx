@@ -0,0 +1,300 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface LineupSlotAssignment {
+  slot: string;
+  playerKey: string;
+  name: string;
+  points: number;
+}
+
+interface TeamLineupWeek {
+  week: number;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPointsLost: number;
+  efficiency: number;
+  opponentPoints?: number;
+  won?: boolean;
+  flipped: boolean;
+  startedLineup: LineupSlotAssignment[];
+  optimalLineup: LineupSlotAssignment[];
+}
+
+interface TeamLineupEfficiency {
+  teamKey: string;
+  teamName: string;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPointsLost: number;
+  efficiency: number;
+  flippedWeeks: number[];
+  weeks: TeamLineupWeek[];
+}
+
+interface LineupEfficiencyResponse {
+  leagueKey: string;
+  weekRange: { start: number; end: number };
+  rosterSlots: string[];
+  teams: TeamLineupEfficiency[];
+}
+
+interface LineupsProps {
+  leagueKey: string;
+}
+
+export default function Lineups({ leagueKey }: LineupsProps) {
+  const [data, setData] = useState<LineupEfficiencyResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [expandedTeam, setExpandedTeam] = useState<string | null>(null);
+  const [selectedWeek, setSelectedWeek] = useState<number | null>(null);
+
+  async function fetchLineups() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<LineupEfficiencyResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/lineup-efficiency`
+      );
+      setData(res.data);
+      setExpandedTeam(null);
+      setSelectedWeek(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to analyze lineups"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  function toggleTeam(teamKey: string) {
+    setExpandedTeam(expandedTeam === teamKey ? null : teamKey);
+    setSelectedWeek(null);
+  }
+
+  return (
+    <div>
+      <h2>Lineup Efficiency</h2>
+      <p>
+        Compares the lineup each manager started with the best lineup they could
+        have started in hindsight. The first load fetches every team's roster
+        for every week, so it can take a minute.
+      </p>
+      <button
+        onClick={fetchLineups}
+        style={{ padding: "8px 16px" }}
+        disabled={loading}
+      >
+        {loading ? "Analyzing..." : "Analyze Lineups"}
+      </button>
+
+      {data && (
+        <>
+          <p style={{ color: "#666", fontSize: "0.9em" }}>
+            Weeks {data.weekRange.start}-{data.weekRange.end} • Starting slots:{" "}
+            {data.rosterSlots.join(", ")}
+          </p>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", marginTop: 16 }}
+          >
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ padding: 12, textAlign: "left" }}>Team</th>
+                <th style={{ padding: 12, textAlign: "right" }}>Actual</th>
+                <th style={{ padding: 12, textAlign: "right" }}>Optimal</th>
+                <th style={{ padding: 12, textAlign: "right" }}>
+                  Bench Points Lost
+                </th>
+                <th style={{ padding: 12, textAlign: "right" }}>Efficiency</th>
+                <th style={{ padding: 12, textAlign: "left" }}>
+                  Losses an Optimal Lineup Would Have Won
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.teams.map((team) => (
+                <React.Fragment key={team.teamKey}>
+                  <tr
+                    onClick={() => toggleTeam(team.teamKey)}
+                    style={{
+                      borderBottom: "1px solid #e0e0e0",
+                      cursor: "pointer",
+                      background:
+                        expandedTeam === team.teamKey ? "#e3f2fd" : undefined,
+                    }}
+                  >
+                    <td style={{ padding: 12, fontWeight: "bold" }}>
+                      {expandedTeam === team.teamKey ? "▾" : "▸"}{" "}
+                      {team.teamName}
+                    </td>
+                    <td style={{ padding: 12, textAlign: "right" }}>
+                      {team.actualPoints.toFixed(2)}
+                    </td>
+                    <td style={{ padding: 12, textAlign: "right" }}>
+                      {team.optimalPoints.toFixed(2)}
+                    </td>
+                    <td
+                      style={{
+                        padding: 12,
+                        textAlign: "right",
+                        color: "#d62728",
+                      }}
+                    >
+                      {team.benchPointsLost.toFixed(2)}
+                    </td>
+                    <td
+                      style={{
+                        padding: 12,
+                        textAlign: "right",
+                        fontWeight: "bold",
+                      }}
+                    >
+                      {team.efficiency.toFixed(1)}%
+                    </td>
+                    <td style={{ padding: 12 }}>
+                      {team.flippedWeeks.length > 0
+                        ? team.flippedWeeks.map((w) => `Wk ${w}`).join(", ")
+                        : "-"}
+                    </td>
+                  </tr>
+                  {expandedTeam === team.teamKey && (
+                    <tr>
+                      <td
+                        colSpan={6}
+                        style={{ padding: 12, background: "#fafafa" }}
+                      >
+                        <table
+                          style={{ width: "100%", borderCollapse: "collapse" }}
+                        >
+                          <thead>
+                            <tr>
+                              <th style={{ padding: 6, textAlign: "left" }}>
+                                Week
+                              </th>
+                              <th style={{ padding: 6, textAlign: "right" }}>
+                                Actual
+                              </th>
+                              <th style={{ padding: 6, textAlign: "right" }}>
+                                Optimal
+                              </th>
+                              <th style={{ padding: 6, textAlign: "right" }}>
+                                Lost
+                              </th>
+                              <th style={{ padding: 6, textAlign: "right" }}>
+                                Opponent
+                              </th>
+                              <th style={{ padding: 6, textAlign: "center" }}>
+                                Result
+                              </th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {team.weeks.map((week) => (
+                              <tr
+                                key={week.week}
+                                onClick={() =>
+                                  setSelectedWeek(
+                                    selectedWeek === week.week
+                                      ? null
+                                      : week.week
+                                  )
+                                }
+                                style={{
+                                  cursor: "pointer",
+                                  background: week.flipped
+                                    ? "#fdecea"
+                                    : selectedWeek === week.week
+                                    ? "#e3f2fd"
+                                    : undefined,
+                                }}
+                              >
+                                <td style={{ padding: 6 }}>{week.week}</td>
+                                <td style={{ padding: 6, textAlign: "right" }}>
+                                  {week.actualPoints.toFixed(2)}
+                                </td>
+                                <td style={{ padding: 6, textAlign: "right" }}>
+                                  {week.optimalPoints.toFixed(2)}
+                                </td>
+                                <td style={{ padding: 6, textAlign: "right" }}>
+                                  {week.benchPointsLost.toFixed(2)}
+                                </td>
+                                <td style={{ padding: 6, textAlign: "right" }}>
+                                  {week.opponentPoints?.toFixed(2) ?? "-"}
+                                </td>
+                                <td style={{ padding: 6, textAlign: "center" }}>
+                                  {week.opponentPoints === undefined
+                                    ? "-"
+                                    : week.won === undefined
+                                    ? "T"
+                                    : week.won
+                                    ? "W"
+                                    : "L"}
+                                  {week.flipped && " (would have won)"}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+
+                        {team.weeks
+                          .filter((week) => week.week === selectedWeek)
+                          .map((week) => (
+                            <div
+                              key={week.week}
+                              style={{
+                                display: "flex",
+                                gap: 24,
+                                marginTop: 12,
+                              }}
+                            >
+                              {[
+                                {
+                                  title: "Started",
+                                  lineup: week.startedLineup,
+                                },
+                                {
+                                  title: "Optimal",
+                                  lineup: week.optimalLineup,
+                                },
+                              ].map(({ title, lineup }) => (
+                                <div key={title} style={{ flex: 1 }}>
+                                  <h4 style={{ margin: "0 0 8px 0" }}>
+                                    Week {week.week} {title} Lineup
+                                  </h4>
+                                  {lineup.map((p) => (
+                                    <div
+                                      key={p.playerKey}
+                                      style={{
+                                        display: "flex",
+                                        justifyContent: "space-between",
+                                        fontSize: "0.9em",
+                                        padding: "2px 0",
+                                      }}
+                                    >
+                                      <span>
+                                        <strong>{p.slot}</strong> {p.name}
+                                      </span>
+                                      <span>{p.points.toFixed(2)}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              ))}
+                            </div>
+                          ))}
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
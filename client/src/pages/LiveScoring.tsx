@@ -0,0 +1,328 @@
+import React, { useEffect, useRef, useState } from "react";
+
+interface LiveMatchupTeam {
+  teamKey: string;
+  teamName: string;
+  points: number;
+  projectedPoints: number;
+  winProbability?: number;
+}
+
+interface LiveMatchup {
+  status: string;
+  teams: LiveMatchupTeam[];
+}
+
+interface LiveStat {
+  stat: string;
+  value: number;
+  points: number;
+}
+
+interface LivePlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  teamKey: string;
+  selectedPosition: string;
+  points: number;
+  stats: LiveStat[];
+}
+
+interface LiveScoreboard {
+  leagueKey: string;
+  week: number;
+  updatedAt: string;
+  matchups: LiveMatchup[];
+  players: LivePlayer[];
+}
+
+interface PlayerStatUpdate {
+  playerKey: string;
+  name: string;
+  teamKey: string;
+  points: number;
+  delta: number;
+  bigPlay: boolean;
+  stats: LiveStat[];
+}
+
+interface LiveScoringProps {
+  leagueKey: string;
+}
+
+// How long a big play stays highlighted
+const FLASH_MS = 4000;
+const MAX_PLAYS = 20;
+
+/**
+ * The current week's matchups, updated as the server pushes changes over
+ * Server-Sent Events. Big plays flash the player's team
+ */
+export default function LiveScoring({ leagueKey }: LiveScoringProps) {
+  const [live, setLive] = useState(false);
+  const [scoreboard, setScoreboard] = useState<LiveScoreboard | null>(null);
+  const [plays, setPlays] = useState<PlayerStatUpdate[]>([]);
+  const [flashing, setFlashing] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string>("");
+  const sourceRef = useRef<EventSource | null>(null);
+
+  // Close the stream when leaving the page or switching leagues
+  useEffect(() => stopLive, [leagueKey]);
+
+  function flash(key: string) {
+    setFlashing((keys) => new Set(keys).add(key));
+    setTimeout(() => {
+      setFlashing((keys) => {
+        const next = new Set(keys);
+        next.delete(key);
+        return next;
+      });
+    }, FLASH_MS);
+  }
+
+  function updateTeam(teamKey: string, changes: Partial<LiveMatchupTeam>) {
+    setScoreboard((current) =>
+      current
+        ? {
+            ...current,
+            matchups: current.matchups.map((m) => ({
+              ...m,
+              teams: m.teams.map((t) =>
+                t.teamKey === teamKey ? { ...t, ...changes } : t
+              ),
+            })),
+          }
+        : current
+    );
+  }
+
+  function startLive() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    stopLive();
+
+    const source = new EventSource(
+      `/api/league/${encodeURIComponent(leagueKey)}/live`
+    );
+    sourceRef.current = source;
+    setLive(true);
+    setStatus("Connecting...");
+
+    source.addEventListener("snapshot", (e) => {
+      setScoreboard(JSON.parse((e as MessageEvent).data));
+      setStatus("");
+    });
+    source.addEventListener("score", (e) => {
+      const update = JSON.parse((e as MessageEvent).data);
+      updateTeam(update.teamKey, { points: update.points });
+    });
+    source.addEventListener("winProbability", (e) => {
+      const update = JSON.parse((e as MessageEvent).data);
+      updateTeam(update.teamKey, { winProbability: update.winProbability });
+    });
+    source.addEventListener("stat", (e) => {
+      const update: PlayerStatUpdate = JSON.parse((e as MessageEvent).data);
+      setScoreboard((current) => {
+        if (!current) return current;
+        const existing = current.players.find(
+          (p) => p.playerKey === update.playerKey
+        );
+        const player: LivePlayer = {
+          position: "",
+          selectedPosition: "",
+          ...existing,
+          playerKey: update.playerKey,
+          name: update.name,
+          teamKey: update.teamKey,
+          points: update.points,
+          stats: update.stats,
+        };
+        return {
+          ...current,
+          players: [
+            ...current.players.filter((p) => p.playerKey !== update.playerKey),
+            player,
+          ],
+        };
+      });
+      setPlays((current) => [update, ...current].slice(0, MAX_PLAYS));
+      if (update.bigPlay) {
+        flash(update.teamKey);
+        flash(update.playerKey);
+      }
+    });
+    // Failed polls; the stream stays open and tries again
+    source.addEventListener("error", (e) => {
+      const data = (e as MessageEvent).data;
+      if (data) {
+        setStatus(JSON.parse(data).error);
+      } else if (source.readyState !== EventSource.CLOSED) {
+        setStatus("Connection lost, reconnecting...");
+      }
+    });
+  }
+
+  function stopLive() {
+    sourceRef.current?.close();
+    sourceRef.current = null;
+    setLive(false);
+    setStatus("");
+  }
+
+  const playersFor = (teamKey: string) =>
+    (scoreboard?.players || [])
+      .filter((p) => p.teamKey === teamKey)
+      .sort((a, b) => b.points - a.points);
+
+  return (
+    <div>
+      <h2>Live Scoring</h2>
+      <p>
+        This week's matchups in league {leagueKey || "(none selected)"}, updated
+        as games are played. Plays worth a touchdown or more flash.
+      </p>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <button
+          onClick={live ? stopLive : startLive}
+          style={{ padding: "8px 16px" }}
+        >
+          {live ? "Stop" : "Go Live"}
+        </button>
+        {live && !status && scoreboard && (
+          <span style={{ color: "#2ca02c", fontWeight: "bold" }}>
+            ● LIVE (week {scoreboard.week}, updated{" "}
+            {new Date(scoreboard.updatedAt).toLocaleTimeString()})
+          </span>
+        )}
+        {status && <span style={{ color: "#666" }}>{status}</span>}
+      </div>
+
+      {scoreboard && (
+        <div
+          style={{
+            display: "grid",
+            gridTemplateColumns: "repeat(auto-fill, minmax(360px, 1fr))",
+            gap: 12,
+            marginTop: 24,
+          }}
+        >
+          {scoreboard.matchups.map((matchup, i) => (
+            <div
+              key={i}
+              style={{
+                padding: 12,
+                borderRadius: 8,
+                border: matchup.teams.some((t) => flashing.has(t.teamKey))
+                  ? "2px solid #f0ad4e"
+                  : "1px solid #ddd",
+                background: matchup.teams.some((t) => flashing.has(t.teamKey))
+                  ? "#fff8e6"
+                  : "white",
+                transition: "background 0.5s",
+              }}
+            >
+              {matchup.teams.map((team) => (
+                <div key={team.teamKey} style={{ marginBottom: 8 }}>
+                  <div
+                    style={{
+                      display: "flex",
+                      justifyContent: "space-between",
+                      fontWeight: "bold",
+                    }}
+                  >
+                    <span>{team.teamName}</span>
+                    <span>
+                      {team.points.toFixed(2)}{" "}
+                      <span
+                        style={{
+                          color: "#999",
+                          fontSize: "0.85em",
+                          fontWeight: "normal",
+                        }}
+                      >
+                        (proj {team.projectedPoints.toFixed(2)})
+                      </span>
+                    </span>
+                  </div>
+                  {team.winProbability !== undefined && (
+                    <>
+                      <div
+                        style={{
+                          height: 6,
+                          background: "#eee",
+                          borderRadius: 3,
+                          margin: "4px 0",
+                        }}
+                        title="Win probability"
+                      >
+                        <div
+                          style={{
+                            width: `${team.winProbability * 100}%`,
+                            height: "100%",
+                            background: "#1f77b4",
+                            borderRadius: 3,
+                            transition: "width 0.5s",
+                          }}
+                        />
+                      </div>
+                      <div style={{ fontSize: "0.8em", color: "#666" }}>
+                        {(team.winProbability * 100).toFixed(0)}% to win
+                      </div>
+                    </>
+                  )}
+                  {playersFor(team.teamKey).map((player) => (
+                    <div
+                      key={player.playerKey}
+                      style={{
+                        display: "flex",
+                        justifyContent: "space-between",
+                        fontSize: "0.85em",
+                        padding: "2px 4px",
+                        background: flashing.has(player.playerKey)
+                          ? "#ffe0a3"
+                          : "transparent",
+                        color:
+                          player.selectedPosition === "BN" ? "#999" : "inherit",
+                      }}
+                    >
+                      <span>
+                        {player.name} ({player.selectedPosition || "?"})
+                      </span>
+                      <span>{player.points.toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {plays.length > 0 && (
+        <div style={{ marginTop: 24 }}>
+          <h3>Latest Plays</h3>
+          <ul style={{ paddingLeft: 20 }}>
+            {plays.map((play, i) => (
+              <li
+                key={i}
+                style={{ fontWeight: play.bigPlay ? "bold" : "normal" }}
+              >
+                {play.bigPlay && "BIG PLAY: "}
+                {play.name} {play.delta >= 0 ? "+" : ""}
+                {play.delta.toFixed(2)} ({play.points.toFixed(2)} total
+                {play.stats.length > 0 &&
+                  `: ${play.stats
+                    .map((s) => `${s.value} ${s.stat}`)
+                    .join(", ")}`}
+                )
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
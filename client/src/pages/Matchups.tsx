@@ -0,0 +1,251 @@
+import React, { useState } from "react";
+import axios from "axios";
+import WinProbabilityChart, {
+  WinProbabilityPoint,
+} from "../components/WinProbabilityChart";
+
+interface MatchupTeam {
+  teamKey: string;
+  teamName: string;
+  points: number;
+  projectedPoints: number;
+  winProbability?: number;
+  expectedPoints?: number;
+}
+
+interface Matchup {
+  week: number;
+  status: string;
+  isPlayoffs: boolean;
+  isConsolation: boolean;
+  isTied: boolean;
+  winnerTeamKey?: string;
+  margin: number;
+  teams: MatchupTeam[];
+  winProbabilityTimeline?: WinProbabilityPoint[];
+}
+
+interface MatchupsResponse {
+  leagueKey: string;
+  weeks: number[];
+  matchups: Matchup[];
+}
+
+interface MatchupsProps {
+  leagueKey: string;
+  matchupsUrl?: string; // Defaults to the league's matchups route
+}
+
+// Margins used to flag notable games
+const CLOSE_GAME_MARGIN = 5;
+const BLOWOUT_MARGIN = 40;
+
+function matchupHighlight(matchup: Matchup): "close" | "blowout" | null {
+  if (matchup.status !== "postevent" || matchup.teams.length < 2) return null;
+  if (matchup.margin <= CLOSE_GAME_MARGIN) return "close";
+  if (matchup.margin >= BLOWOUT_MARGIN) return "blowout";
+  return null;
+}
+
+export default function Matchups({ leagueKey, matchupsUrl }: MatchupsProps) {
+  const [week, setWeek] = useState<string>("");
+  const [data, setData] = useState<MatchupsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function fetchMatchups() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<MatchupsResponse>(
+        matchupsUrl || `/api/league/${encodeURIComponent(leagueKey)}/matchups`,
+        { params: week ? { week: Number(week) } : {} }
+      );
+      setData(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to fetch matchups"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Group matchups by week, most recent week first
+  const weeks = data
+    ? Array.from(new Set(data.matchups.map((m) => m.week))).sort(
+        (a, b) => b - a
+      )
+    : [];
+
+  return (
+    <div>
+      <h2>Head-to-Head Matchups</h2>
+      <p>
+        Every game in league {leagueKey || "(none selected)"}. Games decided by{" "}
+        {CLOSE_GAME_MARGIN} points or fewer are highlighted as close games;
+        games decided by {BLOWOUT_MARGIN}+ points are blowouts.
+      </p>
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <select
+          value={week}
+          onChange={(e) => setWeek(e.target.value)}
+          style={{ padding: 8 }}
+          disabled={loading}
+        >
+          <option value="">All Weeks</option>
+          {Array.from({ length: 18 }, (_, i) => i + 1).map((w) => (
+            <option key={w} value={w}>
+              Week {w}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={fetchMatchups}
+          style={{ padding: "8px 16px" }}
+          disabled={loading}
+        >
+          {loading ? "Loading..." : "Load Matchups"}
+        </button>
+      </div>
+
+      {data && data.matchups.length === 0 && (
+        <p style={{ marginTop: 24 }}>No matchups found.</p>
+      )}
+
+      {weeks.map((w) => (
+        <div key={w} style={{ marginTop: 24 }}>
+          <h3>Week {w}</h3>
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "repeat(auto-fill, minmax(320px, 1fr))",
+              gap: 12,
+            }}
+          >
+            {data!.matchups
+              .filter((m) => m.week === w)
+              .map((matchup, i) => {
+                const highlight = matchupHighlight(matchup);
+                return (
+                  <div
+                    key={i}
+                    style={{
+                      padding: 12,
+                      borderRadius: 8,
+                      border:
+                        highlight === "close"
+                          ? "2px solid #f0ad4e"
+                          : highlight === "blowout"
+                          ? "2px solid #d62728"
+                          : "1px solid #ddd",
+                      background:
+                        highlight === "close"
+                          ? "#fff8e6"
+                          : highlight === "blowout"
+                          ? "#fdecea"
+                          : "white",
+                    }}
+                  >
+                    <div
+                      style={{
+                        display: "flex",
+                        gap: 6,
+                        fontSize: "0.8em",
+                        marginBottom: 8,
+                        color: "#666",
+                      }}
+                    >
+                      {matchup.isPlayoffs && (
+                        <span style={{ color: "#2ca02c", fontWeight: "bold" }}>
+                          PLAYOFFS
+                        </span>
+                      )}
+                      {matchup.isConsolation && <span>CONSOLATION</span>}
+                      {highlight === "close" && (
+                        <span style={{ color: "#b36b00", fontWeight: "bold" }}>
+                          CLOSE GAME
+                        </span>
+                      )}
+                      {highlight === "blowout" && (
+                        <span style={{ color: "#d62728", fontWeight: "bold" }}>
+                          BLOWOUT
+                        </span>
+                      )}
+                      {matchup.status !== "postevent" && (
+                        <span>
+                          {matchup.status === "midevent"
+                            ? "IN PROGRESS"
+                            : "UPCOMING"}
+                        </span>
+                      )}
+                    </div>
+                    {matchup.teams.map((team) => (
+                      <div
+                        key={team.teamKey}
+                        style={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          padding: "4px 0",
+                          fontWeight:
+                            matchup.winnerTeamKey === team.teamKey
+                              ? "bold"
+                              : "normal",
+                        }}
+                      >
+                        <span>
+                          {team.teamName}
+                          {team.winProbability !== undefined && (
+                            <span
+                              style={{
+                                color: "#1f77b4",
+                                fontSize: "0.85em",
+                                fontWeight: "normal",
+                              }}
+                            >
+                              {" "}
+                              {(team.winProbability * 100).toFixed(0)}%
+                            </span>
+                          )}
+                        </span>
+                        <span>
+                          {team.points.toFixed(2)}{" "}
+                          <span style={{ color: "#999", fontSize: "0.85em" }}>
+                            (
+                            {team.expectedPoints !== undefined
+                              ? `on pace for ${team.expectedPoints.toFixed(2)}`
+                              : `proj ${team.projectedPoints.toFixed(2)}`}
+                            )
+                          </span>
+                        </span>
+                      </div>
+                    ))}
+                    <div
+                      style={{
+                        fontSize: "0.85em",
+                        color: "#666",
+                        marginTop: 4,
+                      }}
+                    >
+                      {matchup.isTied
+                        ? "Tied"
+                        : `Margin: ${matchup.margin.toFixed(2)}`}
+                    </div>
+                    {matchup.winProbabilityTimeline && (
+                      <WinProbabilityChart
+                        teams={matchup.teams}
+                        timeline={matchup.winProbabilityTimeline}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -90,6 +90,19 @@ export default function PlayerStats({ initialTeamKey = "" }: PlayerStatsProps) {
   const [selectedPlayer, setSelectedPlayer] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<SortOption>("points");
   const [viewMode, setViewMode] = useState<ViewMode>("chart");
+  const [scoringProfiles, setScoringProfiles] = useState<
+    { id: string; name: string }[]
+  >([]);
+  const [scoringProfile, setScoringProfile] = useState<string>("");
+
+  React.useEffect(() => {
+    axios
+      .get("/api/scoring-profiles")
+      .then((res) => setScoringProfiles(res.data.profiles || []))
+      .catch(() => {
+        // Not logged in or no profiles - league scoring only
+      });
+  }, []);
 
   // Auto-load team players on mount if teamKey provided
   React.useEffect(() => {
@@ -167,6 +180,7 @@ export default function PlayerStats({ initialTeamKey = "" }: PlayerStatsProps) {
           teamKey, // Pass teamKey to use efficient roster-based fetching
           startWeek,
           endWeek,
+          ...(scoringProfile && { scoringProfile }),
         },
       });
 
@@ -252,6 +266,7 @@ export default function PlayerStats({ initialTeamKey = "" }: PlayerStatsProps) {
           leagueKey, // Pass leagueKey for calculating points for searched players
           startWeek,
           endWeek,
+          ...(scoringProfile && { scoringProfile }),
         },
       });
 
@@ -479,6 +494,18 @@ export default function PlayerStats({ initialTeamKey = "" }: PlayerStatsProps) {
               placeholder="End Week"
               style={{ padding: 8, width: 100 }}
             />
+            <select
+              value={scoringProfile}
+              onChange={(e) => setScoringProfile(e.target.value)}
+              style={{ padding: 8 }}
+            >
+              <option value="">League scoring</option>
+              {scoringProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.name}
+                </option>
+              ))}
+            </select>
             {(!data || newlySelectedKeys.length > 0) && (
               <button
                 onClick={fetchPlayerStats}
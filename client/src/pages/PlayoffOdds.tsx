@@ -0,0 +1,207 @@
+import React, { useState } from "react";
+import axios from "axios";
+import LineChartVisx from "../components/LineChartVisx";
+
+interface TeamPlayoffOdds {
+  teamKey: string;
+  teamName: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  projectedWins: number;
+  playoffOdds: number;
+  byeOdds: number;
+  seedOdds: number[];
+}
+
+interface PlayoffOddsTrendPoint {
+  week: number;
+  teamKey: string;
+  teamName: string;
+  playoffOdds: number;
+}
+
+interface PlayoffOddsResponse {
+  leagueKey: string;
+  simulations: number;
+  numPlayoffTeams: number;
+  numPlayoffByes: number;
+  playoffStartWeek: number;
+  lastCompletedWeek: number;
+  teams: TeamPlayoffOdds[];
+  trend: PlayoffOddsTrendPoint[];
+}
+
+interface PlayoffOddsProps {
+  leagueKey: string;
+}
+
+// Shade a percentage cell from white (0%) to green (100%)
+function oddsBackground(percent: number): string {
+  return `rgba(44, 160, 44, ${(percent / 100) * 0.6})`;
+}
+
+export default function PlayoffOdds({ leagueKey }: PlayoffOddsProps) {
+  const [data, setData] = useState<PlayoffOddsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function fetchPlayoffOdds() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<PlayoffOddsResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/playoff-odds`
+      );
+      setData(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to fetch playoff odds"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const numSeeds = data ? data.teams.length : 0;
+
+  return (
+    <div>
+      <h2>Playoff Odds</h2>
+      <p>
+        Simulates the rest of the regular season using each team's scoring so
+        far. Seeds are decided by record, then points for.
+      </p>
+      <button
+        onClick={fetchPlayoffOdds}
+        style={{ padding: "8px 16px" }}
+        disabled={loading}
+      >
+        {loading ? "Simulating..." : "Run Simulation"}
+      </button>
+
+      {data && (
+        <>
+          <p style={{ color: "#666", fontSize: "0.9em" }}>
+            {data.simulations.toLocaleString()} simulations after week{" "}
+            {data.lastCompletedWeek} • {data.numPlayoffTeams} playoff teams •{" "}
+            {data.numPlayoffByes} byes • playoffs start week{" "}
+            {data.playoffStartWeek}
+          </p>
+
+          <div
+            style={{
+              display: "flex",
+              gap: 24,
+              flexWrap: "wrap",
+              alignItems: "flex-start",
+              marginTop: 16,
+            }}
+          >
+            <div style={{ flex: "1 1 500px", overflow: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ background: "#f0f0f0" }}>
+                    <th style={{ padding: 8, textAlign: "left" }}>Team</th>
+                    <th style={{ padding: 8, textAlign: "center" }}>Record</th>
+                    <th style={{ padding: 8, textAlign: "right" }}>
+                      Proj. Wins
+                    </th>
+                    <th style={{ padding: 8, textAlign: "right" }}>Playoffs</th>
+                    <th style={{ padding: 8, textAlign: "right" }}>Bye</th>
+                    {Array.from({ length: numSeeds }, (_, i) => (
+                      <th
+                        key={i}
+                        style={{
+                          padding: 8,
+                          textAlign: "right",
+                          borderLeft:
+                            i === data.numPlayoffTeams
+                              ? "2px solid #999"
+                              : undefined,
+                        }}
+                      >
+                        #{i + 1}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.teams.map((team) => (
+                    <tr
+                      key={team.teamKey}
+                      style={{ borderBottom: "1px solid #e0e0e0" }}
+                    >
+                      <td style={{ padding: 8, fontWeight: "bold" }}>
+                        {team.teamName}
+                      </td>
+                      <td style={{ padding: 8, textAlign: "center" }}>
+                        {team.wins}-{team.losses}-{team.ties}
+                      </td>
+                      <td style={{ padding: 8, textAlign: "right" }}>
+                        {team.projectedWins.toFixed(1)}
+                      </td>
+                      <td
+                        style={{
+                          padding: 8,
+                          textAlign: "right",
+                          fontWeight: "bold",
+                          background: oddsBackground(team.playoffOdds),
+                        }}
+                      >
+                        {team.playoffOdds.toFixed(1)}%
+                      </td>
+                      <td
+                        style={{
+                          padding: 8,
+                          textAlign: "right",
+                          background: oddsBackground(team.byeOdds),
+                        }}
+                      >
+                        {team.byeOdds.toFixed(1)}%
+                      </td>
+                      {team.seedOdds.map((odds, i) => (
+                        <td
+                          key={i}
+                          style={{
+                            padding: 8,
+                            textAlign: "right",
+                            fontSize: "0.85em",
+                            background: oddsBackground(odds),
+                            borderLeft:
+                              i === data.numPlayoffTeams
+                                ? "2px solid #999"
+                                : undefined,
+                          }}
+                        >
+                          {odds >= 0.05 ? odds.toFixed(1) : "-"}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div style={{ flex: "1 1 500px" }}>
+              <h3 style={{ marginTop: 0 }}>Playoff Odds by Week (%)</h3>
+              <LineChartVisx
+                data={data.trend.map((p) => ({
+                  week: p.week,
+                  teamName: p.teamName,
+                  score: p.playoffOdds,
+                }))}
+              />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,459 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { Group } from "@visx/group";
+import { scaleLinear, scaleOrdinal } from "@visx/scale";
+import { Line, LinePath } from "@visx/shape";
+import { AxisBottom, AxisLeft } from "@visx/axis";
+import { LegendOrdinal } from "@visx/legend";
+
+interface ProjectionAccuracy {
+  samples: number;
+  mae: number;
+  rmse: number;
+  bias: number;
+  r2: number;
+}
+
+interface CalibrationBucket {
+  minProjected: number;
+  maxProjected?: number;
+  samples: number;
+  averageProjected: number;
+  averageActual: number;
+}
+
+interface ProjectionSourceReport {
+  source: string;
+  kind: "sleeper" | "yahoo" | "csv";
+  overall: ProjectionAccuracy;
+  byPosition: (ProjectionAccuracy & { position: string })[];
+  byWeek: (ProjectionAccuracy & { week: number })[];
+  byTier: (ProjectionAccuracy & { tier: string })[];
+  calibration: CalibrationBucket[];
+}
+
+interface ProjectionAccuracyResponse {
+  leagueKey: string;
+  weekRange: { start: number; end: number };
+  players: number;
+  sources: ProjectionSourceReport[];
+}
+
+interface ProjectionAccuracyProps {
+  leagueKey: string;
+}
+
+type Breakdown = "position" | "week" | "tier";
+
+const COLORS = ["#1f77b4", "#ff7f0e", "#2ca02c", "#d62728", "#9467bd"];
+
+const cell: React.CSSProperties = { padding: 8, textAlign: "right" };
+
+/**
+ * Average result against average projection per bucket, one line per source.
+ * Points on the dashed diagonal scored what they were projected to
+ */
+function CalibrationChart({ sources }: { sources: ProjectionSourceReport[] }) {
+  const plotted = sources.filter((s) => s.calibration.length > 0);
+  if (plotted.length === 0) {
+    return <div>No projections to plot</div>;
+  }
+
+  const width = 500;
+  const height = 400;
+  const margin = { top: 20, right: 20, bottom: 50, left: 60 };
+
+  const maxPoints = Math.max(
+    10,
+    ...plotted.flatMap((s) =>
+      s.calibration.flatMap((b) => [b.averageProjected, b.averageActual])
+    )
+  );
+  const xScale = scaleLinear<number>({
+    domain: [0, maxPoints],
+    range: [margin.left, width - margin.right],
+    nice: true,
+  });
+  const yScale = scaleLinear<number>({
+    domain: [0, maxPoints],
+    range: [height - margin.bottom, margin.top],
+    nice: true,
+  });
+  const colorScale = scaleOrdinal<string, string>({
+    domain: plotted.map((s) => s.source),
+    range: COLORS,
+  });
+
+  return (
+    <div>
+      <svg width={width} height={height}>
+        <rect x={0} y={0} width={width} height={height} fill="#fff" rx={6} />
+        <Group>
+          <AxisLeft scale={yScale} left={margin.left} label="Average actual" />
+          <AxisBottom
+            scale={xScale}
+            top={height - margin.bottom}
+            label="Average projected"
+          />
+          <Line
+            from={{ x: xScale(0), y: yScale(0) }}
+            to={{ x: xScale(maxPoints), y: yScale(maxPoints) }}
+            stroke="#ccc"
+            strokeDasharray="4,4"
+          />
+          {plotted.map((s) => (
+            <Group key={s.source}>
+              <LinePath
+                data={s.calibration}
+                x={(b) => xScale(b.averageProjected)}
+                y={(b) => yScale(b.averageActual)}
+                stroke={colorScale(s.source)}
+                strokeWidth={2}
+              />
+              {s.calibration.map((b) => (
+                <circle
+                  key={b.minProjected}
+                  cx={xScale(b.averageProjected)}
+                  cy={yScale(b.averageActual)}
+                  // Bigger buckets are more trustworthy
+                  r={Math.min(3 + Math.sqrt(b.samples), 10)}
+                  fill={colorScale(s.source)}
+                  fillOpacity={0.6}
+                >
+                  <title>
+                    {s.source}: projected {b.minProjected}
+                    {b.maxProjected !== undefined
+                      ? `-${b.maxProjected}`
+                      : "+"}{" "}
+                    ({b.samples} player-weeks), averaged{" "}
+                    {b.averageActual.toFixed(1)}
+                  </title>
+                </circle>
+              ))}
+            </Group>
+          ))}
+        </Group>
+      </svg>
+      <LegendOrdinal
+        scale={colorScale}
+        direction="row"
+        labelMargin="0 15px 0 0"
+      />
+    </div>
+  );
+}
+
+function formatMetric(accuracy: ProjectionAccuracy, value: number) {
+  return accuracy.samples > 0 ? value.toFixed(2) : "-";
+}
+
+/**
+ * How well each projection source predicted the league's player pool,
+ * with CSV imports compared alongside Sleeper and Yahoo
+ */
+export default function ProjectionAccuracy({
+  leagueKey,
+}: ProjectionAccuracyProps) {
+  const [data, setData] = useState<ProjectionAccuracyResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [breakdown, setBreakdown] = useState<Breakdown>("position");
+  const [importName, setImportName] = useState("");
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  async function fetchReport() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<ProjectionAccuracyResponse>(
+        "/api/analytics/projections",
+        { params: { leagueKey } }
+      );
+      setData(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to analyze projections"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function importProjections() {
+    if (!leagueKey || !importName || !importFile) {
+      alert("Choose a league, a name and a CSV file to import");
+      return;
+    }
+    setImporting(true);
+    try {
+      const res = await axios.post("/api/analytics/projections/imports", {
+        leagueKey,
+        source: importName,
+        csv: await importFile.text(),
+      });
+      alert(
+        `Imported ${res.data.rows} projections for week${
+          res.data.weeks.length > 1 ? "s" : ""
+        } ${res.data.weeks.join(", ")}`
+      );
+      setImportName("");
+      setImportFile(null);
+      await fetchReport();
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to import projections"
+      );
+    } finally {
+      setImporting(false);
+    }
+  }
+
+  async function deleteImport(source: string) {
+    if (!confirm(`Delete the projections imported as ${source}?`)) return;
+    try {
+      await axios.delete(
+        `/api/analytics/projections/imports/${encodeURIComponent(source)}`,
+        { params: { leagueKey } }
+      );
+      await fetchReport();
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to delete imported projections"
+      );
+    }
+  }
+
+  // Rows of the breakdown table: the groups any source has results for
+  const groups: Array<{
+    label: string;
+    find: (s: ProjectionSourceReport) => ProjectionAccuracy | undefined;
+  }> = [];
+  if (data) {
+    if (breakdown === "position") {
+      const positions = new Set(
+        data.sources.flatMap((s) => s.byPosition.map((p) => p.position))
+      );
+      for (const position of Array.from(positions).sort()) {
+        groups.push({
+          label: position,
+          find: (s) => s.byPosition.find((p) => p.position === position),
+        });
+      }
+    } else if (breakdown === "week") {
+      const weeks = new Set(
+        data.sources.flatMap((s) => s.byWeek.map((w) => w.week))
+      );
+      for (const week of Array.from(weeks).sort((a, b) => a - b)) {
+        groups.push({
+          label: `Week ${week}`,
+          find: (s) => s.byWeek.find((w) => w.week === week),
+        });
+      }
+    } else {
+      for (const tier of data.sources[0]?.byTier || []) {
+        groups.push({
+          label: `${tier.tier} projected`,
+          find: (s) => s.byTier.find((t) => t.tier === tier.tier),
+        });
+      }
+    }
+  }
+
+  return (
+    <div>
+      <h2>Projection Accuracy</h2>
+      <p>
+        How close each source's weekly projections came to what players in
+        league {leagueKey || "(none selected)"} scored in completed weeks:
+        everyone rostered, plus free agents at the same positions. Yahoo only
+        projects rostered players. Bias above zero means a source projected more
+        points than players scored. The first load fetches every team's roster
+        for every week, so it can take a minute.
+      </p>
+      <button
+        onClick={fetchReport}
+        style={{ padding: "8px 16px" }}
+        disabled={loading}
+      >
+        {loading ? "Analyzing..." : "Analyze Projections"}
+      </button>
+
+      <div
+        style={{
+          marginTop: 16,
+          padding: 12,
+          border: "1px solid #ddd",
+          borderRadius: 8,
+        }}
+      >
+        <strong>Import projections from CSV</strong>
+        <p style={{ color: "#666", fontSize: "0.9em", margin: "4px 0 8px" }}>
+          One row per player and week in your league's points, with a header
+          row: <code>week</code>, <code>points</code> and a Yahoo{" "}
+          <code>player_id</code> or <code>name</code> (<code>position</code>{" "}
+          optional). Importing under an existing name replaces it.
+        </p>
+        <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+          <input
+            placeholder="Source name, e.g. FantasyPros"
+            value={importName}
+            onChange={(e) => setImportName(e.target.value)}
+            style={{ padding: 8 }}
+          />
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+          />
+          <button
+            onClick={importProjections}
+            style={{ padding: "8px 16px" }}
+            disabled={importing}
+          >
+            {importing ? "Importing..." : "Import"}
+          </button>
+        </div>
+      </div>
+
+      {data && (
+        <>
+          <p style={{ color: "#666", fontSize: "0.9em" }}>
+            Weeks {data.weekRange.start}-{data.weekRange.end} • {data.players}{" "}
+            players
+          </p>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", marginTop: 16 }}
+          >
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ padding: 8, textAlign: "left" }}>Source</th>
+                <th style={cell}>Player-Weeks</th>
+                <th style={cell}>MAE</th>
+                <th style={cell}>RMSE</th>
+                <th style={cell}>Bias</th>
+                <th style={cell}>R²</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {data.sources.map((s) => (
+                <tr
+                  key={s.source}
+                  style={{ borderBottom: "1px solid #e0e0e0" }}
+                >
+                  <td style={{ padding: 8, fontWeight: "bold" }}>
+                    {s.source}
+                    {s.kind === "csv" && (
+                      <span style={{ color: "#999", fontWeight: "normal" }}>
+                        {" "}
+                        (CSV)
+                      </span>
+                    )}
+                  </td>
+                  <td style={cell}>{s.overall.samples}</td>
+                  <td style={cell}>{formatMetric(s.overall, s.overall.mae)}</td>
+                  <td style={cell}>
+                    {formatMetric(s.overall, s.overall.rmse)}
+                  </td>
+                  <td style={cell}>
+                    {formatMetric(s.overall, s.overall.bias)}
+                  </td>
+                  <td style={cell}>{formatMetric(s.overall, s.overall.r2)}</td>
+                  <td style={{ padding: 8, textAlign: "right" }}>
+                    {s.kind === "csv" && (
+                      <button onClick={() => deleteImport(s.source)}>
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          <h3>Calibration</h3>
+          <CalibrationChart sources={data.sources} />
+
+          <h3>Breakdown</h3>
+          <select
+            value={breakdown}
+            onChange={(e) => setBreakdown(e.target.value as Breakdown)}
+            style={{ padding: 8 }}
+          >
+            <option value="position">By position</option>
+            <option value="week">By week</option>
+            <option value="tier">By projected points</option>
+          </select>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", marginTop: 12 }}
+          >
+            <thead>
+              <tr style={{ background: "#f0f0f0" }}>
+                <th style={{ padding: 8, textAlign: "left" }} />
+                {data.sources.map((s) => (
+                  <th key={s.source} style={cell} colSpan={3}>
+                    {s.source}
+                  </th>
+                ))}
+              </tr>
+              <tr style={{ background: "#f8f8f8", fontSize: "0.85em" }}>
+                <th />
+                {data.sources.map((s) => (
+                  <React.Fragment key={s.source}>
+                    <th style={cell}>MAE</th>
+                    <th style={cell}>Bias</th>
+                    <th style={cell}>R²</th>
+                  </React.Fragment>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((group) => (
+                <tr
+                  key={group.label}
+                  style={{ borderBottom: "1px solid #e0e0e0" }}
+                >
+                  <td style={{ padding: 8, fontWeight: "bold" }}>
+                    {group.label}
+                  </td>
+                  {data.sources.map((s) => {
+                    const accuracy = group.find(s);
+                    return (
+                      <React.Fragment key={s.source}>
+                        <td style={cell}>
+                          {accuracy
+                            ? formatMetric(accuracy, accuracy.mae)
+                            : "-"}
+                        </td>
+                        <td style={cell}>
+                          {accuracy
+                            ? formatMetric(accuracy, accuracy.bias)
+                            : "-"}
+                        </td>
+                        <td style={cell}>
+                          {accuracy ? formatMetric(accuracy, accuracy.r2) : "-"}
+                        </td>
+                      </React.Fragment>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+interface StatPoints {
+  [statId: string]: number;
+}
+
+interface ScoringProfileInput {
+  name: string;
+  description?: string;
+  overrides: StatPoints;
+  positionOverrides?: { [position: string]: StatPoints };
+}
+
+interface ScoringProfile extends ScoringProfileInput {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface ScoringProfilesProps {
+  leagueKey: string;
+}
+
+// Yahoo stat IDs shown by name in the editor
+const STAT_NAMES: { [statId: string]: string } = {
+  "4": "Passing Yards",
+  "5": "Passing TD",
+  "6": "Interception",
+  "9": "Rushing Yards",
+  "10": "Rushing TD",
+  "11": "Reception",
+  "12": "Receiving Yards",
+  "13": "Receiving TD",
+  "18": "Fumble Lost",
+  "79": "Passing 1st Down",
+  "80": "Receiving 1st Down",
+  "81": "Rushing 1st Down",
+};
+
+const PRESETS: ScoringProfileInput[] = [
+  { name: "Standard", overrides: { "11": 0 } },
+  { name: "Half PPR", overrides: { "11": 0.5 } },
+  { name: "Full PPR", overrides: { "11": 1 } },
+  { name: "6 Point Passing TD", overrides: { "5": 6 } },
+  {
+    name: "TE Premium",
+    overrides: { "11": 1 },
+    positionOverrides: { TE: { "11": 1.5 } },
+  },
+];
+
+type Row = { position: string; statId: string; points: string };
+
+function toRows(profile: ScoringProfileInput): Row[] {
+  const rows: Row[] = Object.entries(profile.overrides).map(
+    ([statId, points]) => ({ position: "", statId, points: String(points) })
+  );
+  for (const [position, overrides] of Object.entries(
+    profile.positionOverrides || {}
+  )) {
+    for (const [statId, points] of Object.entries(overrides)) {
+      rows.push({ position, statId, points: String(points) });
+    }
+  }
+  return rows;
+}
+
+function fromRows(
+  name: string,
+  description: string,
+  rows: Row[]
+): ScoringProfileInput {
+  const overrides: StatPoints = {};
+  const positionOverrides: { [position: string]: StatPoints } = {};
+
+  for (const row of rows) {
+    if (row.statId.trim() === "" || row.points.trim() === "") continue;
+    const position = row.position.trim().toUpperCase();
+    const points = Number(row.points);
+    if (position === "") {
+      overrides[row.statId.trim()] = points;
+    } else {
+      positionOverrides[position] = {
+        ...positionOverrides[position],
+        [row.statId.trim()]: points,
+      };
+    }
+  }
+
+  return {
+    name,
+    ...(description && { description }),
+    overrides,
+    ...(Object.keys(positionOverrides).length > 0 && { positionOverrides }),
+  };
+}
+
+function describeOverrides(profile: ScoringProfile): string {
+  const parts = toRows(profile).map((row) => {
+    const stat = STAT_NAMES[row.statId] || `Stat ${row.statId}`;
+    return `${row.position ? `${row.position} ` : ""}${stat}: ${row.points}`;
+  });
+  return parts.join(", ") || "No overrides";
+}
+
+export default function ScoringProfiles({ leagueKey }: ScoringProfilesProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rows, setRows] = useState<Row[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  async function fetchProfiles() {
+    try {
+      const res = await axios.get<{ profiles: ScoringProfile[] }>(
+        "/api/scoring-profiles"
+      );
+      setProfiles(res.data.profiles);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to fetch scoring profiles"
+      );
+    }
+  }
+
+  useEffect(() => {
+    fetchProfiles();
+  }, []);
+
+  function startEditing(profile: ScoringProfileInput, id: string | null) {
+    setEditingId(id);
+    setName(profile.name);
+    setDescription(profile.description || "");
+    setRows(toRows(profile));
+  }
+
+  function resetForm() {
+    setEditingId(null);
+    setName("");
+    setDescription("");
+    setRows([]);
+  }
+
+  function updateRow(index: number, changes: Partial<Row>) {
+    setRows(rows.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  }
+
+  async function saveProfile() {
+    if (!name.trim()) {
+      alert("Give the profile a name");
+      return;
+    }
+    setSaving(true);
+    try {
+      const body = fromRows(name.trim(), description.trim(), rows);
+      if (editingId) {
+        await axios.put(
+          `/api/scoring-profiles/${encodeURIComponent(editingId)}`,
+          body
+        );
+      } else {
+        await axios.post("/api/scoring-profiles", body);
+      }
+      resetForm();
+      await fetchProfiles();
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to save scoring profile"
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function deleteProfile(profile: ScoringProfile) {
+    if (!window.confirm(`Delete scoring profile "${profile.name}"?`)) return;
+    try {
+      await axios.delete(
+        `/api/scoring-profiles/${encodeURIComponent(profile.id)}`
+      );
+      if (editingId === profile.id) resetForm();
+      await fetchProfiles();
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to delete scoring profile"
+      );
+    }
+  }
+
+  return (
+    <div>
+      <h2>Scoring Profiles</h2>
+      <p>
+        Save "what-if" scoring rules and pick one on the standings or player
+        pages to see how your league would look under them. A profile only lists
+        the stats it changes, by Yahoo stat ID; everything else keeps your
+        league's scoring.
+        {leagueKey && (
+          <span style={{ color: "#666" }}> Current league: {leagueKey}</span>
+        )}
+      </p>
+
+      <table style={{ width: "100%", borderCollapse: "collapse" }}>
+        <thead>
+          <tr style={{ background: "#f0f0f0" }}>
+            <th style={{ padding: 8, textAlign: "left" }}>Name</th>
+            <th style={{ padding: 8, textAlign: "left" }}>ID</th>
+            <th style={{ padding: 8, textAlign: "left" }}>Changes</th>
+            <th style={{ padding: 8 }} />
+          </tr>
+        </thead>
+        <tbody>
+          {profiles.length === 0 && (
+            <tr>
+              <td colSpan={4} style={{ padding: 8, color: "#666" }}>
+                No scoring profiles yet
+              </td>
+            </tr>
+          )}
+          {profiles.map((profile) => (
+            <tr key={profile.id} style={{ borderBottom: "1px solid #f0f0f0" }}>
+              <td style={{ padding: 8 }}>
+                <strong>{profile.name}</strong>
+                {profile.description && (
+                  <div style={{ color: "#666", fontSize: "0.85em" }}>
+                    {profile.description}
+                  </div>
+                )}
+              </td>
+              <td style={{ padding: 8, fontFamily: "monospace" }}>
+                {profile.id}
+              </td>
+              <td style={{ padding: 8, fontSize: "0.9em" }}>
+                {describeOverrides(profile)}
+              </td>
+              <td
+                style={{ padding: 8, textAlign: "right", whiteSpace: "nowrap" }}
+              >
+                <button
+                  onClick={() => startEditing(profile, profile.id)}
+                  style={{ padding: "4px 12px", marginRight: 8 }}
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => deleteProfile(profile)}
+                  style={{ padding: "4px 12px" }}
+                >
+                  Delete
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div
+        style={{
+          marginTop: 24,
+          padding: 16,
+          border: "1px solid #e0e0e0",
+          borderRadius: 4,
+        }}
+      >
+        <h3 style={{ marginTop: 0 }}>
+          {editingId ? `Edit ${editingId}` : "New Profile"}
+        </h3>
+        {!editingId && (
+          <div style={{ marginBottom: 12 }}>
+            <span style={{ marginRight: 8 }}>Start from:</span>
+            {PRESETS.map((preset) => (
+              <button
+                key={preset.name}
+                onClick={() => startEditing(preset, null)}
+                style={{ padding: "4px 12px", marginRight: 8 }}
+              >
+                {preset.name}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <label style={{ display: "block", marginBottom: 8 }}>
+          <strong>Name:</strong>
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            style={{ padding: 8, width: 300, marginLeft: 8 }}
+          />
+        </label>
+        <label style={{ display: "block", marginBottom: 8 }}>
+          <strong>Description:</strong>
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            style={{ padding: 8, width: 400, marginLeft: 8 }}
+          />
+        </label>
+
+        <table style={{ borderCollapse: "collapse", marginTop: 8 }}>
+          <thead>
+            <tr>
+              <th style={{ padding: 4, textAlign: "left" }}>
+                Position (blank = all)
+              </th>
+              <th style={{ padding: 4, textAlign: "left" }}>Yahoo Stat ID</th>
+              <th style={{ padding: 4, textAlign: "left" }}>Points</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, i) => (
+              <tr key={i}>
+                <td style={{ padding: 4 }}>
+                  <input
+                    value={row.position}
+                    placeholder="e.g., TE"
+                    onChange={(e) => updateRow(i, { position: e.target.value })}
+                    style={{ padding: 6, width: 80 }}
+                  />
+                </td>
+                <td style={{ padding: 4 }}>
+                  <input
+                    value={row.statId}
+                    placeholder="e.g., 11"
+                    onChange={(e) => updateRow(i, { statId: e.target.value })}
+                    style={{ padding: 6, width: 80 }}
+                  />
+                  <span style={{ color: "#666", marginLeft: 8 }}>
+                    {STAT_NAMES[row.statId] || ""}
+                  </span>
+                </td>
+                <td style={{ padding: 4 }}>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={row.points}
+                    onChange={(e) => updateRow(i, { points: e.target.value })}
+                    style={{ padding: 6, width: 80 }}
+                  />
+                </td>
+                <td style={{ padding: 4 }}>
+                  <button
+                    onClick={() => setRows(rows.filter((_, j) => j !== i))}
+                    style={{ padding: "4px 8px" }}
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+          <button
+            onClick={() =>
+              setRows([...rows, { position: "", statId: "", points: "" }])
+            }
+            style={{ padding: "8px 16px" }}
+          >
+            Add Stat
+          </button>
+          <button
+            onClick={saveProfile}
+            style={{ padding: "8px 16px" }}
+            disabled={saving}
+          >
+            {saving ? "Saving..." : editingId ? "Save Changes" : "Create"}
+          </button>
+          {(editingId || name || rows.length > 0) && (
+            <button onClick={resetForm} style={{ padding: "8px 16px" }}>
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
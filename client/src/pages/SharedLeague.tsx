@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useParams } from "react-router-dom";
+import LineChartVisx, { WeekStatus } from "../components/LineChartVisx";
+import StandingsTable, { Team } from "../components/StandingsTable";
+import Matchups from "./Matchups";
+
+type Point = { week: number; teamName: string; score: number };
+
+interface SharedLeagueResponse {
+  link: {
+    slug: string;
+    leagueKey: string;
+    leagueName: string;
+    mode: "live" | "snapshot";
+    createdAt: string;
+    expiresAt: string | null;
+  };
+  league: {
+    leagueKey: string;
+    name: string;
+    season: number;
+    teams: Team[];
+    points: Point[];
+    weeks?: WeekStatus[]; // Missing from snapshots taken before week statuses
+  };
+}
+
+/**
+ * Read-only league page behind a share link (/s/:slug), no sign-in needed
+ */
+export default function SharedLeague() {
+  const { slug = "" } = useParams();
+  const [data, setData] = useState<SharedLeagueResponse | null>(null);
+  const [error, setError] = useState<string>("");
+  const [view, setView] = useState<"standings" | "matchups">("standings");
+
+  useEffect(() => {
+    fetchSharedLeague();
+  }, [slug]);
+
+  async function fetchSharedLeague() {
+    try {
+      const res = await axios.get<SharedLeagueResponse>(
+        `/api/shared/${encodeURIComponent(slug)}`
+      );
+      setData(res.data);
+    } catch (err: any) {
+      setError(
+        err?.response?.data?.error || err.message || "Failed to load league"
+      );
+    }
+  }
+
+  const tabStyle = (active: boolean): React.CSSProperties => ({
+    padding: "8px 16px",
+    background: active ? "white" : "transparent",
+    color: active ? "#1f77b4" : "white",
+    border: "2px solid white",
+    borderRadius: 4,
+    cursor: "pointer",
+    fontWeight: "bold",
+  });
+
+  return (
+    <div style={{ padding: 20 }}>
+      <div
+        style={{
+          background: "#1f77b4",
+          color: "white",
+          padding: "16px 20px",
+          margin: "-20px -20px 20px -20px",
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <h1 style={{ margin: 0 }}>
+          {data ? `${data.league.name} (${data.league.season})` : "Fantasy Viz"}
+        </h1>
+        {data && (
+          <div style={{ display: "flex", gap: 12 }}>
+            <button
+              onClick={() => setView("standings")}
+              style={tabStyle(view === "standings")}
+            >
+              League Standings
+            </button>
+            <button
+              onClick={() => setView("matchups")}
+              style={tabStyle(view === "matchups")}
+            >
+              Matchups
+            </button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div
+          style={{
+            background: "#ffebee",
+            padding: "8px 12px",
+            borderRadius: 4,
+          }}
+        >
+          {error}
+        </div>
+      )}
+
+      {data && (
+        <>
+          <p style={{ color: "#666", fontSize: "0.9em" }}>
+            Shared read-only view.{" "}
+            {data.link.mode === "snapshot"
+              ? `Snapshot from ${new Date(
+                  data.link.createdAt
+                ).toLocaleString()}.`
+              : "Updated live from Yahoo."}
+            {data.link.expiresAt &&
+              ` Link expires ${new Date(
+                data.link.expiresAt
+              ).toLocaleDateString()}.`}
+          </p>
+
+          {view === "standings" ? (
+            <>
+              <div style={{ marginTop: 24 }}>
+                <LineChartVisx
+                  data={data.league.points}
+                  weeks={data.league.weeks}
+                />
+              </div>
+              <div style={{ marginTop: 32 }}>
+                <h3>Team Standings</h3>
+                <StandingsTable teams={data.league.teams} />
+              </div>
+            </>
+          ) : (
+            <Matchups
+              leagueKey={data.league.leagueKey}
+              matchupsUrl={`/api/shared/${encodeURIComponent(slug)}/matchups`}
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+}
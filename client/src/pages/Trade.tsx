@@ -0,0 +1,376 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface RosterPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  selectedPosition: string;
+}
+
+interface TeamRoster {
+  teamKey: string;
+  teamName: string;
+  players: RosterPlayer[];
+}
+
+interface LeagueRostersResponse {
+  leagueKey: string;
+  week: number;
+  teams: TeamRoster[];
+}
+
+interface TradePlayerValue {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  restOfSeasonPoints: number;
+  hasProjections: boolean;
+}
+
+interface TradeLineupWeek {
+  week: number;
+  before: number;
+  after: number;
+  change: number;
+}
+
+interface TradeSideEvaluation {
+  teamKey: string;
+  teamName: string;
+  gives: TradePlayerValue[];
+  gets: TradePlayerValue[];
+  valueGiven: number;
+  valueReceived: number;
+  netValue: number;
+  lineupBefore: number;
+  lineupAfter: number;
+  lineupChange: number;
+  weeks: TradeLineupWeek[];
+}
+
+interface TradeEvaluationResponse {
+  leagueKey: string;
+  weekRange: { start: number; end: number };
+  sides: TradeSideEvaluation[];
+}
+
+interface TradeProps {
+  leagueKey: string;
+}
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function changeColor(value: number): string {
+  if (value > 0) return "#2ca02c";
+  if (value < 0) return "#d62728";
+  return "#666";
+}
+
+export default function Trade({ leagueKey }: TradeProps) {
+  const [rosters, setRosters] = useState<LeagueRostersResponse | null>(null);
+  const [teamKeys, setTeamKeys] = useState<[string, string]>(["", ""]);
+  const [gives, setGives] = useState<[string[], string[]]>([[], []]);
+  const [result, setResult] = useState<TradeEvaluationResponse | null>(null);
+  const [loadingRosters, setLoadingRosters] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+
+  async function fetchRosters() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoadingRosters(true);
+    try {
+      const res = await axios.get<LeagueRostersResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/rosters`
+      );
+      setRosters(res.data);
+      setTeamKeys(["", ""]);
+      setGives([[], []]);
+      setResult(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to fetch rosters"
+      );
+    } finally {
+      setLoadingRosters(false);
+    }
+  }
+
+  async function evaluateTrade() {
+    setEvaluating(true);
+    try {
+      const res = await axios.post<TradeEvaluationResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/trade/evaluate`,
+        {
+          sides: teamKeys.map((teamKey, i) => ({ teamKey, gives: gives[i] })),
+        }
+      );
+      setResult(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to evaluate trade"
+      );
+    } finally {
+      setEvaluating(false);
+    }
+  }
+
+  function selectTeam(side: 0 | 1, teamKey: string) {
+    const nextKeys: [string, string] = [...teamKeys];
+    nextKeys[side] = teamKey;
+    setTeamKeys(nextKeys);
+
+    const nextGives: [string[], string[]] = [...gives];
+    nextGives[side] = [];
+    setGives(nextGives);
+    setResult(null);
+  }
+
+  function togglePlayer(side: 0 | 1, playerKey: string) {
+    const nextGives: [string[], string[]] = [...gives];
+    nextGives[side] = gives[side].includes(playerKey)
+      ? gives[side].filter((k) => k !== playerKey)
+      : [...gives[side], playerKey];
+    setGives(nextGives);
+    setResult(null);
+  }
+
+  const canEvaluate =
+    teamKeys[0] !== "" &&
+    teamKeys[1] !== "" &&
+    teamKeys[0] !== teamKeys[1] &&
+    (gives[0].length > 0 || gives[1].length > 0);
+
+  return (
+    <div>
+      <h2>Trade Analyzer</h2>
+      <p>
+        Pick two teams and the players each one sends away. Players are valued
+        with rest-of-season projections scored by your league's settings, and
+        each team sees how its best possible starting lineup changes.
+      </p>
+      <button
+        onClick={fetchRosters}
+        style={{ padding: "8px 16px" }}
+        disabled={loadingRosters}
+      >
+        {loadingRosters ? "Loading..." : "Load Rosters"}
+      </button>
+
+      {rosters && (
+        <>
+          <div style={{ display: "flex", gap: 24, marginTop: 16 }}>
+            {([0, 1] as const).map((side) => {
+              const roster = rosters.teams.find(
+                (t) => t.teamKey === teamKeys[side]
+              );
+              return (
+                <div key={side} style={{ flex: 1 }}>
+                  <select
+                    value={teamKeys[side]}
+                    onChange={(e) => selectTeam(side, e.target.value)}
+                    style={{ padding: 8, width: "100%" }}
+                  >
+                    <option value="">Select team {side + 1}</option>
+                    {rosters.teams
+                      .filter((t) => t.teamKey !== teamKeys[side === 0 ? 1 : 0])
+                      .map((t) => (
+                        <option key={t.teamKey} value={t.teamKey}>
+                          {t.teamName}
+                        </option>
+                      ))}
+                  </select>
+
+                  {roster && (
+                    <div
+                      style={{
+                        marginTop: 8,
+                        border: "1px solid #e0e0e0",
+                        borderRadius: 4,
+                        maxHeight: 400,
+                        overflowY: "auto",
+                      }}
+                    >
+                      {roster.players.map((p) => (
+                        <label
+                          key={p.playerKey}
+                          style={{
+                            display: "flex",
+                            gap: 8,
+                            padding: "6px 8px",
+                            borderBottom: "1px solid #f0f0f0",
+                            cursor: "pointer",
+                            background: gives[side].includes(p.playerKey)
+                              ? "#e3f2fd"
+                              : undefined,
+                          }}
+                        >
+                          <input
+                            type="checkbox"
+                            checked={gives[side].includes(p.playerKey)}
+                            onChange={() => togglePlayer(side, p.playerKey)}
+                          />
+                          <span style={{ width: 40, color: "#666" }}>
+                            {p.selectedPosition}
+                          </span>
+                          <span>
+                            {p.name}{" "}
+                            <span style={{ color: "#666", fontSize: "0.85em" }}>
+                              {p.position} - {p.team}
+                            </span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={evaluateTrade}
+            style={{ padding: "8px 16px", marginTop: 16 }}
+            disabled={!canEvaluate || evaluating}
+          >
+            {evaluating ? "Evaluating..." : "Evaluate Trade"}
+          </button>
+        </>
+      )}
+
+      {result && (
+        <>
+          <p style={{ color: "#666", fontSize: "0.9em" }}>
+            Projected weeks {result.weekRange.start}-{result.weekRange.end}
+          </p>
+          <div style={{ display: "flex", gap: 24, flexWrap: "wrap" }}>
+            {result.sides.map((side) => (
+              <div
+                key={side.teamKey}
+                style={{
+                  flex: "1 1 400px",
+                  border: "1px solid #e0e0e0",
+                  borderRadius: 4,
+                  padding: 16,
+                }}
+              >
+                <h3 style={{ marginTop: 0 }}>{side.teamName}</h3>
+                <div
+                  style={{
+                    fontSize: "1.4em",
+                    fontWeight: "bold",
+                    color: changeColor(side.lineupChange),
+                  }}
+                >
+                  {formatChange(side.lineupChange)} starting lineup points
+                </div>
+                <div style={{ color: "#666", fontSize: "0.9em" }}>
+                  {side.lineupBefore.toFixed(1)} → {side.lineupAfter.toFixed(1)}{" "}
+                  projected rest of season
+                </div>
+
+                {[
+                  {
+                    title: "Gives",
+                    players: side.gives,
+                    total: side.valueGiven,
+                  },
+                  {
+                    title: "Gets",
+                    players: side.gets,
+                    total: side.valueReceived,
+                  },
+                ].map(({ title, players, total }) => (
+                  <div key={title} style={{ marginTop: 12 }}>
+                    <strong>
+                      {title} ({total.toFixed(1)} pts)
+                    </strong>
+                    {players.map((p) => (
+                      <div
+                        key={p.playerKey}
+                        style={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          fontSize: "0.9em",
+                          padding: "2px 0",
+                        }}
+                      >
+                        <span>
+                          {p.name}{" "}
+                          <span style={{ color: "#666" }}>{p.position}</span>
+                        </span>
+                        <span>
+                          {p.hasProjections
+                            ? p.restOfSeasonPoints.toFixed(1)
+                            : "no projections"}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+
+                <div style={{ marginTop: 12 }}>
+                  Net player value:{" "}
+                  <strong style={{ color: changeColor(side.netValue) }}>
+                    {formatChange(side.netValue)}
+                  </strong>
+                </div>
+
+                <table
+                  style={{
+                    width: "100%",
+                    borderCollapse: "collapse",
+                    marginTop: 12,
+                    fontSize: "0.9em",
+                  }}
+                >
+                  <thead>
+                    <tr style={{ background: "#f0f0f0" }}>
+                      <th style={{ padding: 6, textAlign: "left" }}>Week</th>
+                      <th style={{ padding: 6, textAlign: "right" }}>Before</th>
+                      <th style={{ padding: 6, textAlign: "right" }}>After</th>
+                      <th style={{ padding: 6, textAlign: "right" }}>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {side.weeks.map((w) => (
+                      <tr
+                        key={w.week}
+                        style={{ borderBottom: "1px solid #f0f0f0" }}
+                      >
+                        <td style={{ padding: 6 }}>{w.week}</td>
+                        <td style={{ padding: 6, textAlign: "right" }}>
+                          {w.before.toFixed(1)}
+                        </td>
+                        <td style={{ padding: 6, textAlign: "right" }}>
+                          {w.after.toFixed(1)}
+                        </td>
+                        <td
+                          style={{
+                            padding: 6,
+                            textAlign: "right",
+                            color: changeColor(w.change),
+                          }}
+                        >
+                          {formatChange(w.change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
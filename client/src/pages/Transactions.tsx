@@ -0,0 +1,338 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface PickupWeek {
+  week: number;
+  points: number;
+}
+
+interface PickupPerformance {
+  weeks: number;
+  totalPoints: number;
+  averagePoints: number;
+  weeklyPoints: PickupWeek[];
+}
+
+interface TransactionPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  action: "add" | "drop" | "trade";
+  source: "freeagents" | "waivers" | "team";
+  sourceTeamKey?: string;
+  sourceTeamName?: string;
+  destination: "team" | "waivers";
+  destinationTeamKey?: string;
+  destinationTeamName?: string;
+  performance?: PickupPerformance;
+}
+
+interface Transaction {
+  transactionKey: string;
+  type: "add" | "drop" | "add/drop" | "trade" | "commish";
+  status: string;
+  timestamp: string;
+  week: number;
+  isWaiverClaim: boolean;
+  faabBid?: number;
+  teamKeys: string[];
+  players: TransactionPlayer[];
+}
+
+interface TeamFaabSpend {
+  teamKey: string;
+  teamName: string;
+  spent: number;
+  claims: number;
+}
+
+interface TransactionsResponse {
+  leagueKey: string;
+  transactions: Transaction[];
+  faabSpend: TeamFaabSpend[];
+}
+
+interface TransactionsProps {
+  leagueKey: string;
+}
+
+type TypeFilter = "" | "add" | "drop" | "trade" | "waiver";
+
+const ACTION_COLORS: { [action: string]: string } = {
+  add: "#2ca02c",
+  drop: "#d62728",
+  trade: "#1f77b4",
+};
+
+function describeMove(p: TransactionPlayer): string {
+  if (p.action === "add") {
+    const source = p.source === "waivers" ? "waivers" : "free agency";
+    return `added by ${
+      p.destinationTeamName || p.destinationTeamKey
+    } from ${source}`;
+  }
+  if (p.action === "drop") {
+    return `dropped by ${p.sourceTeamName || p.sourceTeamKey}`;
+  }
+  return `traded from ${p.sourceTeamName || p.sourceTeamKey} to ${
+    p.destinationTeamName || p.destinationTeamKey
+  }`;
+}
+
+// Tiny bar chart of a pickup's weekly points
+function WeeklyBars({ weeks }: { weeks: PickupWeek[] }) {
+  const max = Math.max(1, ...weeks.map((w) => w.points));
+  return (
+    <div
+      style={{ display: "flex", alignItems: "flex-end", gap: 2, height: 24 }}
+    >
+      {weeks.map((w) => (
+        <div
+          key={w.week}
+          title={`Week ${w.week}: ${w.points.toFixed(1)} pts`}
+          style={{
+            width: 8,
+            height: Math.max(1, (Math.max(w.points, 0) / max) * 24),
+            background: "#1f77b4",
+          }}
+        />
+      ))}
+    </div>
+  );
+}
+
+export default function Transactions({ leagueKey }: TransactionsProps) {
+  const [data, setData] = useState<TransactionsResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [teamKey, setTeamKey] = useState("");
+  const [type, setType] = useState<TypeFilter>("");
+  const [week, setWeek] = useState("");
+  const [teamNames, setTeamNames] = useState<{ [teamKey: string]: string }>({});
+
+  async function fetchTransactions() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoading(true);
+    try {
+      const res = await axios.get<TransactionsResponse>(
+        `/api/league/${encodeURIComponent(leagueKey)}/transactions`,
+        {
+          params: {
+            performance: true,
+            ...(teamKey && { teamKey }),
+            ...(type && { type }),
+            ...(week && { week }),
+          },
+        }
+      );
+      setData(res.data);
+
+      // Remember every team seen so the filter keeps its options
+      const names = { ...teamNames };
+      for (const t of res.data.transactions) {
+        for (const p of t.players) {
+          if (p.sourceTeamKey && p.sourceTeamName) {
+            names[p.sourceTeamKey] = p.sourceTeamName;
+          }
+          if (p.destinationTeamKey && p.destinationTeamName) {
+            names[p.destinationTeamKey] = p.destinationTeamName;
+          }
+        }
+      }
+      for (const team of res.data.faabSpend) {
+        names[team.teamKey] = team.teamName;
+      }
+      setTeamNames(names);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to fetch transactions"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  // Newest week first, keeping the newest-first order within each week
+  const weeks: number[] = [];
+  for (const t of data?.transactions || []) {
+    if (!weeks.includes(t.week)) weeks.push(t.week);
+  }
+
+  return (
+    <div>
+      <h2>Transactions</h2>
+      <p>
+        Every add, drop, trade and waiver claim in the league, week by week.
+        Pickups show the points they scored while on the team that acquired
+        them.
+      </p>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        <select
+          value={teamKey}
+          onChange={(e) => setTeamKey(e.target.value)}
+          style={{ padding: 8 }}
+        >
+          <option value="">All teams</option>
+          {Object.entries(teamNames).map(([key, name]) => (
+            <option key={key} value={key}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as TypeFilter)}
+          style={{ padding: 8 }}
+        >
+          <option value="">All types</option>
+          <option value="add">Adds</option>
+          <option value="drop">Drops</option>
+          <option value="trade">Trades</option>
+          <option value="waiver">Waiver claims</option>
+        </select>
+        <input
+          type="number"
+          value={week}
+          min={1}
+          max={18}
+          placeholder="Week"
+          onChange={(e) => setWeek(e.target.value)}
+          style={{ padding: 8, width: 80 }}
+        />
+        <button
+          onClick={fetchTransactions}
+          style={{ padding: "8px 16px" }}
+          disabled={loading}
+        >
+          {loading ? "Loading..." : "Load Transactions"}
+        </button>
+      </div>
+
+      {data && (
+        <div style={{ display: "flex", gap: 24, marginTop: 16 }}>
+          <div style={{ flex: 1 }}>
+            {data.transactions.length === 0 && (
+              <p style={{ color: "#666" }}>No transactions match.</p>
+            )}
+            {weeks.map((w) => (
+              <div key={w}>
+                <h3 style={{ borderBottom: "2px solid #1f77b4" }}>Week {w}</h3>
+                {data.transactions
+                  .filter((t) => t.week === w)
+                  .map((t) => (
+                    <div
+                      key={t.transactionKey}
+                      style={{
+                        padding: 12,
+                        marginBottom: 8,
+                        border: "1px solid #e0e0e0",
+                        borderRadius: 4,
+                        opacity: t.status === "successful" ? 1 : 0.6,
+                      }}
+                    >
+                      <div style={{ color: "#666", fontSize: "0.85em" }}>
+                        {new Date(t.timestamp).toLocaleString()} ·{" "}
+                        {t.type === "commish" ? "commissioner" : t.type}
+                        {t.isWaiverClaim && " · waiver claim"}
+                        {t.faabBid !== undefined && ` · $${t.faabBid} FAAB`}
+                        {t.status !== "successful" && ` · ${t.status}`}
+                      </div>
+                      {t.players.map((p) => (
+                        <div
+                          key={`${p.playerKey}-${p.action}`}
+                          style={{
+                            display: "flex",
+                            justifyContent: "space-between",
+                            alignItems: "center",
+                            gap: 12,
+                            marginTop: 6,
+                          }}
+                        >
+                          <span>
+                            <span
+                              style={{
+                                color: ACTION_COLORS[p.action],
+                                fontWeight: "bold",
+                                marginRight: 6,
+                              }}
+                            >
+                              {p.action === "add"
+                                ? "+"
+                                : p.action === "drop"
+                                ? "−"
+                                : "⇄"}
+                            </span>
+                            <strong>{p.name}</strong>{" "}
+                            <span style={{ color: "#666", fontSize: "0.85em" }}>
+                              {p.position} - {p.team} · {describeMove(p)}
+                            </span>
+                          </span>
+                          {p.performance && (
+                            <span
+                              style={{
+                                display: "flex",
+                                alignItems: "center",
+                                gap: 8,
+                                fontSize: "0.85em",
+                              }}
+                            >
+                              <WeeklyBars weeks={p.performance.weeklyPoints} />
+                              {p.performance.weeks > 0
+                                ? `${p.performance.totalPoints.toFixed(
+                                    1
+                                  )} pts in ${
+                                    p.performance.weeks
+                                  } wk (${p.performance.averagePoints.toFixed(
+                                    1
+                                  )}/wk)`
+                                : "no completed weeks yet"}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ width: 280 }}>
+            <h3>FAAB Spent</h3>
+            <table style={{ width: "100%", borderCollapse: "collapse" }}>
+              <thead>
+                <tr style={{ background: "#f0f0f0" }}>
+                  <th style={{ padding: 6, textAlign: "left" }}>Team</th>
+                  <th style={{ padding: 6, textAlign: "right" }}>Claims</th>
+                  <th style={{ padding: 6, textAlign: "right" }}>Spent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.faabSpend.map((team) => (
+                  <tr
+                    key={team.teamKey}
+                    style={{ borderBottom: "1px solid #f0f0f0" }}
+                  >
+                    <td style={{ padding: 6 }}>{team.teamName}</td>
+                    <td style={{ padding: 6, textAlign: "right" }}>
+                      {team.claims}
+                    </td>
+                    <td style={{ padding: 6, textAlign: "right" }}>
+                      ${team.spent}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+interface TeamOption {
+  teamKey: string;
+  teamName: string;
+}
+
+interface WaiverPlayerValue {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  restOfSeasonPoints: number;
+  hasProjections: boolean;
+  recentPoints: number;
+}
+
+interface FaabBidRange {
+  low: number;
+  high: number;
+}
+
+interface WaiverTarget {
+  add: WaiverPlayerValue;
+  drop: WaiverPlayerValue;
+  weakestStarter?: WaiverPlayerValue;
+  pointsGain: number;
+  faabBid?: FaabBidRange;
+}
+
+interface WaiverTargetsResponse {
+  teamKey: string;
+  teamName: string;
+  weekRange: { start: number; end: number };
+  targets: WaiverTarget[];
+  faabHistory: {
+    claims: number;
+    medianBid: number;
+    maxBid: number;
+  };
+}
+
+interface WaiversProps {
+  leagueKey: string;
+}
+
+function formatChange(value: number): string {
+  return `${value >= 0 ? "+" : ""}${value.toFixed(1)}`;
+}
+
+function PlayerCell({ player }: { player: WaiverPlayerValue }) {
+  return (
+    <>
+      <strong>{player.name}</strong>{" "}
+      <span style={{ color: "#666", fontSize: "0.85em" }}>
+        {player.position} - {player.team}
+        {!player.hasProjections && " · no projections"}
+      </span>
+      <div style={{ color: "#666", fontSize: "0.85em" }}>
+        {player.restOfSeasonPoints.toFixed(1)} ROS ·{" "}
+        {player.recentPoints.toFixed(1)}/wk recently
+      </div>
+    </>
+  );
+}
+
+export default function Waivers({ leagueKey }: WaiversProps) {
+  const [teams, setTeams] = useState<TeamOption[]>([]);
+  const [teamKey, setTeamKey] = useState("");
+  const [data, setData] = useState<WaiverTargetsResponse | null>(null);
+  const [loadingTeams, setLoadingTeams] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  async function fetchTeams() {
+    if (!leagueKey) {
+      alert("Enter a league key on the League Standings tab first");
+      return;
+    }
+    setLoadingTeams(true);
+    try {
+      const res = await axios.get<{ teams: TeamOption[] }>(
+        `/api/league/${encodeURIComponent(leagueKey)}`
+      );
+      setTeams(
+        res.data.teams.map((t) => ({
+          teamKey: t.teamKey,
+          teamName: t.teamName,
+        }))
+      );
+      setTeamKey("");
+      setData(null);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error || err.message || "Failed to fetch teams"
+      );
+    } finally {
+      setLoadingTeams(false);
+    }
+  }
+
+  async function fetchTargets() {
+    setLoading(true);
+    try {
+      const res = await axios.get<WaiverTargetsResponse>(
+        `/api/team/${encodeURIComponent(teamKey)}/waiver-targets`
+      );
+      setData(res.data);
+    } catch (err: any) {
+      console.error(err);
+      alert(
+        err?.response?.data?.error ||
+          err.message ||
+          "Failed to find waiver targets"
+      );
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  return (
+    <div>
+      <h2>Waiver Targets</h2>
+      <p>
+        Free agents ranked by how many points they would add to your best
+        possible lineup for the rest of the season, using Sleeper projections
+        under your league's scoring. Each is paired with the player to drop.
+      </p>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        <button
+          onClick={fetchTeams}
+          style={{ padding: "8px 16px" }}
+          disabled={loadingTeams}
+        >
+          {loadingTeams ? "Loading..." : "Load Teams"}
+        </button>
+        <select
+          value={teamKey}
+          onChange={(e) => {
+            setTeamKey(e.target.value);
+            setData(null);
+          }}
+          style={{ padding: 8 }}
+          disabled={teams.length === 0}
+        >
+          <option value="">Select team...</option>
+          {teams.map((t) => (
+            <option key={t.teamKey} value={t.teamKey}>
+              {t.teamName}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={fetchTargets}
+          style={{ padding: "8px 16px" }}
+          disabled={!teamKey || loading}
+        >
+          {loading ? "Searching..." : "Find Targets"}
+        </button>
+      </div>
+
+      {data && (
+        <div style={{ display: "flex", gap: 24, marginTop: 16 }}>
+          <div style={{ flex: 1 }}>
+            <h3>
+              {data.teamName} · weeks {data.weekRange.start}-
+              {data.weekRange.end}
+            </h3>
+            {data.targets.length === 0 ? (
+              <p style={{ color: "#666" }}>
+                No free agent improves this lineup right now.
+              </p>
+            ) : (
+              <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                <thead>
+                  <tr style={{ background: "#f0f0f0" }}>
+                    <th style={{ padding: 8, textAlign: "left" }}>Add</th>
+                    <th style={{ padding: 8, textAlign: "left" }}>Drop</th>
+                    <th style={{ padding: 8, textAlign: "left" }}>
+                      Weakest Starter
+                    </th>
+                    <th style={{ padding: 8, textAlign: "right" }}>
+                      Points Gain
+                    </th>
+                    <th style={{ padding: 8, textAlign: "right" }}>FAAB Bid</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.targets.map((t) => (
+                    <tr
+                      key={t.add.playerKey}
+                      style={{ borderBottom: "1px solid #f0f0f0" }}
+                    >
+                      <td style={{ padding: 8 }}>
+                        <PlayerCell player={t.add} />
+                      </td>
+                      <td style={{ padding: 8 }}>
+                        <PlayerCell player={t.drop} />
+                      </td>
+                      <td style={{ padding: 8 }}>
+                        {t.weakestStarter ? (
+                          <PlayerCell player={t.weakestStarter} />
+                        ) : (
+                          <span style={{ color: "#666" }}>—</span>
+                        )}
+                      </td>
+                      <td
+                        style={{
+                          padding: 8,
+                          textAlign: "right",
+                          color: "#2ca02c",
+                          fontWeight: "bold",
+                        }}
+                      >
+                        {formatChange(t.pointsGain)}
+                      </td>
+                      <td style={{ padding: 8, textAlign: "right" }}>
+                        {t.faabBid
+                          ? t.faabBid.low === t.faabBid.high
+                            ? `$${t.faabBid.low}`
+                            : `$${t.faabBid.low}-$${t.faabBid.high}`
+                          : "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+
+          <div style={{ width: 240 }}>
+            <h3>League FAAB History</h3>
+            {data.faabHistory.claims === 0 ? (
+              <p style={{ color: "#666" }}>
+                No FAAB waiver claims yet, so there are no bid suggestions.
+              </p>
+            ) : (
+              <>
+                <div>Winning claims: {data.faabHistory.claims}</div>
+                <div>Median winning bid: ${data.faabHistory.medianBid}</div>
+                <div>Highest winning bid: ${data.faabHistory.maxBid}</div>
+                <p style={{ color: "#666", fontSize: "0.85em" }}>
+                  Bid ranges scale with each target's gain: the best target sits
+                  near the top of what the league has paid.
+                </p>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
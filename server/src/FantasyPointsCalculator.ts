@@ -5,9 +5,10 @@
  * This enables calculating points for any player, not just those on the team roster.
  */
 
-import axios from "axios";
-import * as fs from "fs";
-import * as path from "path";
+import { AppError } from "./errors";
+import { yahooClient } from "./yahooClient";
+import type { ScoringProfile } from "./models";
+import { storage } from "./storage";
 
 interface StatModifier {
   stat: {
@@ -32,10 +33,9 @@ interface ScoringCache {
 export class FantasyPointsCalculator {
   private static cache: Map<string, ScoringCache> = new Map();
   private static readonly CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
-  private static readonly cacheDir = path.join(__dirname, "..", "cache");
 
   /**
-   * Get scoring rules for a league (cached in memory and file)
+   * Get scoring rules for a league (cached in memory and the database)
    * Public method for use by other services
    */
   public static async getScoringRules(
@@ -48,50 +48,32 @@ export class FantasyPointsCalculator {
       return cached.scoringRules;
     }
 
-    // Check file cache
+    // Check the database
     try {
-      const filename = `league_${leagueKey.replace(/\./g, "_")}_scoring.json`;
-      const filepath = path.join(this.cacheDir, filename);
-
-      if (fs.existsSync(filepath)) {
-        const fileCache = JSON.parse(fs.readFileSync(filepath, "utf-8"));
-
-        // Check if file cache is still valid (24 hours)
-        if (Date.now() - fileCache.timestamp < this.CACHE_DURATION_MS) {
-          // Reconstruct Map from array (JSON can't store Maps directly)
-          const scoringRules = new Map<number, number>(fileCache.scoringRules);
-
-          // Load into memory cache
-          this.cache.set(leagueKey, {
-            scoringRules,
-            timestamp: fileCache.timestamp,
-            leagueKey,
-          });
+      const stored = storage.getScoringRules(leagueKey);
+
+      // Check if the stored rules are still valid (24 hours)
+      if (stored && Date.now() - stored.fetchedAt < this.CACHE_DURATION_MS) {
+        // Load into memory cache
+        this.cache.set(leagueKey, {
+          scoringRules: stored.data,
+          timestamp: stored.fetchedAt,
+          leagueKey,
+        });
 
-          return scoringRules;
-        }
+        return stored.data;
       }
     } catch (error) {
-      // File cache failed, will fetch from API
+      // Database read failed, will fetch from API
     }
 
     // Fetch from Yahoo API
-    const url = `https://fantasysports.yahooapis.com/fantasy/v2/league/${encodeURIComponent(
-      leagueKey
-    )}/settings?format=json`;
+    const path = `league/${encodeURIComponent(leagueKey)}/settings`;
 
     try {
-      const response = await axios.get(url, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36",
-        },
-        timeout: 10000,
-      });
+      const data = await yahooClient.get(path, accessToken);
 
-      const settings =
-        response.data?.fantasy_content?.league?.[1]?.settings?.[0];
+      const settings = data?.fantasy_content?.league?.[1]?.settings?.[0];
       const statModifiers: StatModifier[] = settings?.stat_modifiers?.stats;
 
       if (!statModifiers) {
@@ -108,18 +90,11 @@ export class FantasyPointsCalculator {
         }
       }
 
-      // Add default 2pt conversion rules if not present (Yahoo often omits these from API)
-      // Stat ID 8 = Passing 2pt conversions (2 points)
-      // Stat ID 15 = Receiving 2pt conversions (2 points)
-      // Stat ID 16 = Rushing 2pt conversions (2 points)
-      if (!scoringRules.has(8)) {
-        scoringRules.set(8, 2); // Passing 2pt
-      }
-      if (!scoringRules.has(15)) {
-        scoringRules.set(15, 2); // Receiving 2pt
-      }
+      // Add default 2pt conversion rule if not present (Yahoo often omits it from API)
+      // Stat ID 16 = 2pt conversions, passing, rushing or receiving (2 points)
+      // (8 is rushing attempts and 15 return TDs, so they get no default)
       if (!scoringRules.has(16)) {
-        scoringRules.set(16, 2); // Rushing 2pt
+        scoringRules.set(16, 2);
       }
 
       // Cache the results in memory
@@ -129,20 +104,11 @@ export class FantasyPointsCalculator {
         leagueKey,
       });
 
-      // Save to file cache
+      // Save to the database
       try {
-        const filename = `league_${leagueKey.replace(/\./g, "_")}_scoring.json`;
-        const filepath = path.join(this.cacheDir, filename);
-
-        const cacheData = {
-          scoringRules: Array.from(scoringRules.entries()), // Convert Map to array for JSON
-          timestamp: Date.now(),
-          leagueKey,
-        };
-
-        fs.writeFileSync(filepath, JSON.stringify(cacheData, null, 2), "utf-8");
+        storage.saveScoringRules(leagueKey, scoringRules);
       } catch (error) {
-        console.error("Failed to save scoring rules to file cache:", error);
+        console.error("Failed to save scoring rules to the database:", error);
       }
 
       return scoringRules;
@@ -151,12 +117,58 @@ export class FantasyPointsCalculator {
         `Failed to fetch scoring settings for league ${leagueKey}:`,
         error.message
       );
+      if (error instanceof AppError) {
+        throw error;
+      }
       throw new Error(
         `Failed to fetch league scoring settings: ${error.message}`
       );
     }
   }
 
+  /**
+   * Apply a scoring profile's overrides on top of a league's scoring rules
+   * Position overrides (e.g. TE premium) apply when the player's position,
+   * or any of them for multi-position players like "RB,WR", has one
+   */
+  static applyScoringProfile(
+    scoringRules: Map<number, number>,
+    profile: ScoringProfile,
+    position?: string
+  ): Map<number, number> {
+    const rules = new Map(scoringRules);
+
+    for (const [statId, points] of Object.entries(profile.overrides)) {
+      rules.set(parseInt(statId, 10), points);
+    }
+
+    if (position && profile.positionOverrides) {
+      for (const pos of position.split(",")) {
+        const overrides = profile.positionOverrides[pos.trim()];
+        if (!overrides) continue;
+        for (const [statId, points] of Object.entries(overrides)) {
+          rules.set(parseInt(statId, 10), points);
+        }
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Score stat values keyed by Yahoo stat ID with the given rules
+   */
+  static scoreStats(
+    stats: { [statId: number]: number },
+    scoringRules: Map<number, number>
+  ): number {
+    let totalPoints = 0;
+    for (const [statId, value] of Object.entries(stats)) {
+      totalPoints += value * (scoringRules.get(parseInt(statId, 10)) || 0);
+    }
+    return totalPoints;
+  }
+
   /**
    * Calculate fantasy points for a player's stats
    */
@@ -1,329 +1,2433 @@
-import axios from "axios";
-import * as fs from "fs";
-import * as path from "path";
-import { normalizeLeague, normalizePlayerStats } from "./parsers";
-import { LeagueResponse, PlayerStatsResponse } from "./models";
-import { NormalizedLeague, NormalizedPlayerStats } from "./yahoo-types";
+import crypto from "crypto";
+import {
+  normalizeDraftResults,
+  normalizeGameWeeks,
+  normalizeLeague,
+  normalizeLeagueMetadata,
+  normalizeLeaguePlayers,
+  normalizeLeagueSettings,
+  normalizeMatchups,
+  normalizePlayerSearch,
+  normalizePlayerStats,
+  normalizePreviousLeagueKey,
+  normalizeRoster,
+  normalizeRosterTeam,
+  normalizeTransactions,
+} from "./parsers";
+import {
+  DraftResponse,
+  LeagueHistoryResponse,
+  LeagueResponse,
+  LeagueRostersResponse,
+  LivePlayer,
+  LiveScoreboardResponse,
+  LineupEfficiencyResponse,
+  MatchupsResponse,
+  PlayerStatsResponse,
+  PlayoffOddsResponse,
+  PlayoffOddsTrendPoint,
+  ProjectionAccuracyResponse,
+  ProjectionImportInput,
+  ProjectionImportResponse,
+  ScoringProfile,
+  TeamLineupEfficiency,
+  TeamRoster,
+  TradeEvaluationResponse,
+  TradePlayerValue,
+  TradeSide,
+  TradeSideEvaluation,
+  TransactionsResponse,
+  WaiverPlayerValue,
+  WaiverTarget,
+  WaiverTargetsResponse,
+  WeekStatus,
+  WinProbabilityPoint,
+} from "./models";
+import { SeasonContext, SeasonResolver } from "./SeasonResolver";
+import { SleeperService, SleeperStats } from "./SleeperService";
+import { cache, TtlPolicies } from "./cache";
+import { toServiceError, NotFound, ValidationError } from "./errors";
+import { yahooClient } from "./yahooClient";
+import { MemoryBackend } from "./cacheBackends";
+import { storage } from "./storage";
+import { FantasyPointsCalculator } from "./FantasyPointsCalculator";
+import {
+  computeAllPlayRecords,
+  computeLuck,
+  computeRecords,
+  computeWeekStatuses,
+} from "./leagueAnalytics";
+import { generateDemoScores } from "./demoScores";
+import { normalizeTeam } from "./playerMatching";
+import {
+  buildSourceReport,
+  PooledPlayerWeek,
+  ProjectedResult,
+} from "./projectionAccuracy";
+import {
+  ImportedProjectionIndex,
+  ImportedProjectionRow,
+  parseProjectionCsv,
+} from "./projectionCsv";
+import {
+  fitVariancePerPoint,
+  GameState,
+  ProjectionSample,
+  projectTeam,
+  TeamOutlook,
+  winProbability,
+} from "./winProbability";
+import { getPlayoffByes, simulatePlayoffOdds } from "./playoffOdds";
+import {
+  analyzePicks,
+  getReplacementLevels,
+  getStartersByPosition,
+  gradeTeams,
+} from "./draftAnalysis";
+import {
+  getSlotPositions,
+  getStartedLineup,
+  getStartingSlots,
+  optimizeLineup,
+} from "./lineupOptimizer";
+import {
+  applyTrade,
+  compareLineupStrength,
+  getRestOfSeasonPoints,
+  WeeklyProjections,
+} from "./tradeAnalyzer";
+import {
+  buildTransactions,
+  computeFaabSpend,
+  filterTransactions,
+  getHoldingPeriods,
+  TransactionFilters,
+} from "./transactionTimeline";
+import {
+  buildSeasons,
+  computeHeadToHead,
+  computeManagerRecords,
+  findHighScores,
+  getChampions,
+  SeasonData,
+} from "./leagueHistory";
+import {
+  findBestDrop,
+  getWeakestStarter,
+  suggestFaabRange,
+  toRosterPlayer,
+} from "./waiverAdvisor";
+import {
+  NormalizedLeague,
+  NormalizedLeaguePlayer,
+  NormalizedMatchup,
+  NormalizedMatchupTeam,
+  NormalizedPlayerStats,
+  NormalizedRosterPlayer,
+  WeeklyTeamScore,
+} from "./yahoo-types";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Current rosters, kept in memory only (key: "teamKey:week")
+const rosterCache = cache.namespace("rosters", {
+  ttl: TtlPolicies.fixed(5 * 60 * 1000),
+  backend: new MemoryBackend(500),
+});
+
+// Past weeks never change; the current week's games may still be in progress
+const scoreboardCache = cache.namespace("scoreboards", {
+  ttl: TtlPolicies.weekAware({ otherWeeksMs: HOUR_MS }),
+});
+const weeklyRosterCache = cache.namespace("weekly_roster", {
+  ttl: TtlPolicies.weekAware({ otherWeeksMs: HOUR_MS }),
+});
+
+// Player names and positions never change
+const playerInfoCache = cache.namespace<{
+  name: string;
+  position: string;
+  team?: string;
+}>("player_info", { ttl: TtlPolicies.forever() });
+
+// Settings rarely change mid-season, but commissioners can edit them
+const settingsCache = cache.namespace("league_settings", {
+  ttl: TtlPolicies.fixed(DAY_MS),
+});
+
+// A finished draft never changes
+const draftResultsCache = cache.namespace("draft_results", {
+  ttl: TtlPolicies.forever(),
+});
+
+// Only finished seasons are cached, and those never change
+const finalStandingsCache = cache.namespace("final_standings", {
+  ttl: TtlPolicies.forever(),
+});
+
+// Season totals change as games finish (key: "leagueKey:<hash of the batch's player keys>")
+const seasonPlayersCache = cache.namespace("season_players", {
+  ttl: TtlPolicies.fixed(HOUR_MS),
+});
+
+// Week dates are fixed before the season starts
+const gameWeeksCache = cache.namespace("game_weeks", {
+  ttl: TtlPolicies.forever(),
+});
+
+// Points by player key for completed weeks, which are final
+const weeklyPlayerPointsCache = cache.namespace<{
+  [playerKey: string]: number;
+}>("weekly_player_points", { ttl: TtlPolicies.forever() });
 
 export class FantasyService {
-  // Rate limiting: delay between API calls to avoid Yahoo 999 errors
-  private lastRequestTime = 0;
-  private readonly minDelayMs = 50; // 50ms between requests = max 20 requests/second
+  // Projections for trade evaluation
+  private sleeperService = new SleeperService();
 
-  // Cache for roster data - key: "teamKey:week", value: roster data
-  private rosterCache = new Map<string, { data: any; timestamp: number }>();
-  private readonly cacheExpiryMs = 5 * 60 * 1000; // 5 minutes
+  /**
+   * Get all leagues for the authenticated user
+   */
+  async getUserLeagues(accessToken: string): Promise<any> {
+    try {
+      // First, get user's games (to find current NFL season game)
+      const gamesUrl = "users;use_login=1/games;game_keys=nfl";
+
+      const gamesData = await yahooClient.get(gamesUrl, accessToken);
+
+      // Extract game keys and get leagues for each
+      const games = gamesData?.fantasy_content?.users?.[0]?.user?.[1]?.games;
+
+      if (!games) {
+        return { leagues: [] };
+      }
+
+      const gameCount = games.count || 0;
+      const leagues: any[] = [];
+
+      // Get leagues for each game
+      for (let i = 0; i < gameCount; i++) {
+        const game = games[i]?.game?.[0];
+        if (!game) {
+          continue;
+        }
+
+        const gameKey = game.game_key;
+        const season = game.season;
+
+        // Fetch leagues for this game
+        const leaguesUrl = `users;use_login=1/games;game_keys=${gameKey}/leagues`;
+
+        const userLeaguesData = await yahooClient.get(leaguesUrl, accessToken);
+
+        const leaguesData =
+          userLeaguesData?.fantasy_content?.users?.[0]?.user?.[1]?.games?.[0]
+            ?.game?.[1]?.leagues;
+
+        if (leaguesData) {
+          const leagueCount = leaguesData.count || 0;
+
+          for (let j = 0; j < leagueCount; j++) {
+            const league = leaguesData[j]?.league?.[0];
+            if (league) {
+              leagues.push({
+                leagueKey: league.league_key,
+                name: league.name,
+                season: season,
+                numTeams: league.num_teams,
+                gameCode: league.game_code,
+              });
+            }
+          }
+        }
+      }
+
+      return { leagues };
+    } catch (err: any) {
+      console.error("Failed to fetch user leagues:", err.message);
+      throw new Error(`Failed to fetch user leagues: ${err.message}`);
+    }
+  }
+
+  /**
+   * Fetch league standings from Yahoo Fantasy API
+   * Weeks whose scoreboards fail to load are reported as missing. Only demo
+   * mode fills in weekly scores that didn't come from Yahoo
+   */
+  async getLeague(
+    leagueKey: string,
+    accessToken: string,
+    profile?: ScoringProfile,
+    demo: boolean = false
+  ): Promise<LeagueResponse> {
+    try {
+      const standingsData = await this.getStandings(leagueKey, accessToken);
+
+      // Standings responses carry the league metadata, so this is usually free
+      const seasonContext =
+        SeasonResolver.fromLeagueResponse(leagueKey, standingsData) ??
+        (await SeasonResolver.getLeagueSeason(leagueKey, accessToken));
+
+      const playedWeeks = SeasonResolver.getPlayedWeeks(seasonContext);
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+
+      const { scoreboards, missingWeeks } = await this.getAvailableScoreboards(
+        leagueKey,
+        accessToken,
+        playedWeeks,
+        cacheCurrentWeek
+      );
+      const matchups = normalizeMatchups(scoreboards);
+
+      let normalized = normalizeLeague(standingsData, scoreboards);
+
+      if (profile) {
+        normalized = await this.rescoreLeague(
+          normalized,
+          leagueKey,
+          accessToken,
+          matchups,
+          profile,
+          cacheCurrentWeek
+        );
+      }
+
+      if (demo) {
+        normalized = {
+          ...normalized,
+          points: generateDemoScores(normalized.teams, playedWeeks),
+        };
+      }
+
+      // Convert to API response format
+      return {
+        ...this.convertLeagueResponse(
+          normalized,
+          leagueKey,
+          seasonContext.season,
+          cacheCurrentWeek - 1,
+          computeWeekStatuses(playedWeeks, matchups, missingWeeks),
+          missingWeeks
+        ),
+        ...(profile && { scoringProfile: profile.id }),
+        ...(demo && { demo: true }),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch league"
+      );
+    }
+  }
+
+  /**
+   * Fetch head-to-head matchups for one week, or every week up to the current one
+   */
+  async getMatchups(
+    leagueKey: string,
+    accessToken: string,
+    week?: number,
+    profile?: ScoringProfile
+  ): Promise<MatchupsResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      const weeks = week
+        ? [week]
+        : SeasonResolver.getPlayedWeeks(seasonContext);
+
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+      const scoreboards = await this.getScoreboards(
+        leagueKey,
+        accessToken,
+        weeks,
+        cacheCurrentWeek
+      );
+
+      let matchups = normalizeMatchups(scoreboards);
+      if (profile) {
+        matchups = await this.rescoreMatchups(
+          leagueKey,
+          accessToken,
+          matchups,
+          profile,
+          cacheCurrentWeek
+        );
+      }
+
+      // Win probabilities for the week being played. They're extra: the
+      // scoreboards are what was asked for, so matchups come back without
+      // them if projecting fails. The timeline is recorded by the live poller
+      const currentMatchups = seasonContext.isFinished
+        ? []
+        : matchups.filter((m) => m.week === seasonContext.currentWeek);
+      let outlooks = new Map<string, Omit<WinProbabilityPoint, "recordedAt">>();
+      if (currentMatchups.length > 0) {
+        try {
+          outlooks = await this.projectMatchups(
+            leagueKey,
+            accessToken,
+            seasonContext,
+            currentMatchups,
+            profile
+          );
+        } catch (error: any) {
+          console.warn(
+            `Failed to project win probabilities for ${leagueKey}:`,
+            error.message
+          );
+        }
+      }
+
+      const timelines = new Map<number, WinProbabilityPoint[]>();
+      for (const matchupWeek of new Set(matchups.map((m) => m.week))) {
+        timelines.set(
+          matchupWeek,
+          storage.getWinProbabilityHistory(leagueKey, matchupWeek)
+        );
+      }
+
+      return {
+        ...this.convertMatchupsResponse(matchups, leagueKey, weeks, {
+          outlookWeek: seasonContext.currentWeek,
+          outlooks,
+          timelines,
+        }),
+        ...(profile && { scoringProfile: profile.id }),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch matchups"
+      );
+    }
+  }
+
+  /**
+   * Throw unless the token's user can see the league. Deliberately uncached:
+   * the caches are shared between users, so only a Yahoo request made with
+   * their own token shows they're allowed in
+   */
+  async checkLeagueAccess(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<void> {
+    try {
+      await yahooClient.get(
+        `league/${encodeURIComponent(leagueKey)}/metadata`,
+        accessToken
+      );
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch league"
+      );
+    }
+  }
+
+  /**
+   * The current week's scores as they stand right now, for live scoring
+   * Scoreboard and Sleeper stats skip the caches (and refresh them), every
+   * rostered player with stats is scored with the league's rules
+   */
+  async getLiveScoreboard(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<LiveScoreboardResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      const week = Math.min(seasonContext.currentWeek, seasonContext.endWeek);
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+
+      const scoreboardUrl = `league/${encodeURIComponent(
+        leagueKey
+      )}/scoreboard;week=${week}`;
+      const scoreboard = await yahooClient.get(scoreboardUrl, accessToken);
+      await scoreboardCache.set(`${leagueKey}:${week}`, scoreboard);
+      const matchups = normalizeMatchups(scoreboard);
+
+      // Scores are what a poll is for: if projecting fails, they go out
+      // without win probabilities and the live feed keeps the last ones
+      let outlooks = new Map<string, Omit<WinProbabilityPoint, "recordedAt">>();
+      try {
+        outlooks = await this.projectMatchups(
+          leagueKey,
+          accessToken,
+          seasonContext,
+          matchups
+        );
+        this.recordWinProbabilities(leagueKey, week, outlooks);
+      } catch (error: any) {
+        console.warn(
+          `Failed to project live win probabilities for ${leagueKey}:`,
+          error.message
+        );
+      }
+
+      const rosters: Array<{
+        teamKey: string;
+        players: NormalizedRosterPlayer[];
+      }> = [];
+      for (const team of matchups.flatMap((m) => m.teams)) {
+        const data = await this.getCurrentRoster(
+          team.teamKey,
+          accessToken,
+          seasonContext.currentWeek
+        );
+        rosters.push({ teamKey: team.teamKey, players: normalizeRoster(data) });
+      }
+
+      const scoringRules = await FantasyPointsCalculator.getScoringRules(
+        leagueKey,
+        accessToken
+      );
+      const stats = await this.sleeperService.getWeekStats(
+        week,
+        seasonContext.season,
+        cacheCurrentWeek,
+        { refresh: true }
+      );
+
+      const players: LivePlayer[] = [];
+      for (const roster of rosters) {
+        for (const player of roster.players) {
+          const sleeperPlayer = await this.sleeperService.findPlayer({
+            playerId: player.playerKey.split(".p.")[1] || player.playerKey,
+            name: player.name,
+            position: player.position,
+            team: player.team,
+          });
+          const statLine = sleeperPlayer && stats[sleeperPlayer.player_id];
+          if (!statLine) continue; // Unmatched, bye week or not played yet
+
+          const scored = this.sleeperService.calculateFantasyPoints(statLine, {
+            statMappings: new Map(),
+            scoringRules,
+          });
+          players.push({
+            playerKey: player.playerKey,
+            name: player.name,
+            position: player.position,
+            teamKey: roster.teamKey,
+            selectedPosition: player.selectedPosition,
+            points: scored.points,
+            stats: scored.breakdown,
+          });
+        }
+      }
+
+      return {
+        leagueKey,
+        week,
+        updatedAt: new Date().toISOString(),
+        matchups: matchups.map((matchup) => ({
+          status: matchup.status,
+          teams: matchup.teams.map((team) => ({
+            teamKey: team.teamKey,
+            teamName: team.name,
+            points: team.points,
+            projectedPoints: team.projectedPoints,
+            winProbability: outlooks.get(team.teamKey)?.winProbability,
+          })),
+        })),
+        players,
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch live scores"
+      );
+    }
+  }
+
+  /**
+   * League history across every season linked by Yahoo's renew chain:
+   * standings and champions per season, all-time manager records,
+   * head-to-head records and the highest single-week scores
+   */
+  async getLeagueHistory(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<LeagueHistoryResponse> {
+    try {
+      const seasons: SeasonData[] = [];
+      const visited = new Set<string>();
+      let nextLeagueKey: string | null = leagueKey;
+
+      while (nextLeagueKey && !visited.has(nextLeagueKey)) {
+        visited.add(nextLeagueKey);
+        try {
+          const { season, previousLeagueKey } = await this.getSeasonData(
+            nextLeagueKey,
+            accessToken
+          );
+          seasons.push(season);
+          nextLeagueKey = previousLeagueKey;
+        } catch (err: any) {
+          // Earlier seasons may be off limits to this account; keep the rest
+          if (seasons.length === 0) throw err;
+          console.warn(
+            `Stopping league history at ${nextLeagueKey}:`,
+            err.message
+          );
+          nextLeagueKey = null;
+        }
+      }
+
+      const seasonSummaries = buildSeasons(seasons);
+
+      return {
+        leagueKey,
+        seasons: seasonSummaries,
+        managers: computeManagerRecords(seasons),
+        headToHead: computeHeadToHead(seasons),
+        highScores: findHighScores(seasons, 10),
+        champions: getChampions(seasonSummaries),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch league history"
+      );
+    }
+  }
+
+  /**
+   * Simulate the rest of the regular season to estimate playoff odds,
+   * plus how those odds looked after each completed week
+   */
+  async getPlayoffOdds(
+    leagueKey: string,
+    accessToken: string,
+    simulations: number,
+    profile?: ScoringProfile
+  ): Promise<PlayoffOddsResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      const settings = normalizeLeagueSettings(
+        await this.getLeagueSettings(leagueKey, accessToken)
+      );
+
+      if (!settings) {
+        throw new Error("Could not find playoff settings in league data");
+      }
+
+      const format = {
+        regularSeasonEndWeek: settings.playoffStartWeek - 1,
+        numPlayoffTeams: settings.numPlayoffTeams,
+        numPlayoffByes: getPlayoffByes(settings.numPlayoffTeams),
+      };
+
+      // Future weeks' scoreboards already list who plays whom
+      const weeks: number[] = [];
+      for (
+        let week = seasonContext.startWeek;
+        week <= format.regularSeasonEndWeek;
+        week++
+      ) {
+        weeks.push(week);
+      }
+
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+      let matchups = normalizeMatchups(
+        await this.getScoreboards(
+          leagueKey,
+          accessToken,
+          weeks,
+          cacheCurrentWeek
+        )
+      );
+      if (profile) {
+        matchups = await this.rescoreMatchups(
+          leagueKey,
+          accessToken,
+          matchups,
+          profile,
+          cacheCurrentWeek
+        );
+      }
+
+      const completedWeeks = Array.from(
+        new Set(
+          matchups.filter((m) => m.status === "postevent").map((m) => m.week)
+        )
+      ).sort((a, b) => a - b);
+      const lastCompletedWeek =
+        completedWeeks.length > 0
+          ? completedWeeks[completedWeeks.length - 1]
+          : seasonContext.startWeek - 1;
+
+      const teams = simulatePlayoffOdds(
+        matchups,
+        format,
+        lastCompletedWeek,
+        simulations
+      );
+
+      // Replay the season week by week with fewer simulations for the trend
+      const trendSimulations = Math.max(1000, Math.floor(simulations / 5));
+      const trend: PlayoffOddsTrendPoint[] = [];
+      for (const week of completedWeeks) {
+        for (const team of simulatePlayoffOdds(
+          matchups,
+          format,
+          week,
+          trendSimulations
+        )) {
+          trend.push({
+            week,
+            teamKey: team.teamKey,
+            teamName: team.teamName,
+            playoffOdds: team.playoffOdds,
+          });
+        }
+      }
+
+      return {
+        leagueKey,
+        simulations,
+        numPlayoffTeams: format.numPlayoffTeams,
+        numPlayoffByes: format.numPlayoffByes,
+        playoffStartWeek: settings.playoffStartWeek,
+        lastCompletedWeek,
+        teams,
+        trend,
+        ...(profile && { scoringProfile: profile.id }),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to compute playoff odds"
+      );
+    }
+  }
+
+  /**
+   * Compare every team's started lineups with the best lineups they could
+   * have started, for each completed week in the range
+   */
+  async getLineupEfficiency(
+    leagueKey: string,
+    accessToken: string,
+    startWeek?: number,
+    endWeek?: number
+  ): Promise<LineupEfficiencyResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+      const settings = normalizeLeagueSettings(
+        await this.getLeagueSettings(leagueKey, accessToken)
+      );
+
+      if (!settings || settings.rosterPositions.length === 0) {
+        throw new Error("Could not find roster positions in league data");
+      }
+
+      // Only completed weeks - in-progress lineups can't be judged yet
+      const weeks = SeasonResolver.getPlayedWeeks(seasonContext).filter(
+        (week) =>
+          week < cacheCurrentWeek &&
+          (startWeek === undefined || week >= startWeek) &&
+          (endWeek === undefined || week <= endWeek)
+      );
+
+      const matchups = normalizeMatchups(
+        await this.getScoreboards(
+          leagueKey,
+          accessToken,
+          weeks,
+          cacheCurrentWeek
+        )
+      );
+
+      const teams = new Map<string, TeamLineupEfficiency>();
+
+      for (const matchup of matchups) {
+        for (const team of matchup.teams) {
+          const roster = normalizeRoster(
+            await this.getWeeklyRoster(
+              team.teamKey,
+              accessToken,
+              matchup.week,
+              cacheCurrentWeek
+            )
+          );
+
+          const started = getStartedLineup(roster, settings.rosterPositions);
+          const optimal = optimizeLineup(roster, settings.rosterPositions);
+          const opponent = matchup.teams.find(
+            (t) => t.teamKey !== team.teamKey
+          );
+          const won =
+            matchup.isTied || !matchup.winnerTeamKey
+              ? undefined
+              : matchup.winnerTeamKey === team.teamKey;
+
+          if (!teams.has(team.teamKey)) {
+            teams.set(team.teamKey, {
+              teamKey: team.teamKey,
+              teamName: team.name,
+              actualPoints: 0,
+              optimalPoints: 0,
+              benchPointsLost: 0,
+              efficiency: 0,
+              flippedWeeks: [],
+              weeks: [],
+            });
+          }
+
+          const summary = teams.get(team.teamKey)!;
+          const flipped =
+            won === false &&
+            opponent !== undefined &&
+            optimal.points > opponent.points;
+
+          summary.actualPoints += started.points;
+          summary.optimalPoints += optimal.points;
+          if (flipped) summary.flippedWeeks.push(matchup.week);
+
+          summary.weeks.push({
+            week: matchup.week,
+            actualPoints: started.points,
+            optimalPoints: optimal.points,
+            benchPointsLost: optimal.points - started.points,
+            efficiency:
+              optimal.points > 0
+                ? (started.points / optimal.points) * 100
+                : 100,
+            ...(opponent && { opponentPoints: opponent.points }),
+            ...(won !== undefined && { won }),
+            flipped,
+            startedLineup: started.lineup,
+            optimalLineup: optimal.lineup,
+          });
+        }
+      }
+
+      const results = Array.from(teams.values()).map((team) => ({
+        ...team,
+        benchPointsLost: team.optimalPoints - team.actualPoints,
+        efficiency:
+          team.optimalPoints > 0
+            ? (team.actualPoints / team.optimalPoints) * 100
+            : 100,
+      }));
+
+      // Most efficient managers first
+      results.sort((a, b) => b.efficiency - a.efficiency);
+
+      return {
+        leagueKey,
+        weekRange: {
+          start: weeks.length > 0 ? weeks[0] : seasonContext.startWeek,
+          end:
+            weeks.length > 0
+              ? weeks[weeks.length - 1]
+              : seasonContext.startWeek,
+        },
+        rosterSlots: getStartingSlots(settings.rosterPositions),
+        teams: results,
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to analyze lineups"
+      );
+    }
+  }
+
+  /**
+   * How well projections predicted the league's player pool in completed
+   * weeks: every rostered player, against the points Yahoo gave them, and
+   * free agents at the same positions, scored from Sleeper's stats. Sources
+   * are Sleeper's projections scored with the league's rules, Yahoo's own
+   * where its rosters include them, and each source imported as CSV
+   */
+  async getProjectionAccuracy(
+    leagueKey: string,
+    accessToken: string,
+    startWeek?: number,
+    endWeek?: number
+  ): Promise<ProjectionAccuracyResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+
+      // Only completed weeks have final points to check against
+      const weeks = SeasonResolver.getPlayedWeeks(seasonContext).filter(
+        (week) =>
+          week < cacheCurrentWeek &&
+          (startWeek === undefined || week >= startWeek) &&
+          (endWeek === undefined || week <= endWeek)
+      );
+
+      const matchups = normalizeMatchups(
+        await this.getScoreboards(
+          leagueKey,
+          accessToken,
+          weeks,
+          cacheCurrentWeek
+        )
+      );
+
+      const rostered: Array<{ week: number; player: NormalizedRosterPlayer }> =
+        [];
+      for (const matchup of matchups) {
+        for (const team of matchup.teams) {
+          const roster = normalizeRoster(
+            await this.getWeeklyRoster(
+              team.teamKey,
+              accessToken,
+              matchup.week,
+              cacheCurrentWeek
+            )
+          );
+          for (const player of roster) {
+            rostered.push({ week: matchup.week, player });
+          }
+        }
+      }
+      const players = new Map(
+        rostered.map(({ player }) => [player.playerKey, player])
+      );
+
+      const scoringRules = await FantasyPointsCalculator.getScoringRules(
+        leagueKey,
+        accessToken
+      );
+      const getProjections = (week: number) =>
+        this.sleeperService.getWeekProjections(
+          week,
+          seasonContext.season,
+          cacheCurrentWeek
+        );
+      const { points: sleeperProjections, sleeperIds } =
+        await this.scoreSleeperWeeks(
+          Array.from(players.values()),
+          weeks,
+          getProjections,
+          scoringRules
+        );
+
+      const pool: PooledPlayerWeek[] = rostered.map(({ week, player }) => ({
+        week,
+        position: player.position.split(",")[0],
+        actual: player.actualPoints,
+        sleeper: sleeperProjections.get(week)?.get(player.playerKey),
+        yahoo: player.projectedPoints,
+        lookup: {
+          playerId: player.playerKey.split(".p.")[1],
+          name: player.name,
+          position: player.position,
+        },
+      }));
+
+      // The rest of the player pool at the same positions, so the report
+      // isn't limited to players managers chose. Yahoo only projects
+      // rostered players here; free agents' points come from Sleeper's stats
+      const positions = new Set(
+        rostered.flatMap(({ player }) =>
+          player.position.split(",").map((p) => p.trim())
+        )
+      );
+      const sleeperPlayers = await this.sleeperService.getPlayers();
+      const yahooIds = this.sleeperService.getMatchedYahooIds();
+      const scoringSettings = {
+        statMappings: new Map<number, string>(),
+        scoringRules,
+      };
+      const score = (line: SleeperStats[string] | undefined) =>
+        line &&
+        this.sleeperService.calculateFantasyPoints(line, scoringSettings)
+          .points;
+      const freeAgentIds = new Set<string>();
+      for (const week of weeks) {
+        // Fetching stores the week, so each position's lines can be read
+        // back from the database by index instead of scanning every player
+        await Promise.all([
+          getProjections(week),
+          this.sleeperService.getWeekStats(
+            week,
+            seasonContext.season,
+            cacheCurrentWeek
+          ),
+        ]);
+        const rosteredIds = new Set(
+          rostered
+            .filter((r) => r.week === week)
+            .map((r) => sleeperIds.get(r.player.playerKey))
+        );
+
+        const projections: SleeperStats = {};
+        const stats: SleeperStats = {};
+        for (const position of positions) {
+          Object.assign(
+            projections,
+            storage.getWeeklyStatsByPosition(
+              "projections",
+              seasonContext.season,
+              week,
+              position
+            )
+          );
+          Object.assign(
+            stats,
+            storage.getWeeklyStatsByPosition(
+              "stats",
+              seasonContext.season,
+              week,
+              position
+            )
+          );
+        }
+
+        for (const sleeperId of new Set([
+          ...Object.keys(projections),
+          ...Object.keys(stats),
+        ])) {
+          const player = sleeperPlayers.get(sleeperId);
+          if (rosteredIds.has(sleeperId) || !player) continue;
+
+          const projected = score(projections[sleeperId]);
+          const actual = score(stats[sleeperId]) || 0;
+          // Nothing expected and nothing scored: a depth chart filler
+          if (!projected && actual === 0) continue;
+
+          freeAgentIds.add(sleeperId);
+          pool.push({
+            week,
+            position: player.position,
+            actual,
+            sleeper: projected,
+            lookup: {
+              playerId: yahooIds.get(sleeperId),
+              name: player.full_name,
+              position: player.position,
+            },
+          });
+        }
+      }
+
+      const imported = new Map<string, ImportedProjectionRow[]>();
+      for (const row of storage.getImportedProjections(leagueKey)) {
+        if (!imported.has(row.source)) imported.set(row.source, []);
+        imported.get(row.source)!.push(row);
+      }
+      const importIndexes = Array.from(imported.entries()).map(
+        ([source, rows]) => ({
+          source,
+          index: new ImportedProjectionIndex(rows),
+        })
+      );
+
+      const sources = [
+        { source: "Sleeper", kind: "sleeper" as const },
+        { source: "Yahoo", kind: "yahoo" as const },
+        ...importIndexes.map(({ source }) => ({
+          source,
+          kind: "csv" as const,
+        })),
+      ].map((s) => ({ ...s, results: [] as ProjectedResult[] }));
+      const resultsFor = new Map(sources.map((s) => [s.source, s.results]));
+
+      for (const entry of pool) {
+        // Players without a projection (byes, not in the source) aren't
+        // scored; zero and negative projections are
+        const add = (source: string, projected: number | undefined) => {
+          if (projected === undefined) return;
+          resultsFor.get(source)!.push({
+            week: entry.week,
+            position: entry.position,
+            projected,
+            actual: entry.actual,
+          });
+        };
+
+        add("Sleeper", entry.sleeper);
+        add("Yahoo", entry.yahoo);
+        for (const { source, index } of importIndexes) {
+          add(source, index.get(entry.week, entry.lookup));
+        }
+      }
+
+      return {
+        leagueKey,
+        weekRange: {
+          start: weeks.length > 0 ? weeks[0] : seasonContext.startWeek,
+          end:
+            weeks.length > 0
+              ? weeks[weeks.length - 1]
+              : seasonContext.startWeek,
+        },
+        players: players.size + freeAgentIds.size,
+        sources: sources.map((s) =>
+          buildSourceReport(s.source, s.kind, s.results)
+        ),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to analyze projections"
+      );
+    }
+  }
+
+  /**
+   * Store projections uploaded as CSV for a league's projection report,
+   * replacing any imported under the same name
+   */
+  async importProjections(
+    accessToken: string,
+    input: ProjectionImportInput
+  ): Promise<ProjectionImportResponse> {
+    const rows = parseProjectionCsv(input.csv);
+
+    try {
+      // Only someone who can see the league can add to its report
+      await this.checkLeagueAccess(input.leagueKey, accessToken);
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        input.leagueKey,
+        accessToken
+      );
+
+      const weeks = Array.from(new Set(rows.map((r) => r.week))).sort(
+        (a, b) => a - b
+      );
+      const outside = weeks.find(
+        (week) => week < seasonContext.startWeek || week > seasonContext.endWeek
+      );
+      if (outside !== undefined) {
+        throw new ValidationError(
+          `Week ${outside} isn't in the league's season (weeks ${seasonContext.startWeek}-${seasonContext.endWeek})`
+        );
+      }
+
+      storage.replaceImportedProjections(input.leagueKey, input.source, rows);
+      return { source: input.source, rows: rows.length, weeks };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to import projections"
+      );
+    }
+  }
+
+  /**
+   * Remove a source imported for a league's projection report
+   */
+  async deleteImportedProjections(
+    leagueKey: string,
+    accessToken: string,
+    source: string
+  ): Promise<void> {
+    try {
+      await this.checkLeagueAccess(leagueKey, accessToken);
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to delete imported projections"
+      );
+    }
+
+    if (!storage.deleteImportedProjections(leagueKey, source)) {
+      throw new NotFound(`No projections imported as ${source}`);
+    }
+  }
+
+  /**
+   * Fetch every team's current roster
+   */
+  async getLeagueRosters(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<LeagueRostersResponse> {
+    try {
+      // Standings list the teams without the scoreboards getLeague loads
+      const standingsData = await this.getStandings(leagueKey, accessToken);
+      const seasonContext =
+        SeasonResolver.fromLeagueResponse(leagueKey, standingsData) ??
+        (await SeasonResolver.getLeagueSeason(leagueKey, accessToken));
+
+      const teams: TeamRoster[] = [];
+      for (const team of normalizeLeague(standingsData).teams) {
+        const data = await this.getCurrentRoster(
+          team.teamKey,
+          accessToken,
+          seasonContext.currentWeek
+        );
+        teams.push({
+          teamKey: team.teamKey,
+          teamName: team.name,
+          players: normalizeRoster(data).map((p) => ({
+            playerKey: p.playerKey,
+            name: p.name,
+            position: p.position,
+            team: p.team,
+            selectedPosition: p.selectedPosition,
+          })),
+        });
+      }
+
+      return { leagueKey, week: seasonContext.currentWeek, teams };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch rosters"
+      );
+    }
+  }
+
+  /**
+   * Value a two-team trade with rest-of-season Sleeper projections scored by
+   * the league's own rules, and how it changes each team's optimal lineup
+   */
+  async evaluateTrade(
+    leagueKey: string,
+    accessToken: string,
+    sides: TradeSide[],
+    profile?: ScoringProfile
+  ): Promise<TradeEvaluationResponse> {
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      if (seasonContext.isFinished) {
+        throw new ValidationError(
+          "Season is over, there are no weeks left to project"
+        );
+      }
+
+      const settings = normalizeLeagueSettings(
+        await this.getLeagueSettings(leagueKey, accessToken)
+      );
+      if (!settings || settings.rosterPositions.length === 0) {
+        throw new Error("Could not find roster positions in league data");
+      }
+
+      // Current rosters for both teams
+      const rosters = new Map<
+        string,
+        { name: string; players: NormalizedRosterPlayer[] }
+      >();
+      for (const side of sides) {
+        const data = await this.getCurrentRoster(
+          side.teamKey,
+          accessToken,
+          seasonContext.currentWeek
+        );
+        const players = normalizeRoster(data);
+        const teamName = normalizeRosterTeam(data)?.name || side.teamKey;
+
+        for (const playerKey of side.gives) {
+          if (!players.some((p) => p.playerKey === playerKey)) {
+            throw new ValidationError(
+              `Invalid trade: player ${playerKey} is not on ${teamName}'s roster`
+            );
+          }
+        }
+
+        rosters.set(side.teamKey, { name: teamName, players });
+      }
+
+      // Score every rostered player's weekly projections with league rules
+      const scoringRules = await FantasyPointsCalculator.getScoringRules(
+        leagueKey,
+        accessToken
+      );
+      const allPlayers = Array.from(rosters.values()).flatMap((r) => r.players);
+
+      const weeks: number[] = [];
+      for (
+        let week = seasonContext.currentWeek;
+        week <= seasonContext.endWeek;
+        week++
+      ) {
+        weeks.push(week);
+      }
+
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+      const { points: projections, matched } = await this.scoreSleeperWeeks(
+        allPlayers,
+        weeks,
+        (week) =>
+          this.sleeperService.getWeekProjections(
+            week,
+            seasonContext.season,
+            cacheCurrentWeek
+          ),
+        scoringRules,
+        profile
+      );
+
+      const toPlayerValue = (p: NormalizedRosterPlayer): TradePlayerValue => ({
+        playerKey: p.playerKey,
+        name: p.name,
+        position: p.position,
+        team: p.team,
+        restOfSeasonPoints: getRestOfSeasonPoints(p.playerKey, projections),
+        hasProjections: matched.has(p.playerKey),
+      });
+
+      const evaluations: TradeSideEvaluation[] = sides.map((side) => {
+        const roster = rosters.get(side.teamKey)!;
+        const otherSide = sides.find((s) => s.teamKey !== side.teamKey)!;
+        const otherRoster = rosters.get(otherSide.teamKey)!;
+
+        const gives = roster.players.filter((p) =>
+          side.gives.includes(p.playerKey)
+        );
+        const gets = otherRoster.players.filter((p) =>
+          otherSide.gives.includes(p.playerKey)
+        );
+
+        const lineupWeeks = compareLineupStrength(
+          roster.players,
+          applyTrade(roster.players, side.gives, gets),
+          settings.rosterPositions,
+          projections
+        );
+
+        const givesValues = gives.map(toPlayerValue);
+        const getsValues = gets.map(toPlayerValue);
+        const valueGiven = givesValues.reduce(
+          (sum, p) => sum + p.restOfSeasonPoints,
+          0
+        );
+        const valueReceived = getsValues.reduce(
+          (sum, p) => sum + p.restOfSeasonPoints,
+          0
+        );
+        const lineupBefore = lineupWeeks.reduce((sum, w) => sum + w.before, 0);
+        const lineupAfter = lineupWeeks.reduce((sum, w) => sum + w.after, 0);
+
+        return {
+          teamKey: side.teamKey,
+          teamName: roster.name,
+          gives: givesValues,
+          gets: getsValues,
+          valueGiven,
+          valueReceived,
+          netValue: valueReceived - valueGiven,
+          lineupBefore,
+          lineupAfter,
+          lineupChange: lineupAfter - lineupBefore,
+          weeks: lineupWeeks,
+        };
+      });
+
+      return {
+        leagueKey,
+        weekRange: { start: weeks[0], end: weeks[weeks.length - 1] },
+        sides: evaluations,
+        ...(profile && { scoringProfile: profile.id }),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "Team not found. Check your team keys.",
+        "Failed to evaluate trade"
+      );
+    }
+  }
+
+  /**
+   * Rank free agents by how much they'd improve a team's best possible lineup
+   * over the rest of the season, each paired with the player to drop and a
+   * FAAB bid range from the league's bidding history
+   */
+  async getWaiverTargets(
+    teamKey: string,
+    accessToken: string,
+    count: number
+  ): Promise<WaiverTargetsResponse> {
+    const leagueKey = teamKey.split(".t.")[0];
+    const gameKey = leagueKey.split(".l.")[0];
+
+    try {
+      const seasonContext = await SeasonResolver.getLeagueSeason(
+        leagueKey,
+        accessToken
+      );
+      if (seasonContext.isFinished) {
+        throw new ValidationError(
+          "Season is over, there are no weeks left to project"
+        );
+      }
+
+      const settings = normalizeLeagueSettings(
+        await this.getLeagueSettings(leagueKey, accessToken)
+      );
+      if (!settings || settings.rosterPositions.length === 0) {
+        throw new Error("Could not find roster positions in league data");
+      }
+
+      const rosterData = await this.getCurrentRoster(
+        teamKey,
+        accessToken,
+        seasonContext.currentWeek
+      );
+      const roster = normalizeRoster(rosterData);
+      const teamName = normalizeRosterTeam(rosterData)?.name || teamKey;
+
+      // Best available players at every position the lineup can start
+      const positions = new Set(
+        getStartingSlots(settings.rosterPositions).flatMap(getSlotPositions)
+      );
+      const freeAgents = new Map<string, NormalizedRosterPlayer>();
+      for (const position of positions) {
+        const search = normalizePlayerSearch(
+          await this.searchPlayers(
+            gameKey,
+            accessToken,
+            { position, status: "A", sort: "AR", count: 25 },
+            leagueKey
+          ),
+          gameKey,
+          0,
+          25
+        );
+        for (const player of search.players) {
+          freeAgents.set(player.playerKey, toRosterPlayer(player));
+        }
+      }
+
+      const scoringRules = await FantasyPointsCalculator.getScoringRules(
+        leagueKey,
+        accessToken
+      );
+      const allPlayers = [...roster, ...freeAgents.values()];
+      const cacheCurrentWeek =
+        SeasonResolver.getCacheCurrentWeek(seasonContext);
+
+      const weeks: number[] = [];
+      for (
+        let week = seasonContext.currentWeek;
+        week <= seasonContext.endWeek;
+        week++
+      ) {
+        weeks.push(week);
+      }
+      const { points: projections, matched } = await this.scoreSleeperWeeks(
+        allPlayers,
+        weeks,
+        (week) =>
+          this.sleeperService.getWeekProjections(
+            week,
+            seasonContext.season,
+            cacheCurrentWeek
+          ),
+        scoringRules
+      );
+
+      // Last three completed weeks of actual stats
+      const recentWeeks = SeasonResolver.getPlayedWeeks(seasonContext)
+        .filter((week) => week < cacheCurrentWeek)
+        .slice(-3);
+      const { points: recent } = await this.scoreSleeperWeeks(
+        allPlayers,
+        recentWeeks,
+        (week) =>
+          this.sleeperService.getWeekStats(
+            week,
+            seasonContext.season,
+            cacheCurrentWeek
+          ),
+        scoringRules
+      );
+
+      const toPlayerValue = (p: NormalizedRosterPlayer): WaiverPlayerValue => {
+        const recentPoints = Array.from(recent.values())
+          .map((weekPoints) => weekPoints.get(p.playerKey))
+          .filter((points): points is number => points !== undefined);
+        return {
+          playerKey: p.playerKey,
+          name: p.name,
+          position: p.position,
+          team: p.team,
+          restOfSeasonPoints: getRestOfSeasonPoints(p.playerKey, projections),
+          hasProjections: matched.has(p.playerKey),
+          recentPoints:
+            recentPoints.length > 0
+              ? recentPoints.reduce((sum, points) => sum + points, 0) /
+                recentPoints.length
+              : 0,
+        };
+      };
+
+      const pairs = [];
+      for (const add of freeAgents.values()) {
+        const pair = findBestDrop(
+          roster,
+          add,
+          settings.rosterPositions,
+          projections
+        );
+        if (pair) pairs.push({ add, ...pair });
+      }
+      pairs.sort((a, b) => b.pointsGain - a.pointsGain);
+      const topPairs = pairs.slice(0, count);
+
+      // Winning bids so far; bid suggestions are optional extras
+      let winningBids: number[] = [];
+      try {
+        const { transactions } = await this.getTransactions(
+          leagueKey,
+          accessToken,
+          { type: "waiver" },
+          false
+        );
+        winningBids = transactions
+          .filter((t) => t.status === "successful" && t.faabBid !== undefined)
+          .map((t) => t.faabBid!);
+      } catch (err: any) {
+        console.warn(
+          `Failed to load FAAB history for ${leagueKey}:`,
+          err.message
+        );
+      }
+      const sortedBids = [...winningBids].sort((a, b) => a - b);
+      const maxGain = topPairs.length > 0 ? topPairs[0].pointsGain : 0;
+
+      const targets: WaiverTarget[] = topPairs.map((pair) => {
+        const weakestStarter = getWeakestStarter(
+          roster,
+          pair.add.position,
+          settings.rosterPositions,
+          projections
+        );
+        const faabBid = suggestFaabRange(
+          winningBids,
+          maxGain > 0 ? pair.pointsGain / maxGain : 0
+        );
+        return {
+          add: toPlayerValue(pair.add),
+          drop: toPlayerValue(pair.drop),
+          ...(weakestStarter && {
+            weakestStarter: toPlayerValue(weakestStarter),
+          }),
+          pointsGain: pair.pointsGain,
+          weeks: pair.weeks,
+          ...(faabBid && { faabBid }),
+        };
+      });
+
+      return {
+        teamKey,
+        teamName,
+        weekRange: { start: weeks[0], end: weeks[weeks.length - 1] },
+        targets,
+        faabHistory: {
+          claims: sortedBids.length,
+          medianBid:
+            sortedBids.length > 0
+              ? sortedBids[Math.floor(sortedBids.length / 2)]
+              : 0,
+          maxBid: sortedBids.length > 0 ? sortedBids[sortedBids.length - 1] : 0,
+        },
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "Team not found. Check your team key.",
+        "Failed to find waiver targets"
+      );
+    }
+  }
+
+  /**
+   * Analyze the league draft: every pick valued by season-to-date points over
+   * replacement, compared with its draft slot, plus a grade for each team
+   */
+  async getDraft(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<DraftResponse> {
+    try {
+      const picks = normalizeDraftResults(
+        await this.getDraftResults(leagueKey, accessToken)
+      );
+      if (picks.length === 0) {
+        throw new NotFound(
+          "Draft results not found. Has the draft happened yet?"
+        );
+      }
+
+      // Standings list the teams without the scoreboards getLeague loads
+      const { teams } = normalizeLeague(
+        await this.getStandings(leagueKey, accessToken)
+      );
+      const settings = normalizeLeagueSettings(
+        await this.getLeagueSettings(leagueKey, accessToken)
+      );
+
+      const players = new Map<string, NormalizedLeaguePlayer>();
+      for (const player of await this.getSeasonPlayers(
+        leagueKey,
+        accessToken,
+        picks.map((pick) => pick.playerKey)
+      )) {
+        players.set(player.playerKey, player);
+      }
+
+      const teamNames = new Map(teams.map((team) => [team.teamKey, team.name]));
+      const replacementLevels = getReplacementLevels(
+        Array.from(players.values()),
+        getStartersByPosition(settings?.rosterPositions || [], teams.length)
+      );
+
+      const analyzed = analyzePicks(
+        picks,
+        players,
+        replacementLevels,
+        teamNames
+      );
+      const bySurplus = [...analyzed].sort((a, b) => b.surplus - a.surplus);
+
+      return {
+        leagueKey,
+        draftType: picks.some((pick) => pick.cost !== undefined)
+          ? "auction"
+          : "snake",
+        rounds: Math.max(...picks.map((pick) => pick.round)),
+        teamOrder: picks
+          .filter((pick) => pick.round === 1)
+          .map((pick) => ({
+            teamKey: pick.teamKey,
+            teamName: teamNames.get(pick.teamKey) || pick.teamKey,
+          })),
+        replacementLevels: Object.fromEntries(replacementLevels.entries()),
+        picks: analyzed,
+        teamGrades: gradeTeams(analyzed),
+        steals: bySurplus.filter((pick) => pick.surplus > 0).slice(0, 5),
+        busts: bySurplus
+          .filter((pick) => pick.surplus < 0)
+          .reverse()
+          .slice(0, 5),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to analyze draft"
+      );
+    }
+  }
+
+  /**
+   * Fetch raw league draft results, using the database cache once the draft is done
+   */
+  /**
+   * The league's standings response: league metadata and every team's record
+   */
+  private async getStandings(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<any> {
+    const standingsUrl = `league/${encodeURIComponent(leagueKey)}/standings`;
+    return yahooClient.get(standingsUrl, accessToken);
+  }
+
+  private async getDraftResults(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<any> {
+    const cached = await draftResultsCache.get(leagueKey);
+    if (cached) {
+      return cached;
+    }
+
+    const yahooUrl = `league/${encodeURIComponent(leagueKey)}/draftresults`;
+
+    const data = await yahooClient.get(yahooUrl, accessToken);
+
+    // Don't cache a draft that hasn't happened yet
+    if (normalizeDraftResults(data).length > 0) {
+      await draftResultsCache.set(leagueKey, data);
+    }
+    return data;
+  }
+
+  /**
+   * Fetch name, position and season-to-date points under league scoring for
+   * the given players. Yahoo allows 25 player keys per request.
+   */
+  private async getSeasonPlayers(
+    leagueKey: string,
+    accessToken: string,
+    playerKeys: string[]
+  ): Promise<NormalizedLeaguePlayer[]> {
+    const batchSize = 25;
+    const players: NormalizedLeaguePlayer[] = [];
+
+    for (let start = 0; start < playerKeys.length; start += batchSize) {
+      const batchKeys = playerKeys.slice(start, start + batchSize);
+      const keys = batchKeys.join(",");
+      // Cached by which players are in the batch, in any order
+      const cacheKey = `${leagueKey}:${crypto
+        .createHash("sha1")
+        .update([...batchKeys].sort().join(","))
+        .digest("hex")}`;
+      let data = await seasonPlayersCache.get(cacheKey);
+
+      if (!data) {
+        const yahooUrl = `league/${encodeURIComponent(
+          leagueKey
+        )}/players;player_keys=${keys}/stats;type=season`;
+
+        data = await yahooClient.get(yahooUrl, accessToken);
+        await seasonPlayersCache.set(cacheKey, data);
+      }
+
+      players.push(...normalizeLeaguePlayers(data));
+    }
+
+    return players;
+  }
+
+  /**
+   * Fetch league transactions placed on the week calendar, optionally
+   * filtered, with how each pickup scored while on the team that added it
+   */
+  async getTransactions(
+    leagueKey: string,
+    accessToken: string,
+    filters: TransactionFilters,
+    includePerformance: boolean
+  ): Promise<TransactionsResponse> {
+    try {
+      const transactionsUrl = `league/${encodeURIComponent(
+        leagueKey
+      )}/transactions`;
+
+      const data = await yahooClient.get(transactionsUrl, accessToken);
+
+      const gameWeeks = normalizeGameWeeks(
+        await this.getGameWeeks(leagueKey.split(".l.")[0], accessToken)
+      );
+      const transactions = buildTransactions(
+        normalizeTransactions(data),
+        gameWeeks
+      );
+      const filtered = filterTransactions(transactions, filters);
+
+      if (includePerformance) {
+        const seasonContext = await SeasonResolver.getLeagueSeason(
+          leagueKey,
+          accessToken
+        );
+        const lastCompletedWeek = Math.min(
+          SeasonResolver.getCacheCurrentWeek(seasonContext) - 1,
+          seasonContext.endWeek
+        );
+
+        const periods = getHoldingPeriods(
+          transactions,
+          lastCompletedWeek
+        ).filter((period) =>
+          filtered.some((t) => t.transactionKey === period.transactionKey)
+        );
+
+        // Every player needed for each week, fetched together
+        const playersByWeek = new Map<number, Set<string>>();
+        for (const period of periods) {
+          for (let week = period.startWeek; week <= period.endWeek; week++) {
+            const players = playersByWeek.get(week) || new Set<string>();
+            players.add(period.playerKey);
+            playersByWeek.set(week, players);
+          }
+        }
+
+        const pointsByWeek = new Map<number, { [playerKey: string]: number }>();
+        for (const [week, players] of playersByWeek.entries()) {
+          pointsByWeek.set(
+            week,
+            await this.getWeeklyPlayerPoints(
+              leagueKey,
+              accessToken,
+              week,
+              Array.from(players)
+            )
+          );
+        }
+
+        for (const period of periods) {
+          const transaction = filtered.find(
+            (t) => t.transactionKey === period.transactionKey
+          );
+          const player = transaction?.players.find(
+            (p) => p.playerKey === period.playerKey && p.action !== "drop"
+          );
+          if (!player) continue;
+
+          const weeklyPoints = [];
+          for (let week = period.startWeek; week <= period.endWeek; week++) {
+            weeklyPoints.push({
+              week,
+              points: pointsByWeek.get(week)?.[period.playerKey] || 0,
+            });
+          }
+          const totalPoints = weeklyPoints.reduce(
+            (sum, w) => sum + w.points,
+            0
+          );
+
+          player.performance = {
+            weeks: weeklyPoints.length,
+            totalPoints,
+            averagePoints:
+              weeklyPoints.length > 0 ? totalPoints / weeklyPoints.length : 0,
+            weeklyPoints,
+          };
+        }
+      }
+
+      return {
+        leagueKey,
+        transactions: filtered,
+        faabSpend: computeFaabSpend(transactions),
+      };
+    } catch (err: any) {
+      throw toServiceError(
+        err,
+        "League not found. Check your league key.",
+        "Failed to fetch transactions"
+      );
+    }
+  }
+
+  /**
+   * Fetch a game's week calendar, using the database cache
+   */
+  private async getGameWeeks(
+    gameKey: string,
+    accessToken: string
+  ): Promise<any> {
+    const cached = await gameWeeksCache.get(gameKey);
+    if (cached) {
+      return cached;
+    }
+
+    const yahooUrl = `game/${encodeURIComponent(gameKey)}/game_weeks`;
+
+    const data = await yahooClient.get(yahooUrl, accessToken);
+
+    await gameWeeksCache.set(gameKey, data);
+    return data;
+  }
+
+  /**
+   * Points under league scoring for players in a completed week, keyed by
+   * player key. Only players missing from the database cache are fetched, 25 per
+   * request.
+   */
+  private async getWeeklyPlayerPoints(
+    leagueKey: string,
+    accessToken: string,
+    week: number,
+    playerKeys: string[]
+  ): Promise<{ [playerKey: string]: number }> {
+    const points =
+      (await weeklyPlayerPointsCache.get(`${leagueKey}:${week}`)) || {};
+    const missing = playerKeys.filter((key) => points[key] === undefined);
+    if (missing.length === 0) {
+      return points;
+    }
+
+    const batchSize = 25;
+    for (let start = 0; start < missing.length; start += batchSize) {
+      const keys = missing.slice(start, start + batchSize).join(",");
+      const yahooUrl = `league/${encodeURIComponent(
+        leagueKey
+      )}/players;player_keys=${keys}/stats;type=week;week=${week}`;
 
-  // File cache directory
-  private readonly cacheDir = path.join(__dirname, "..", "cache");
+      const data = await yahooClient.get(yahooUrl, accessToken);
 
-  constructor() {
-    // Ensure cache directory exists
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
+      for (const player of normalizeLeaguePlayers(data)) {
+        points[player.playerKey] = player.points;
+      }
     }
-  }
 
-  private async rateLimit() {
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.minDelayMs) {
-      await new Promise((resolve) =>
-        setTimeout(resolve, this.minDelayMs - timeSinceLastRequest)
-      );
+    // Players Yahoo returned nothing for (e.g. retired) count as 0 so they
+    // aren't refetched every time
+    for (const key of missing) {
+      if (points[key] === undefined) points[key] = 0;
     }
-    this.lastRequestTime = Date.now();
+
+    await weeklyPlayerPointsCache.set(`${leagueKey}:${week}`, points);
+    return points;
   }
 
-  private getCachedRoster(teamKey: string, week: number): any | null {
-    const cacheKey = `${teamKey}:${week}`;
-    const cached = this.rosterCache.get(cacheKey);
-    if (cached && Date.now() - cached.timestamp < this.cacheExpiryMs) {
-      return cached.data;
+  /**
+   * Score Sleeper stat lines (actual or projected) for Yahoo players with the
+   * league's rules, one map of points by player key per week. Players that
+   * can't be matched to Sleeper are left out, as are their bye weeks.
+   */
+  private async scoreSleeperWeeks(
+    players: Array<{
+      playerKey: string;
+      name: string;
+      position: string;
+      team: string;
+    }>,
+    weeks: number[],
+    getWeekStats: (week: number) => Promise<SleeperStats>,
+    scoringRules: Map<number, number>,
+    profile?: ScoringProfile
+  ): Promise<{
+    points: WeeklyProjections;
+    matched: Set<string>;
+    sleeperIds: Map<string, string>; // Yahoo player key -> Sleeper ID
+  }> {
+    const sleeperIds = new Map<string, string>();
+    for (const player of players) {
+      const sleeperPlayer = await this.sleeperService.findPlayer({
+        playerId: player.playerKey.split(".p.")[1] || player.playerKey,
+        name: player.name,
+        position: player.position,
+        team: player.team,
+      });
+      if (sleeperPlayer) {
+        sleeperIds.set(player.playerKey, sleeperPlayer.player_id);
+      }
     }
-    return null;
-  }
 
-  private setCachedRoster(teamKey: string, week: number, data: any) {
-    const cacheKey = `${teamKey}:${week}`;
-    this.rosterCache.set(cacheKey, { data, timestamp: Date.now() });
+    const weeklyStats = await Promise.all(weeks.map(getWeekStats));
+
+    const points: WeeklyProjections = new Map();
+    weeks.forEach((week, i) => {
+      const weekPoints = new Map<string, number>();
+      for (const player of players) {
+        const sleeperId = sleeperIds.get(player.playerKey);
+        const stats = sleeperId && weeklyStats[i][sleeperId];
+        if (!stats) continue; // Unmatched, bye week or no stats
+
+        const scoringSettings = {
+          statMappings: new Map<number, string>(),
+          scoringRules: profile
+            ? FantasyPointsCalculator.applyScoringProfile(
+                scoringRules,
+                profile,
+                player.position
+              )
+            : scoringRules,
+        };
+        weekPoints.set(
+          player.playerKey,
+          this.sleeperService.calculateFantasyPoints(stats, scoringSettings)
+            .points
+        );
+      }
+      points.set(week, weekPoints);
+    });
+
+    return { points, matched: new Set(sleeperIds.keys()), sleeperIds };
   }
 
   /**
-   * Get cached scoreboard from file system
-   * @param leagueKey League identifier
-   * @param week Week number
-   * @param currentWeek Current week (for TTL logic)
-   * @returns Cached data or null if not found/expired
+   * Win probability and expected final score for each team in the current
+   * week's matchups, keyed by team key. Each team's points so far are added
+   * to what its starters are still projected to score, going by whether
+   * their NFL games have started (Sleeper's schedule, or the matchup status
+   * when a team isn't on it). How much to trust the projections is fit from
+   * how far Sleeper's projections missed for the same players earlier in
+   * the season.
    */
-  private getCachedScoreboard(
+  private async projectMatchups(
     leagueKey: string,
-    week: number,
-    currentWeek: number
-  ): any | null {
-    try {
-      const filename = `league_${leagueKey.replace(
-        /\./g,
-        "_"
-      )}_week_${week}_scoreboard.json`;
-      const filepath = path.join(this.cacheDir, filename);
+    accessToken: string,
+    seasonContext: SeasonContext,
+    matchups: NormalizedMatchup[],
+    profile?: ScoringProfile
+  ): Promise<Map<string, Omit<WinProbabilityPoint, "recordedAt">>> {
+    const week = Math.min(seasonContext.currentWeek, seasonContext.endWeek);
+    const cacheCurrentWeek = SeasonResolver.getCacheCurrentWeek(seasonContext);
+
+    const settings = normalizeLeagueSettings(
+      await this.getLeagueSettings(leagueKey, accessToken)
+    );
+    if (!settings || settings.rosterPositions.length === 0) {
+      throw new Error("Could not find roster positions in league data");
+    }
+    const startingSlots = new Set(getStartingSlots(settings.rosterPositions));
+    const scoringRules = await FantasyPointsCalculator.getScoringRules(
+      leagueKey,
+      accessToken
+    );
 
-      if (!fs.existsSync(filepath)) {
-        return null;
-      }
+    const rosters = new Map<string, NormalizedRosterPlayer[]>();
+    for (const team of matchups.flatMap((m) => m.teams)) {
+      const data = await this.getCurrentRoster(
+        team.teamKey,
+        accessToken,
+        seasonContext.currentWeek
+      );
+      rosters.set(team.teamKey, normalizeRoster(data));
+    }
+    const allPlayers = Array.from(rosters.values()).flat();
 
-      const cached = JSON.parse(fs.readFileSync(filepath, "utf-8"));
+    const pastWeeks: number[] = [];
+    for (let w = seasonContext.startWeek; w < week; w++) {
+      pastWeeks.push(w);
+    }
+    const { points: projections } = await this.scoreSleeperWeeks(
+      allPlayers,
+      [...pastWeeks, week],
+      (w) =>
+        this.sleeperService.getWeekProjections(
+          w,
+          seasonContext.season,
+          cacheCurrentWeek
+        ),
+      scoringRules,
+      profile
+    );
+    const { points: actuals } = await this.scoreSleeperWeeks(
+      allPlayers,
+      pastWeeks,
+      (w) =>
+        this.sleeperService.getWeekStats(
+          w,
+          seasonContext.season,
+          cacheCurrentWeek
+        ),
+      scoringRules,
+      profile
+    );
 
-      // Past weeks never expire (immutable historical data)
-      if (week < currentWeek) {
-        return cached.data;
+    const samples: ProjectionSample[] = [];
+    for (const w of pastWeeks) {
+      const weekActuals = actuals.get(w)!;
+      for (const [playerKey, projected] of projections.get(w)!) {
+        const actual = weekActuals.get(playerKey);
+        if (actual !== undefined) {
+          samples.push({ projected, actual });
+        }
       }
+    }
+    const variancePerPoint = fitVariancePerPoint(samples);
 
-      // Current week expires after 1 hour (games may still be in progress)
-      const oneHour = 60 * 60 * 1000;
-      if (Date.now() - cached.timestamp < oneHour) {
-        return cached.data;
+    const gameStates = await this.sleeperService.getGameStates(
+      seasonContext.season,
+      week
+    );
+    const weekProjections = projections.get(week)!;
+
+    const outlooks = new Map<string, TeamOutlook>();
+    for (const matchup of matchups) {
+      const matchupState: GameState =
+        matchup.status === "postevent"
+          ? "post"
+          : matchup.status === "preevent"
+          ? "pre"
+          : "in";
+
+      for (const team of matchup.teams) {
+        const starters = rosters
+          .get(team.teamKey)!
+          .filter((p) => startingSlots.has(p.selectedPosition))
+          .map((p) => ({
+            projectedPoints: weekProjections.get(p.playerKey) || 0,
+            // A final matchup is final whatever the schedule says
+            gameState:
+              matchupState === "post"
+                ? matchupState
+                : gameStates.get(normalizeTeam(p.team)) || matchupState,
+          }));
+        outlooks.set(
+          team.teamKey,
+          projectTeam(team.points, starters, variancePerPoint)
+        );
       }
+    }
 
-      return null;
-    } catch (error) {
-      return null;
+    const projected = new Map<
+      string,
+      Omit<WinProbabilityPoint, "recordedAt">
+    >();
+    for (const matchup of matchups) {
+      for (const team of matchup.teams) {
+        const outlook = outlooks.get(team.teamKey)!;
+        const opponent = matchup.teams.find((t) => t.teamKey !== team.teamKey);
+        projected.set(team.teamKey, {
+          teamKey: team.teamKey,
+          points: team.points,
+          expectedPoints: outlook.points + outlook.remainingPoints,
+          winProbability: opponent
+            ? winProbability(outlook, outlooks.get(opponent.teamKey)!)
+            : 1,
+        });
+      }
     }
+    return projected;
   }
 
   /**
-   * Save scoreboard to file system cache
+   * Add the current win probabilities to the week's timeline. A failed
+   * write only costs a point on the timeline, so it doesn't fail the request
    */
-  private setCachedScoreboard(leagueKey: string, week: number, data: any) {
+  private recordWinProbabilities(
+    leagueKey: string,
+    week: number,
+    outlooks: Map<string, Omit<WinProbabilityPoint, "recordedAt">>
+  ) {
     try {
-      const filename = `league_${leagueKey.replace(
-        /\./g,
-        "_"
-      )}_week_${week}_scoreboard.json`;
-      const filepath = path.join(this.cacheDir, filename);
-
-      const cacheData = {
-        data,
-        timestamp: Date.now(),
-        week,
+      storage.recordWinProbabilities(
         leagueKey,
-      };
-
-      fs.writeFileSync(filepath, JSON.stringify(cacheData, null, 2), "utf-8");
+        week,
+        Array.from(outlooks.values())
+      );
     } catch (error) {
-      console.error(`Failed to cache scoreboard for week ${week}:`, error);
+      console.error("Failed to save win probabilities to the database:", error);
     }
   }
 
   /**
-   * Get cached player info (name, position) from file system
-   * Player info never changes, so no TTL needed
+   * Fetch a team's current roster, using the in-memory roster cache
    */
-  private getCachedPlayerInfo(playerKey: string): any | null {
-    try {
-      const filename = `player_${playerKey.replace(/\./g, "_")}_info.json`;
-      const filepath = path.join(this.cacheDir, filename);
+  private async getCurrentRoster(
+    teamKey: string,
+    accessToken: string,
+    currentWeek: number
+  ): Promise<any> {
+    const cached = await rosterCache.get(`${teamKey}:${currentWeek}`);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.getTeamRoster(teamKey, accessToken);
+    await rosterCache.set(`${teamKey}:${currentWeek}`, data);
+    return data;
+  }
+
+  /**
+   * Re-score played matchups under a scoring profile by running each team's
+   * started players' stats through the profile's rules. Upcoming matchups are
+   * left as they are. Needs every team's roster for every played week, so the
+   * first run for a league is slow; rosters are cached after that.
+   */
+  private async rescoreMatchups(
+    leagueKey: string,
+    accessToken: string,
+    matchups: NormalizedMatchup[],
+    profile: ScoringProfile,
+    currentWeek: number
+  ): Promise<NormalizedMatchup[]> {
+    const scoringRules = await FantasyPointsCalculator.getScoringRules(
+      leagueKey,
+      accessToken
+    );
+    const settings = normalizeLeagueSettings(
+      await this.getLeagueSettings(leagueKey, accessToken)
+    );
 
-      if (!fs.existsSync(filepath)) {
-        return null;
+    if (!settings || settings.rosterPositions.length === 0) {
+      throw new Error("Could not find roster positions in league data");
+    }
+
+    const rescored: NormalizedMatchup[] = [];
+
+    for (const matchup of matchups) {
+      if (matchup.status === "preevent") {
+        rescored.push(matchup);
+        continue;
       }
 
-      const cached = JSON.parse(fs.readFileSync(filepath, "utf-8"));
-      return cached.data;
-    } catch (error) {
-      return null;
+      const teams: NormalizedMatchupTeam[] = [];
+      for (const team of matchup.teams) {
+        const roster = normalizeRoster(
+          await this.getWeeklyRoster(
+            team.teamKey,
+            accessToken,
+            matchup.week,
+            currentWeek
+          )
+        ).map((player) => ({
+          ...player,
+          actualPoints: FantasyPointsCalculator.scoreStats(
+            player.stats,
+            FantasyPointsCalculator.applyScoringProfile(
+              scoringRules,
+              profile,
+              player.position
+            )
+          ),
+        }));
+
+        const started = getStartedLineup(roster, settings.rosterPositions);
+        teams.push({ ...team, points: Math.round(started.points * 100) / 100 });
+      }
+
+      const [a, b] = teams;
+      const isTied = teams.length === 2 && a.points === b.points;
+      const winnerTeamKey =
+        teams.length === 2 && !isTied && matchup.status === "postevent"
+          ? a.points > b.points
+            ? a.teamKey
+            : b.teamKey
+          : null;
+
+      rescored.push({ ...matchup, teams, isTied, winnerTeamKey });
     }
+
+    return rescored;
   }
 
   /**
-   * Save player info to file cache
+   * Rebuild standings and weekly scores from matchups re-scored under a
+   * scoring profile. Teams are ranked by record, then points for.
    */
-  private setCachedPlayerInfo(playerKey: string, data: any) {
-    try {
-      const filename = `player_${playerKey.replace(/\./g, "_")}_info.json`;
-      const filepath = path.join(this.cacheDir, filename);
+  private async rescoreLeague(
+    normalized: NormalizedLeague,
+    leagueKey: string,
+    accessToken: string,
+    matchups: NormalizedMatchup[],
+    profile: ScoringProfile,
+    currentWeek: number
+  ): Promise<NormalizedLeague> {
+    const rescored = await this.rescoreMatchups(
+      leagueKey,
+      accessToken,
+      matchups,
+      profile,
+      currentWeek
+    );
+    const records = computeRecords(rescored, currentWeek - 1);
+
+    const teams = normalized.teams
+      .map((team) => {
+        const record = records.get(team.teamKey);
+        return {
+          ...team,
+          wins: record?.wins || 0,
+          losses: record?.losses || 0,
+          ties: record?.ties || 0,
+          seasonTotal: record?.pointsFor || 0,
+        };
+      })
+      .sort(
+        (a, b) =>
+          b.wins + b.ties / 2 - (a.wins + a.ties / 2) ||
+          b.seasonTotal - a.seasonTotal
+      )
+      .map((team, i) => ({ ...team, rank: i + 1 }));
+
+    const points: WeeklyTeamScore[] = [];
+    for (const matchup of rescored) {
+      if (matchup.status === "preevent") continue;
+
+      for (const team of matchup.teams) {
+        points.push({
+          week: matchup.week,
+          teamKey: team.teamKey,
+          teamName: team.name,
+          score: team.points,
+        });
+      }
+    }
 
-      const cacheData = {
-        data,
-        timestamp: Date.now(),
-        playerKey,
-      };
+    return { ...normalized, teams, points };
+  }
 
-      fs.writeFileSync(filepath, JSON.stringify(cacheData, null, 2), "utf-8");
-    } catch (error) {
-      console.error(`Failed to cache player info for ${playerKey}:`, error);
+  /**
+   * Fetch a team's roster with player points for one week, using the database cache
+   */
+  private async getWeeklyRoster(
+    teamKey: string,
+    accessToken: string,
+    week: number,
+    currentWeek: number
+  ): Promise<any> {
+    const cached = await weeklyRosterCache.get(`${teamKey}:${week}`, {
+      week,
+      currentWeek,
+    });
+    if (cached) {
+      return cached;
     }
+
+    const data = await this.getTeamRoster(teamKey, accessToken, week);
+    await weeklyRosterCache.set(`${teamKey}:${week}`, data);
+    return data;
   }
 
   /**
-   * Get all leagues for the authenticated user
+   * Fetch raw league settings (playoff format, roster slots, scoring)
    */
-  async getUserLeagues(accessToken: string): Promise<any> {
-    try {
-      // First, get user's games (to find current NFL season game)
-      const gamesUrl =
-        "https://fantasysports.yahooapis.com/fantasy/v2/users;use_login=1/games;game_keys=nfl?format=json";
-
-      await this.rateLimit();
-      const gamesResp = await axios.get(gamesUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
-        timeout: 10000,
-      });
+  async getLeagueSettings(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<any> {
+    const cached = await settingsCache.get(leagueKey);
+    if (cached) {
+      return cached;
+    }
 
-      // Extract game keys and get leagues for each
-      const games =
-        gamesResp.data?.fantasy_content?.users?.[0]?.user?.[1]?.games;
+    const yahooUrl = `league/${encodeURIComponent(leagueKey)}/settings`;
 
-      if (!games) {
-        return { leagues: [] };
-      }
+    const data = await yahooClient.get(yahooUrl, accessToken);
 
-      const gameCount = games.count || 0;
-      const leagues: any[] = [];
+    await settingsCache.set(leagueKey, data);
+    return data;
+  }
 
-      // Get leagues for each game
-      for (let i = 0; i < gameCount; i++) {
-        const game = games[i]?.game?.[0];
-        if (!game) {
-          continue;
-        }
+  /**
+   * Fetch raw scoreboard responses for the given weeks, using the database cache
+   * Yahoo doesn't support week ranges, so each week is a separate request
+   */
+  private async getScoreboards(
+    leagueKey: string,
+    accessToken: string,
+    weeks: number[],
+    currentWeek: number
+  ): Promise<any[]> {
+    const scoreboards: any[] = [];
 
-        const gameKey = game.game_key;
-        const season = game.season;
+    for (const week of weeks) {
+      // Check the database first
+      const cachedData = await scoreboardCache.get(`${leagueKey}:${week}`, {
+        week,
+        currentWeek,
+      });
 
-        // Fetch leagues for this game
-        const leaguesUrl = `https://fantasysports.yahooapis.com/fantasy/v2/users;use_login=1/games;game_keys=${gameKey}/leagues?format=json`;
-
-        await this.rateLimit();
-        const leaguesResp = await axios.get(leaguesUrl, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "User-Agent":
-              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          },
-          timeout: 10000,
-        });
+      if (cachedData) {
+        scoreboards.push(cachedData);
+        continue;
+      }
 
-        const leaguesData =
-          leaguesResp.data?.fantasy_content?.users?.[0]?.user?.[1]?.games?.[0]
-            ?.game?.[1]?.leagues;
+      // Cache miss - fetch from Yahoo API
+      const scoreboardUrl = `league/${encodeURIComponent(
+        leagueKey
+      )}/scoreboard;week=${week}`;
 
-        if (leaguesData) {
-          const leagueCount = leaguesData.count || 0;
+      const weekData = await yahooClient.get(scoreboardUrl, accessToken);
 
-          for (let j = 0; j < leagueCount; j++) {
-            const league = leaguesData[j]?.league?.[0];
-            if (league) {
-              leagues.push({
-                leagueKey: league.league_key,
-                name: league.name,
-                season: season,
-                numTeams: league.num_teams,
-                gameCode: league.game_code,
-              });
-            }
-          }
-        }
-      }
+      scoreboards.push(weekData);
 
-      return { leagues };
-    } catch (err: any) {
-      console.error("Failed to fetch user leagues:", err.message);
-      throw new Error(`Failed to fetch user leagues: ${err.message}`);
+      // Save to the database
+      await scoreboardCache.set(`${leagueKey}:${week}`, weekData);
     }
+
+    return scoreboards;
   }
 
   /**
-   * Fetch league standings from Yahoo Fantasy API
+   * Fetch scoreboards like getScoreboards, but carry on past weeks that fail
+   * to load and report them instead
    */
-  async getLeague(
+  private async getAvailableScoreboards(
     leagueKey: string,
-    accessToken: string
-  ): Promise<LeagueResponse> {
-    try {
-      // Fetch standings
-      const standingsUrl = `https://fantasysports.yahooapis.com/fantasy/v2/league/${encodeURIComponent(
-        leagueKey
-      )}/standings?format=json`;
-
-      await this.rateLimit();
-      const standingsResp = await axios.get(standingsUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
-        timeout: 10000,
-      });
-
-      // Fetch scoreboard data week by week (Yahoo doesn't support week ranges)
-      const allScoreboardData: any[] = [];
+    accessToken: string,
+    weeks: number[],
+    currentWeek: number
+  ): Promise<{ scoreboards: any[]; missingWeeks: number[] }> {
+    const scoreboards: any[] = [];
+    const missingWeeks: number[] = [];
 
+    for (const week of weeks) {
       try {
-        // Fetch current week from league info, default to 8
-        const currentWeek = 8; // Could extract this from standingsResp if needed
-        const weeksToFetch = Array.from(
-          { length: currentWeek },
-          (_, i) => i + 1
-        );
-
-        for (const week of weeksToFetch) {
-          // Check file cache first
-          const cachedData = this.getCachedScoreboard(
+        scoreboards.push(
+          ...(await this.getScoreboards(
             leagueKey,
-            week,
+            accessToken,
+            [week],
             currentWeek
-          );
-
-          if (cachedData) {
-            allScoreboardData.push(cachedData);
-            continue;
-          }
+          ))
+        );
+      } catch (err: any) {
+        console.error(
+          `Failed to fetch week ${week} scoreboard for ${leagueKey}:`,
+          err.message
+        );
+        missingWeeks.push(week);
+      }
+    }
 
-          // Cache miss - fetch from Yahoo API
-          const scoreboardUrl = `https://fantasysports.yahooapis.com/fantasy/v2/league/${encodeURIComponent(
-            leagueKey
-          )}/scoreboard;week=${week}?format=json`;
-
-          await this.rateLimit();
-          const weekResp = await axios.get(scoreboardUrl, {
-            headers: {
-              Authorization: `Bearer ${accessToken}`,
-              "User-Agent":
-                "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-            },
-            timeout: 10000,
-          });
+    return { scoreboards, missingWeeks };
+  }
 
-          allScoreboardData.push(weekResp.data);
+  /**
+   * Standings and every played week's matchups for one season, plus the
+   * league key of the season before it
+   * Finished seasons are served from the database forever
+   */
+  private async getSeasonData(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<{ season: SeasonData; previousLeagueKey: string | null }> {
+    let standings = await finalStandingsCache.get(leagueKey);
 
-          // Save to file cache
-          this.setCachedScoreboard(leagueKey, week, weekResp.data);
-        }
-      } catch (scoreboardErr: any) {
-        // Failed to fetch scoreboard data, will use synthetic scores as fallback
-      }
+    if (!standings) {
+      const standingsUrl = `league/${encodeURIComponent(leagueKey)}/standings`;
 
-      const normalized = normalizeLeague(standingsResp.data, allScoreboardData);
+      standings = await yahooClient.get(standingsUrl, accessToken);
 
-      // Convert to API response format
-      return this.convertLeagueResponse(normalized, leagueKey);
-    } catch (err: any) {
-      if (err.code === "ECONNABORTED") {
-        throw new Error("Request to Yahoo API timed out");
-      }
-      if (err.response?.status === 404) {
-        throw new Error("League not found. Check your league key.");
-      }
-      if (err.response?.status === 401) {
-        throw new Error("Not authorized. Please reconnect with Yahoo.");
+      if (normalizeLeagueMetadata(standings)?.isFinished) {
+        await finalStandingsCache.set(leagueKey, standings);
       }
-      throw new Error(`Failed to fetch league: ${err.message}`);
     }
+
+    const seasonContext = SeasonResolver.fromLeagueResponse(
+      leagueKey,
+      standings
+    );
+    if (!seasonContext) {
+      throw new Error(`Could not find season info for league ${leagueKey}`);
+    }
+
+    const cacheCurrentWeek = SeasonResolver.getCacheCurrentWeek(seasonContext);
+    const scoreboards = await this.getScoreboards(
+      leagueKey,
+      accessToken,
+      SeasonResolver.getPlayedWeeks(seasonContext),
+      cacheCurrentWeek
+    );
+    const league = normalizeLeague(standings, scoreboards);
+
+    return {
+      season: {
+        leagueKey,
+        season: seasonContext.season,
+        name: league.name,
+        isFinished: seasonContext.isFinished,
+        lastCompletedWeek: cacheCurrentWeek - 1,
+        teams: league.teams,
+        matchups: normalizeMatchups(scoreboards),
+      },
+      previousLeagueKey: normalizePreviousLeagueKey(standings),
+    };
   }
 
   /**
@@ -336,33 +2440,18 @@ export class FantasyService {
   ): Promise<any> {
     const weekParam = week ? `;week=${week}` : "";
     // Add /players/stats to get player points data
-    const yahooUrl = `https://fantasysports.yahooapis.com/fantasy/v2/team/${encodeURIComponent(
+    const yahooUrl = `team/${encodeURIComponent(
       teamKey
-    )}/roster${weekParam}/players/stats?format=json`;
+    )}/roster${weekParam}/players/stats`;
 
     try {
-      await this.rateLimit();
-      const resp = await axios.get(yahooUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
-        timeout: 10000,
-      });
-
-      return resp.data;
+      return await yahooClient.get(yahooUrl, accessToken);
     } catch (err: any) {
-      if (err.code === "ECONNABORTED") {
-        throw new Error("Request to Yahoo API timed out");
-      }
-      if (err.response?.status === 404) {
-        throw new Error("Team not found. Check your team key.");
-      }
-      if (err.response?.status === 401) {
-        throw new Error("Not authorized. Please reconnect with Yahoo.");
-      }
-      throw new Error(`Failed to fetch roster: ${err.message}`);
+      throw toServiceError(
+        err,
+        "Team not found. Check your team key.",
+        "Failed to fetch roster"
+      );
     }
   }
 
@@ -381,17 +2470,13 @@ export class FantasyService {
     for (let week = startWeek; week <= endWeek; week++) {
       // Get roster with stats - Yahoo API doesn't consistently provide projected points
       // in the roster endpoint, so projectedPoints will be 0 for most cases
-      const yahooUrl = `https://fantasysports.yahooapis.com/fantasy/v2/team/${encodeURIComponent(
+      const yahooUrl = `team/${encodeURIComponent(
         teamKey
-      )}/roster;week=${week}/players/stats?format=json`;
+      )}/roster;week=${week}/players/stats`;
 
-      const promise = axios
-        .get(yahooUrl, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        })
-        .then((resp) => ({ week, data: resp.data }))
+      const promise = yahooClient
+        .get(yahooUrl, accessToken)
+        .then((data) => ({ week, data }))
         .catch((err) => {
           return { week, data: null };
         });
@@ -433,42 +2518,31 @@ export class FantasyService {
       sort?: string;
       start?: number;
       count?: number;
-    } = {}
+      status?: string; // e.g. "A" for available players, needs leagueKey
+    } = {},
+    leagueKey?: string
   ): Promise<any> {
-    const params = new URLSearchParams({
-      format: "json",
-      ...Object.fromEntries(
-        Object.entries(options).filter(([_, v]) => v !== undefined)
-      ),
-    });
+    const params = new URLSearchParams(
+      Object.entries(options)
+        .filter(([_, v]) => v !== undefined)
+        .map(([k, v]): [string, string] => [k, String(v)])
+    );
 
-    const yahooUrl = `https://fantasysports.yahooapis.com/fantasy/v2/game/${encodeURIComponent(
-      gameKey
-    )}/players?${params.toString()}`;
+    // Ownership only exists within a league, so status filters search the
+    // league's players instead of the whole game's
+    const collection = leagueKey
+      ? `league/${encodeURIComponent(leagueKey)}`
+      : `game/${encodeURIComponent(gameKey)}`;
+    const yahooUrl = `${collection}/players?${params.toString()}`;
 
     try {
-      await this.rateLimit();
-      const resp = await axios.get(yahooUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
-        timeout: 10000,
-      });
-
-      return resp.data;
+      return await yahooClient.get(yahooUrl, accessToken);
     } catch (err: any) {
-      if (err.code === "ECONNABORTED") {
-        throw new Error("Request to Yahoo API timed out");
-      }
-      if (err.response?.status === 404) {
-        throw new Error("Game not found. Check your game key.");
-      }
-      if (err.response?.status === 401) {
-        throw new Error("Not authorized. Please reconnect with Yahoo.");
-      }
-      throw new Error(`Failed to search players: ${err.message}`);
+      throw toServiceError(
+        err,
+        "Game not found. Check your game key.",
+        "Failed to search players"
+      );
     }
   }
 
@@ -478,41 +2552,37 @@ export class FantasyService {
   async getPlayerInfo(
     playerKey: string,
     accessToken: string
-  ): Promise<{ name: string; position: string } | null> {
+  ): Promise<{ name: string; position: string; team?: string } | null> {
     // Check cache first
-    const cached = this.getCachedPlayerInfo(playerKey);
+    const cached = await playerInfoCache.get(playerKey);
     if (cached) {
       return cached;
     }
 
     // Fetch from Yahoo API (just week 1 to get name/position)
     try {
-      const yahooUrl = `https://fantasysports.yahooapis.com/fantasy/v2/player/${encodeURIComponent(
+      const yahooUrl = `player/${encodeURIComponent(
         playerKey
-      )}/stats;type=week;week=1?format=json`;
-
-      await this.rateLimit();
-      const resp = await axios.get(yahooUrl, {
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        },
-        timeout: 10000,
-      });
+      )}/stats;type=week;week=1`;
 
-      if (resp.data?.fantasy_content?.player) {
-        const playerArray = resp.data.fantasy_content.player[0];
+      const data = await yahooClient.get(yahooUrl, accessToken);
+
+      if (data?.fantasy_content?.player) {
+        const playerArray = data.fantasy_content.player[0];
         const nameObj = playerArray.find((item: any) => item.name);
         const posObj = playerArray.find((item: any) => item.display_position);
+        const teamObj = playerArray.find(
+          (item: any) => item.editorial_team_abbr
+        );
 
         const playerInfo = {
           name: nameObj?.name?.full || "Unknown Player",
           position: posObj?.display_position || "N/A",
+          team: teamObj?.editorial_team_abbr,
         };
 
         // Save to cache (permanent - player names don't change)
-        this.setCachedPlayerInfo(playerKey, playerInfo);
+        await playerInfoCache.set(playerKey, playerInfo);
 
         return playerInfo;
       }
@@ -537,22 +2607,13 @@ export class FantasyService {
     // Fetch weeks sequentially with rate limiting to avoid Yahoo 999 errors
     for (let week = startWeek; week <= endWeek; week++) {
       // Use the same format as roster endpoint to get player_points included
-      const yahooUrl = `https://fantasysports.yahooapis.com/fantasy/v2/player/${encodeURIComponent(
+      const yahooUrl = `player/${encodeURIComponent(
         playerKey
-      )}/stats;type=week;week=${week}?format=json`;
+      )}/stats;type=week;week=${week}`;
 
       try {
-        await this.rateLimit();
-        const resp = await axios.get(yahooUrl, {
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-            "User-Agent":
-              "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-          },
-          timeout: 10000,
-        });
-
-        weeklyResponses.push({ week, data: resp.data });
+        const data = await yahooClient.get(yahooUrl, accessToken);
+        weeklyResponses.push({ week, data });
       } catch (err: any) {
         // Continue to next week even if this one fails
       }
@@ -563,24 +2624,104 @@ export class FantasyService {
 
   private convertLeagueResponse(
     normalized: NormalizedLeague,
-    leagueKey: string
+    leagueKey: string,
+    season: number,
+    lastCompletedWeek: number,
+    weeks: WeekStatus[],
+    missingWeeks: number[]
   ): LeagueResponse {
+    const allPlay = computeAllPlayRecords(
+      normalized.points || [],
+      lastCompletedWeek
+    );
+
     return {
       leagueKey,
       name: normalized.name,
-      season: new Date().getFullYear(), // You may want to extract this from the league data
-      teams: normalized.teams.map((team) => ({
-        teamKey: team.teamKey,
-        teamName: team.name,
-        managerName: "", // Not available in current normalized data
-        rank: team.rank,
-        wins: team.wins,
-        losses: team.losses,
-        ties: team.ties,
-        pointsFor: team.seasonTotal,
-        pointsAgainst: 0, // Not available in current normalized data
-      })),
+      season,
+      teams: normalized.teams.map((team) => {
+        const record = allPlay.get(team.teamKey) || {
+          wins: 0,
+          losses: 0,
+          ties: 0,
+          expectedWins: 0,
+        };
+
+        return {
+          teamKey: team.teamKey,
+          teamName: team.name,
+          managerName: team.managerName,
+          rank: team.rank,
+          wins: team.wins,
+          losses: team.losses,
+          ties: team.ties,
+          pointsFor: team.seasonTotal,
+          pointsAgainst: 0, // Not available in current normalized data
+          allPlayWins: record.wins,
+          allPlayLosses: record.losses,
+          allPlayTies: record.ties,
+          expectedWins: record.expectedWins,
+          luck: computeLuck(team.wins, team.ties, record.expectedWins),
+        };
+      }),
       points: normalized.points || [], // Include weekly scores for chart
+      weeks,
+      missingWeeks,
+    };
+  }
+
+  private convertMatchupsResponse(
+    matchups: NormalizedMatchup[],
+    leagueKey: string,
+    weeks: number[],
+    {
+      outlookWeek,
+      outlooks = new Map(),
+      timelines = new Map(),
+    }: {
+      outlookWeek?: number; // The week outlooks are for
+      outlooks?: Map<string, Omit<WinProbabilityPoint, "recordedAt">>;
+      timelines?: Map<number, WinProbabilityPoint[]>;
+    } = {}
+  ): MatchupsResponse {
+    return {
+      leagueKey,
+      weeks,
+      matchups: matchups.map((matchup) => {
+        const [home, away] = matchup.teams;
+        const teamKeys = new Set(matchup.teams.map((t) => t.teamKey));
+        const timeline = (timelines.get(matchup.week) || []).filter((p) =>
+          teamKeys.has(p.teamKey)
+        );
+        return {
+          week: matchup.week,
+          status: matchup.status,
+          isPlayoffs: matchup.isPlayoffs,
+          isConsolation: matchup.isConsolation,
+          isTied: matchup.isTied,
+          ...(matchup.winnerTeamKey && {
+            winnerTeamKey: matchup.winnerTeamKey,
+          }),
+          margin: away ? Math.abs(home.points - away.points) : 0,
+          teams: matchup.teams.map((team) => {
+            const outlook =
+              matchup.week === outlookWeek
+                ? outlooks.get(team.teamKey)
+                : undefined;
+            return {
+              teamKey: team.teamKey,
+              teamName: team.name,
+              points: team.points,
+              projectedPoints: team.projectedPoints,
+              ...(outlook && {
+                winProbability: outlook.winProbability,
+                expectedPoints: outlook.expectedPoints,
+              }),
+            };
+          }),
+          ...(timeline.length > 0 && { winProbabilityTimeline: timeline }),
+        };
+      }),
     };
   }
 
@@ -0,0 +1,164 @@
+/**
+ * Season Resolver
+ *
+ * Determines the current NFL season and week for a league so nothing has to be
+ * hard-coded. Reads current_week, start_week, end_week and season from the Yahoo
+ * league metadata, falling back to Sleeper's NFL state when Yahoo is unavailable.
+ */
+
+import { yahooClient } from "./yahooClient";
+import { normalizeLeagueMetadata } from "./parsers";
+import { SleeperService } from "./SleeperService";
+
+export interface SeasonContext {
+  season: number;
+  currentWeek: number;
+  startWeek: number;
+  endWeek: number;
+  isFinished: boolean;
+  source: "yahoo" | "sleeper";
+}
+
+interface SeasonCache {
+  context: SeasonContext;
+  timestamp: number;
+}
+
+// Fantasy regular season + playoffs when no league settings are available
+const DEFAULT_START_WEEK = 1;
+const DEFAULT_END_WEEK = 17;
+
+export class SeasonResolver {
+  private static cache: Map<string, SeasonCache> = new Map();
+  // Week rolls over once a week, so an hour is plenty fresh
+  private static readonly CACHE_DURATION_MS = 60 * 60 * 1000;
+  private static readonly NFL_CACHE_KEY = "nfl";
+  private static sleeperService = new SleeperService();
+
+  /**
+   * Get season/week context for a league (cached in memory)
+   * Falls back to the NFL state from Sleeper if Yahoo metadata can't be read
+   */
+  public static async getLeagueSeason(
+    leagueKey: string,
+    accessToken: string
+  ): Promise<SeasonContext> {
+    const cached = this.getCached(leagueKey);
+    if (cached) {
+      return cached;
+    }
+
+    const path = `league/${encodeURIComponent(leagueKey)}/metadata`;
+
+    try {
+      const data = await yahooClient.get(path, accessToken);
+
+      const context = this.fromLeagueResponse(leagueKey, data);
+      if (context) {
+        return context;
+      }
+
+      console.warn(
+        `[SeasonResolver] No week info in metadata for ${leagueKey}, using NFL state`
+      );
+    } catch (error: any) {
+      console.warn(
+        `[SeasonResolver] Failed to fetch metadata for ${leagueKey}, using NFL state:`,
+        error.message
+      );
+    }
+
+    return this.getNflSeason();
+  }
+
+  /**
+   * Build season context from a league response that was already fetched
+   * (standings, scoreboard, ...) and prime the cache with it
+   * Returns null if the response carries no league metadata
+   */
+  public static fromLeagueResponse(
+    leagueKey: string,
+    data: unknown
+  ): SeasonContext | null {
+    const metadata = normalizeLeagueMetadata(data);
+    if (!metadata) {
+      return null;
+    }
+
+    const context: SeasonContext = { ...metadata, source: "yahoo" };
+    this.cache.set(leagueKey, { context, timestamp: Date.now() });
+    return context;
+  }
+
+  /**
+   * Get season/week context for the NFL as a whole from Sleeper (cached in memory)
+   */
+  public static async getNflSeason(): Promise<SeasonContext> {
+    const cached = this.getCached(this.NFL_CACHE_KEY);
+    if (cached) {
+      return cached;
+    }
+
+    const state = await this.sleeperService.getNflState();
+    const season = parseInt(state.season, 10);
+
+    // Sleeper reports week 0 in the preseason and keeps counting into the NFL playoffs
+    const week = Math.max(state.week, DEFAULT_START_WEEK);
+    const isFinished =
+      state.season_type === "post" ||
+      (state.season_type === "regular" && week > DEFAULT_END_WEEK);
+
+    const context: SeasonContext = {
+      season,
+      currentWeek: Math.min(week, DEFAULT_END_WEEK),
+      startWeek: DEFAULT_START_WEEK,
+      endWeek: DEFAULT_END_WEEK,
+      isFinished,
+      source: "sleeper",
+    };
+
+    this.cache.set(this.NFL_CACHE_KEY, { context, timestamp: Date.now() });
+    return context;
+  }
+
+  /**
+   * Weeks from the start of the season through the current week (or the
+   * final week once the season is over)
+   */
+  public static getPlayedWeeks(context: SeasonContext): number[] {
+    const lastWeek = Math.min(context.currentWeek, context.endWeek);
+    const weeks: number[] = [];
+    for (let week = context.startWeek; week <= lastWeek; week++) {
+      weeks.push(week);
+    }
+    return weeks;
+  }
+
+  /**
+   * The "current week" to use for cache TTL decisions
+   * Weeks before it are treated as final and never expire, so once the
+   * season is over every week is final
+   */
+  public static getCacheCurrentWeek(context: SeasonContext): number {
+    return context.isFinished ? context.endWeek + 1 : context.currentWeek;
+  }
+
+  /**
+   * Clear cache for a specific league or all leagues
+   */
+  static clearCache(leagueKey?: string): void {
+    if (leagueKey) {
+      this.cache.delete(leagueKey);
+    } else {
+      this.cache.clear();
+    }
+  }
+
+  private static getCached(key: string): SeasonContext | null {
+    const cached = this.cache.get(key);
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION_MS) {
+      return cached.context;
+    }
+    return null;
+  }
+}
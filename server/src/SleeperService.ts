@@ -11,9 +11,44 @@ import axios from "axios";
 import * as fs from "fs";
 import * as path from "path";
 import { NormalizedPlayerStats, PlayerWeeklyStats } from "./yahoo-types";
+import { PlayerMappingResponse } from "./models";
+import {
+  buildNameIndex,
+  MIN_MATCH_CONFIDENCE,
+  normalizeTeam,
+  rankCandidates,
+  YahooPlayerIdentity,
+} from "./playerMatching";
+import { SleeperStatLine, YAHOO_STAT_MAPPINGS } from "./sleeperStatMapping";
+import { cache, TtlPolicies } from "./cache";
+import { MemoryBackend, WeeklyStatsBackend } from "./cacheBackends";
+import { storage } from "./storage";
+import { recordFixture } from "./fixtures";
+import type { GameState } from "./winProbability";
+
+// Set SLEEPER_API_BASE_URL to send requests somewhere else, e.g. the fixture
+// server (fixtures.ts)
+const SLEEPER_BASE_URL =
+  process.env.SLEEPER_API_BASE_URL || "https://api.sleeper.app/v1";
+
+// The NFL schedule lives outside /v1
+const SLEEPER_ROOT_URL = SLEEPER_BASE_URL.replace(/\/v1\/?$/, "");
 
-const SLEEPER_BASE_URL = "https://api.sleeper.app/v1";
-const CURRENT_SEASON = 2025; // NFL season year
+/**
+ * GET a Sleeper resource, recording it as a fixture when recording is on
+ * @param path Path under the API base URL, e.g. "state/nfl"
+ */
+async function sleeperGet<T>(
+  path: string,
+  timeout: number,
+  baseUrl: string = SLEEPER_BASE_URL
+): Promise<T> {
+  const response = await axios.get<T>(`${baseUrl}/${path}`, {
+    timeout,
+  });
+  recordFixture("sleeper", path, response.data);
+  return response.data;
+}
 
 /**
  * Retry helper for network timeouts
@@ -34,7 +69,7 @@ async function retryRequest<T>(
   }
 }
 
-interface SleeperPlayer {
+export interface SleeperPlayer {
   player_id: string;
   first_name: string;
   last_name: string;
@@ -47,53 +82,45 @@ interface SleeperPlayer {
   fantasy_positions: string[];
 }
 
-interface SleeperStats {
-  [playerId: string]: {
-    // Passing
-    pass_att?: number;
-    pass_cmp?: number;
-    pass_yd?: number;
-    pass_td?: number;
-    pass_int?: number;
-    pass_2pt?: number;
-
-    // Rushing
-    rush_att?: number;
-    rush_yd?: number;
-    rush_td?: number;
-    rush_2pt?: number;
-
-    // Receiving
-    rec?: number;
-    rec_yd?: number;
-    rec_td?: number;
-    rec_2pt?: number;
-
-    // Fumbles
-    fum?: number;
-    fum_lost?: number;
-
-    // Defense/ST
-    def_td?: number;
-    def_int?: number;
-    def_sack?: number;
-    def_fr?: number;
-    def_ff?: number;
-    pts_allow?: number;
-
-    // Kicking
-    fgm?: number;
-    fgm_0_19?: number;
-    fgm_20_29?: number;
-    fgm_30_39?: number;
-    fgm_40_49?: number;
-    fgm_50p?: number;
-    fga?: number;
-    xpm?: number;
-    xpa?: number;
-  };
+export interface SleeperStats {
+  [playerId: string]: SleeperStatLine;
+}
+
+/**
+ * Current NFL calendar position from /state/nfl
+ */
+export interface SleeperNflState {
+  week: number;
+  season: string;
+  season_type: "pre" | "regular" | "post" | "off";
+  display_week: number;
+  leg: number;
+}
+
+/**
+ * One NFL game from Sleeper's season schedule
+ */
+export interface SleeperGame {
+  game_id: string;
+  week: number;
+  date: string;
+  home: string; // Team abbreviations, e.g. "KC"
+  away: string;
+  status: string; // "pre_game", "in_progress" or "complete"
 }
 
+/**
+ * A remembered Yahoo -> Sleeper match, keyed by Yahoo player_id
+ */
+export interface CrosswalkEntry {
+  sleeperId: string | null; // null when nothing matched well enough
+  confidence: number;
+  matchedAt: number;
+}
+
+// Matches at or above this are kept for good; weaker ones are retried daily
+const TRUSTED_MATCH_CONFIDENCE = 0.85;
+
 interface ScoringSettings {
   // Yahoo stat_id to Sleeper stat mapping
   statMappings: Map<number, string>;
@@ -101,89 +128,49 @@ interface ScoringSettings {
   scoringRules: Map<number, number>;
 }
 
+// Past weeks never change, the current week's games may be in progress and
+// projections for future weeks can change (key: "season:week")
+const weekStatsCache = cache.namespace<SleeperStats>("sleeper_stats", {
+  ttl: TtlPolicies.weekAware(),
+  backend: new WeeklyStatsBackend("stats"),
+});
+const weekProjectionsCache = cache.namespace<SleeperStats>(
+  "sleeper_projections",
+  {
+    ttl: TtlPolicies.weekAware(),
+    backend: new WeeklyStatsBackend("projections"),
+  }
+);
+
+// Game statuses change while games are played (key: season)
+const scheduleCache = cache.namespace<SleeperGame[]>("sleeper_schedule", {
+  ttl: TtlPolicies.fixed(60 * 1000),
+  backend: new MemoryBackend(10),
+});
+
 export class SleeperService {
   private playersCache: Map<string, SleeperPlayer> | null = null;
   private playersCacheTimestamp = 0;
   private readonly CACHE_DURATION_MS = 24 * 60 * 60 * 1000; // 24 hours
 
-  // File cache directory
-  private readonly cacheDir = path.join(__dirname, "..", "cache");
-
-  constructor() {
-    // Ensure cache directory exists
-    if (!fs.existsSync(this.cacheDir)) {
-      fs.mkdirSync(this.cacheDir, { recursive: true });
-    }
-  }
-
-  /**
-   * Get cached stats/projections from file system
-   */
-  private getCachedWeekData(
-    type: "stats" | "projections",
-    week: number,
-    season: number,
-    currentWeek: number
-  ): SleeperStats | null {
-    try {
-      const filename = `sleeper_${type}_${season}_week_${week}.json`;
-      const filepath = path.join(this.cacheDir, filename);
-
-      if (!fs.existsSync(filepath)) {
-        return null;
-      }
+  // Last-name index over playersCache, rebuilt when the players reload
+  private nameIndex: Map<string, SleeperPlayer[]> | null = null;
+  private nameIndexTimestamp = 0;
 
-      const cached = JSON.parse(fs.readFileSync(filepath, "utf-8"));
+  // Yahoo player_id -> Sleeper match, persisted to the database
+  private crosswalk: Map<string, CrosswalkEntry> | null = null;
 
-      // Past weeks never expire (immutable)
-      if (week < currentWeek) {
-        return cached.data;
-      }
-
-      // Current week: 1 hour TTL (games in progress)
-      // Projections for future weeks: 24 hour TTL (can change)
-      const ttl = week === currentWeek ? 60 * 60 * 1000 : 24 * 60 * 60 * 1000;
-      if (Date.now() - cached.timestamp < ttl) {
-        return cached.data;
-      }
-
-      return null;
-    } catch (error) {
-      return null;
-    }
-  }
-
-  /**
-   * Save stats/projections to file cache
-   */
-  private setCachedWeekData(
-    type: "stats" | "projections",
-    week: number,
-    season: number,
-    data: SleeperStats
-  ) {
-    try {
-      const filename = `sleeper_${type}_${season}_week_${week}.json`;
-      const filepath = path.join(this.cacheDir, filename);
-
-      const cacheData = {
-        data,
-        timestamp: Date.now(),
-        week,
-        season,
-        type,
-      };
-
-      fs.writeFileSync(filepath, JSON.stringify(cacheData, null, 2), "utf-8");
-    } catch (error) {
-      console.error(`Failed to cache ${type} for week ${week}:`, error);
-    }
-  }
+  // Manual fixes for wrong matches: { "<yahoo player_id>": "<sleeper player_id>" }
+  private readonly overridesFile =
+    process.env.PLAYER_ID_OVERRIDES_FILE ||
+    path.join(__dirname, "..", "player-id-overrides.json");
+  private overrides = new Map<string, string>();
+  private overridesModifiedAt = 0;
 
   /**
-   * Load all NFL players (cached for 24 hours in file + memory)
+   * Load all NFL players by Sleeper ID (cached for 24 hours in the database + memory)
    */
-  private async getPlayers(): Promise<Map<string, SleeperPlayer>> {
+  async getPlayers(): Promise<Map<string, SleeperPlayer>> {
     // Check memory cache first
     if (
       this.playersCache &&
@@ -192,46 +179,42 @@ export class SleeperService {
       return this.playersCache;
     }
 
-    // Check file cache
+    // Check the database
     try {
-      const filepath = path.join(this.cacheDir, "sleeper_players_nfl.json");
-
-      if (fs.existsSync(filepath)) {
-        const cached = JSON.parse(fs.readFileSync(filepath, "utf-8"));
-
-        // Check if file cache is still valid (24 hours)
-        if (Date.now() - cached.timestamp < this.CACHE_DURATION_MS) {
-          // Load into memory cache
-          this.playersCache = new Map(Object.entries(cached.data));
-          this.playersCacheTimestamp = cached.timestamp;
-          return this.playersCache;
-        }
+      const cached = storage.getPlayers();
+
+      // Check if the stored list is still valid (24 hours)
+      if (cached && Date.now() - cached.fetchedAt < this.CACHE_DURATION_MS) {
+        // Load into memory cache
+        this.playersCache = new Map(
+          cached.data.map((player) => [player.player_id, player])
+        );
+        this.playersCacheTimestamp = cached.fetchedAt;
+        return this.playersCache;
       }
     } catch (error) {
-      // File cache failed, will fetch from API
+      // Database read failed, will fetch from API
     }
 
     // Fetch from Sleeper API
     try {
-      const response = await axios.get<{ [id: string]: SleeperPlayer }>(
-        `${SLEEPER_BASE_URL}/players/nfl`,
-        { timeout: 30000 }
+      const players = await sleeperGet<{ [id: string]: SleeperPlayer }>(
+        "players/nfl",
+        30000
       );
 
       // Save to memory cache
-      this.playersCache = new Map(Object.entries(response.data));
+      this.playersCache = new Map(Object.entries(players));
       this.playersCacheTimestamp = Date.now();
 
-      // Save to file cache
+      // Save to the database
       try {
-        const filepath = path.join(this.cacheDir, "sleeper_players_nfl.json");
-        const cacheData = {
-          data: response.data,
-          timestamp: Date.now(),
-        };
-        fs.writeFileSync(filepath, JSON.stringify(cacheData), "utf-8");
+        storage.savePlayers(
+          Array.from(this.playersCache.values()),
+          this.playersCacheTimestamp
+        );
       } catch (error) {
-        console.error("Failed to save players to file cache:", error);
+        console.error("Failed to save players to the database:", error);
       }
 
       return this.playersCache;
@@ -242,65 +225,270 @@ export class SleeperService {
   }
 
   /**
-   * Find Sleeper player by Yahoo player name
+   * Get the current NFL season and week (not cached - callers cache the result)
    */
-  async findPlayerByName(
-    yahooPlayerName: string
-  ): Promise<SleeperPlayer | null> {
-    const players = await this.getPlayers();
+  async getNflState(): Promise<SleeperNflState> {
+    try {
+      return await retryRequest(() =>
+        sleeperGet<SleeperNflState>("state/nfl", 10000)
+      );
+    } catch (error: any) {
+      console.error(
+        "[SleeperService] Failed to fetch NFL state:",
+        error.message
+      );
+      throw new Error(`Failed to fetch NFL state: ${error.message}`);
+    }
+  }
+
+  /**
+   * Where each team's game stands in a week, keyed by team abbreviation
+   * (look teams up with normalizeTeam, Yahoo's abbreviations differ)
+   * Teams on bye are missing, and so is everyone if the schedule can't be loaded
+   */
+  async getGameStates(
+    season: number,
+    week: number
+  ): Promise<Map<string, GameState>> {
+    let games = await scheduleCache.get(String(season));
+    if (!games) {
+      try {
+        games = await retryRequest(() =>
+          sleeperGet<SleeperGame[]>(
+            `schedule/nfl/regular/${season}`,
+            10000,
+            SLEEPER_ROOT_URL
+          )
+        );
+        await scheduleCache.set(String(season), games);
+      } catch (error: any) {
+        console.error(
+          `[SleeperService] Failed to fetch the ${season} schedule:`,
+          error.message
+        );
+        return new Map();
+      }
+    }
+
+    const states = new Map<string, GameState>();
+    for (const game of games) {
+      if (game.week !== week) continue;
+      const state: GameState =
+        game.status === "complete"
+          ? "post"
+          : game.status === "pre_game"
+          ? "pre"
+          : "in";
+      states.set(normalizeTeam(game.home), state);
+      states.set(normalizeTeam(game.away), state);
+    }
+    return states;
+  }
 
-    // Normalize name for comparison
-    const normalizedSearch = yahooPlayerName.toLowerCase().trim();
+  /**
+   * Load manual ID overrides, re-reading the file whenever it changes
+   */
+  private getOverrides(): Map<string, string> {
+    try {
+      if (!fs.existsSync(this.overridesFile)) {
+        this.overrides = new Map();
+        return this.overrides;
+      }
 
-    // Try exact full name match first
-    for (const player of players.values()) {
-      if (player.full_name?.toLowerCase() === normalizedSearch) {
-        return player;
+      const modifiedAt = fs.statSync(this.overridesFile).mtimeMs;
+      if (modifiedAt !== this.overridesModifiedAt) {
+        const data = JSON.parse(fs.readFileSync(this.overridesFile, "utf-8"));
+        this.overrides = new Map(
+          Object.entries(data).map(([yahooId, sleeperId]) => [
+            yahooId,
+            String(sleeperId),
+          ])
+        );
+        this.overridesModifiedAt = modifiedAt;
       }
+    } catch (error) {
+      console.error("Failed to load player ID overrides:", error);
+    }
+
+    return this.overrides;
+  }
+
+  /**
+   * Load the Yahoo -> Sleeper crosswalk from the database
+   */
+  private getCrosswalk(): Map<string, CrosswalkEntry> {
+    if (this.crosswalk) {
+      return this.crosswalk;
     }
 
-    // Try partial match (handles "Chris Olave" vs "Christopher Olave")
-    for (const player of players.values()) {
-      const fullName = player.full_name?.toLowerCase() || "";
-      if (
-        fullName.includes(normalizedSearch) ||
-        normalizedSearch.includes(fullName)
-      ) {
-        return player;
+    this.crosswalk = new Map();
+    try {
+      this.crosswalk = storage.getCrosswalk();
+    } catch (error) {
+      // Unreadable table, players will be matched again
+    }
+
+    return this.crosswalk;
+  }
+
+  /**
+   * Yahoo player_id of every Sleeper player matched so far, by Sleeper ID
+   */
+  getMatchedYahooIds(): Map<string, string> {
+    const yahooIds = new Map<string, string>();
+    for (const [yahooId, entry] of this.getCrosswalk()) {
+      if (entry.sleeperId) {
+        yahooIds.set(entry.sleeperId, yahooId);
       }
     }
+    return yahooIds;
+  }
+
+  /**
+   * Remember a match in memory and the database
+   */
+  private saveCrosswalkEntry(yahooId: string, entry: CrosswalkEntry) {
+    this.getCrosswalk().set(yahooId, entry);
+    try {
+      storage.saveCrosswalkEntry(yahooId, entry);
+    } catch (error) {
+      console.error("Failed to save player crosswalk:", error);
+    }
+  }
 
-    console.warn(`[SleeperService] Could not find player: ${yahooPlayerName}`);
-    return null;
+  private async getNameIndex(): Promise<Map<string, SleeperPlayer[]>> {
+    const players = await this.getPlayers();
+    if (
+      !this.nameIndex ||
+      this.nameIndexTimestamp !== this.playersCacheTimestamp
+    ) {
+      this.nameIndex = buildNameIndex(players.values());
+      this.nameIndexTimestamp = this.playersCacheTimestamp;
+    }
+    return this.nameIndex;
   }
 
   /**
-   * Get stats for a specific week (with file caching)
+   * Find the Sleeper player for a Yahoo player
+   *
+   * Uses the manual override file first, then the remembered match, and only
+   * falls back to matching on name, position and team for new players.
+   */
+  async findPlayer(yahoo: YahooPlayerIdentity): Promise<SleeperPlayer | null> {
+    const players = await this.getPlayers();
+
+    const overrideId = this.getOverrides().get(yahoo.playerId);
+    if (overrideId) {
+      return players.get(overrideId) || null;
+    }
+
+    const entry = this.getCrosswalk().get(yahoo.playerId);
+    const isFresh =
+      entry &&
+      (entry.confidence >= TRUSTED_MATCH_CONFIDENCE ||
+        Date.now() - entry.matchedAt < this.CACHE_DURATION_MS);
+
+    if (entry && isFresh) {
+      return entry.sleeperId ? players.get(entry.sleeperId) || null : null;
+    }
+
+    const [best] = rankCandidates(
+      yahoo,
+      players.values(),
+      await this.getNameIndex()
+    );
+    const matched = best && best.confidence >= MIN_MATCH_CONFIDENCE;
+
+    this.saveCrosswalkEntry(yahoo.playerId, {
+      sleeperId: matched ? best.player.player_id : null,
+      confidence: best ? best.confidence : 0,
+      matchedAt: Date.now(),
+    });
+
+    if (!matched) {
+      console.warn(
+        `[SleeperService] Could not match player: ${yahoo.name} (${
+          yahoo.position
+        }, ${yahoo.team || "FA"})`
+      );
+      return null;
+    }
+
+    return best.player;
+  }
+
+  /**
+   * Explain how a Yahoo player maps to Sleeper, with the other candidates
+   * that were considered, so wrong matches can be spotted and overridden
+   */
+  async getPlayerMapping(
+    playerKey: string,
+    yahoo: YahooPlayerIdentity
+  ): Promise<PlayerMappingResponse> {
+    const player = await this.findPlayer(yahoo);
+    const overridden = this.getOverrides().has(yahoo.playerId);
+    const entry = this.getCrosswalk().get(yahoo.playerId);
+
+    const candidates = rankCandidates(
+      yahoo,
+      (await this.getPlayers()).values(),
+      await this.getNameIndex()
+    ).slice(0, 5);
+
+    const summarize = (p: SleeperPlayer) => ({
+      playerId: p.player_id,
+      name: p.full_name || `${p.first_name} ${p.last_name}`,
+      position: p.position,
+      team: p.team || "FA",
+    });
+
+    return {
+      playerKey,
+      yahooPlayerId: yahoo.playerId,
+      name: yahoo.name,
+      position: yahoo.position,
+      team: yahoo.team || "FA",
+      sleeper: player ? summarize(player) : null,
+      confidence: overridden ? 1 : entry?.confidence || 0,
+      method: overridden ? "override" : player ? "matched" : "unmatched",
+      candidates: candidates.map((c) => ({
+        ...summarize(c.player),
+        confidence: c.confidence,
+      })),
+    };
+  }
+
+  /**
+   * Get stats for a specific week (cached in the database)
+   * With refresh the cache is skipped and updated, for games in progress
    */
   async getWeekStats(
     week: number,
-    season = CURRENT_SEASON,
-    currentWeek = 8
+    season: number,
+    currentWeek: number,
+    { refresh = false }: { refresh?: boolean } = {}
   ): Promise<SleeperStats> {
     // Check cache first
-    const cached = this.getCachedWeekData("stats", week, season, currentWeek);
+    const cached = refresh
+      ? null
+      : await weekStatsCache.get(`${season}:${week}`, {
+          week,
+          currentWeek,
+        });
     if (cached) {
       return cached;
     }
 
     // Cache miss - fetch from Sleeper with retry
     try {
-      const response = await retryRequest(() =>
-        axios.get<SleeperStats>(
-          `${SLEEPER_BASE_URL}/stats/nfl/regular/${season}/${week}`,
-          { timeout: 30000 }
-        )
+      const data = await retryRequest(() =>
+        sleeperGet<SleeperStats>(`stats/nfl/regular/${season}/${week}`, 30000)
       );
 
       // Save to cache
-      this.setCachedWeekData("stats", week, season, response.data);
+      await weekStatsCache.set(`${season}:${week}`, data);
 
-      return response.data;
+      return data;
     } catch (error: any) {
       console.error(
         `[SleeperService] Failed to fetch week ${week} stats:`,
@@ -315,37 +503,35 @@ export class SleeperService {
   }
 
   /**
-   * Get projections for a specific week (with file caching)
+   * Get projections for a specific week (cached in the database)
    */
   async getWeekProjections(
     week: number,
-    season = CURRENT_SEASON,
-    currentWeek = 8
+    season: number,
+    currentWeek: number
   ): Promise<SleeperStats> {
     // Check cache first
-    const cached = this.getCachedWeekData(
-      "projections",
+    const cached = await weekProjectionsCache.get(`${season}:${week}`, {
       week,
-      season,
-      currentWeek
-    );
+      currentWeek,
+    });
     if (cached) {
       return cached;
     }
 
     // Cache miss - fetch from Sleeper with retry
     try {
-      const response = await retryRequest(() =>
-        axios.get<SleeperStats>(
-          `${SLEEPER_BASE_URL}/projections/nfl/regular/${season}/${week}`,
-          { timeout: 30000 }
+      const data = await retryRequest(() =>
+        sleeperGet<SleeperStats>(
+          `projections/nfl/regular/${season}/${week}`,
+          30000
         )
       );
 
       // Save to cache
-      this.setCachedWeekData("projections", week, season, response.data);
+      await weekProjectionsCache.set(`${season}:${week}`, data);
 
-      return response.data;
+      return data;
     } catch (error: any) {
       console.error(
         `[SleeperService] Failed to fetch week ${week} projections:`,
@@ -373,24 +559,6 @@ export class SleeperService {
   } {
     let totalPoints = 0;
 
-    // Map Yahoo stat IDs to Sleeper stat fields
-    const yahooToSleeper: {
-      [yahooStatId: number]: keyof SleeperStats[string];
-    } = {
-      4: "pass_yd", // Passing yards
-      5: "pass_td", // Passing TD
-      6: "pass_int", // Interceptions
-      8: "pass_2pt", // Passing 2pt conversions
-      9: "rush_yd", // Rushing yards
-      10: "rush_td", // Rushing TD
-      11: "rec", // Receptions
-      12: "rec_yd", // Receiving yards
-      13: "rec_td", // Receiving TD
-      15: "rec_2pt", // Receiving 2pt conversions
-      16: "rush_2pt", // Rushing 2pt conversions
-      18: "fum_lost", // Fumbles lost
-    };
-
     // Calculate points based on scoring rules
     const breakdown: Array<{ stat: string; value: number; points: number }> =
       [];
@@ -399,39 +567,39 @@ export class SleeperService {
       yahooStatId,
       points,
     ] of scoringSettings.scoringRules.entries()) {
-      const sleeperStatKey = yahooToSleeper[yahooStatId];
-      if (sleeperStatKey && stats[sleeperStatKey] !== undefined) {
-        const statValue = stats[sleeperStatKey] || 0;
-        if (statValue === 0) continue; // Skip zero stats
-
-        const pointsEarned = statValue * points;
-        totalPoints += pointsEarned;
-
-        // Collect all non-zero stats for breakdown
-        breakdown.push({
-          stat: sleeperStatKey,
-          value: statValue,
-          points: pointsEarned,
-        });
-      }
+      const mapping = YAHOO_STAT_MAPPINGS[yahooStatId];
+      if (!mapping) continue;
+
+      const statValue = mapping.value(stats) || 0;
+      if (statValue === 0) continue; // Skip zero stats
+
+      const pointsEarned = statValue * points;
+      totalPoints += pointsEarned;
+
+      // Collect all non-zero stats for breakdown
+      breakdown.push({
+        stat: mapping.stat,
+        value: statValue,
+        points: pointsEarned,
+      });
     }
 
     return { points: totalPoints, breakdown };
   }
 
   /**
-   * Get full season stats for a player by name
+   * Get full season stats for a Yahoo player
    */
   async getPlayerSeasonStats(
-    yahooPlayerName: string,
+    yahooPlayer: YahooPlayerIdentity,
     startWeek: number,
     endWeek: number,
     scoringSettings: ScoringSettings,
-    season = CURRENT_SEASON,
-    currentWeek = 8
+    season: number,
+    currentWeek: number
   ): Promise<NormalizedPlayerStats | null> {
     // Find player
-    const player = await this.findPlayerByName(yahooPlayerName);
+    const player = await this.findPlayer(yahooPlayer);
     if (!player) {
       return null;
     }
@@ -460,12 +628,12 @@ export class SleeperService {
       const actualResult = this.calculateFantasyPoints(
         stats,
         scoringSettings,
-        `${yahooPlayerName} - Week ${week} (Actual)`
+        `${yahooPlayer.name} - Week ${week} (Actual)`
       );
       const projectedResult = this.calculateFantasyPoints(
         projections,
         scoringSettings,
-        `${yahooPlayerName} - Week ${week} (Projected)`
+        `${yahooPlayer.name} - Week ${week} (Projected)`
       );
 
       const weekData: PlayerWeeklyStats = {
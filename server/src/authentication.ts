@@ -1,4 +1,24 @@
+import crypto from "crypto";
 import { Request } from "express";
+import { NotAuthenticated } from "./errors";
+
+/**
+ * Check the X-Admin-Key header against ADMIN_API_KEY
+ * Admin routes are disabled while ADMIN_API_KEY is unset
+ */
+function isAdminKey(key: string | undefined): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (!adminKey || !key) {
+    return false;
+  }
+
+  const expected = Buffer.from(adminKey);
+  const actual = Buffer.from(key);
+  return (
+    expected.length === actual.length &&
+    crypto.timingSafeEqual(expected, actual)
+  );
+}
 
 export function expressAuthentication(
   request: Request,
@@ -11,5 +31,10 @@ export function expressAuthentication(
       return Promise.resolve({ userId });
     }
   }
-  return Promise.reject(new Error("Not authenticated"));
+  if (securityName === "adminKey") {
+    if (isAdminKey(request.header("x-admin-key"))) {
+      return Promise.resolve({ admin: true });
+    }
+  }
+  return Promise.reject(new NotAuthenticated());
 }
@@ -0,0 +1,223 @@
+/**
+ * Shared cache
+ *
+ * Cached data lives in named namespaces ("scoreboards", "league_settings", ...).
+ * Each namespace has a TTL policy that decides how long an entry stays fresh
+ * and a backend that stores the entries. Hits and misses are counted per
+ * namespace so they can be checked through GET /api/admin/cache.
+ */
+
+import { CacheNamespaceStats } from "./models";
+import { createCacheBackend } from "./cacheBackends";
+
+export interface CacheEntry<T = any> {
+  value: T;
+  storedAt: number;
+}
+
+export interface CacheBackend {
+  readonly name: string; // Shown in cache stats, e.g. "memory"
+  get(namespace: string, key: string): Promise<CacheEntry | null>;
+  set(namespace: string, key: string, entry: CacheEntry): Promise<void>;
+  delete(namespace: string, key: string): Promise<void>;
+  clear(namespace: string): Promise<number>; // Returns entries removed
+  size(namespace: string): Promise<number>;
+}
+
+/**
+ * What a TTL policy can know about the entry being read
+ */
+export interface CacheReadContext {
+  week?: number;
+  currentWeek?: number;
+}
+
+export interface TtlPolicy {
+  description: string;
+  ttlMs(context: CacheReadContext): number; // Infinity never expires
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function formatDuration(ms: number): string {
+  if (ms === Infinity) return "forever";
+  if (ms % DAY_MS === 0) return `${ms / DAY_MS}d`;
+  if (ms % HOUR_MS === 0) return `${ms / HOUR_MS}h`;
+  if (ms % 60000 === 0) return `${ms / 60000}m`;
+  return `${Math.round(ms / 1000)}s`;
+}
+
+export const TtlPolicies = {
+  /**
+   * For data that never changes once fetched
+   */
+  forever(): TtlPolicy {
+    return { description: "forever", ttlMs: () => Infinity };
+  },
+
+  fixed(ms: number): TtlPolicy {
+    return { description: formatDuration(ms), ttlMs: () => ms };
+  },
+
+  /**
+   * Past weeks never expire (final), the current week expires quickly
+   * (games in progress) and other weeks expire slowly (projections can change)
+   */
+  weekAware({
+    currentWeekMs = HOUR_MS,
+    otherWeeksMs = DAY_MS,
+  }: { currentWeekMs?: number; otherWeeksMs?: number } = {}): TtlPolicy {
+    return {
+      description: `past weeks forever, current week ${formatDuration(
+        currentWeekMs
+      )}, other weeks ${formatDuration(otherWeeksMs)}`,
+      ttlMs: ({ week, currentWeek }) => {
+        if (week === undefined || currentWeek === undefined) {
+          return otherWeeksMs;
+        }
+        if (week < currentWeek) {
+          return Infinity;
+        }
+        return week === currentWeek ? currentWeekMs : otherWeeksMs;
+      },
+    };
+  },
+};
+
+/**
+ * One namespace of the cache
+ * Backend failures are logged and treated as misses, never thrown, except by
+ * clear: an admin clearing a namespace needs to know it failed
+ */
+export class CacheNamespace<T = any> {
+  private hits = 0;
+  private misses = 0;
+  private expired = 0;
+  private writes = 0;
+
+  constructor(
+    readonly name: string,
+    private readonly backend: CacheBackend,
+    private readonly ttl: TtlPolicy
+  ) {}
+
+  /**
+   * Get a fresh value, or null if missing or expired
+   */
+  async get(key: string, context: CacheReadContext = {}): Promise<T | null> {
+    try {
+      const entry = await this.backend.get(this.name, key);
+      if (entry && Date.now() - entry.storedAt < this.ttl.ttlMs(context)) {
+        this.hits++;
+        return entry.value;
+      }
+
+      if (entry) {
+        this.expired++;
+      }
+      this.misses++;
+      return null;
+    } catch (error: any) {
+      console.error(
+        `[cache] Failed to read ${this.name}/${key}:`,
+        error.message
+      );
+      this.misses++;
+      return null;
+    }
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    try {
+      await this.backend.set(this.name, key, { value, storedAt: Date.now() });
+      this.writes++;
+    } catch (error: any) {
+      console.error(
+        `[cache] Failed to write ${this.name}/${key}:`,
+        error.message
+      );
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await this.backend.delete(this.name, key);
+    } catch (error: any) {
+      console.error(
+        `[cache] Failed to delete ${this.name}/${key}:`,
+        error.message
+      );
+    }
+  }
+
+  /**
+   * Remove every entry so the next reads go back to the source
+   * Backend failures are thrown
+   * @returns Number of entries removed
+   */
+  async clear(): Promise<number> {
+    return this.backend.clear(this.name);
+  }
+
+  async getStats(): Promise<CacheNamespaceStats> {
+    const reads = this.hits + this.misses;
+    let entries: number | null = null;
+    try {
+      entries = await this.backend.size(this.name);
+    } catch (error: any) {
+      console.error(`[cache] Failed to count ${this.name}:`, error.message);
+    }
+
+    return {
+      namespace: this.name,
+      backend: this.backend.name,
+      ttl: this.ttl.description,
+      entries,
+      hits: this.hits,
+      misses: this.misses,
+      expired: this.expired,
+      writes: this.writes,
+      hitRate: reads > 0 ? this.hits / reads : 0,
+    };
+  }
+}
+
+export class CacheRegistry {
+  private namespaces = new Map<string, CacheNamespace>();
+
+  constructor(private readonly defaultBackend: CacheBackend) {}
+
+  /**
+   * Get a namespace, creating it on first use
+   * Services create theirs when their module loads
+   */
+  namespace<T = any>(
+    name: string,
+    options: { ttl: TtlPolicy; backend?: CacheBackend }
+  ): CacheNamespace<T> {
+    let namespace = this.namespaces.get(name);
+    if (!namespace) {
+      namespace = new CacheNamespace<T>(
+        name,
+        options.backend || this.defaultBackend,
+        options.ttl
+      );
+      this.namespaces.set(name, namespace);
+    }
+    return namespace;
+  }
+
+  get(name: string): CacheNamespace | undefined {
+    return this.namespaces.get(name);
+  }
+
+  list(): CacheNamespace[] {
+    return Array.from(this.namespaces.values()).sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+  }
+}
+
+// Singleton instance
+export const cache = new CacheRegistry(createCacheBackend());
@@ -0,0 +1,290 @@
+/**
+ * Cache backends
+ *
+ * CACHE_BACKEND picks where cache namespaces keep their entries:
+ * - database (default): the cache_entries table of the SQLite database
+ * - memory: in-process LRU, lost on restart (CACHE_MAX_ENTRIES per namespace)
+ * - file: one JSON file per entry under CACHE_DIR
+ * - redis: any Redis-compatible server at REDIS_URL
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import Redis from "ioredis";
+import type { CacheBackend, CacheEntry } from "./cache";
+import { storage, WeeklyStatsKind } from "./storage";
+
+/**
+ * In-process LRU cache, one capacity per namespace
+ */
+export class MemoryBackend implements CacheBackend {
+  readonly name = "memory";
+  private namespaces = new Map<string, Map<string, CacheEntry>>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  private entries(namespace: string): Map<string, CacheEntry> {
+    let entries = this.namespaces.get(namespace);
+    if (!entries) {
+      entries = new Map();
+      this.namespaces.set(namespace, entries);
+    }
+    return entries;
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const entries = this.entries(namespace);
+    const entry = entries.get(key);
+    if (!entry) {
+      return null;
+    }
+
+    // Maps iterate in insertion order, so re-inserting marks it most recent
+    entries.delete(key);
+    entries.set(key, entry);
+    return entry;
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    const entries = this.entries(namespace);
+    entries.delete(key);
+    entries.set(key, entry);
+
+    while (entries.size > this.maxEntries) {
+      const oldest = entries.keys().next().value as string;
+      entries.delete(oldest);
+    }
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    this.entries(namespace).delete(key);
+  }
+
+  async clear(namespace: string): Promise<number> {
+    const count = this.entries(namespace).size;
+    this.namespaces.delete(namespace);
+    return count;
+  }
+
+  async size(namespace: string): Promise<number> {
+    return this.entries(namespace).size;
+  }
+}
+
+/**
+ * One JSON file per entry: <dir>/<namespace>/<key>.json
+ */
+export class FileBackend implements CacheBackend {
+  readonly name = "file";
+
+  constructor(private readonly dir: string) {}
+
+  private namespaceDir(namespace: string): string {
+    return path.join(this.dir, encodeURIComponent(namespace));
+  }
+
+  private entryFile(namespace: string, key: string): string {
+    return path.join(
+      this.namespaceDir(namespace),
+      `${encodeURIComponent(key)}.json`
+    );
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    try {
+      const contents = await fs.promises.readFile(
+        this.entryFile(namespace, key),
+        "utf-8"
+      );
+      return JSON.parse(contents);
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    await fs.promises.mkdir(this.namespaceDir(namespace), { recursive: true });
+    await fs.promises.writeFile(
+      this.entryFile(namespace, key),
+      JSON.stringify(entry)
+    );
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await fs.promises.rm(this.entryFile(namespace, key), { force: true });
+  }
+
+  async clear(namespace: string): Promise<number> {
+    const count = await this.size(namespace);
+    await fs.promises.rm(this.namespaceDir(namespace), {
+      recursive: true,
+      force: true,
+    });
+    return count;
+  }
+
+  async size(namespace: string): Promise<number> {
+    try {
+      const files = await fs.promises.readdir(this.namespaceDir(namespace));
+      return files.filter((f) => f.endsWith(".json")).length;
+    } catch (error: any) {
+      if (error.code === "ENOENT") {
+        return 0;
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Entries as JSON strings under <prefix>:<namespace>:<key>
+ */
+export class RedisBackend implements CacheBackend {
+  readonly name = "redis";
+
+  constructor(
+    private readonly client: Redis,
+    private readonly prefix = "fantasy-viz"
+  ) {}
+
+  private redisKey(namespace: string, key: string): string {
+    return `${this.prefix}:${namespace}:${key}`;
+  }
+
+  private async scanKeys(namespace: string): Promise<string[]> {
+    const keys: string[] = [];
+    const stream = this.client.scanStream({
+      match: `${this.prefix}:${namespace}:*`,
+      count: 500,
+    });
+    for await (const batch of stream) {
+      keys.push(...(batch as string[]));
+    }
+    return keys;
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const value = await this.client.get(this.redisKey(namespace, key));
+    return value ? JSON.parse(value) : null;
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    await this.client.set(this.redisKey(namespace, key), JSON.stringify(entry));
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    await this.client.del(this.redisKey(namespace, key));
+  }
+
+  async clear(namespace: string): Promise<number> {
+    const keys = await this.scanKeys(namespace);
+    if (keys.length > 0) {
+      await this.client.del(...keys);
+    }
+    return keys.length;
+  }
+
+  async size(namespace: string): Promise<number> {
+    return (await this.scanKeys(namespace)).length;
+  }
+}
+
+/**
+ * The cache_entries table of the SQLite database
+ */
+export class DatabaseBackend implements CacheBackend {
+  readonly name = "database";
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const cached = storage.getCacheEntry(namespace, key);
+    return cached ? { value: cached.data, storedAt: cached.fetchedAt } : null;
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    storage.saveCacheEntry(namespace, key, entry.value, entry.storedAt);
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    storage.deleteCacheEntry(namespace, key);
+  }
+
+  async clear(namespace: string): Promise<number> {
+    return storage.clearCacheNamespace(namespace);
+  }
+
+  async size(namespace: string): Promise<number> {
+    return storage.countCacheEntries(namespace);
+  }
+}
+
+/**
+ * Sleeper weekly stats or projections, kept in their own indexed tables
+ * so position queries work. Keys are "<season>:<week>"
+ */
+export class WeeklyStatsBackend implements CacheBackend {
+  readonly name = "database";
+
+  constructor(private readonly kind: WeeklyStatsKind) {}
+
+  private parseKey(key: string): { season: number; week: number } {
+    const [season, week] = key.split(":").map(Number);
+    return { season, week };
+  }
+
+  async get(namespace: string, key: string): Promise<CacheEntry | null> {
+    const { season, week } = this.parseKey(key);
+    const cached = storage.getWeeklyStats(this.kind, season, week);
+    return cached ? { value: cached.data, storedAt: cached.fetchedAt } : null;
+  }
+
+  async set(namespace: string, key: string, entry: CacheEntry): Promise<void> {
+    const { season, week } = this.parseKey(key);
+    storage.saveWeeklyStats(
+      this.kind,
+      season,
+      week,
+      entry.value,
+      entry.storedAt
+    );
+  }
+
+  async delete(namespace: string, key: string): Promise<void> {
+    const { season, week } = this.parseKey(key);
+    storage.deleteWeeklyStats(this.kind, season, week);
+  }
+
+  async clear(): Promise<number> {
+    return storage.clearWeeklyStats(this.kind);
+  }
+
+  async size(): Promise<number> {
+    return storage.countWeeklyStats(this.kind);
+  }
+}
+
+/**
+ * Create the default backend named by CACHE_BACKEND
+ */
+export function createCacheBackend(
+  type: string = process.env.CACHE_BACKEND || "database"
+): CacheBackend {
+  switch (type) {
+    case "database":
+      return new DatabaseBackend();
+    case "memory":
+      return new MemoryBackend(Number(process.env.CACHE_MAX_ENTRIES) || 1000);
+    case "file":
+      return new FileBackend(
+        process.env.CACHE_DIR || path.join(__dirname, "..", "cache", "entries")
+      );
+    case "redis":
+      return new RedisBackend(
+        new Redis(process.env.REDIS_URL || "redis://localhost:6379")
+      );
+    default:
+      throw new Error(`Unknown CACHE_BACKEND "${type}"`);
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Delete,
+  Get,
+  Path,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+} from "tsoa";
+import {
+  CacheClearResponse,
+  CacheStatsResponse,
+  ErrorResponse,
+  SessionListResponse,
+} from "../models";
+import { cache } from "../cache";
+import { describeAccount, tokenStore } from "../tokenStore";
+import { NotFound } from "../errors";
+
+@Route("api/admin")
+@Tags("Admin")
+export class AdminController extends Controller {
+  /**
+   * List every cache namespace with its backend, TTL policy, entry count and
+   * hit/miss counts since the server started. Requires the X-Admin-Key header
+   * to match ADMIN_API_KEY
+   * @summary Get cache stats
+   */
+  @Get("cache")
+  @Security("adminKey")
+  @SuccessResponse("200", "Successfully retrieved cache stats")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  public async getCacheStats(): Promise<CacheStatsResponse> {
+    const namespaces = await Promise.all(
+      cache.list().map((namespace) => namespace.getStats())
+    );
+    return { namespaces };
+  }
+
+  /**
+   * Remove every entry in a cache namespace so the next requests fetch fresh
+   * data, e.g. "scoreboards" or "sleeper_stats" after a stat correction.
+   * Requires the X-Admin-Key header to match ADMIN_API_KEY
+   * @summary Clear a cache namespace
+   * @param namespace Cache namespace name (see GET /api/admin/cache)
+   * @example namespace "scoreboards"
+   */
+  @Delete("cache/{namespace}")
+  @Security("adminKey")
+  @SuccessResponse("200", "Successfully cleared cache namespace")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Cache namespace not found")
+  @Response<ErrorResponse>("500", "Failed to clear cache namespace")
+  public async clearCacheNamespace(
+    @Path() namespace: string
+  ): Promise<CacheClearResponse> {
+    const target = cache.get(namespace);
+    if (!target) {
+      throw new NotFound(`Cache namespace not found: ${namespace}`);
+    }
+
+    const cleared = await target.clear();
+    console.log(`[admin] Cleared ${cleared} entries from cache ${namespace}`);
+    return { namespace, cleared };
+  }
+
+  /**
+   * List every connected Yahoo account, most recently connected first.
+   * Browsers signed in to the same account share one entry. Requires the
+   * X-Admin-Key header to match ADMIN_API_KEY
+   * @summary List active sessions
+   */
+  @Get("sessions")
+  @Security("adminKey")
+  @SuccessResponse("200", "Successfully retrieved sessions")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  public async listSessions(): Promise<SessionListResponse> {
+    return {
+      sessions: tokenStore.listTokens().map((stored) => ({
+        userId: stored.userId,
+        ...describeAccount(stored),
+      })),
+    };
+  }
+}
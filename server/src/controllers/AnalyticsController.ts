@@ -0,0 +1,151 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Path,
+  Post,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import {
+  ProjectionAccuracyResponse,
+  ProjectionImportInput,
+  ProjectionImportResponse,
+  ErrorResponse,
+} from "../models";
+import { FantasyService } from "../FantasyService";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+// Import names show in the report next to the built-in sources
+const SOURCE_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9 ._-]{0,39}$/;
+const BUILT_IN_SOURCES = ["sleeper", "yahoo"];
+
+@Route("api/analytics")
+@Tags("Analytics")
+export class AnalyticsController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Measure how well weekly projections predicted the points scored by the
+   * league's player pool (rostered players and free agents at the same
+   * positions) in completed weeks: MAE, RMSE, bias
+   * (positive means over-projected), R² and calibration buckets, overall and
+   * by position, week and projected-points tier. Sleeper's and Yahoo's
+   * projections are compared side by side with any imported from CSV
+   * @summary Get projection accuracy
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param startWeek Starting week number (1-18), defaults to the first week
+   * @param endWeek Ending week number (1-18), defaults to the last completed week
+   * @example leagueKey "423.l.12345"
+   * @example startWeek 1
+   * @example endWeek 8
+   */
+  @Get("projections")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully analyzed projections")
+  @Response<ErrorResponse>("400", "Invalid week range")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to analyze projections")
+  public async getProjectionAccuracy(
+    @Request() request: any,
+    @Query() leagueKey: string,
+    @Query() startWeek?: number,
+    @Query() endWeek?: number
+  ): Promise<ProjectionAccuracyResponse> {
+    if (
+      (startWeek !== undefined && (isNaN(startWeek) || startWeek < 1)) ||
+      (endWeek !== undefined && (isNaN(endWeek) || endWeek > 18)) ||
+      (startWeek !== undefined && endWeek !== undefined && startWeek > endWeek)
+    ) {
+      throw new ValidationError(
+        "Invalid week range: startWeek and endWeek must be between 1-18 and startWeek <= endWeek"
+      );
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getProjectionAccuracy(
+      leagueKey,
+      accessToken,
+      startWeek,
+      endWeek
+    );
+  }
+
+  /**
+   * Import weekly projections from CSV to compare in the projection report.
+   * The header needs week and points, in the league's points, plus a Yahoo
+   * player_id or a name (position optional). Importing under a name that's
+   * already used replaces those projections
+   * @summary Import projections
+   */
+  @Post("projections/imports")
+  @Security("cookieAuth")
+  @SuccessResponse("201", "Projections imported")
+  @Response<ErrorResponse>("400", "Invalid projections file")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("403", "Not allowed to view this league")
+  @Response<ErrorResponse>("404", "League not found")
+  public async importProjections(
+    @Request() request: any,
+    @Body() body: ProjectionImportInput
+  ): Promise<ProjectionImportResponse> {
+    if (!body.leagueKey) {
+      throw new ValidationError("leagueKey is required");
+    }
+    if (
+      !SOURCE_NAME_PATTERN.test(body.source || "") ||
+      BUILT_IN_SOURCES.includes(body.source.toLowerCase())
+    ) {
+      throw new ValidationError(
+        "source must be up to 40 letters, numbers, spaces, dots, dashes or underscores, and not Sleeper or Yahoo"
+      );
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    const imported = await this.fantasyService.importProjections(
+      accessToken,
+      body
+    );
+    this.setStatus(201);
+    return imported;
+  }
+
+  /**
+   * Remove projections imported for a league
+   * @summary Delete imported projections
+   * @param source Name the projections were imported under
+   * @param leagueKey Yahoo Fantasy league key
+   * @example source "FantasyPros"
+   * @example leagueKey "423.l.12345"
+   */
+  @Delete("projections/imports/{source}")
+  @Security("cookieAuth")
+  @SuccessResponse("204", "Imported projections deleted")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("403", "Not allowed to view this league")
+  @Response<ErrorResponse>("404", "No projections imported under that name")
+  public async deleteImportedProjections(
+    @Request() request: any,
+    @Path() source: string,
+    @Query() leagueKey: string
+  ): Promise<void> {
+    const accessToken = await requireAccessToken(request);
+
+    await this.fantasyService.deleteImportedProjections(
+      leagueKey,
+      accessToken,
+      source
+    );
+    this.setStatus(204);
+  }
+}
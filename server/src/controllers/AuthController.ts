@@ -0,0 +1,56 @@
+import { Request as ExpressRequest } from "express";
+import {
+  Controller,
+  Get,
+  Post,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { AccountResponse, ErrorResponse } from "../models";
+import { describeAccount, tokenStore } from "../tokenStore";
+import { NotAuthenticated } from "../errors";
+
+@Route("auth")
+@Tags("Auth")
+export class AuthController extends Controller {
+  /**
+   * Get the Yahoo account the session is connected to
+   * @summary Get the connected account
+   */
+  @Get("me")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved account")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  public async getAccount(@Request() request: any): Promise<AccountResponse> {
+    const stored = tokenStore.getStoredToken(request.user.userId);
+    if (!stored) {
+      throw new NotAuthenticated(
+        "Not authenticated. Please reconnect with Yahoo."
+      );
+    }
+    return describeAccount(stored);
+  }
+
+  /**
+   * Disconnect Yahoo: forget the account's tokens and clear the session
+   * cookie. Other browsers signed in to the same account have to reconnect
+   * too. Succeeds even when nothing is connected
+   * @summary Log out
+   */
+  @Post("logout")
+  @SuccessResponse("204", "Logged out")
+  public async logout(@Request() request: ExpressRequest): Promise<void> {
+    const userId = (request.session as any)?.userId;
+    if (userId) {
+      tokenStore.removeTokens(userId);
+      console.log(`[auth] Logged out ${userId}`);
+    }
+
+    request.session = null;
+    this.setStatus(204);
+  }
+}
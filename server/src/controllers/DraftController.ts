@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { DraftResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { requireAccessToken } from "../tokenStore";
+
+@Route("api/league")
+@Tags("Draft")
+export class DraftController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Get the league draft board with each pick's season-to-date points, value
+   * over a replacement-level player at the position and how that compares
+   * with the pick's draft slot, plus the biggest steals and busts and a
+   * letter grade for each team's draft
+   * @summary Get draft results and grades
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @example leagueKey "423.l.12345"
+   */
+  @Get("{leagueKey}/draft")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully analyzed draft")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League or draft results not found")
+  @Response<ErrorResponse>("500", "Failed to analyze draft")
+  public async getDraft(
+    @Path() leagueKey: string,
+    @Request() request: any
+  ): Promise<DraftResponse> {
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getDraft(leagueKey, accessToken);
+  }
+}
@@ -0,0 +1,44 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { LeagueHistoryResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { requireAccessToken } from "../tokenStore";
+
+@Route("api/league")
+@Tags("History")
+export class HistoryController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Get the league's history across every past season it was renewed from:
+   * final standings and champion for each season, all-time manager records,
+   * head-to-head records between managers and the highest single-week scores.
+   * Managers are matched across seasons by their Yahoo account
+   * @summary Get multi-season league history
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @example leagueKey "423.l.12345"
+   */
+  @Get("{leagueKey}/history")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved league history")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to fetch league history")
+  public async getLeagueHistory(
+    @Path() leagueKey: string,
+    @Request() request: any
+  ): Promise<LeagueHistoryResponse> {
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getLeagueHistory(leagueKey, accessToken);
+  }
+}
@@ -13,7 +13,13 @@ import {
 } from "tsoa";
 import { LeagueResponse, ErrorResponse } from "../models";
 import { FantasyService } from "../FantasyService";
-import { getTokenForUserId, setTokenForUserId } from "../tokenStore";
+import { scoringProfileStore } from "../scoringProfileStore";
+import {
+  getTokenForUserId,
+  requireAccessToken,
+  setTokenForUserId,
+} from "../tokenStore";
+import { ValidationError } from "../errors";
 
 // Re-export for backwards compatibility
 export { getTokenForUserId, setTokenForUserId };
@@ -33,36 +39,18 @@ export class LeagueController extends Controller {
   @Response<ErrorResponse>("401", "Not authenticated")
   @Response<ErrorResponse>("500", "Failed to fetch user leagues")
   public async getUserLeagues(@Request() request: any): Promise<any> {
-    const userId = request.user?.userId;
-
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
-
-    const token = await getTokenForUserId(userId);
-
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
+    const accessToken = await requireAccessToken(request);
 
-    try {
-      const result = await this.fantasyService.getUserLeagues(
-        token.access_token
-      );
-      return result;
-    } catch (err: any) {
-      console.error("Failed to fetch user leagues:", err.message);
-      this.setStatus(500);
-      throw new Error("Failed to fetch user leagues: " + err.message);
-    }
+    const result = await this.fantasyService.getUserLeagues(accessToken);
+    return result;
   }
 
   /**
    * Get league standings and information
    * @summary Get league standings
    * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param scoringProfile Scoring profile ID; standings and points are recomputed under it
+   * @param demo Replace weekly scores with made-up ones, for screenshots and demos
    * @example leagueKey "423.l.12345"
    */
   @Get("{leagueKey}")
@@ -74,41 +62,25 @@ export class LeagueController extends Controller {
   @Response<ErrorResponse>("500", "Failed to fetch league data")
   public async getLeague(
     @Path() leagueKey: string,
-    @Request() request: any
+    @Request() request: any,
+    @Query() scoringProfile?: string,
+    @Query() demo?: boolean
   ): Promise<LeagueResponse> {
-    const userId = request.user?.userId;
-
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
-
-    const token = await getTokenForUserId(userId);
-
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
+    const profile = scoringProfile
+      ? scoringProfileStore.get(scoringProfile)
+      : null;
+    if (scoringProfile && !profile) {
+      throw new ValidationError(`Unknown scoring profile: ${scoringProfile}`);
     }
 
-    try {
-      const result = await this.fantasyService.getLeague(
-        leagueKey,
-        token.access_token
-      );
-      return result;
-    } catch (err: any) {
-      // Set appropriate status codes
-      if (err.message.includes("not found") || err.message.includes("404")) {
-        this.setStatus(404);
-      } else if (err.message.includes("timeout")) {
-        this.setStatus(504); // Gateway timeout
-      } else if (err.message.includes("Not authorized")) {
-        this.setStatus(401);
-      } else {
-        this.setStatus(500);
-      }
+    const accessToken = await requireAccessToken(request);
 
-      throw new Error(err.message);
-    }
+    const result = await this.fantasyService.getLeague(
+      leagueKey,
+      accessToken,
+      profile || undefined,
+      demo
+    );
+    return result;
   }
 }
@@ -0,0 +1,67 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { LineupEfficiencyResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/league")
+@Tags("Lineups")
+export class LineupController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Compare each team's started lineups with the best lineups they could have
+   * started, showing bench points lost, manager efficiency and losses an
+   * optimal lineup would have turned into wins
+   * @summary Get lineup efficiency
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param startWeek Starting week number (1-18), defaults to the first week
+   * @param endWeek Ending week number (1-18), defaults to the last completed week
+   * @example leagueKey "423.l.12345"
+   * @example startWeek 1
+   * @example endWeek 8
+   */
+  @Get("{leagueKey}/lineup-efficiency")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully analyzed lineups")
+  @Response<ErrorResponse>("400", "Invalid week range")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to analyze lineups")
+  public async getLineupEfficiency(
+    @Path() leagueKey: string,
+    @Request() request: any,
+    @Query() startWeek?: number,
+    @Query() endWeek?: number
+  ): Promise<LineupEfficiencyResponse> {
+    if (
+      (startWeek !== undefined && (isNaN(startWeek) || startWeek < 1)) ||
+      (endWeek !== undefined && (isNaN(endWeek) || endWeek > 18)) ||
+      (startWeek !== undefined && endWeek !== undefined && startWeek > endWeek)
+    ) {
+      throw new ValidationError(
+        "Invalid week range: startWeek and endWeek must be between 1-18 and startWeek <= endWeek"
+      );
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getLineupEfficiency(
+      leagueKey,
+      accessToken,
+      startWeek,
+      endWeek
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+  Produces,
+} from "tsoa";
+import { ErrorResponse } from "../models";
+import { liveScoringHub, LiveEvent } from "../liveScoring";
+import { requireAccessToken } from "../tokenStore";
+
+// Comment lines keep proxies from closing a quiet stream
+const HEARTBEAT_MS = 25 * 1000;
+
+@Route("api/league")
+@Tags("Live Scoring")
+export class LiveScoringController extends Controller {
+  /**
+   * Stream the current week's scoring as Server-Sent Events. The first event
+   * is a `snapshot` (LiveScoreboardResponse), then `score` (TeamScoreUpdate),
+   * `stat` (PlayerStatUpdate) and `winProbability` (WinProbabilityUpdate)
+   * events as they change. Failed polls send an `error` event (ErrorResponse)
+   * and the stream carries on.
+   * @summary Stream live scores
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @example leagueKey "423.l.12345"
+   */
+  @Get("{leagueKey}/live")
+  @Security("cookieAuth")
+  @Produces("text/event-stream")
+  @SuccessResponse("200", "Event stream opened")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("403", "Not allowed to view this league")
+  @Response<ErrorResponse>("404", "League not found")
+  public async streamLiveScores(
+    @Path() leagueKey: string,
+    @Request() request: any
+  ): Promise<void> {
+    // Fail before the stream opens when there's no Yahoo connection, or the
+    // user can't see the league the feed is polled for
+    const accessToken = await requireAccessToken(request);
+    await liveScoringHub.authorize(leagueKey, request.user.userId, accessToken);
+
+    const res = request.res;
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write(": connected\n\n");
+
+    const unfollow = liveScoringHub.follow(
+      leagueKey,
+      request.user.userId,
+      (event: LiveEvent) => {
+        res.write(
+          `event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`
+        );
+      }
+    );
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+
+    request.on("close", () => {
+      clearInterval(heartbeat);
+      unfollow();
+    });
+  }
+}
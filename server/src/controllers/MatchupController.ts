@@ -0,0 +1,66 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { MatchupsResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { scoringProfileStore } from "../scoringProfileStore";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/league")
+@Tags("Matchups")
+export class MatchupController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Get head-to-head matchups for a league, for one week or the whole season so far
+   * @summary Get league matchups
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param week Week number (1-18), defaults to every week up to the current one
+   * @param scoringProfile Scoring profile ID; matchup scores are recomputed under it
+   * @example leagueKey "423.l.12345"
+   * @example week 5
+   */
+  @Get("{leagueKey}/matchups")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved matchups")
+  @Response<ErrorResponse>("400", "Invalid week")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to fetch matchups")
+  public async getMatchups(
+    @Path() leagueKey: string,
+    @Request() request: any,
+    @Query() week?: number,
+    @Query() scoringProfile?: string
+  ): Promise<MatchupsResponse> {
+    if (week !== undefined && (isNaN(week) || week < 1 || week > 18)) {
+      throw new ValidationError("Invalid week: week must be between 1-18");
+    }
+
+    const profile = scoringProfile
+      ? scoringProfileStore.get(scoringProfile)
+      : null;
+    if (scoringProfile && !profile) {
+      throw new ValidationError(`Unknown scoring profile: ${scoringProfile}`);
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getMatchups(
+      leagueKey,
+      accessToken,
+      week,
+      profile || undefined
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { Request as ExpressRequest } from "express";
 import {
   Controller,
   Get,
+  Path,
   Query,
   Route,
   Tags,
@@ -13,14 +14,18 @@ import {
 import {
   PlayerSearchResponse,
   PlayerCompareResponse,
+  PlayerMappingResponse,
   ErrorResponse,
 } from "../models";
 import { FantasyService } from "../FantasyService";
 import { SleeperService } from "../SleeperService";
 import { FantasyPointsCalculator } from "../FantasyPointsCalculator";
-import { getTokenForUserId } from "./LeagueController";
+import { SeasonResolver } from "../SeasonResolver";
+import { scoringProfileStore } from "../scoringProfileStore";
 import { normalizePlayerSearch, normalizePlayerStats } from "../parsers";
 import { NormalizedPlayerStats } from "../yahoo-types";
+import { requireAccessToken } from "../tokenStore";
+import { NotFound, ValidationError } from "../errors";
 
 @Route("api/players")
 @Tags("Players")
@@ -57,40 +62,22 @@ export class PlayerController extends Controller {
     @Query() count: number = 25
   ): Promise<PlayerSearchResponse> {
     if (!gameKey) {
-      this.setStatus(400);
-      throw new Error("gameKey is required");
+      throw new ValidationError("gameKey is required");
     }
 
     if (count > 25) {
-      this.setStatus(400);
-      throw new Error("count cannot exceed 25");
+      throw new ValidationError("count cannot exceed 25");
     }
 
-    const userId = request.user?.userId;
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
-
-    const token = await getTokenForUserId(userId);
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
+    const accessToken = await requireAccessToken(request);
 
-    try {
-      const rawData = await this.fantasyService.searchPlayers(
-        gameKey,
-        token.access_token,
-        { search, position, sort, start, count }
-      );
+    const rawData = await this.fantasyService.searchPlayers(
+      gameKey,
+      accessToken,
+      { search, position, sort, start, count }
+    );
 
-      return normalizePlayerSearch(rawData, gameKey, start, count);
-    } catch (err: any) {
-      console.error("Error searching players:", err.message);
-      this.setStatus(500);
-      throw new Error("Failed to search players: " + err.message);
-    }
+    return normalizePlayerSearch(rawData, gameKey, start, count);
   }
 
   /**
@@ -100,6 +87,7 @@ export class PlayerController extends Controller {
    * @param teamKey Optional team key for efficient batch fetching (e.g., "423.l.12345.t.1")
    * @param startWeek Starting week number (1-18)
    * @param endWeek Ending week number (1-18)
+   * @param scoringProfile Scoring profile ID to score with instead of the league's scoring
    * @example playerKeys "423.p.33536,423.p.31866"
    * @example teamKey "423.l.12345.t.1"
    * @example startWeek 1
@@ -117,17 +105,16 @@ export class PlayerController extends Controller {
     @Query() teamKey?: string,
     @Query() leagueKey?: string,
     @Query() startWeek: number = 1,
-    @Query() endWeek: number = 17
+    @Query() endWeek: number = 17,
+    @Query() scoringProfile?: string
   ): Promise<PlayerCompareResponse> {
     if (!playerKeys) {
-      this.setStatus(400);
-      throw new Error("playerKeys is required");
+      throw new ValidationError("playerKeys is required");
     }
 
     const keys = playerKeys.split(",").map((k) => k.trim());
     if (keys.length < 1) {
-      this.setStatus(400);
-      throw new Error("At least 1 player key is required");
+      throw new ValidationError("At least 1 player key is required");
     }
 
     if (
@@ -137,102 +124,91 @@ export class PlayerController extends Controller {
       endWeek > 18 ||
       startWeek > endWeek
     ) {
-      this.setStatus(400);
-      throw new Error(
+      throw new ValidationError(
         "Invalid week range: startWeek and endWeek must be between 1-18 and startWeek <= endWeek"
       );
     }
 
-    const userId = request.user?.userId;
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
+    const profile = scoringProfile
+      ? scoringProfileStore.get(scoringProfile)
+      : null;
+    if (scoringProfile && !profile) {
+      throw new ValidationError(`Unknown scoring profile: ${scoringProfile}`);
     }
 
-    const token = await getTokenForUserId(userId);
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
+    // Extract league key
+    const leagueKeyToUse =
+      leagueKey || (teamKey ? teamKey.split(".t.")[0] : null);
+
+    if (!leagueKeyToUse) {
+      throw new ValidationError("leagueKey or teamKey is required");
     }
 
-    try {
-      // Extract league key
-      const leagueKeyToUse =
-        leagueKey || (teamKey ? teamKey.split(".t.")[0] : null);
+    const accessToken = await requireAccessToken(request);
 
-      if (!leagueKeyToUse) {
-        this.setStatus(400);
-        throw new Error("leagueKey or teamKey is required");
-      }
+    // Step 1: Get Yahoo scoring settings
+    const scoringRules = await FantasyPointsCalculator.getScoringRules(
+      leagueKeyToUse,
+      accessToken
+    );
 
-      // Step 1: Get Yahoo scoring settings
-      const scoringRules = await FantasyPointsCalculator.getScoringRules(
-        leagueKeyToUse,
-        token.access_token
+    // Step 2: Get player info from Yahoo (to get names) - with caching
+    const playerInfoPromises = keys.map(async (playerKey) => {
+      const info = await this.fantasyService.getPlayerInfo(
+        playerKey,
+        accessToken
       );
 
+      return {
+        yahooKey: playerKey,
+        name: info?.name || "Unknown Player",
+        position: info?.position || "N/A",
+        team: info?.team,
+      };
+    });
+
+    const playerInfos = await Promise.all(playerInfoPromises);
+
+    // Step 3: Get full season stats from Sleeper (in parallel)
+    const seasonContext = await SeasonResolver.getLeagueSeason(
+      leagueKeyToUse,
+      accessToken
+    );
+
+    const playersPromises = playerInfos.map(async (info) => {
       // Build scoring settings object for Sleeper
       const scoringSettings = {
         statMappings: new Map<number, string>(),
-        scoringRules: scoringRules,
+        scoringRules: profile
+          ? FantasyPointsCalculator.applyScoringProfile(
+              scoringRules,
+              profile,
+              info.position
+            )
+          : scoringRules,
       };
 
-      // Step 2: Get player info from Yahoo (to get names) - with caching
-      const playerInfoPromises = keys.map(async (playerKey) => {
-        const info = await this.fantasyService.getPlayerInfo(
-          playerKey,
-          token.access_token
+      try {
+        const sleeperStats = await this.sleeperService.getPlayerSeasonStats(
+          {
+            playerId: info.yahooKey.split(".p.")[1] || info.yahooKey,
+            name: info.name,
+            position: info.position,
+            team: info.team,
+          },
+          startWeek,
+          endWeek,
+          scoringSettings,
+          seasonContext.season,
+          SeasonResolver.getCacheCurrentWeek(seasonContext)
         );
 
-        return {
-          yahooKey: playerKey,
-          name: info?.name || "Unknown Player",
-          position: info?.position || "N/A",
-        };
-      });
-
-      const playerInfos = await Promise.all(playerInfoPromises);
-
-      // Step 3: Get full season stats from Sleeper (in parallel)
-      const currentWeek = 8;
-
-      const playersPromises = playerInfos.map(async (info) => {
-        try {
-          const sleeperStats = await this.sleeperService.getPlayerSeasonStats(
-            info.name,
-            startWeek,
-            endWeek,
-            scoringSettings,
-            2025, // season
-            currentWeek
-          );
-
-          if (sleeperStats) {
-            // Preserve Yahoo player key for compatibility
-            sleeperStats.playerKey = info.yahooKey;
-            return sleeperStats;
-          } else {
-            // Create empty player stats
-            return {
-              playerKey: info.yahooKey,
-              playerId: info.yahooKey.split(".").pop() || "",
-              name: info.name,
-              position: info.position,
-              team: "N/A",
-              weeklyData: [],
-              summary: {
-                totalProjected: 0,
-                totalActual: 0,
-                totalDifference: 0,
-                averageProjected: 0,
-                averageActual: 0,
-                weeksPlayed: 0,
-                accuracyRate: 0,
-              },
-            };
-          }
-        } catch (error: any) {
-          // Create empty player stats on error
+        if (sleeperStats) {
+          // Preserve Yahoo player key for compatibility
+          sleeperStats.playerKey = info.yahooKey;
+          return sleeperStats;
+        } else {
+          // Create empty player stats
           return {
             playerKey: info.yahooKey,
             playerId: info.yahooKey.split(".").pop() || "",
@@ -251,70 +227,130 @@ export class PlayerController extends Controller {
             },
           };
         }
-      });
+      } catch (error: any) {
+        // Create empty player stats on error
+        return {
+          playerKey: info.yahooKey,
+          playerId: info.yahooKey.split(".").pop() || "",
+          name: info.name,
+          position: info.position,
+          team: "N/A",
+          weeklyData: [],
+          summary: {
+            totalProjected: 0,
+            totalActual: 0,
+            totalDifference: 0,
+            averageProjected: 0,
+            averageActual: 0,
+            weeksPlayed: 0,
+            accuracyRate: 0,
+          },
+        };
+      }
+    });
 
-      const players = await Promise.all(playersPromises);
+    const players = await Promise.all(playersPromises);
 
-      // Calculate head-to-head comparison
-      let player1Better = 0;
-      let player2Better = 0;
-      let ties = 0;
+    // Calculate head-to-head comparison
+    let player1Better = 0;
+    let player2Better = 0;
+    let ties = 0;
 
-      if (players.length >= 2) {
-        const p1Data = players[0].weeklyData;
-        const p2Data = players[1].weeklyData;
+    if (players.length >= 2) {
+      const p1Data = players[0].weeklyData;
+      const p2Data = players[1].weeklyData;
 
-        // Match weeks and compare
-        for (const week1 of p1Data) {
-          const week2 = p2Data.find((w) => w.week === week1.week);
-          if (week2) {
-            if (week1.actualPoints > week2.actualPoints) {
-              player1Better++;
-            } else if (week2.actualPoints > week1.actualPoints) {
-              player2Better++;
-            } else {
-              ties++;
-            }
+      // Match weeks and compare
+      for (const week1 of p1Data) {
+        const week2 = p2Data.find((w) => w.week === week1.week);
+        if (week2) {
+          if (week1.actualPoints > week2.actualPoints) {
+            player1Better++;
+          } else if (week2.actualPoints > week1.actualPoints) {
+            player2Better++;
+          } else {
+            ties++;
           }
         }
       }
+    }
 
-      return {
-        weekRange: { start: startWeek, end: endWeek },
-        players: players.map((p) => ({
-          playerKey: p.playerKey,
-          name: p.name,
-          position: p.position,
-          team: p.team,
-          weeklyData: p.weeklyData.map((w) => ({
-            week: w.week,
-            projectedPoints: w.projectedPoints,
-            actualPoints: w.actualPoints,
-            difference: w.difference,
-            status: "",
-            ...(w.breakdown && { breakdown: w.breakdown }), // Include breakdown if present
-          })),
-          summary: {
-            totalWeeks: p.summary.weeksPlayed,
-            weeksPlayed: p.summary.weeksPlayed,
-            averageProjected: p.summary.averageProjected,
-            averageActual: p.summary.averageActual,
-            totalProjected: p.summary.totalProjected,
-            totalActual: p.summary.totalActual,
-            totalDifference: p.summary.totalDifference,
-            accuracyRate: p.summary.accuracyRate,
-          },
+    return {
+      weekRange: { start: startWeek, end: endWeek },
+      ...(profile && { scoringProfile: profile.id }),
+      players: players.map((p) => ({
+        playerKey: p.playerKey,
+        name: p.name,
+        position: p.position,
+        team: p.team,
+        weeklyData: p.weeklyData.map((w) => ({
+          week: w.week,
+          projectedPoints: w.projectedPoints,
+          actualPoints: w.actualPoints,
+          difference: w.difference,
+          status: "",
+          ...(w.breakdown && { breakdown: w.breakdown }), // Include breakdown if present
         })),
-        comparison: {
-          player1Better,
-          player2Better,
-          ties,
+        summary: {
+          totalWeeks: p.summary.weeksPlayed,
+          weeksPlayed: p.summary.weeksPlayed,
+          averageProjected: p.summary.averageProjected,
+          averageActual: p.summary.averageActual,
+          totalProjected: p.summary.totalProjected,
+          totalActual: p.summary.totalActual,
+          totalDifference: p.summary.totalDifference,
+          accuracyRate: p.summary.accuracyRate,
         },
-      };
-    } catch (err: any) {
-      console.error("Error comparing players:", err.message);
-      this.setStatus(500);
-      throw new Error("Failed to compare players: " + err.message);
+      })),
+      comparison: {
+        player1Better,
+        player2Better,
+        ties,
+      },
+    };
+  }
+
+  /**
+   * Show which Sleeper player a Yahoo player is matched to, how confident the
+   * match is and the other candidates considered. Wrong matches can be fixed
+   * by adding the Yahoo player_id to the player ID overrides file
+   * @summary Get Yahoo to Sleeper player mapping
+   * @param playerKey Yahoo player key (e.g., "423.p.33536")
+   * @example playerKey "423.p.33536"
+   */
+  @Get("{playerKey}/mapping")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved player mapping")
+  @Response<ErrorResponse>("400", "Invalid player key")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Player not found")
+  @Response<ErrorResponse>("500", "Failed to map player")
+  public async getPlayerMapping(
+    @Request() request: any,
+    @Path() playerKey: string
+  ): Promise<PlayerMappingResponse> {
+    const playerId = playerKey.split(".p.")[1];
+    if (!playerId) {
+      throw new ValidationError(
+        "Invalid player key, expected format game_key.p.player_id"
+      );
     }
+
+    const accessToken = await requireAccessToken(request);
+
+    const info = await this.fantasyService.getPlayerInfo(
+      playerKey,
+      accessToken
+    );
+    if (!info) {
+      throw new NotFound(`Player ${playerKey} not found`);
+    }
+
+    return await this.sleeperService.getPlayerMapping(playerKey, {
+      playerId,
+      name: info.name,
+      position: info.position,
+      team: info.team,
+    });
   }
 }
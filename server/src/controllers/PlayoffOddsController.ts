@@ -0,0 +1,69 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { PlayoffOddsResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { scoringProfileStore } from "../scoringProfileStore";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/league")
+@Tags("Playoffs")
+export class PlayoffOddsController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Simulate the rest of the regular season to estimate each team's odds of
+   * making the playoffs, earning a bye and finishing at each seed
+   * @summary Get playoff odds
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param simulations Number of seasons to simulate (100-50000)
+   * @param scoringProfile Scoring profile ID; past scores and records are recomputed under it
+   * @example leagueKey "423.l.12345"
+   * @example simulations 10000
+   */
+  @Get("{leagueKey}/playoff-odds")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully computed playoff odds")
+  @Response<ErrorResponse>("400", "Invalid simulation count")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to compute playoff odds")
+  public async getPlayoffOdds(
+    @Path() leagueKey: string,
+    @Request() request: any,
+    @Query() simulations: number = 10000,
+    @Query() scoringProfile?: string
+  ): Promise<PlayoffOddsResponse> {
+    if (isNaN(simulations) || simulations < 100 || simulations > 50000) {
+      throw new ValidationError(
+        "Invalid simulations: simulations must be between 100-50000"
+      );
+    }
+
+    const profile = scoringProfile
+      ? scoringProfileStore.get(scoringProfile)
+      : null;
+    if (scoringProfile && !profile) {
+      throw new ValidationError(`Unknown scoring profile: ${scoringProfile}`);
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getPlayoffOdds(
+      leagueKey,
+      accessToken,
+      simulations,
+      profile || undefined
+    );
+  }
+}
@@ -0,0 +1,164 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Path,
+  Post,
+  Put,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+} from "tsoa";
+import {
+  ScoringProfile,
+  ScoringProfileInput,
+  ScoringProfilesResponse,
+  ErrorResponse,
+} from "../models";
+import {
+  scoringProfileStore,
+  slugifyProfileName,
+} from "../scoringProfileStore";
+import { NotFound, ValidationError } from "../errors";
+
+/**
+ * Check a stat ID -> points map, returning the first problem found
+ */
+function validateStatPoints(
+  points: { [statId: string]: number },
+  label: string
+): string | null {
+  for (const [statId, value] of Object.entries(points)) {
+    if (!/^\d+$/.test(statId)) {
+      return `Invalid ${label}: stat ID "${statId}" must be a number`;
+    }
+    if (typeof value !== "number" || !isFinite(value)) {
+      return `Invalid ${label}: points for stat ${statId} must be a number`;
+    }
+  }
+  return null;
+}
+
+@Route("api/scoring-profiles")
+@Tags("Scoring Profiles")
+export class ScoringProfileController extends Controller {
+  /**
+   * List saved scoring profiles. Pass a profile's ID as the scoringProfile
+   * parameter on league, matchup, playoff odds, trade and player compare
+   * routes to see results under that scoring
+   * @summary List scoring profiles
+   */
+  @Get()
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved scoring profiles")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  public async listScoringProfiles(): Promise<ScoringProfilesResponse> {
+    return { profiles: scoringProfileStore.list() };
+  }
+
+  /**
+   * Get a scoring profile
+   * @summary Get scoring profile
+   * @param profileId Scoring profile ID (e.g., "full-ppr")
+   * @example profileId "full-ppr"
+   */
+  @Get("{profileId}")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved scoring profile")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Scoring profile not found")
+  public async getScoringProfile(
+    @Path() profileId: string
+  ): Promise<ScoringProfile> {
+    const profile = scoringProfileStore.get(profileId);
+    if (!profile) {
+      throw new NotFound(`Scoring profile not found: ${profileId}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Create a scoring profile. Overrides are Yahoo stat IDs mapped to points
+   * per unit and replace the league's value for that stat; position overrides
+   * apply on top for players at that position
+   * @summary Create scoring profile
+   */
+  @Post()
+  @Security("cookieAuth")
+  @SuccessResponse("201", "Successfully created scoring profile")
+  @Response<ErrorResponse>("400", "Invalid scoring profile")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("409", "Scoring profile already exists")
+  public async createScoringProfile(
+    @Body() body: ScoringProfileInput
+  ): Promise<ScoringProfile> {
+    this.validateInput(body);
+
+    const profile = scoringProfileStore.create(body);
+    this.setStatus(201);
+    return profile;
+  }
+
+  /**
+   * Replace a scoring profile's name and rules
+   * @summary Update scoring profile
+   * @param profileId Scoring profile ID (e.g., "full-ppr")
+   * @example profileId "full-ppr"
+   */
+  @Put("{profileId}")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully updated scoring profile")
+  @Response<ErrorResponse>("400", "Invalid scoring profile")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Scoring profile not found")
+  public async updateScoringProfile(
+    @Path() profileId: string,
+    @Body() body: ScoringProfileInput
+  ): Promise<ScoringProfile> {
+    this.validateInput(body);
+
+    const profile = scoringProfileStore.update(profileId, body);
+    if (!profile) {
+      throw new NotFound(`Scoring profile not found: ${profileId}`);
+    }
+    return profile;
+  }
+
+  /**
+   * Delete a scoring profile
+   * @summary Delete scoring profile
+   * @param profileId Scoring profile ID (e.g., "full-ppr")
+   * @example profileId "full-ppr"
+   */
+  @Delete("{profileId}")
+  @Security("cookieAuth")
+  @SuccessResponse("204", "Successfully deleted scoring profile")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Scoring profile not found")
+  public async deleteScoringProfile(@Path() profileId: string): Promise<void> {
+    if (!scoringProfileStore.delete(profileId)) {
+      throw new NotFound(`Scoring profile not found: ${profileId}`);
+    }
+    this.setStatus(204);
+  }
+
+  private validateInput(body: ScoringProfileInput) {
+    if (!body.name || slugifyProfileName(body.name) === "") {
+      throw new ValidationError("Invalid scoring profile: name is required");
+    }
+
+    const problem =
+      validateStatPoints(body.overrides || {}, "overrides") ||
+      Object.entries(body.positionOverrides || {})
+        .map(([position, points]) =>
+          validateStatPoints(points, `${position} overrides`)
+        )
+        .find((p) => p !== null);
+    if (problem) {
+      throw new ValidationError(problem);
+    }
+  }
+}
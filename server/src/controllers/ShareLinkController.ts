@@ -0,0 +1,96 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Path,
+  Post,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import {
+  ShareLink,
+  ShareLinkInput,
+  ShareLinksResponse,
+  ErrorResponse,
+} from "../models";
+import { shareLinkService } from "../shareLinks";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/share-links")
+@Tags("Sharing")
+export class ShareLinkController extends Controller {
+  /**
+   * List the share links you have created, newest first, including expired ones
+   * @summary List your share links
+   */
+  @Get()
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved share links")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  public async listShareLinks(
+    @Request() request: any
+  ): Promise<ShareLinksResponse> {
+    return { links: shareLinkService.list(request.user.userId) };
+  }
+
+  /**
+   * Publish a league as a read-only link anyone can open without signing in.
+   * Live links load current data with your Yahoo connection on each visit and
+   * stop working if you disconnect; snapshot links keep today's data
+   * @summary Create a share link
+   */
+  @Post()
+  @Security("cookieAuth")
+  @SuccessResponse("201", "Share link created")
+  @Response<ErrorResponse>("400", "Invalid share link")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  public async createShareLink(
+    @Request() request: any,
+    @Body() body: ShareLinkInput
+  ): Promise<ShareLink> {
+    if (!body.leagueKey) {
+      throw new ValidationError("leagueKey is required");
+    }
+    if (
+      body.expiresInDays !== undefined &&
+      !(body.expiresInDays > 0 && body.expiresInDays <= 365)
+    ) {
+      throw new ValidationError("expiresInDays must be between 1 and 365");
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    const link = await shareLinkService.create(
+      request.user.userId,
+      accessToken,
+      body
+    );
+    this.setStatus(201);
+    return link;
+  }
+
+  /**
+   * Revoke a share link; visitors get a not found page from then on
+   * @summary Revoke a share link
+   * @param slug Share link slug
+   */
+  @Delete("{slug}")
+  @Security("cookieAuth")
+  @SuccessResponse("204", "Share link revoked")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Share link not found")
+  public async revokeShareLink(
+    @Request() request: any,
+    @Path() slug: string
+  ): Promise<void> {
+    shareLinkService.revoke(request.user.userId, slug);
+    this.setStatus(204);
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Query,
+  Route,
+  Tags,
+  SuccessResponse,
+  Response,
+} from "tsoa";
+import {
+  MatchupsResponse,
+  SharedLeagueResponse,
+  ErrorResponse,
+} from "../models";
+import { shareLinkService } from "../shareLinks";
+import { ValidationError } from "../errors";
+
+/**
+ * Public, read-only views behind share links. No sign-in required
+ */
+@Route("api/shared")
+@Tags("Sharing")
+export class SharedLeagueController extends Controller {
+  /**
+   * Get the standings and weekly scores of a shared league
+   * @summary Get a shared league
+   * @param slug Share link slug
+   */
+  @Get("{slug}")
+  @SuccessResponse("200", "Successfully retrieved shared league")
+  @Response<ErrorResponse>("404", "Share link not found or expired")
+  @Response<ErrorResponse>("502", "Shared league unavailable")
+  public async getSharedLeague(
+    @Path() slug: string
+  ): Promise<SharedLeagueResponse> {
+    return shareLinkService.getLeague(slug);
+  }
+
+  /**
+   * Get the matchups of a shared league, for one week or the whole season so far
+   * @summary Get shared league matchups
+   * @param slug Share link slug
+   * @param week Week number (1-18), defaults to every week
+   */
+  @Get("{slug}/matchups")
+  @SuccessResponse("200", "Successfully retrieved matchups")
+  @Response<ErrorResponse>("400", "Invalid week")
+  @Response<ErrorResponse>("404", "Share link not found or expired")
+  @Response<ErrorResponse>("502", "Shared league unavailable")
+  public async getSharedMatchups(
+    @Path() slug: string,
+    @Query() week?: number
+  ): Promise<MatchupsResponse> {
+    if (week !== undefined && (isNaN(week) || week < 1 || week > 18)) {
+      throw new ValidationError("Invalid week: week must be between 1-18");
+    }
+    return shareLinkService.getMatchups(slug, week);
+  }
+}
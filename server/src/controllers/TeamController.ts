@@ -11,9 +11,14 @@ import {
   Response,
   Request,
 } from "tsoa";
-import { PlayerStatsResponse, ErrorResponse } from "../models";
+import {
+  PlayerStatsResponse,
+  WaiverTargetsResponse,
+  ErrorResponse,
+} from "../models";
 import { FantasyService } from "../FantasyService";
-import { getTokenForUserId } from "./LeagueController";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
 
 @Route("api/team")
 @Tags("Team")
@@ -39,38 +44,9 @@ export class TeamController extends Controller {
     @Path() teamKey: string,
     @Query() week?: number
   ): Promise<any> {
-    const userId = request.user?.userId;
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
-
-    const token = await getTokenForUserId(userId);
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
-
-    try {
-      return await this.fantasyService.getTeamRoster(
-        teamKey,
-        token.access_token,
-        week
-      );
-    } catch (err: any) {
-      // Set appropriate status codes
-      if (err.message.includes("not found") || err.message.includes("404")) {
-        this.setStatus(404);
-      } else if (err.message.includes("timeout")) {
-        this.setStatus(504);
-      } else if (err.message.includes("Not authorized")) {
-        this.setStatus(401);
-      } else {
-        this.setStatus(500);
-      }
+    const accessToken = await requireAccessToken(request);
 
-      throw new Error(err.message);
-    }
+    return await this.fantasyService.getTeamRoster(teamKey, accessToken, week);
   }
 
   /**
@@ -103,34 +79,54 @@ export class TeamController extends Controller {
       endWeek > 18 ||
       startWeek > endWeek
     ) {
-      this.setStatus(400);
-      throw new Error(
+      throw new ValidationError(
         "Invalid week range: startWeek and endWeek must be between 1-18 and startWeek <= endWeek"
       );
     }
 
-    const userId = request.user?.userId;
-    if (!userId) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
+    const accessToken = await requireAccessToken(request);
 
-    const token = await getTokenForUserId(userId);
-    if (!token) {
-      this.setStatus(401);
-      throw new Error("Not authenticated");
-    }
+    return await this.fantasyService.getPlayerStats(
+      teamKey,
+      startWeek,
+      endWeek,
+      accessToken
+    );
+  }
 
-    try {
-      return await this.fantasyService.getPlayerStats(
-        teamKey,
-        startWeek,
-        endWeek,
-        token.access_token
-      );
-    } catch (err: any) {
-      this.setStatus(500);
-      throw new Error("Failed to fetch player stats: " + err.message);
+  /**
+   * Rank free agents by how many rest-of-season points they would add to the
+   * team's best possible lineup under the league's scoring, each paired with
+   * the roster player to drop and a FAAB bid range from the league's winning
+   * bids this season
+   * @summary Get waiver wire targets
+   * @param teamKey Yahoo Fantasy team key (format: league_key.t.team_id, e.g., "423.l.12345.t.1")
+   * @param count Number of targets to return (1-25)
+   * @example teamKey "461.l.329011.t.2"
+   * @example count 10
+   */
+  @Get("{teamKey}/waiver-targets")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully found waiver targets")
+  @Response<ErrorResponse>("400", "Invalid count or season is over")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Team not found")
+  @Response<ErrorResponse>("500", "Failed to find waiver targets")
+  public async getWaiverTargets(
+    @Request() request: any,
+    @Path() teamKey: string,
+    @Query() count: number = 10
+  ): Promise<WaiverTargetsResponse> {
+    if (isNaN(count) || count < 1 || count > 25) {
+      throw new ValidationError("Invalid count: must be between 1 and 25");
     }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getWaiverTargets(
+      teamKey,
+      accessToken,
+      count
+    );
   }
 }
@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Path,
+  Post,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import {
+  LeagueRostersResponse,
+  TradeEvaluateRequest,
+  TradeEvaluationResponse,
+  ErrorResponse,
+} from "../models";
+import { FantasyService } from "../FantasyService";
+import { scoringProfileStore } from "../scoringProfileStore";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/league")
+@Tags("Trades")
+export class TradeController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Get every team's current roster, for building trades
+   * @summary Get league rosters
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @example leagueKey "423.l.12345"
+   */
+  @Get("{leagueKey}/rosters")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved rosters")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to fetch rosters")
+  public async getLeagueRosters(
+    @Path() leagueKey: string,
+    @Request() request: any
+  ): Promise<LeagueRostersResponse> {
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getLeagueRosters(leagueKey, accessToken);
+  }
+
+  /**
+   * Evaluate a two-team trade. Each side lists the players it gives and gets
+   * the other side's players. Values use rest-of-season Sleeper projections
+   * scored with the league's scoring settings, and show how the trade changes
+   * each team's optimal starting lineup
+   * @summary Evaluate a trade
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param scoringProfile Scoring profile ID to value players with instead of the league's scoring
+   * @example leagueKey "423.l.12345"
+   */
+  @Post("{leagueKey}/trade/evaluate")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully evaluated trade")
+  @Response<ErrorResponse>("400", "Invalid trade")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "Team not found")
+  @Response<ErrorResponse>("500", "Failed to evaluate trade")
+  public async evaluateTrade(
+    @Path() leagueKey: string,
+    @Body() body: TradeEvaluateRequest,
+    @Request() request: any,
+    @Query() scoringProfile?: string
+  ): Promise<TradeEvaluationResponse> {
+    const sides = body.sides || [];
+    if (sides.length !== 2 || sides[0].teamKey === sides[1].teamKey) {
+      throw new ValidationError("A trade needs exactly two different teams");
+    }
+
+    for (const side of sides) {
+      if (!side.teamKey.startsWith(`${leagueKey}.t.`)) {
+        throw new ValidationError(
+          `Team ${side.teamKey} is not in league ${leagueKey}`
+        );
+      }
+    }
+
+    if (sides.every((side) => side.gives.length === 0)) {
+      throw new ValidationError("At least one side must give a player");
+    }
+
+    const profile = scoringProfile
+      ? scoringProfileStore.get(scoringProfile)
+      : null;
+    if (scoringProfile && !profile) {
+      throw new ValidationError(`Unknown scoring profile: ${scoringProfile}`);
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.evaluateTrade(
+      leagueKey,
+      accessToken,
+      sides,
+      profile || undefined
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  Controller,
+  Get,
+  Path,
+  Query,
+  Route,
+  Tags,
+  Security,
+  SuccessResponse,
+  Response,
+  Request,
+} from "tsoa";
+import { TransactionsResponse, ErrorResponse } from "../models";
+import { FantasyService } from "../FantasyService";
+import { TransactionFilterType } from "../transactionTimeline";
+import { requireAccessToken } from "../tokenStore";
+import { ValidationError } from "../errors";
+
+@Route("api/league")
+@Tags("Transactions")
+export class TransactionController extends Controller {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Get league transactions (adds, drops, trades, waiver claims and FAAB
+   * bids), newest first, with each team's FAAB spend for the season
+   * @summary Get league transactions
+   * @param leagueKey Yahoo Fantasy league key (format: game_key.l.league_id, e.g., "423.l.12345")
+   * @param teamKey Only transactions involving this team
+   * @param type Only transactions with an add, drop, trade or waiver claim
+   * @param week Only transactions counting for this week (1-18)
+   * @param performance Include the points each acquired player scored while on the team that acquired them
+   * @example leagueKey "423.l.12345"
+   * @example teamKey "423.l.12345.t.1"
+   * @example type "waiver"
+   * @example week 5
+   */
+  @Get("{leagueKey}/transactions")
+  @Security("cookieAuth")
+  @SuccessResponse("200", "Successfully retrieved transactions")
+  @Response<ErrorResponse>("400", "Invalid filters")
+  @Response<ErrorResponse>("401", "Not authenticated")
+  @Response<ErrorResponse>("404", "League not found")
+  @Response<ErrorResponse>("500", "Failed to fetch transactions")
+  public async getTransactions(
+    @Path() leagueKey: string,
+    @Request() request: any,
+    @Query() teamKey?: string,
+    @Query() type?: TransactionFilterType,
+    @Query() week?: number,
+    @Query() performance: boolean = false
+  ): Promise<TransactionsResponse> {
+    if (week !== undefined && (isNaN(week) || week < 1 || week > 18)) {
+      throw new ValidationError("Invalid week: week must be between 1-18");
+    }
+
+    if (teamKey && !teamKey.startsWith(`${leagueKey}.t.`)) {
+      throw new ValidationError(
+        `Team ${teamKey} is not in league ${leagueKey}`
+      );
+    }
+
+    const accessToken = await requireAccessToken(request);
+
+    return await this.fantasyService.getTransactions(
+      leagueKey,
+      accessToken,
+      { teamKey, type, week },
+      performance
+    );
+  }
+}
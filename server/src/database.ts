@@ -0,0 +1,78 @@
+/**
+ * Embedded SQLite database
+ *
+ * Opens the database file (server/cache/fantasy-viz.db unless DATABASE_FILE
+ * is set) and brings its schema up to date before anything reads from it.
+ */
+
+import Database from "better-sqlite3";
+import * as fs from "fs";
+import * as path from "path";
+import { Migration, MIGRATIONS } from "./migrations";
+
+export const DEFAULT_DATABASE_FILE = path.join(
+  __dirname,
+  "..",
+  "cache",
+  "fantasy-viz.db"
+);
+
+/**
+ * Apply every migration newer than the database's current version
+ *
+ * @returns Versions that were applied, oldest first
+ */
+export function runMigrations(
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS
+): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const row = db
+    .prepare("SELECT MAX(version) AS version FROM schema_migrations")
+    .get() as { version: number | null };
+  const currentVersion = row.version ?? 0;
+
+  const pending = migrations
+    .filter((m) => m.version > currentVersion)
+    .sort((a, b) => a.version - b.version);
+
+  const recordMigration = db.prepare(
+    "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)"
+  );
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      recordMigration.run(migration.version, migration.name, Date.now());
+    })();
+    console.log(
+      `[database] Applied migration ${migration.version}: ${migration.name}`
+    );
+  }
+
+  return pending.map((m) => m.version);
+}
+
+/**
+ * Open (creating if needed) and migrate a database
+ *
+ * @param filename Database file, or ":memory:" for a throwaway database
+ */
+export function openDatabase(
+  filename: string = process.env.DATABASE_FILE || DEFAULT_DATABASE_FILE
+): Database.Database {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  runMigrations(db);
+  return db;
+}
@@ -0,0 +1,52 @@
+/**
+ * Made-up weekly scores for demos and screenshots
+ * League responses only use these when demo mode is asked for explicitly
+ */
+
+import type { NormalizedTeam, WeeklyTeamScore } from "./yahoo-types";
+
+/**
+ * Seeded pseudo-random number generator, so demo charts look the same on
+ * every load. Uses a simple Linear Congruential Generator (LCG) algorithm
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) & 0x7fffffff;
+    return state / 0x7fffffff;
+  };
+}
+
+/**
+ * Invent a score for every team in every week, within 30% of the team's
+ * real weekly average (or 100 before any points are in)
+ *
+ * @param teams Teams to score, with their season totals
+ * @param weeks Weeks to fill in
+ * @param seed Seed for the generator, the same seed gives the same scores
+ */
+export function generateDemoScores(
+  teams: NormalizedTeam[],
+  weeks: number[],
+  seed: number = 42
+): WeeklyTeamScore[] {
+  const random = seededRandom(seed);
+  const points: WeeklyTeamScore[] = [];
+
+  for (const week of weeks) {
+    for (const team of teams) {
+      const avgScore =
+        team.seasonTotal > 0 ? team.seasonTotal / weeks.length : 100;
+      const variance = avgScore * 0.3;
+
+      points.push({
+        week,
+        teamKey: team.teamKey,
+        teamName: team.name,
+        score: Math.round(avgScore + (random() - 0.5) * variance * 2),
+      });
+    }
+  }
+
+  return points;
+}
@@ -0,0 +1,176 @@
+/**
+ * Draft analysis
+ *
+ * Values each draft pick by its season-to-date points over a replacement-level
+ * player at the same position, then compares that with what a pick that early
+ * is usually worth to find steals, busts and each team's draft grade.
+ */
+
+import type {
+  NormalizedDraftPick,
+  NormalizedLeaguePlayer,
+  RosterSlot,
+} from "./yahoo-types";
+import type { DraftPickAnalysis, DraftTeamGrade } from "./models";
+import { getSlotPositions } from "./lineupOptimizer";
+
+// Minimum z-score of a team's draft surplus for each grade, best first
+const GRADE_THRESHOLDS: Array<[number, string]> = [
+  [1.5, "A+"],
+  [1, "A"],
+  [0.5, "B+"],
+  [0, "B"],
+  [-0.5, "C+"],
+  [-1, "C"],
+  [-1.5, "D"],
+];
+
+/**
+ * A player's primary position, e.g. "RB" for "RB,WR"
+ */
+function primaryPosition(position: string): string {
+  return position.split(",")[0].trim();
+}
+
+/**
+ * How many players at each position start across the league in a week
+ * Flex slots are split evenly between the positions they accept.
+ */
+export function getStartersByPosition(
+  rosterPositions: RosterSlot[],
+  numTeams: number
+): Map<string, number> {
+  const starters = new Map<string, number>();
+  for (const slot of rosterPositions) {
+    if (!slot.isStarting) continue;
+
+    const positions = getSlotPositions(slot.position);
+    for (const position of positions) {
+      const share = (slot.count * numTeams) / positions.length;
+      starters.set(position, (starters.get(position) || 0) + share);
+    }
+  }
+  return starters;
+}
+
+/**
+ * Points scored by a replacement-level player at each drafted position: the
+ * best player at the position who wouldn't be a weekly starter. Positions
+ * with fewer drafted players than starting spots use the worst one drafted.
+ */
+export function getReplacementLevels(
+  players: NormalizedLeaguePlayer[],
+  starters: Map<string, number>
+): Map<string, number> {
+  const byPosition = new Map<string, number[]>();
+  for (const player of players) {
+    const position = primaryPosition(player.position);
+    const points = byPosition.get(position) || [];
+    points.push(player.points);
+    byPosition.set(position, points);
+  }
+
+  const levels = new Map<string, number>();
+  for (const [position, points] of byPosition.entries()) {
+    points.sort((a, b) => b - a);
+    const index = Math.round(starters.get(position) || 0);
+    levels.set(position, points[Math.min(index, points.length - 1)]);
+  }
+  return levels;
+}
+
+/**
+ * Value every pick and how it compares with its draft slot
+ *
+ * A pick's slot is its overall pick number in a snake draft, or its rank by
+ * price in an auction. The expected value of the nth slot is the nth highest
+ * value over replacement in the whole draft.
+ */
+export function analyzePicks(
+  picks: NormalizedDraftPick[],
+  players: Map<string, NormalizedLeaguePlayer>,
+  replacementLevels: Map<string, number>,
+  teamNames: Map<string, string>
+): DraftPickAnalysis[] {
+  const valued = picks.map((pick) => {
+    const player = players.get(pick.playerKey);
+    const position = player ? primaryPosition(player.position) : "";
+    const points = player?.points || 0;
+    return {
+      pick,
+      player,
+      points,
+      valueOverReplacement: points - (replacementLevels.get(position) || 0),
+    };
+  });
+
+  const isAuction = picks.some((pick) => pick.cost !== undefined);
+  const slotOrder = [...valued].sort((a, b) =>
+    isAuction
+      ? (b.pick.cost || 0) - (a.pick.cost || 0) || a.pick.pick - b.pick.pick
+      : a.pick.pick - b.pick.pick
+  );
+  const valuesBySlot = valued
+    .map((v) => v.valueOverReplacement)
+    .sort((a, b) => b - a);
+  const expected = new Map(
+    slotOrder.map((v, slot) => [v.pick.pick, valuesBySlot[slot]])
+  );
+
+  return valued.map(({ pick, player, points, valueOverReplacement }) => {
+    const expectedValue = expected.get(pick.pick) || 0;
+    return {
+      pick: pick.pick,
+      round: pick.round,
+      teamKey: pick.teamKey,
+      teamName: teamNames.get(pick.teamKey) || pick.teamKey,
+      playerKey: pick.playerKey,
+      name: player?.name || "Unknown Player",
+      position: player?.position || "",
+      team: player?.team || "",
+      ...(pick.cost !== undefined && { cost: pick.cost }),
+      points,
+      valueOverReplacement,
+      expectedValue,
+      surplus: valueOverReplacement - expectedValue,
+    };
+  });
+}
+
+/**
+ * Letter grade for each team from its total surplus, relative to the rest of
+ * the league. Best draft first.
+ */
+export function gradeTeams(picks: DraftPickAnalysis[]): DraftTeamGrade[] {
+  const teams = new Map<string, DraftTeamGrade>();
+  for (const pick of picks) {
+    const team = teams.get(pick.teamKey) || {
+      teamKey: pick.teamKey,
+      teamName: pick.teamName,
+      grade: "",
+      points: 0,
+      valueOverReplacement: 0,
+      surplus: 0,
+    };
+    team.points += pick.points;
+    team.valueOverReplacement += pick.valueOverReplacement;
+    team.surplus += pick.surplus;
+    teams.set(pick.teamKey, team);
+  }
+
+  const grades = Array.from(teams.values());
+  const mean =
+    grades.reduce((sum, team) => sum + team.surplus, 0) / (grades.length || 1);
+  const stdDev = Math.sqrt(
+    grades.reduce((sum, team) => sum + (team.surplus - mean) ** 2, 0) /
+      (grades.length || 1)
+  );
+
+  for (const team of grades) {
+    const z = stdDev > 0 ? (team.surplus - mean) / stdDev : 0;
+    const threshold = GRADE_THRESHOLDS.find(([min]) => z >= min);
+    team.grade = threshold ? threshold[1] : "F";
+  }
+
+  return grades.sort((a, b) => b.surplus - a.surplus);
+}
@@ -0,0 +1,90 @@
+/**
+ * Express error handler
+ *
+ * Every error that reaches Express is answered with an ErrorResponse:
+ * domain errors (errors.ts) with their own status and code, tsoa's request
+ * validation failures with 400 and failed authentication with 401.
+ * Anything else is logged and answered with 500.
+ */
+
+import { NextFunction, Request, Response } from "express";
+import { ValidateError } from "tsoa";
+import { AppError } from "./errors";
+import { ErrorResponse } from "./models";
+
+/**
+ * "startWeek: invalid float number; body.name: required" from tsoa's fields
+ */
+function describeValidateError(err: ValidateError): string {
+  return Object.entries(err.fields)
+    .map(([field, { message }]) => `${field}: ${message}`)
+    .join("; ");
+}
+
+export function toErrorResponse(err: any): {
+  status: number;
+  body: ErrorResponse;
+} {
+  if (err instanceof AppError) {
+    return {
+      status: err.statusCode,
+      body: { error: err.message, details: err.details, code: err.code },
+    };
+  }
+
+  if (err instanceof ValidateError) {
+    return {
+      status: 400,
+      body: {
+        error: "Invalid request",
+        details: describeValidateError(err),
+        code: "VALIDATION_ERROR",
+      },
+    };
+  }
+
+  // tsoa sets 401 on anything expressAuthentication rejects with
+  if (err?.status === 401) {
+    return {
+      status: 401,
+      body: { error: "Not authenticated", code: "NOT_AUTHENTICATED" },
+    };
+  }
+
+  // Malformed JSON bodies from express.json()
+  if (err?.type === "entity.parse.failed") {
+    return {
+      status: 400,
+      body: {
+        error: "Invalid JSON body",
+        details: err.message,
+        code: "VALIDATION_ERROR",
+      },
+    };
+  }
+
+  return {
+    status: 500,
+    body: {
+      error: err?.message || "Internal server error",
+      code: "INTERNAL_ERROR",
+    },
+  };
+}
+
+export function errorHandler(
+  err: any,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  if (res.headersSent) {
+    return next(err);
+  }
+
+  const { status, body } = toErrorResponse(err);
+  if (status >= 500) {
+    console.error(`[${req.method} ${req.path}]`, err);
+  }
+  res.status(status).json(body);
+}
@@ -0,0 +1,94 @@
+/**
+ * Domain errors
+ *
+ * Services and controllers throw these instead of setting status codes; the
+ * error handler (errorHandler.ts) turns them into an ErrorResponse with the
+ * matching HTTP status. Anything else becomes a 500.
+ */
+
+export class AppError extends Error {
+  constructor(
+    message: string,
+    public readonly statusCode: number,
+    public readonly code: string, // Stable identifier clients can branch on
+    public readonly details?: string
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class ValidationError extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, 400, "VALIDATION_ERROR", details);
+  }
+}
+
+export class NotAuthenticated extends AppError {
+  constructor(message = "Not authenticated", details?: string) {
+    super(message, 401, "NOT_AUTHENTICATED", details);
+  }
+}
+
+export class Forbidden extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, 403, "FORBIDDEN", details);
+  }
+}
+
+export class NotFound extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, 404, "NOT_FOUND", details);
+  }
+}
+
+export class Conflict extends AppError {
+  constructor(message: string, details?: string) {
+    super(message, 409, "CONFLICT", details);
+  }
+}
+
+// ----- Upstream (Yahoo, Sleeper) failures -----
+
+export class UpstreamRateLimited extends AppError {
+  constructor(
+    message = "Yahoo API rate limit reached. Try again in a minute.",
+    details?: string
+  ) {
+    super(message, 429, "UPSTREAM_RATE_LIMITED", details);
+  }
+}
+
+export class UpstreamError extends AppError {
+  constructor(
+    message = "Yahoo API is unavailable. Try again later.",
+    details?: string
+  ) {
+    super(message, 502, "UPSTREAM_ERROR", details);
+  }
+}
+
+export class UpstreamTimeout extends AppError {
+  constructor(message = "Request to Yahoo API timed out", details?: string) {
+    super(message, 504, "UPSTREAM_TIMEOUT", details);
+  }
+}
+
+/**
+ * Turn a failure inside a service method into the error to throw
+ * Domain errors keep their type (not found gets the caller's message);
+ * anything else is prefixed with what was being attempted
+ */
+export function toServiceError(
+  err: any,
+  notFoundMessage: string,
+  failureMessage: string
+): Error {
+  if (err instanceof NotFound) {
+    return new NotFound(notFoundMessage, err.details);
+  }
+  if (err instanceof AppError) {
+    return err;
+  }
+  return new Error(`${failureMessage}: ${err.message}`);
+}
@@ -0,0 +1,177 @@
+/**
+ * Recorded Yahoo and Sleeper responses, for running without the network
+ *
+ * With FIXTURE_RECORD_DIR set, every successful Yahoo and Sleeper response is
+ * saved there as a fixture file. The fixture server answers requests from
+ * those files by URL, so pointing YAHOO_API_BASE_URL and SLEEPER_API_BASE_URL
+ * at it replays them:
+ *
+ *   YAHOO_API_BASE_URL=http://localhost:5050/yahoo
+ *   SLEEPER_API_BASE_URL=http://localhost:5050/sleeper
+ */
+
+import crypto from "crypto";
+import * as fs from "fs";
+import http from "http";
+import * as path from "path";
+
+export type FixtureService = "yahoo" | "sleeper";
+
+export interface Fixture {
+  service: FixtureService;
+  path: string; // Request path under the service's base URL, e.g. "league/423.l.1/standings"
+  status: number;
+  body: unknown;
+}
+
+const SERVICES: FixtureService[] = ["yahoo", "sleeper"];
+
+// Query parameters every request sends, which would only get in the way of
+// matching (Yahoo's format=json)
+const IGNORED_PARAMS = ["format"];
+
+/**
+ * The form of a request path fixtures are matched on: no leading slash,
+ * decoded, without the ignored parameters and with the rest in order
+ */
+export function normalizeFixturePath(requestPath: string): string {
+  const [pathname, query = ""] = requestPath.replace(/^\/+/, "").split("?");
+  const params = new URLSearchParams(query);
+  for (const name of IGNORED_PARAMS) {
+    params.delete(name);
+  }
+  params.sort();
+
+  let decoded = pathname;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    // Not valid percent-encoding, match it as sent
+  }
+
+  const search = params.toString();
+  return search ? `${decoded}?${search}` : decoded;
+}
+
+/**
+ * File name for a fixture: the path made readable, plus a hash so paths
+ * that only differ in punctuation don't collide
+ */
+function fixtureFileName(fixturePath: string): string {
+  const readable = fixturePath
+    .replace(/[^a-zA-Z0-9.]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .slice(0, 80);
+  const hash = crypto
+    .createHash("sha1")
+    .update(fixturePath)
+    .digest("hex")
+    .slice(0, 8);
+  return `${readable}-${hash}.json`;
+}
+
+/**
+ * Save a response as a fixture when FIXTURE_RECORD_DIR is set
+ * Recording must never break a request, so failures are only logged
+ */
+export function recordFixture(
+  service: FixtureService,
+  requestPath: string,
+  body: unknown
+): void {
+  const dir = process.env.FIXTURE_RECORD_DIR;
+  if (!dir) {
+    return;
+  }
+
+  const fixture: Fixture = {
+    service,
+    path: normalizeFixturePath(requestPath),
+    status: 200,
+    body,
+  };
+
+  try {
+    const serviceDir = path.join(dir, service);
+    fs.mkdirSync(serviceDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(serviceDir, fixtureFileName(fixture.path)),
+      JSON.stringify(fixture, null, 2)
+    );
+  } catch (error: any) {
+    console.error(
+      `[fixtures] Failed to record ${service} ${requestPath}:`,
+      error.message
+    );
+  }
+}
+
+/**
+ * Load every fixture under a directory, keyed by "<service>/<path>"
+ * Files can be named anything: requests are matched on the path inside them
+ */
+export function loadFixtures(dir: string): Map<string, Fixture> {
+  const fixtures = new Map<string, Fixture>();
+
+  const visit = (current: string) => {
+    for (const entry of fs.readdirSync(current, { withFileTypes: true })) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        visit(entryPath);
+        continue;
+      }
+      if (!entry.name.endsWith(".json")) continue;
+
+      const fixture = JSON.parse(fs.readFileSync(entryPath, "utf-8"));
+      if (!SERVICES.includes(fixture.service) || !fixture.path) {
+        throw new Error(`${entryPath} is not a fixture`);
+      }
+      fixtures.set(`${fixture.service}/${normalizeFixturePath(fixture.path)}`, {
+        status: 200,
+        ...fixture,
+      });
+    }
+  };
+  visit(dir);
+
+  return fixtures;
+}
+
+/**
+ * HTTP server that stands in for Yahoo and Sleeper, serving the fixtures in
+ * a directory at /yahoo/<path> and /sleeper/<path>
+ * Requests without a fixture get a 404, like an unknown Yahoo resource
+ */
+export function createFixtureServer(dir: string): http.Server {
+  const fixtures = loadFixtures(dir);
+
+  return http.createServer((req, res) => {
+    const key = normalizeFixturePath(req.url || "");
+    const fixture = req.method === "GET" ? fixtures.get(key) : undefined;
+
+    res.setHeader("Content-Type", "application/json");
+    if (!fixture) {
+      console.warn(`[fixtures] No fixture for ${req.method} ${req.url}`);
+      res.statusCode = 404;
+      res.end(JSON.stringify({ error: `No fixture for ${key}` }));
+      return;
+    }
+
+    res.statusCode = fixture.status;
+    res.end(JSON.stringify(fixture.body));
+  });
+}
+
+export const FIXTURE_DIR = path.join(__dirname, "..", "test", "fixtures");
+
+// npm run fixtures:serve [fixtureDir]
+if (require.main === module) {
+  const dir = process.argv[2] || FIXTURE_DIR;
+  const port = Number(process.env.FIXTURE_PORT) || 5050;
+  const server = createFixtureServer(dir);
+  server.listen(port, () => {
+    console.log(`Serving fixtures from ${dir} on http://localhost:${port}`);
+    console.log(`  YAHOO_API_BASE_URL=http://localhost:${port}/yahoo`);
+    console.log(`  SLEEPER_API_BASE_URL=http://localhost:${port}/sleeper`);
+  });
+}
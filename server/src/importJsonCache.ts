@@ -0,0 +1,240 @@
+/**
+ * One-time import of the old JSON file cache into the database
+ *
+ * Runs automatically the first time the database is opened, and can be
+ * re-run by hand with `npm run db:import`. The JSON files are left in place;
+ * delete them once the import looks right. tokens.json is the exception: it
+ * holds plaintext OAuth tokens, so it is deleted once they are stored
+ * encrypted.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { SqliteStorage } from "./storage";
+
+const IMPORTED_META_KEY = "json_cache_imported_at";
+// Scoring profiles moved into the database after the first import shipped
+const PROFILES_IMPORTED_META_KEY = "scoring_profiles_imported_at";
+const PROFILES_FILE = "scoring_profiles.json";
+
+export interface ImportSummary {
+  imported: { [kind: string]: number };
+  skipped: string[]; // Files that were unreadable or not recognized
+}
+
+/**
+ * Yahoo responses cached one file per request, by filename pattern
+ * The key is rebuilt from fields saved alongside the data
+ */
+const CACHE_ENTRY_FILES: Array<{
+  pattern: RegExp;
+  namespace: string;
+  key: (cached: any) => string;
+}> = [
+  {
+    pattern: /^league_.+_week_\d+_scoreboard\.json$/,
+    namespace: "scoreboards",
+    key: (c) => `${c.leagueKey}:${c.week}`,
+  },
+  {
+    pattern: /^league_.+_week_\d+_player_points\.json$/,
+    namespace: "weekly_player_points",
+    key: (c) => `${c.leagueKey}:${c.week}`,
+  },
+  {
+    pattern: /^team_.+_week_\d+_roster\.json$/,
+    namespace: "weekly_roster",
+    key: (c) => `${c.teamKey}:${c.week}`,
+  },
+  {
+    pattern: /^league_.+_final_standings\.json$/,
+    namespace: "final_standings",
+    key: (c) => c.leagueKey,
+  },
+  {
+    pattern: /^league_.+_draftresults\.json$/,
+    namespace: "draft_results",
+    key: (c) => c.leagueKey,
+  },
+  {
+    pattern: /^league_.+_settings\.json$/,
+    namespace: "league_settings",
+    key: (c) => c.leagueKey,
+  },
+  {
+    pattern: /^player_.+_info\.json$/,
+    namespace: "player_info",
+    key: (c) => c.playerKey,
+  },
+  {
+    pattern: /^game_.+_weeks\.json$/,
+    namespace: "game_weeks",
+    key: (c) => c.gameKey,
+  },
+];
+
+/**
+ * Import one cache file, returning what kind of data it held
+ * or null if the filename isn't one the services ever wrote
+ */
+function importFile(
+  target: SqliteStorage,
+  filename: string,
+  cached: any
+): string | null {
+  if (filename === "tokens.json") {
+    for (const stored of Object.values<any>(cached)) {
+      target.saveToken(stored);
+    }
+    return "tokens";
+  }
+
+  if (filename === PROFILES_FILE) {
+    for (const profile of Object.values<any>(cached)) {
+      target.saveScoringProfile(profile);
+    }
+    return "scoring profiles";
+  }
+
+  if (filename === "sleeper_players_nfl.json") {
+    target.savePlayers(Object.values(cached.data), cached.timestamp);
+    return "players";
+  }
+
+  if (filename === "player_crosswalk.json") {
+    for (const [yahooId, entry] of Object.entries<any>(cached.data)) {
+      target.saveCrosswalkEntry(yahooId, entry);
+    }
+    return "crosswalk";
+  }
+
+  const week = /^sleeper_(stats|projections)_(\d+)_week_(\d+)\.json$/.exec(
+    filename
+  );
+  if (week) {
+    const kind = week[1] as "stats" | "projections";
+    target.saveWeeklyStats(
+      kind,
+      Number(week[2]),
+      Number(week[3]),
+      cached.data,
+      cached.timestamp
+    );
+    return kind;
+  }
+
+  if (/^league_.+_scoring\.json$/.test(filename)) {
+    target.saveScoringRules(
+      cached.leagueKey,
+      new Map(cached.scoringRules),
+      cached.timestamp
+    );
+    return "scoring rules";
+  }
+
+  const response = CACHE_ENTRY_FILES.find((f) => f.pattern.test(filename));
+  if (response) {
+    target.saveCacheEntry(
+      response.namespace,
+      response.key(cached),
+      cached.data,
+      cached.timestamp
+    );
+    return response.namespace;
+  }
+
+  return null;
+}
+
+/**
+ * Import every JSON cache file in a directory into the database
+ * Existing rows for the same keys are overwritten
+ */
+export function importJsonCache(
+  cacheDir: string,
+  target: SqliteStorage
+): ImportSummary {
+  const summary = importFiles(cacheDir, target, (f) => f.endsWith(".json"));
+  target.setMeta(IMPORTED_META_KEY, new Date().toISOString());
+  target.setMeta(PROFILES_IMPORTED_META_KEY, new Date().toISOString());
+  return summary;
+}
+
+function importFiles(
+  cacheDir: string,
+  target: SqliteStorage,
+  include: (filename: string) => boolean
+): ImportSummary {
+  const summary: ImportSummary = { imported: {}, skipped: [] };
+  if (!fs.existsSync(cacheDir)) {
+    return summary;
+  }
+
+  const filenames = fs.readdirSync(cacheDir).filter(include);
+
+  for (const filename of filenames) {
+    try {
+      const cached = JSON.parse(
+        fs.readFileSync(path.join(cacheDir, filename), "utf-8")
+      );
+      const kind = target.transaction(() =>
+        importFile(target, filename, cached)
+      );
+
+      if (kind === "tokens") {
+        fs.rmSync(path.join(cacheDir, filename));
+      }
+
+      if (kind) {
+        summary.imported[kind] = (summary.imported[kind] || 0) + 1;
+      } else {
+        summary.skipped.push(filename);
+      }
+    } catch (error: any) {
+      console.error(`[import] Failed to import ${filename}:`, error.message);
+      summary.skipped.push(filename);
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Import the JSON cache unless this database already has. Databases imported
+ * before scoring profiles were stored in them still get the profiles file
+ */
+export function importJsonCacheOnce(
+  cacheDir: string,
+  target: SqliteStorage
+): ImportSummary | null {
+  if (!target.getMeta(IMPORTED_META_KEY)) {
+    return importJsonCache(cacheDir, target);
+  }
+  if (!target.getMeta(PROFILES_IMPORTED_META_KEY)) {
+    const summary = importFiles(cacheDir, target, (f) => f === PROFILES_FILE);
+    target.setMeta(PROFILES_IMPORTED_META_KEY, new Date().toISOString());
+    return summary;
+  }
+  return null;
+}
+
+export function describeImport(summary: ImportSummary): string {
+  const counts = Object.entries(summary.imported)
+    .map(([kind, count]) => `${count} ${kind}`)
+    .join(", ");
+  return `${counts || "nothing"} imported, ${summary.skipped.length} skipped`;
+}
+
+export const JSON_CACHE_DIR = path.join(__dirname, "..", "cache");
+
+// npm run db:import [cacheDir]
+if (require.main === module) {
+  const cacheDir = process.argv[2] || JSON_CACHE_DIR;
+  import("./storage").then(({ storage }) => {
+    const summary = importJsonCache(cacheDir, storage);
+    console.log(`Imported ${cacheDir}: ${describeImport(summary)}`);
+    if (summary.skipped.length > 0) {
+      console.log(`Skipped: ${summary.skipped.join(", ")}`);
+    }
+  });
+}
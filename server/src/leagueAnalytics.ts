@@ -0,0 +1,161 @@
+/**
+ * League analytics derived from weekly team scores
+ */
+
+import type { WeekStatus } from "./models";
+import type { NormalizedMatchup, WeeklyTeamScore } from "./yahoo-types";
+
+export interface AllPlayRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  expectedWins: number;
+}
+
+export interface TeamRecord {
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+/**
+ * Compute each team's all-play record: its record if it had played every
+ * other team every week. Expected wins is the all-play win rate applied to
+ * one game per week (a week beating 9 of 11 opponents is worth 9/11 wins)
+ *
+ * @param points Weekly scores for every team
+ * @param lastCompletedWeek Ignore weeks after this one (in-progress scores)
+ * @returns All-play record keyed by team key
+ */
+export function computeAllPlayRecords(
+  points: WeeklyTeamScore[],
+  lastCompletedWeek: number
+): Map<string, AllPlayRecord> {
+  const records = new Map<string, AllPlayRecord>();
+
+  // Group scores by week
+  const weeks = new Map<number, WeeklyTeamScore[]>();
+  for (const point of points) {
+    if (point.week > lastCompletedWeek) continue;
+
+    const weekScores = weeks.get(point.week) || [];
+    weekScores.push(point);
+    weeks.set(point.week, weekScores);
+
+    if (!records.has(point.teamKey)) {
+      records.set(point.teamKey, {
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        expectedWins: 0,
+      });
+    }
+  }
+
+  for (const weekScores of weeks.values()) {
+    const opponents = weekScores.length - 1;
+    if (opponents < 1) continue;
+
+    for (const team of weekScores) {
+      const record = records.get(team.teamKey)!;
+      let wins = 0;
+      let ties = 0;
+
+      for (const other of weekScores) {
+        if (other === team) continue;
+        if (team.score > other.score) wins++;
+        else if (team.score === other.score) ties++;
+      }
+
+      record.wins += wins;
+      record.ties += ties;
+      record.losses += opponents - wins - ties;
+      record.expectedWins += (wins + ties / 2) / opponents;
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Luck score: actual wins minus expected wins (ties count as half a win)
+ * Positive means the schedule helped, negative means it hurt
+ */
+export function computeLuck(
+  wins: number,
+  ties: number,
+  expectedWins: number
+): number {
+  return wins + ties / 2 - expectedWins;
+}
+
+/**
+ * Regular season head-to-head records from matchups
+ *
+ * @param matchups Matchups with final scores
+ * @param lastCompletedWeek Ignore weeks after this one (in-progress scores)
+ * @returns Record keyed by team key
+ */
+export function computeRecords(
+  matchups: NormalizedMatchup[],
+  lastCompletedWeek: number
+): Map<string, TeamRecord> {
+  const records = new Map<string, TeamRecord>();
+
+  for (const matchup of matchups) {
+    if (matchup.isPlayoffs || matchup.week > lastCompletedWeek) continue;
+    if (matchup.teams.length !== 2) continue;
+
+    const [a, b] = matchup.teams;
+    for (const [team, opponent] of [
+      [a, b],
+      [b, a],
+    ]) {
+      const record = records.get(team.teamKey) || {
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+      };
+
+      record.pointsFor += team.points;
+      record.pointsAgainst += opponent.points;
+      if (team.points > opponent.points) record.wins++;
+      else if (team.points < opponent.points) record.losses++;
+      else record.ties++;
+
+      records.set(team.teamKey, record);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Whether each week's scores are final, still coming in, or missing
+ * A week whose scoreboard loaded but held no matchups counts as missing
+ *
+ * @param weeks Weeks played so far
+ * @param matchups Matchups from the scoreboards that loaded
+ * @param missingWeeks Weeks whose scoreboards failed to load
+ */
+export function computeWeekStatuses(
+  weeks: number[],
+  matchups: NormalizedMatchup[],
+  missingWeeks: number[]
+): WeekStatus[] {
+  return weeks.map((week) => {
+    const weekMatchups = matchups.filter((m) => m.week === week);
+
+    if (missingWeeks.includes(week) || weekMatchups.length === 0) {
+      return { week, dataStatus: "missing" };
+    }
+    if (weekMatchups.every((m) => m.status === "postevent")) {
+      return { week, dataStatus: "complete" };
+    }
+    return { week, dataStatus: "in-progress" };
+  });
+}
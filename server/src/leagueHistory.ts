@@ -0,0 +1,280 @@
+/**
+ * League history across seasons
+ *
+ * Yahoo creates a new league key every season and links it to the previous
+ * one with a renew key. Teams change keys and names along with it, so
+ * managers are followed across seasons by their Yahoo account GUID.
+ */
+
+import type { NormalizedMatchup, NormalizedTeam } from "./yahoo-types";
+import type {
+  ChampionBanner,
+  HeadToHeadRecord,
+  HistoryHighScore,
+  LeagueHistorySeason,
+  ManagerHistoryRecord,
+} from "./models";
+import { computeRecords } from "./leagueAnalytics";
+
+/**
+ * Everything needed from one season of a league
+ */
+export interface SeasonData {
+  leagueKey: string;
+  season: number;
+  name: string;
+  isFinished: boolean;
+  lastCompletedWeek: number; // Ignore weeks after this one (in-progress scores)
+  teams: NormalizedTeam[];
+  matchups: NormalizedMatchup[];
+}
+
+/**
+ * A manager's ID across seasons: their GUID, falling back to their nickname
+ * (or the team itself) when Yahoo hides it
+ */
+export function getManagerId(team: NormalizedTeam): string {
+  return team.managerGuid || team.managerName || team.teamKey;
+}
+
+/**
+ * Completed two-team matchups, with each team resolved to its manager
+ */
+function getCompletedGames(seasonData: SeasonData) {
+  const managers = new Map(
+    seasonData.teams.map((team) => [team.teamKey, getManagerId(team)])
+  );
+
+  return seasonData.matchups
+    .filter(
+      (m) => m.week <= seasonData.lastCompletedWeek && m.teams.length === 2
+    )
+    .map((m) => ({
+      matchup: m,
+      managerIds: m.teams.map(
+        (team) => managers.get(team.teamKey) || team.teamKey
+      ),
+    }));
+}
+
+/**
+ * Final standings and champion for each season
+ * A finished season's champion is the team Yahoo ranks first
+ */
+export function buildSeasons(seasons: SeasonData[]): LeagueHistorySeason[] {
+  return seasons.map((seasonData) => {
+    const standings = [...seasonData.teams]
+      .sort((a, b) => a.rank - b.rank)
+      .map((team) => ({
+        managerId: getManagerId(team),
+        managerName: team.managerName,
+        teamKey: team.teamKey,
+        teamName: team.name,
+        rank: team.rank,
+        wins: team.wins,
+        losses: team.losses,
+        ties: team.ties,
+        pointsFor: team.seasonTotal,
+      }));
+    const champion = seasonData.isFinished
+      ? standings.find((team) => team.rank === 1)
+      : undefined;
+
+    return {
+      leagueKey: seasonData.leagueKey,
+      season: seasonData.season,
+      name: seasonData.name,
+      isFinished: seasonData.isFinished,
+      ...(champion && { champion }),
+      standings,
+    };
+  });
+}
+
+/**
+ * All-time records for every manager: regular season record and points from
+ * matchups, playoff record (consolation games excluded), titles and best finish
+ *
+ * @param seasons Newest season first, so managers keep their latest nickname
+ * @returns Best regular season win rate first
+ */
+export function computeManagerRecords(
+  seasons: SeasonData[]
+): ManagerHistoryRecord[] {
+  const records = new Map<string, ManagerHistoryRecord>();
+
+  for (const seasonData of seasons) {
+    const regularSeason = computeRecords(
+      seasonData.matchups,
+      seasonData.lastCompletedWeek
+    );
+
+    for (const team of seasonData.teams) {
+      const managerId = getManagerId(team);
+      const record = records.get(managerId) || {
+        managerId,
+        managerName: team.managerName,
+        teamNames: [],
+        seasons: 0,
+        wins: 0,
+        losses: 0,
+        ties: 0,
+        winPct: 0,
+        pointsFor: 0,
+        pointsAgainst: 0,
+        playoffWins: 0,
+        playoffLosses: 0,
+        championships: 0,
+        bestFinish: 0,
+      };
+
+      const season = regularSeason.get(team.teamKey);
+      record.seasons++;
+      if (!record.teamNames.includes(team.name))
+        record.teamNames.push(team.name);
+      if (season) {
+        record.wins += season.wins;
+        record.losses += season.losses;
+        record.ties += season.ties;
+        record.pointsFor += season.pointsFor;
+        record.pointsAgainst += season.pointsAgainst;
+      }
+      if (seasonData.isFinished) {
+        record.bestFinish =
+          record.bestFinish === 0
+            ? team.rank
+            : Math.min(record.bestFinish, team.rank);
+        if (team.rank === 1) record.championships++;
+      }
+
+      records.set(managerId, record);
+    }
+
+    for (const { matchup, managerIds } of getCompletedGames(seasonData)) {
+      if (!matchup.isPlayoffs || matchup.isConsolation || matchup.isTied) {
+        continue;
+      }
+
+      matchup.teams.forEach((team, i) => {
+        const record = records.get(managerIds[i]);
+        if (!record) return;
+        if (team.teamKey === matchup.winnerTeamKey) record.playoffWins++;
+        else record.playoffLosses++;
+      });
+    }
+  }
+
+  const result = Array.from(records.values());
+  for (const record of result) {
+    const games = record.wins + record.losses + record.ties;
+    record.winPct = games > 0 ? (record.wins + record.ties / 2) / games : 0;
+  }
+
+  return result.sort(
+    (a, b) => b.winPct - a.winPct || b.pointsFor - a.pointsFor
+  );
+}
+
+/**
+ * Head-to-head records between every pair of managers that has met, counting
+ * regular season and playoff games. Each pairing appears once per side
+ */
+export function computeHeadToHead(seasons: SeasonData[]): HeadToHeadRecord[] {
+  const records = new Map<string, HeadToHeadRecord>();
+
+  for (const seasonData of seasons) {
+    for (const { matchup, managerIds } of getCompletedGames(seasonData)) {
+      const [a, b] = matchup.teams;
+
+      for (const [i, team, opponent] of [
+        [0, a, b],
+        [1, b, a],
+      ] as const) {
+        const managerId = managerIds[i];
+        const opponentId = managerIds[1 - i];
+        const key = `${managerId}|${opponentId}`;
+        const record = records.get(key) || {
+          managerId,
+          opponentId,
+          games: 0,
+          wins: 0,
+          losses: 0,
+          ties: 0,
+          pointsFor: 0,
+          pointsAgainst: 0,
+        };
+
+        record.games++;
+        record.pointsFor += team.points;
+        record.pointsAgainst += opponent.points;
+        if (team.points > opponent.points) record.wins++;
+        else if (team.points < opponent.points) record.losses++;
+        else record.ties++;
+
+        records.set(key, record);
+      }
+    }
+  }
+
+  return Array.from(records.values());
+}
+
+/**
+ * Highest single-week team scores across every season
+ *
+ * @param limit How many scores to keep
+ */
+export function findHighScores(
+  seasons: SeasonData[],
+  limit: number
+): HistoryHighScore[] {
+  const scores: HistoryHighScore[] = [];
+
+  for (const seasonData of seasons) {
+    const teams = new Map(seasonData.teams.map((team) => [team.teamKey, team]));
+
+    for (const { matchup, managerIds } of getCompletedGames(seasonData)) {
+      matchup.teams.forEach((team, i) => {
+        const opponent = matchup.teams[1 - i];
+        scores.push({
+          season: seasonData.season,
+          week: matchup.week,
+          managerId: managerIds[i],
+          managerName: teams.get(team.teamKey)?.managerName || "",
+          teamName: team.name,
+          points: team.points,
+          opponentTeamName: opponent.name,
+          opponentPoints: opponent.points,
+          isPlayoffs: matchup.isPlayoffs,
+        });
+      });
+    }
+  }
+
+  return scores.sort((a, b) => b.points - a.points).slice(0, limit);
+}
+
+/**
+ * Championship banners, newest season first
+ */
+export function getChampions(seasons: LeagueHistorySeason[]): ChampionBanner[] {
+  return seasons
+    .filter((s) => s.champion)
+    .map((s) => {
+      const champion = s.champion!;
+      const runnerUp = s.standings.find((team) => team.rank === 2);
+
+      return {
+        season: s.season,
+        leagueKey: s.leagueKey,
+        managerId: champion.managerId,
+        managerName: champion.managerName,
+        teamName: champion.teamName,
+        wins: champion.wins,
+        losses: champion.losses,
+        ties: champion.ties,
+        pointsFor: champion.pointsFor,
+        ...(runnerUp && { runnerUpTeamName: runnerUp.teamName }),
+      };
+    });
+}
@@ -0,0 +1,203 @@
+/**
+ * Lineup Optimizer
+ *
+ * Finds the best possible starting lineup for a week in hindsight, given the
+ * league's roster slots, and compares it with the lineup the manager started.
+ */
+
+import type { NormalizedRosterPlayer, RosterSlot } from "./yahoo-types";
+import type { LineupSlotAssignment } from "./models";
+
+// Yahoo flex slots are written as initials, e.g. "W/R/T" or "Q/W/R/T"
+const FLEX_INITIALS: { [initial: string]: string } = {
+  Q: "QB",
+  W: "WR",
+  R: "RB",
+  T: "TE",
+};
+
+// Named slots that accept several positions
+const SLOT_ALIASES: { [slot: string]: string[] } = {
+  FLEX: ["RB", "WR", "TE"],
+  SUPERFLEX: ["QB", "RB", "WR", "TE"],
+  OP: ["QB", "RB", "WR", "TE"],
+  D: ["DL", "DE", "DT", "LB", "DB", "CB", "S"], // IDP flex
+  DL: ["DL", "DE", "DT"],
+  DB: ["DB", "CB", "S"],
+};
+
+// Slots a player can't be started from without a roster move
+export const RESERVE_SLOTS = ["IR", "IL", "IR+", "NA"];
+
+/**
+ * Positions a slot accepts
+ */
+export function getSlotPositions(slot: string): string[] {
+  if (SLOT_ALIASES[slot]) return SLOT_ALIASES[slot];
+  if (slot.includes("/")) {
+    return slot.split("/").map((initial) => FLEX_INITIALS[initial] || initial);
+  }
+  return [slot];
+}
+
+function canFillSlot(player: NormalizedRosterPlayer, slot: string): boolean {
+  if (player.eligiblePositions.includes(slot)) return true;
+  const positions = getSlotPositions(slot);
+  return player.eligiblePositions.some((position) =>
+    positions.includes(position)
+  );
+}
+
+/**
+ * Starting slots expanded one entry per count, e.g. two "WR" entries for 2 WRs
+ */
+export function getStartingSlots(rosterPositions: RosterSlot[]): string[] {
+  const slots: string[] = [];
+  for (const slot of rosterPositions) {
+    if (!slot.isStarting) continue;
+    for (let i = 0; i < slot.count; i++) {
+      slots.push(slot.position);
+    }
+  }
+  return slots;
+}
+
+/**
+ * Assign rows to columns for the lowest total cost (Hungarian algorithm)
+ * @param cost Square matrix, cost[row][column]
+ * @returns The column assigned to each row
+ */
+function minCostAssignment(cost: number[][]): number[] {
+  const n = cost.length;
+  // 1-based potentials and matches, column 0 is a sentinel
+  const u = new Array<number>(n + 1).fill(0);
+  const v = new Array<number>(n + 1).fill(0);
+  const rowOf = new Array<number>(n + 1).fill(0);
+  const way = new Array<number>(n + 1).fill(0);
+
+  for (let row = 1; row <= n; row++) {
+    rowOf[0] = row;
+    let column = 0;
+    const minSlack = new Array<number>(n + 1).fill(Infinity);
+    const visited = new Array<boolean>(n + 1).fill(false);
+
+    do {
+      visited[column] = true;
+      const r = rowOf[column];
+      let delta = Infinity;
+      let next = 0;
+      for (let c = 1; c <= n; c++) {
+        if (visited[c]) continue;
+        const slack = cost[r - 1][c - 1] - u[r] - v[c];
+        if (slack < minSlack[c]) {
+          minSlack[c] = slack;
+          way[c] = column;
+        }
+        if (minSlack[c] < delta) {
+          delta = minSlack[c];
+          next = c;
+        }
+      }
+      for (let c = 0; c <= n; c++) {
+        if (visited[c]) {
+          u[rowOf[c]] += delta;
+          v[c] -= delta;
+        } else {
+          minSlack[c] -= delta;
+        }
+      }
+      column = next;
+    } while (rowOf[column] !== 0);
+
+    do {
+      const previous = way[column];
+      rowOf[column] = rowOf[previous];
+      column = previous;
+    } while (column !== 0);
+  }
+
+  const assignment = new Array<number>(n).fill(-1);
+  for (let c = 1; c <= n; c++) {
+    if (rowOf[c] !== 0) assignment[rowOf[c] - 1] = c - 1;
+  }
+  return assignment;
+}
+
+/**
+ * Best possible lineup in hindsight
+ *
+ * Fills as many starting slots as the roster can, then picks the players
+ * for them with the most points in total. Flex slots overlap in ways a
+ * greedy fill gets wrong (W/R and W/T, or LB and DE with a DE/LB player),
+ * so slots and players are matched as an assignment problem.
+ */
+export function optimizeLineup(
+  players: NormalizedRosterPlayer[],
+  rosterPositions: RosterSlot[]
+): { lineup: LineupSlotAssignment[]; points: number } {
+  const available = players
+    .filter((p) => !RESERVE_SLOTS.includes(p.selectedPosition))
+    .sort((a, b) => b.actualPoints - a.actualPoints);
+
+  const slots = getStartingSlots(rosterPositions).sort(
+    (a, b) => getSlotPositions(a).length - getSlotPositions(b).length
+  );
+
+  // Every filled slot is worth more than any points, so a slot is only left
+  // empty when nobody on the roster can fill it
+  const fillBonus =
+    1 + available.reduce((sum, p) => sum + Math.abs(p.actualPoints), 0);
+  const size = Math.max(slots.length, available.length);
+  const cost = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => {
+      const slot = slots[row];
+      const player = available[column];
+      return slot && player && canFillSlot(player, slot)
+        ? -(fillBonus + player.actualPoints)
+        : 0;
+    })
+  );
+  const assignment = minCostAssignment(cost);
+
+  const lineup: LineupSlotAssignment[] = [];
+  let points = 0;
+
+  slots.forEach((slot, row) => {
+    const player = available[assignment[row]];
+    if (!player || !canFillSlot(player, slot)) return; // Nobody can fill it
+
+    points += player.actualPoints;
+    lineup.push({
+      slot,
+      playerKey: player.playerKey,
+      name: player.name,
+      points: player.actualPoints,
+    });
+  });
+
+  return { lineup, points };
+}
+
+/**
+ * The lineup the manager actually started
+ */
+export function getStartedLineup(
+  players: NormalizedRosterPlayer[],
+  rosterPositions: RosterSlot[]
+): { lineup: LineupSlotAssignment[]; points: number } {
+  const startingSlots = new Set(getStartingSlots(rosterPositions));
+
+  const lineup = players
+    .filter((p) => startingSlots.has(p.selectedPosition))
+    .map((p) => ({
+      slot: p.selectedPosition,
+      playerKey: p.playerKey,
+      name: p.name,
+      points: p.actualPoints,
+    }));
+
+  return {
+    lineup,
+    points: lineup.reduce((sum, p) => sum + p.points, 0),
+  };
+}
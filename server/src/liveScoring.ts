@@ -0,0 +1,339 @@
+/**
+ * Live scoring streams
+ *
+ * Clients follow a league's current week over Server-Sent Events. While
+ * anyone is following a league, one poller fetches its live scoreboard every
+ * LIVE_POLL_INTERVAL_SECONDS (default 60) with a follower's Yahoo token and
+ * pushes what changed since the last poll: team scores, player stat lines
+ * and win probabilities. Polls go through the shared Yahoo client, so they
+ * wait their turn behind its rate limit, and a rate limited poll doubles the
+ * interval until one gets through. The poller stops when the last follower
+ * disconnects. Since polls use someone else's token, a user only joins a feed
+ * once their own token has shown they can see the league.
+ */
+
+import { FantasyService } from "./FantasyService";
+import {
+  ErrorResponse,
+  LiveScoreboardResponse,
+  PlayerStatUpdate,
+  TeamScoreUpdate,
+  WinProbabilityUpdate,
+} from "./models";
+import { Forbidden, NotAuthenticated, UpstreamRateLimited } from "./errors";
+import { toErrorResponse } from "./errorHandler";
+import { tokenStore } from "./tokenStore";
+
+export type LiveEvent =
+  | { type: "snapshot"; data: LiveScoreboardResponse }
+  | { type: "score"; data: TeamScoreUpdate }
+  | { type: "stat"; data: PlayerStatUpdate }
+  | { type: "winProbability"; data: WinProbabilityUpdate }
+  | { type: "error"; data: ErrorResponse };
+
+export type LiveScoreboardFetcher = (
+  leagueKey: string,
+  accessToken: string
+) => Promise<LiveScoreboardResponse>;
+
+/**
+ * Resolves if the token's user can see the league, throws (Forbidden,
+ * NotFound, ...) if not
+ */
+export type LeagueAccessCheck = (
+  leagueKey: string,
+  accessToken: string
+) => Promise<void>;
+
+// A touchdown in most leagues
+const BIG_PLAY_POINTS = 6;
+
+// Smaller swings are noise from rounding and projection updates
+const MIN_WIN_PROBABILITY_CHANGE = 0.01;
+
+const MIN_POLL_INTERVAL_MS = 15 * 1000;
+const MAX_POLL_INTERVAL_MS = 10 * 60 * 1000;
+
+// Someone removed from a league can keep following for at most this long
+const ACCESS_CHECK_TTL_MS = 60 * 60 * 1000;
+
+/**
+ * Teams a poll couldn't work out win probabilities for keep the previous
+ * poll's, so a projection outage doesn't blank them for new followers
+ */
+function keepWinProbabilities(
+  previous: LiveScoreboardResponse | null,
+  next: LiveScoreboardResponse
+): LiveScoreboardResponse {
+  if (!previous || previous.week !== next.week) return next;
+
+  const previousTeams = new Map(
+    previous.matchups.flatMap((m) => m.teams).map((t) => [t.teamKey, t])
+  );
+  return {
+    ...next,
+    matchups: next.matchups.map((matchup) => ({
+      ...matchup,
+      teams: matchup.teams.map((team) => ({
+        ...team,
+        winProbability:
+          team.winProbability ??
+          previousTeams.get(team.teamKey)?.winProbability,
+      })),
+    })),
+  };
+}
+
+/**
+ * Everything that changed between two polls of the same week
+ * Players missing from the newer poll are left alone: Sleeper failing to
+ * answer shouldn't look like points being taken away
+ */
+export function diffLiveScoreboards(
+  previous: LiveScoreboardResponse,
+  next: LiveScoreboardResponse
+): LiveEvent[] {
+  if (previous.week !== next.week) {
+    return [{ type: "snapshot", data: next }];
+  }
+
+  const events: LiveEvent[] = [];
+  const round = (n: number) => Math.round(n * 100) / 100;
+
+  const previousTeams = new Map(
+    previous.matchups.flatMap((m) => m.teams).map((t) => [t.teamKey, t])
+  );
+  for (const team of next.matchups.flatMap((m) => m.teams)) {
+    const before = previousTeams.get(team.teamKey);
+    if (!before) continue;
+
+    const delta = round(team.points - before.points);
+    if (delta !== 0) {
+      events.push({
+        type: "score",
+        data: {
+          teamKey: team.teamKey,
+          teamName: team.teamName,
+          points: team.points,
+          delta,
+        },
+      });
+    }
+
+    if (
+      team.winProbability !== undefined &&
+      before.winProbability !== undefined &&
+      Math.abs(team.winProbability - before.winProbability) >=
+        MIN_WIN_PROBABILITY_CHANGE
+    ) {
+      events.push({
+        type: "winProbability",
+        data: {
+          teamKey: team.teamKey,
+          teamName: team.teamName,
+          winProbability: team.winProbability,
+          previousWinProbability: before.winProbability,
+        },
+      });
+    }
+  }
+
+  const previousPlayers = new Map(
+    previous.players.map((p) => [p.playerKey, p])
+  );
+  for (const player of next.players) {
+    const before = previousPlayers.get(player.playerKey);
+    const delta = round(player.points - (before?.points || 0));
+    const statsChanged =
+      JSON.stringify(player.stats) !== JSON.stringify(before?.stats || []);
+    if (delta === 0 && !statsChanged) continue;
+
+    events.push({
+      type: "stat",
+      data: {
+        playerKey: player.playerKey,
+        name: player.name,
+        teamKey: player.teamKey,
+        points: player.points,
+        delta,
+        bigPlay: delta >= BIG_PLAY_POINTS,
+        stats: player.stats,
+      },
+    });
+  }
+
+  return events;
+}
+
+interface Follower {
+  userId: string;
+  send: (event: LiveEvent) => void;
+}
+
+interface LeagueFeed {
+  followers: Set<Follower>;
+  latest: LiveScoreboardResponse | null;
+  timer: NodeJS.Timeout | null;
+  intervalMs: number;
+}
+
+export class LiveScoringHub {
+  private feeds = new Map<string, LeagueFeed>();
+  // When each user last proved access to each league, by "userId|leagueKey"
+  private accessCheckedAt = new Map<string, number>();
+
+  constructor(
+    private readonly fetchScoreboard: LiveScoreboardFetcher,
+    private readonly pollIntervalMs: number,
+    private readonly checkAccess: LeagueAccessCheck
+  ) {}
+
+  /**
+   * Check with the user's own token that they can see the league, before
+   * they follow it. Successful checks are remembered for an hour
+   */
+  async authorize(
+    leagueKey: string,
+    userId: string,
+    accessToken: string
+  ): Promise<void> {
+    const key = `${userId}|${leagueKey}`;
+    const checkedAt = this.accessCheckedAt.get(key);
+    if (checkedAt && Date.now() - checkedAt < ACCESS_CHECK_TTL_MS) {
+      return;
+    }
+
+    await this.checkAccess(leagueKey, accessToken);
+    this.accessCheckedAt.set(key, Date.now());
+  }
+
+  /**
+   * Follow a league the user has been authorized for. The first event is a
+   * full snapshot, then changes as they're polled. Call the returned function
+   * to stop following
+   */
+  follow(
+    leagueKey: string,
+    userId: string,
+    send: (event: LiveEvent) => void
+  ): () => void {
+    const checkedAt = this.accessCheckedAt.get(`${userId}|${leagueKey}`);
+    if (!checkedAt || Date.now() - checkedAt >= ACCESS_CHECK_TTL_MS) {
+      throw new Forbidden("Not allowed to follow this league");
+    }
+
+    const follower: Follower = { userId, send };
+
+    let feed = this.feeds.get(leagueKey);
+    if (feed) {
+      feed.followers.add(follower);
+      if (feed.latest) {
+        send({ type: "snapshot", data: feed.latest });
+      }
+    } else {
+      feed = {
+        followers: new Set([follower]),
+        latest: null,
+        timer: null,
+        intervalMs: this.pollIntervalMs,
+      };
+      this.feeds.set(leagueKey, feed);
+      void this.poll(leagueKey, feed);
+    }
+
+    const followed = feed;
+    return () => {
+      followed.followers.delete(follower);
+      if (
+        followed.followers.size === 0 &&
+        this.feeds.get(leagueKey) === followed
+      ) {
+        if (followed.timer) clearTimeout(followed.timer);
+        this.feeds.delete(leagueKey);
+      }
+    };
+  }
+
+  /**
+   * Number of leagues being polled, for tests and monitoring
+   */
+  get activeLeagues(): number {
+    return this.feeds.size;
+  }
+
+  private async poll(leagueKey: string, feed: LeagueFeed): Promise<void> {
+    feed.timer = null;
+
+    try {
+      const accessToken = await this.accessTokenFor(feed);
+      const next = keepWinProbabilities(
+        feed.latest,
+        await this.fetchScoreboard(leagueKey, accessToken)
+      );
+
+      const events = feed.latest
+        ? diffLiveScoreboards(feed.latest, next)
+        : [{ type: "snapshot" as const, data: next }];
+      feed.latest = next;
+      feed.intervalMs = this.pollIntervalMs;
+      this.broadcast(feed, events);
+    } catch (err: any) {
+      if (err instanceof UpstreamRateLimited) {
+        feed.intervalMs = Math.min(feed.intervalMs * 2, MAX_POLL_INTERVAL_MS);
+      }
+      this.broadcast(feed, [
+        { type: "error", data: toErrorResponse(err).body },
+      ]);
+    }
+
+    // Everyone may have left while the poll was running
+    if (this.feeds.get(leagueKey) === feed) {
+      feed.timer = setTimeout(
+        () => this.poll(leagueKey, feed),
+        feed.intervalMs
+      );
+    }
+  }
+
+  /**
+   * Any follower's token will do, they can all see the league
+   */
+  private async accessTokenFor(feed: LeagueFeed): Promise<string> {
+    for (const follower of feed.followers) {
+      const accessToken = await tokenStore.getAccessToken(follower.userId);
+      if (accessToken) {
+        return accessToken;
+      }
+    }
+    throw new NotAuthenticated(
+      "Not authenticated. Please reconnect with Yahoo."
+    );
+  }
+
+  private broadcast(feed: LeagueFeed, events: LiveEvent[]) {
+    for (const follower of feed.followers) {
+      for (const event of events) {
+        follower.send(event);
+      }
+    }
+  }
+}
+
+function pollIntervalFromEnv(): number {
+  const seconds = Number(process.env.LIVE_POLL_INTERVAL_SECONDS);
+  if (!seconds || seconds <= 0) {
+    return 60 * 1000;
+  }
+  return Math.max(seconds * 1000, MIN_POLL_INTERVAL_MS);
+}
+
+const fantasyService = new FantasyService();
+
+// Singleton instance
+export const liveScoringHub = new LiveScoringHub(
+  (leagueKey, accessToken) =>
+    fantasyService.getLiveScoreboard(leagueKey, accessToken),
+  pollIntervalFromEnv(),
+  (leagueKey, accessToken) =>
+    fantasyService.checkLeagueAccess(leagueKey, accessToken)
+);
@@ -0,0 +1,206 @@
+/**
+ * Database schema migrations
+ *
+ * Each migration runs once, in version order, inside a transaction. Never edit
+ * a migration that has shipped; add a new one with the next version instead.
+ */
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string; // SQL run when the migration is applied
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    up: `
+      -- Sleeper's full NFL player list
+      CREATE TABLE players (
+        player_id TEXT PRIMARY KEY,
+        full_name TEXT,
+        first_name TEXT,
+        last_name TEXT,
+        position TEXT,
+        team TEXT,
+        number INTEGER,
+        status TEXT,
+        injury_status TEXT,
+        fantasy_positions TEXT NOT NULL DEFAULT '[]', -- JSON array
+        updated_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_players_position ON players (position);
+      CREATE INDEX idx_players_team ON players (team);
+
+      -- Remembered Yahoo -> Sleeper player matches
+      CREATE TABLE player_crosswalk (
+        yahoo_id TEXT PRIMARY KEY,
+        sleeper_id TEXT, -- NULL when nothing matched well enough
+        confidence REAL NOT NULL,
+        matched_at INTEGER NOT NULL
+      );
+
+      -- Sleeper stat lines, one row per player per week
+      CREATE TABLE weekly_stats (
+        season INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        player_id TEXT NOT NULL,
+        stats TEXT NOT NULL, -- JSON stat line
+        PRIMARY KEY (season, week, player_id)
+      );
+
+      CREATE TABLE weekly_projections (
+        season INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        player_id TEXT NOT NULL,
+        stats TEXT NOT NULL, -- JSON stat line
+        PRIMARY KEY (season, week, player_id)
+      );
+
+      -- When each week of stats or projections was last fetched
+      CREATE TABLE weekly_fetches (
+        kind TEXT NOT NULL CHECK (kind IN ('stats', 'projections')),
+        season INTEGER NOT NULL,
+        week INTEGER NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (kind, season, week)
+      );
+
+      -- Raw Yahoo scoreboard responses
+      CREATE TABLE scoreboards (
+        league_key TEXT NOT NULL,
+        week INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (league_key, week)
+      );
+
+      -- Points per unit by Yahoo stat ID
+      CREATE TABLE scoring_rules (
+        league_key TEXT PRIMARY KEY,
+        rules TEXT NOT NULL, -- JSON array of [statId, points] pairs
+        fetched_at INTEGER NOT NULL
+      );
+
+      -- Yahoo OAuth tokens by user
+      CREATE TABLE tokens (
+        user_id TEXT PRIMARY KEY,
+        tokens TEXT NOT NULL, -- JSON token response
+        expires_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+
+      -- Other Yahoo responses (settings, rosters, draft results, ...)
+      CREATE TABLE yahoo_responses (
+        namespace TEXT NOT NULL,
+        key TEXT NOT NULL,
+        data TEXT NOT NULL,
+        fetched_at INTEGER NOT NULL,
+        PRIMARY KEY (namespace, key)
+      );
+
+      -- Flags such as whether the old JSON cache has been imported
+      CREATE TABLE app_meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: "generic cache entries",
+    up: `
+      -- Every cache namespace that isn't its own table shares one key/value table
+      ALTER TABLE yahoo_responses RENAME TO cache_entries;
+
+      INSERT OR REPLACE INTO cache_entries (namespace, key, data, fetched_at)
+        SELECT 'scoreboards', league_key || ':' || week, data, fetched_at
+        FROM scoreboards;
+      DROP TABLE scoreboards;
+    `,
+  },
+  {
+    version: 3,
+    name: "token accounts",
+    up: `
+      -- Who each token belongs to, for the account header and session listing
+      ALTER TABLE tokens ADD COLUMN nickname TEXT;
+      ALTER TABLE tokens ADD COLUMN connected_at INTEGER NOT NULL DEFAULT 0;
+      UPDATE tokens SET connected_at = updated_at;
+    `,
+  },
+  {
+    version: 4,
+    name: "share links",
+    up: `
+      -- Public read-only links to a league, served with the owner's token
+      -- or from a snapshot taken when the link was created
+      CREATE TABLE share_links (
+        slug TEXT PRIMARY KEY,
+        owner_user_id TEXT NOT NULL,
+        league_key TEXT NOT NULL,
+        league_name TEXT NOT NULL,
+        mode TEXT NOT NULL, -- 'live' or 'snapshot'
+        snapshot TEXT, -- JSON, snapshot links only
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER -- NULL never expires
+      );
+      CREATE INDEX idx_share_links_owner ON share_links (owner_user_id);
+    `,
+  },
+  {
+    version: 5,
+    name: "win probability history",
+    up: `
+      -- Each team's win probability as it moved during a week, so the
+      -- timeline can be replayed after the week is over
+      CREATE TABLE win_probability_history (
+        league_key TEXT NOT NULL,
+        week INTEGER NOT NULL,
+        team_key TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        points REAL NOT NULL,
+        expected_points REAL NOT NULL,
+        win_probability REAL NOT NULL
+      );
+      CREATE INDEX idx_win_probability_history_week
+        ON win_probability_history (league_key, week, recorded_at);
+    `,
+  },
+  {
+    version: 6,
+    name: "imported projections",
+    up: `
+      -- Weekly projections uploaded as CSV to compare with Sleeper and Yahoo,
+      -- in the league's points. Players are matched when the report runs
+      CREATE TABLE imported_projections (
+        league_key TEXT NOT NULL,
+        source TEXT NOT NULL,
+        week INTEGER NOT NULL,
+        player_id TEXT, -- Yahoo player_id, NULL to match by name
+        name TEXT,
+        position TEXT,
+        points REAL NOT NULL
+      );
+      CREATE INDEX idx_imported_projections_source
+        ON imported_projections (league_key, source);
+    `,
+  },
+  {
+    version: 7,
+    name: "scoring profiles",
+    up: `
+      -- Named what-if scoring profiles, previously scoring_profiles.json
+      CREATE TABLE scoring_profiles (
+        id TEXT PRIMARY KEY, -- Slug of the name
+        name TEXT NOT NULL,
+        description TEXT,
+        overrides TEXT NOT NULL, -- JSON: Yahoo stat ID -> points per unit
+        position_overrides TEXT, -- JSON: position -> overrides
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      );
+    `,
+  },
+];
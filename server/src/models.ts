@@ -12,20 +12,492 @@ export interface TeamStanding {
   ties: number;
   pointsFor: number;
   pointsAgainst: number;
+  allPlayWins: number; // Record if the team had played every other team every week
+  allPlayLosses: number;
+  allPlayTies: number;
+  expectedWins: number; // All-play win rate applied to one game per week
+  luck: number; // Actual wins minus expected wins
 }
 
 export interface WeeklyTeamScore {
   week: number;
+  teamKey: string;
   teamName: string;
   score: number;
 }
 
+/**
+ * How much of a week's scoring made it into the response:
+ * complete - every matchup is final
+ * in-progress - scores are partial, or the week hasn't kicked off
+ * missing - the scoreboard couldn't be loaded, so the week has no scores
+ */
+export type WeekDataStatus = "complete" | "in-progress" | "missing";
+
+export interface WeekStatus {
+  week: number;
+  dataStatus: WeekDataStatus;
+}
+
 export interface LeagueResponse {
   leagueKey: string;
   name: string;
   season: number;
+  scoringProfile?: string; // Profile ID when re-scored under a scoring profile
+  demo?: boolean; // Weekly scores are made up, for screenshots and demos
   teams: TeamStanding[];
   points: WeeklyTeamScore[];
+  weeks: WeekStatus[]; // Every week played so far
+  missingWeeks: number[]; // Weeks whose scoreboards failed to load
+}
+
+export interface MatchupTeam {
+  teamKey: string;
+  teamName: string;
+  points: number;
+  projectedPoints: number;
+  winProbability?: number; // Chance of winning (0-1), current week only
+  expectedPoints?: number; // Points so far plus starters' remaining projections
+}
+
+export interface WinProbabilityPoint {
+  recordedAt: string; // ISO timestamp
+  teamKey: string;
+  points: number;
+  expectedPoints: number;
+  winProbability: number;
+}
+
+export interface Matchup {
+  week: number;
+  status: string;
+  isPlayoffs: boolean;
+  isConsolation: boolean;
+  isTied: boolean;
+  winnerTeamKey?: string; // Omitted while the matchup is undecided or tied
+  margin: number; // Absolute point difference between the two teams
+  teams: MatchupTeam[];
+  winProbabilityTimeline?: WinProbabilityPoint[]; // Recorded during the week, oldest first
+}
+
+export interface MatchupsResponse {
+  leagueKey: string;
+  scoringProfile?: string; // Profile ID when re-scored under a scoring profile
+  weeks: number[];
+  matchups: Matchup[];
+}
+
+export interface LiveMatchupTeam {
+  teamKey: string;
+  teamName: string;
+  points: number;
+  projectedPoints: number;
+  winProbability?: number; // Chance of winning the matchup (0-1), omitted if it couldn't be worked out
+}
+
+export interface LiveMatchup {
+  status: string;
+  teams: LiveMatchupTeam[];
+}
+
+export interface LiveStat {
+  stat: string;
+  value: number;
+  points: number;
+}
+
+export interface LivePlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  teamKey: string; // Fantasy team the player is rostered on
+  selectedPosition: string; // Lineup slot, "BN" on the bench
+  points: number; // Scored with the league's rules from Sleeper stats
+  stats: LiveStat[];
+}
+
+/**
+ * The current week as of one poll, sent as the first event of a live stream
+ */
+export interface LiveScoreboardResponse {
+  leagueKey: string;
+  week: number;
+  updatedAt: string;
+  matchups: LiveMatchup[];
+  players: LivePlayer[]; // Rostered players with stats so far
+}
+
+export interface TeamScoreUpdate {
+  teamKey: string;
+  teamName: string;
+  points: number;
+  delta: number;
+}
+
+export interface PlayerStatUpdate {
+  playerKey: string;
+  name: string;
+  teamKey: string;
+  points: number;
+  delta: number;
+  bigPlay: boolean; // Worth a touchdown or more since the last poll
+  stats: LiveStat[];
+}
+
+export interface WinProbabilityUpdate {
+  teamKey: string;
+  teamName: string;
+  winProbability: number;
+  previousWinProbability: number;
+}
+
+export interface TeamPlayoffOdds {
+  teamKey: string;
+  teamName: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  projectedWins: number; // Average regular season wins across simulations
+  playoffOdds: number; // Percentage (0-100)
+  byeOdds: number; // Percentage (0-100)
+  seedOdds: number[]; // seedOdds[i] = percentage chance of finishing at seed i + 1
+}
+
+export interface PlayoffOddsTrendPoint {
+  week: number; // Odds as they stood after this week's games
+  teamKey: string;
+  teamName: string;
+  playoffOdds: number;
+}
+
+export interface PlayoffOddsResponse {
+  leagueKey: string;
+  scoringProfile?: string; // Profile ID when re-scored under a scoring profile
+  simulations: number;
+  numPlayoffTeams: number;
+  numPlayoffByes: number;
+  playoffStartWeek: number;
+  lastCompletedWeek: number;
+  teams: TeamPlayoffOdds[];
+  trend: PlayoffOddsTrendPoint[];
+}
+
+export interface LineupSlotAssignment {
+  slot: string; // Roster slot, e.g. "QB", "W/R/T"
+  playerKey: string;
+  name: string;
+  points: number;
+}
+
+export interface TeamLineupWeek {
+  week: number;
+  actualPoints: number; // Points scored by the lineup the manager started
+  optimalPoints: number; // Best possible lineup in hindsight
+  benchPointsLost: number; // optimalPoints - actualPoints
+  efficiency: number; // Percentage (0-100) of optimal points scored
+  opponentPoints?: number;
+  won?: boolean; // Omitted for ties and weeks without an opponent
+  flipped: boolean; // Lost, but the optimal lineup would have won
+  startedLineup: LineupSlotAssignment[];
+  optimalLineup: LineupSlotAssignment[];
+}
+
+export interface TeamLineupEfficiency {
+  teamKey: string;
+  teamName: string;
+  actualPoints: number;
+  optimalPoints: number;
+  benchPointsLost: number;
+  efficiency: number; // Percentage (0-100) of optimal points scored
+  flippedWeeks: number[]; // Weeks an optimal lineup would have turned a loss into a win
+  weeks: TeamLineupWeek[];
+}
+
+export interface LineupEfficiencyResponse {
+  leagueKey: string;
+  weekRange: {
+    start: number;
+    end: number;
+  };
+  rosterSlots: string[]; // Starting slots, one per count
+  teams: TeamLineupEfficiency[];
+}
+
+export interface RosterPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string; // NFL team abbreviation
+  selectedPosition: string;
+}
+
+export interface TeamRoster {
+  teamKey: string;
+  teamName: string;
+  players: RosterPlayer[];
+}
+
+export interface LeagueRostersResponse {
+  leagueKey: string;
+  week: number;
+  teams: TeamRoster[];
+}
+
+export interface TradeSide {
+  teamKey: string;
+  gives: string[]; // Player keys this team sends away
+}
+
+export interface TradeEvaluateRequest {
+  sides: TradeSide[]; // Exactly two teams; each gets what the other gives
+}
+
+export interface TradePlayerValue {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  restOfSeasonPoints: number; // Projected points under league scoring
+  hasProjections: boolean; // False when the player couldn't be matched to Sleeper
+}
+
+export interface TradeLineupWeek {
+  week: number;
+  before: number; // Projected optimal starting lineup points without the trade
+  after: number; // Projected optimal starting lineup points with the trade
+  change: number;
+}
+
+export interface TradeSideEvaluation {
+  teamKey: string;
+  teamName: string;
+  gives: TradePlayerValue[];
+  gets: TradePlayerValue[];
+  valueGiven: number;
+  valueReceived: number;
+  netValue: number; // valueReceived - valueGiven
+  lineupBefore: number; // Rest-of-season optimal lineup points without the trade
+  lineupAfter: number;
+  lineupChange: number; // lineupAfter - lineupBefore
+  weeks: TradeLineupWeek[];
+}
+
+export interface TradeEvaluationResponse {
+  leagueKey: string;
+  scoringProfile?: string; // Profile ID when re-scored under a scoring profile
+  weekRange: {
+    start: number;
+    end: number;
+  };
+  sides: TradeSideEvaluation[];
+}
+
+export interface DraftPickAnalysis {
+  pick: number; // Overall pick number
+  round: number;
+  teamKey: string;
+  teamName: string;
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+  cost?: number; // Auction price, missing for snake drafts
+  points: number; // Season-to-date fantasy points under league scoring
+  valueOverReplacement: number; // Points above a replacement-level player at the position
+  expectedValue: number; // Value over replacement a pick this early is usually worth
+  surplus: number; // valueOverReplacement - expectedValue; positive = steal, negative = bust
+}
+
+export interface DraftTeamGrade {
+  teamKey: string;
+  teamName: string;
+  grade: string; // Letter grade, "A+" through "F"
+  points: number; // Season-to-date points from drafted players
+  valueOverReplacement: number;
+  surplus: number;
+}
+
+export interface DraftResponse {
+  leagueKey: string;
+  draftType: "snake" | "auction";
+  rounds: number;
+  teamOrder: Array<{ teamKey: string; teamName: string }>; // Round 1 pick order
+  replacementLevels: { [position: string]: number }; // Replacement-level points by position
+  picks: DraftPickAnalysis[];
+  teamGrades: DraftTeamGrade[]; // Best draft first
+  steals: DraftPickAnalysis[];
+  busts: DraftPickAnalysis[];
+}
+
+export type TransactionType = "add" | "drop" | "add/drop" | "trade" | "commish";
+
+export interface PickupWeek {
+  week: number;
+  points: number;
+}
+
+export interface PickupPerformance {
+  weeks: number; // Completed weeks on the acquiring team's roster
+  totalPoints: number;
+  averagePoints: number;
+  weeklyPoints: PickupWeek[];
+}
+
+export interface TransactionPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string; // NFL team abbreviation
+  action: "add" | "drop" | "trade";
+  source: "freeagents" | "waivers" | "team";
+  sourceTeamKey?: string;
+  sourceTeamName?: string;
+  destination: "team" | "waivers";
+  destinationTeamKey?: string;
+  destinationTeamName?: string;
+  performance?: PickupPerformance; // Points after joining a team, when requested
+}
+
+export interface Transaction {
+  transactionKey: string;
+  type: TransactionType;
+  status: string; // "successful", "pending" or "vetoed"
+  timestamp: string; // ISO 8601
+  week: number; // First fantasy week the move counts for
+  isWaiverClaim: boolean;
+  faabBid?: number;
+  teamKeys: string[]; // Teams involved
+  players: TransactionPlayer[];
+}
+
+export interface TeamFaabSpend {
+  teamKey: string;
+  teamName: string;
+  spent: number;
+  claims: number; // Successful waiver claims
+}
+
+export interface TransactionsResponse {
+  leagueKey: string;
+  transactions: Transaction[]; // Newest first
+  faabSpend: TeamFaabSpend[]; // Whole season, regardless of filters
+}
+
+export interface WaiverPlayerValue extends TradePlayerValue {
+  recentPoints: number; // Average points over the last 3 completed weeks under league scoring
+}
+
+export interface FaabBidRange {
+  low: number;
+  high: number;
+}
+
+export interface WaiverTarget {
+  add: WaiverPlayerValue;
+  drop: WaiverPlayerValue;
+  weakestStarter?: WaiverPlayerValue; // Lowest projected starter at the added player's position
+  pointsGain: number; // Rest-of-season optimal lineup points gained by the add/drop
+  weeks: TradeLineupWeek[];
+  faabBid?: FaabBidRange; // Missing when the league has no FAAB bidding history
+}
+
+export interface WaiverTargetsResponse {
+  teamKey: string;
+  teamName: string;
+  weekRange: {
+    start: number;
+    end: number;
+  };
+  targets: WaiverTarget[]; // Biggest gain first
+  faabHistory: {
+    claims: number; // Successful waiver claims with a FAAB bid
+    medianBid: number;
+    maxBid: number;
+  };
+}
+
+export interface HistoryStanding {
+  managerId: string; // Yahoo manager GUID, stable across seasons
+  managerName: string;
+  teamKey: string;
+  teamName: string;
+  rank: number; // Final rank once the season is over
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+}
+
+export interface LeagueHistorySeason {
+  leagueKey: string;
+  season: number;
+  name: string;
+  isFinished: boolean;
+  champion?: HistoryStanding; // Missing until the season is over
+  standings: HistoryStanding[];
+}
+
+export interface ManagerHistoryRecord {
+  managerId: string;
+  managerName: string; // Latest nickname
+  teamNames: string[]; // Every team name used, newest first
+  seasons: number;
+  wins: number; // Regular season only
+  losses: number;
+  ties: number;
+  winPct: number; // Ties count as half a win
+  pointsFor: number;
+  pointsAgainst: number;
+  playoffWins: number; // Consolation games excluded
+  playoffLosses: number;
+  championships: number;
+  bestFinish: number; // Best final rank, 0 until a season is finished
+}
+
+export interface HeadToHeadRecord {
+  managerId: string;
+  opponentId: string;
+  games: number; // Regular season and playoffs
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
+
+export interface HistoryHighScore {
+  season: number;
+  week: number;
+  managerId: string;
+  managerName: string;
+  teamName: string;
+  points: number;
+  opponentTeamName: string;
+  opponentPoints: number;
+  isPlayoffs: boolean;
+}
+
+export interface ChampionBanner {
+  season: number;
+  leagueKey: string;
+  managerId: string;
+  managerName: string;
+  teamName: string;
+  wins: number;
+  losses: number;
+  ties: number;
+  pointsFor: number;
+  runnerUpTeamName?: string;
+}
+
+export interface LeagueHistoryResponse {
+  leagueKey: string;
+  seasons: LeagueHistorySeason[]; // Newest first
+  managers: ManagerHistoryRecord[]; // Best win rate first
+  headToHead: HeadToHeadRecord[];
+  highScores: HistoryHighScore[]; // Highest first
+  champions: ChampionBanner[]; // Newest first
 }
 
 export interface WeeklyPlayerData {
@@ -71,9 +543,32 @@ export interface PlayerStatsResponse {
   };
 }
 
+export interface ScoringProfileInput {
+  name: string;
+  description?: string;
+  overrides: { [statId: string]: number }; // Yahoo stat ID -> points per unit, replaces the league's value
+  positionOverrides?: {
+    [position: string]: { [statId: string]: number }; // e.g. { "TE": { "11": 1.5 } } for TE premium
+  };
+}
+
+export interface ScoringProfile extends ScoringProfileInput {
+  id: string; // URL-safe slug of the name, used as the scoringProfile parameter
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScoringProfilesResponse {
+  profiles: ScoringProfile[];
+}
+
 export interface ErrorResponse {
   error: string;
   details?: string;
+  /**
+   * Stable error code, e.g. "NOT_FOUND" or "UPSTREAM_RATE_LIMITED"
+   */
+  code: string;
 }
 
 export interface PlayerSearchResult {
@@ -94,7 +589,31 @@ export interface PlayerSearchResponse {
   players: PlayerSearchResult[];
 }
 
+export interface SleeperPlayerSummary {
+  playerId: string;
+  name: string;
+  position: string;
+  team: string;
+}
+
+export interface PlayerMappingCandidate extends SleeperPlayerSummary {
+  confidence: number; // 0-1
+}
+
+export interface PlayerMappingResponse {
+  playerKey: string;
+  yahooPlayerId: string;
+  name: string;
+  position: string;
+  team: string;
+  sleeper: SleeperPlayerSummary | null; // null when no candidate was good enough
+  confidence: number; // 0-1, always 1 for manual overrides
+  method: "override" | "matched" | "unmatched";
+  candidates: PlayerMappingCandidate[]; // Best Sleeper matches considered, best first
+}
+
 export interface PlayerCompareResponse {
+  scoringProfile?: string; // Profile ID when scored under a scoring profile
   weekRange: {
     start: number;
     end: number;
@@ -106,3 +625,128 @@ export interface PlayerCompareResponse {
     ties: number;
   };
 }
+
+export interface CacheNamespaceStats {
+  namespace: string;
+  backend: string; // "database", "memory", "file" or "redis"
+  ttl: string; // How long entries stay fresh, e.g. "1h"
+  entries: number | null; // null when the backend couldn't be counted
+  hits: number; // Counts are since the server started
+  misses: number;
+  expired: number; // Misses where a stale entry was found
+  writes: number;
+  hitRate: number; // 0-1
+}
+
+export interface CacheStatsResponse {
+  namespaces: CacheNamespaceStats[];
+}
+
+export interface CacheClearResponse {
+  namespace: string;
+  cleared: number; // Entries removed
+}
+
+export interface AccountResponse {
+  guid: string | null; // Yahoo account GUID
+  nickname: string | null;
+  connectedAt: string; // ISO 8601
+  tokenExpiresAt: string; // When the access token expires; it refreshes on its own
+}
+
+export interface SessionInfo extends AccountResponse {
+  userId: string; // The Yahoo GUID, or a random ID for logins from before GUIDs
+}
+
+export interface SessionListResponse {
+  sessions: SessionInfo[];
+}
+
+export type ShareLinkMode = "live" | "snapshot";
+
+export interface ShareLinkInput {
+  leagueKey: string;
+  mode: ShareLinkMode; // "live" uses your Yahoo connection on each visit, "snapshot" freezes today's data
+  expiresInDays?: number; // Omit for a link that never expires
+}
+
+export interface ShareLink {
+  slug: string;
+  path: string; // Page to share, e.g. "/s/Xk3v9QpL2aBc"
+  leagueKey: string;
+  leagueName: string;
+  mode: ShareLinkMode;
+  createdAt: string; // ISO 8601, also when a snapshot was taken
+  expiresAt: string | null; // null never expires
+  expired: boolean;
+}
+
+export interface ShareLinksResponse {
+  links: ShareLink[];
+}
+
+export interface SharedLeagueResponse {
+  link: ShareLink;
+  league: LeagueResponse;
+}
+
+export type ProjectionSourceKind = "sleeper" | "yahoo" | "csv";
+
+export interface ProjectionAccuracy {
+  samples: number; // Player-weeks with a projection
+  mae: number; // Mean absolute error
+  rmse: number; // Root mean squared error
+  bias: number; // Mean of projected minus actual; positive means over-projected
+  r2: number; // Share of the variance in actual points the projections explain
+}
+
+export interface PositionAccuracy extends ProjectionAccuracy {
+  position: string;
+}
+
+export interface WeekAccuracy extends ProjectionAccuracy {
+  week: number;
+}
+
+export interface TierAccuracy extends ProjectionAccuracy {
+  tier: string; // e.g. "10-15"
+  minProjected: number;
+  maxProjected?: number; // Omitted for the top tier
+}
+
+export interface CalibrationBucket {
+  minProjected: number;
+  maxProjected?: number; // Omitted for the top bucket
+  samples: number;
+  averageProjected: number;
+  averageActual: number;
+}
+
+export interface ProjectionSourceReport {
+  source: string; // "Sleeper", "Yahoo" or the name an import was given
+  kind: ProjectionSourceKind;
+  overall: ProjectionAccuracy;
+  byPosition: PositionAccuracy[];
+  byWeek: WeekAccuracy[];
+  byTier: TierAccuracy[];
+  calibration: CalibrationBucket[]; // Lowest projections first
+}
+
+export interface ProjectionAccuracyResponse {
+  leagueKey: string;
+  weekRange: { start: number; end: number };
+  players: number; // Rostered players and free agents scored in those weeks
+  sources: ProjectionSourceReport[];
+}
+
+export interface ProjectionImportInput {
+  leagueKey: string;
+  source: string; // Name to show the projections under, e.g. "FantasyPros"
+  csv: string; // Header row with week, points and player_id or name (position optional)
+}
+
+export interface ProjectionImportResponse {
+  source: string;
+  rows: number;
+  weeks: number[];
+}
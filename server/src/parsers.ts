@@ -5,8 +5,20 @@ import type {
   YahooTeamWrapper,
   YahooTeamInfo,
   YahooLeagueArray,
+  NormalizedDraftPick,
+  NormalizedGameWeek,
   NormalizedLeague,
+  NormalizedLeagueMetadata,
+  NormalizedLeaguePlayer,
+  NormalizedLeagueSettings,
+  NormalizedRosterPlayer,
+  RosterSlot,
+  YahooLeagueSettings,
   NormalizedTeam,
+  NormalizedTransaction,
+  NormalizedTransactionPlayer,
+  NormalizedMatchup,
+  NormalizedMatchupTeam,
   WeeklyTeamScore,
   TeamRosterResponse,
   YahooRosterPlayer,
@@ -16,18 +28,6 @@ import type {
 } from "./yahoo-types";
 import type { PlayerSearchResponse, PlayerSearchResult } from "./models";
 
-/**
- * Seeded pseudo-random number generator for deterministic testing
- * Uses a simple Linear Congruential Generator (LCG) algorithm
- */
-function seededRandom(seed: number): () => number {
-  let state = seed;
-  return () => {
-    state = (state * 1103515245 + 12345) & 0x7fffffff;
-    return state / 0x7fffffff;
-  };
-}
-
 /**
  * Type guard to check if a value is a record/object
  */
@@ -103,18 +103,29 @@ function extractTeamInfo(teamInfoArray: YahooTeamInfo[]): {
   id: string;
   teamKey: string;
   name: string;
+  managerGuid: string;
+  managerName: string;
 } {
   let teamId = "unknown";
   let teamKey = "unknown";
   let teamName = "Team";
+  let managerGuid = "";
+  let managerName = "";
 
   for (const infoObj of teamInfoArray) {
     if (infoObj?.team_id) teamId = String(infoObj.team_id);
     if (infoObj?.team_key) teamKey = String(infoObj.team_key);
     if (infoObj?.name) teamName = String(infoObj.name);
+
+    // First listed manager owns the team; co-managers follow
+    const manager = infoObj?.managers?.[0]?.manager;
+    if (manager) {
+      managerGuid = manager.guid ? String(manager.guid) : "";
+      managerName = manager.nickname ? String(manager.nickname) : "";
+    }
   }
 
-  return { id: teamId, teamKey, name: teamName };
+  return { id: teamId, teamKey, name: teamName, managerGuid, managerName };
 }
 
 /**
@@ -157,7 +168,8 @@ function parseTeam(teamWrapper: YahooTeamWrapper): NormalizedTeam | null {
   }
 
   // Extract team info
-  const { id, teamKey, name } = extractTeamInfo(teamInfoArray);
+  const { id, teamKey, name, managerGuid, managerName } =
+    extractTeamInfo(teamInfoArray);
 
   // Parse numeric values safely
   const seasonTotal = safeParseFloat(teamPoints.team_points.total);
@@ -175,6 +187,8 @@ function parseTeam(teamWrapper: YahooTeamWrapper): NormalizedTeam | null {
     id,
     teamKey,
     name,
+    managerGuid,
+    managerName,
     seasonTotal,
     rank,
     wins,
@@ -183,10 +197,266 @@ function parseTeam(teamWrapper: YahooTeamWrapper): NormalizedTeam | null {
   };
 }
 
+/**
+ * Extract season and week boundaries from any league response
+ * (metadata, standings, scoreboard, ...), since each carries the league info first
+ * Returns null if the response has no usable league info
+ */
+export function normalizeLeagueMetadata(
+  data: unknown
+): NormalizedLeagueMetadata | null {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return null;
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return null;
+
+  const leagueInfo = findLeagueInfo(league as YahooLeagueArray);
+  if (!leagueInfo) return null;
+
+  const season = safeParseInt(leagueInfo.season);
+  const currentWeek = safeParseInt(leagueInfo.current_week);
+  if (season === 0 || currentWeek === 0) return null;
+
+  return {
+    season,
+    currentWeek,
+    startWeek: safeParseInt(leagueInfo.start_week, 1),
+    endWeek: safeParseInt(leagueInfo.end_week, 17),
+    isFinished: safeParseInt(leagueInfo.is_finished) === 1,
+  };
+}
+
+/**
+ * The previous season's league key from a league response's renew link,
+ * e.g. renew "423_12345" -> "423.l.12345"
+ * Returns null for a league's first season
+ */
+export function normalizePreviousLeagueKey(data: unknown): string | null {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return null;
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return null;
+
+  const leagueInfo = findLeagueInfo(league as YahooLeagueArray);
+  const match = /^(\d+)_(\d+)$/.exec(String(leagueInfo?.renew ?? ""));
+  return match ? `${match[1]}.l.${match[2]}` : null;
+}
+
+/**
+ * Normalize the playoff format and roster slots from a league settings response
+ * Returns null if the response has no settings
+ */
+export function normalizeLeagueSettings(
+  data: unknown
+): NormalizedLeagueSettings | null {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return null;
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return null;
+
+  const settingsWrapper = league.find(
+    (item) => isRecord(item) && Array.isArray(item.settings)
+  );
+  if (!isRecord(settingsWrapper?.settings?.[0])) return null;
+
+  const settings = settingsWrapper.settings[0] as YahooLeagueSettings;
+
+  const usesPlayoff = settings.uses_playoff !== "0";
+
+  const rosterPositions: RosterSlot[] = [];
+  for (const wrapper of settings.roster_positions || []) {
+    const slot = wrapper?.roster_position;
+    if (!slot?.position) continue;
+
+    rosterPositions.push({
+      position: slot.position,
+      count: safeParseInt(slot.count, 1),
+      isStarting:
+        slot.is_starting_position !== undefined
+          ? safeParseInt(slot.is_starting_position) === 1
+          : !["BN", "IR", "IL", "IR+", "NA"].includes(slot.position),
+    });
+  }
+
+  return {
+    usesPlayoff,
+    playoffStartWeek: safeParseInt(settings.playoff_start_week, 15),
+    numPlayoffTeams: usesPlayoff ? safeParseInt(settings.num_playoff_teams) : 0,
+    rosterPositions,
+  };
+}
+
+/**
+ * Keys on a Yahoo matchup object that hold metadata rather than teams
+ */
+const MATCHUP_METADATA_KEYS = new Set([
+  "count",
+  "week",
+  "week_start",
+  "week_end",
+  "status",
+  "is_playoffs",
+  "is_consolation",
+  "is_matchup_of_the_week",
+  "is_matchup_recap_available",
+  "is_tied",
+  "winner_team_key",
+  "matchup_recap_url",
+  "matchup_recap_title",
+  "matchup_grades",
+  "stat_winners",
+]);
+
+/**
+ * Find the matchup objects in a single scoreboard response
+ * Structure: fantasy_content.league[1].scoreboard["0"].matchups["0".."n"].matchup
+ */
+function extractScoreboardMatchups(
+  scoreboardResponse: unknown
+): Record<string, any>[] {
+  if (!isRecord(scoreboardResponse)) return [];
+
+  const fc = (scoreboardResponse as any).fantasy_content;
+  if (!fc?.league || !Array.isArray(fc.league)) return [];
+
+  // Find scoreboard in league array
+  const scoreboardWrapper = fc.league.find(
+    (item: any) => isRecord(item) && item.scoreboard
+  );
+
+  if (!scoreboardWrapper?.scoreboard) return [];
+
+  // Yahoo wraps matchups in a "0" key
+  const scoreboard = scoreboardWrapper.scoreboard["0"];
+  if (!scoreboard?.matchups) return [];
+
+  const matchups: Record<string, any>[] = [];
+  for (const key in scoreboard.matchups) {
+    if (key === "count") continue;
+
+    const matchupWrapper = scoreboard.matchups[key]?.matchup;
+    if (matchupWrapper && isRecord(matchupWrapper)) {
+      matchups.push(matchupWrapper);
+    }
+  }
+
+  return matchups;
+}
+
+/**
+ * Collect the team wrappers from a matchup object
+ * matchup is an object with numeric keys for teams, plus metadata like "week", "status", etc
+ */
+function extractMatchupTeams(matchupWrapper: Record<string, any>): any[] {
+  const matchupTeams: any[] = [];
+
+  for (const matchupKey in matchupWrapper) {
+    // Skip non-team keys
+    if (MATCHUP_METADATA_KEYS.has(matchupKey)) continue;
+
+    const item = matchupWrapper[matchupKey];
+    if (!isRecord(item)) continue;
+
+    // Check for teams
+    if (item.teams && isRecord(item.teams)) {
+      // teams is an object with numeric keys
+      for (const teamKey in item.teams) {
+        if (teamKey === "count") continue;
+        const teamWrapper = item.teams[teamKey];
+        if (teamWrapper) {
+          matchupTeams.push(teamWrapper);
+        }
+      }
+    }
+  }
+
+  return matchupTeams;
+}
+
+/**
+ * Parse a single team from a matchup
+ * team[0] is an array of team info objects (contains name)
+ * team[1] is an object with team_points and team_projected_points
+ */
+function parseMatchupTeam(teamWrapper: unknown): NormalizedMatchupTeam | null {
+  if (!isRecord(teamWrapper) || !teamWrapper.team) return null;
+
+  const team = teamWrapper.team;
+  if (!Array.isArray(team) || team.length < 2) return null;
+
+  const teamInfoArray = team[0];
+  if (!Array.isArray(teamInfoArray)) return null;
+
+  const { teamKey, name } = extractTeamInfo(teamInfoArray);
+
+  let points = 0;
+  let projectedPoints = 0;
+
+  const teamStatsObj = team[1];
+  if (isRecord(teamStatsObj)) {
+    if (isRecord(teamStatsObj.team_points)) {
+      points = safeParseFloat((teamStatsObj.team_points as any).total);
+    }
+    if (isRecord(teamStatsObj.team_projected_points)) {
+      projectedPoints = safeParseFloat(
+        (teamStatsObj.team_projected_points as any).total
+      );
+    }
+  }
+
+  return { teamKey, name, points, projectedPoints };
+}
+
+/**
+ * Normalize head-to-head matchups from one or more weekly scoreboard responses
+ */
+export function normalizeMatchups(
+  scoreboardData: unknown | unknown[]
+): NormalizedMatchup[] {
+  const scoreboardArray = Array.isArray(scoreboardData)
+    ? scoreboardData
+    : [scoreboardData];
+  const matchups: NormalizedMatchup[] = [];
+
+  try {
+    for (const singleScoreboardData of scoreboardArray) {
+      for (const matchupWrapper of extractScoreboardMatchups(
+        singleScoreboardData
+      )) {
+        const teams = extractMatchupTeams(matchupWrapper)
+          .map(parseMatchupTeam)
+          .filter((team): team is NormalizedMatchupTeam => team !== null);
+
+        if (teams.length === 0) continue;
+
+        const isTied = safeParseInt(matchupWrapper.is_tied) === 1;
+        const winnerTeamKey = matchupWrapper.winner_team_key
+          ? String(matchupWrapper.winner_team_key)
+          : null;
+
+        matchups.push({
+          week: safeParseInt(matchupWrapper.week, 1),
+          status: matchupWrapper.status ? String(matchupWrapper.status) : "",
+          isPlayoffs: safeParseInt(matchupWrapper.is_playoffs) === 1,
+          isConsolation: safeParseInt(matchupWrapper.is_consolation) === 1,
+          isTied,
+          winnerTeamKey: isTied ? null : winnerTeamKey,
+          teams,
+        });
+      }
+    }
+  } catch (err) {
+    console.error("normalizeMatchups error:", err);
+    return [];
+  }
+
+  matchups.sort((a, b) => a.week - b.week);
+  return matchups;
+}
+
 export function normalizeLeague(
   standingsData: unknown,
-  scoreboardData?: unknown | unknown[], // Can be single response or array
-  options: { seed?: number; useDeterministicScores?: boolean } = {}
+  scoreboardData?: unknown | unknown[] // Can be single response or array
 ): NormalizedLeague {
   try {
     // Validate the response structure
@@ -211,7 +481,6 @@ export function normalizeLeague(
 
     const leagueId = leagueInfo.league_id || "unknown";
     const leagueName = leagueInfo.name || "Unknown League";
-    const endWeek = safeParseInt(leagueInfo.end_week, 17);
 
     // Extract teams from standings
     const standingsArray = standingsWrapper.standings;
@@ -237,150 +506,23 @@ export function normalizeLeague(
     // Sort teams by rank to ensure consistent ordering
     teams.sort((a, b) => a.rank - b.rank);
 
-    let points: WeeklyTeamScore[] = [];
-
-    // Try to extract real scores from scoreboard data
+    // Weekly scores come only from the scoreboards. Weeks without one are
+    // left out rather than guessed, and a real zero is still a score
+    const points: WeeklyTeamScore[] = [];
     if (scoreboardData) {
-      try {
-        // Handle both single response and array of responses
-        const scoreboardArray = Array.isArray(scoreboardData)
-          ? scoreboardData
-          : [scoreboardData];
-
-        for (const singleScoreboardData of scoreboardArray) {
-          if (!isRecord(singleScoreboardData)) continue;
-
-          const fc = (singleScoreboardData as any).fantasy_content;
-          if (!fc?.league || !Array.isArray(fc.league)) continue;
-
-          // Find scoreboard in league array
-          const scoreboardWrapper = fc.league.find(
-            (item: any) => isRecord(item) && item.scoreboard
-          );
-
-          if (!scoreboardWrapper?.scoreboard) continue;
-
-          // Yahoo wraps matchups in a "0" key
-          const scoreboardData = scoreboardWrapper.scoreboard["0"];
-          if (!scoreboardData?.matchups) continue;
-
-          const matchups = scoreboardData.matchups;
-
-          // Iterate through matchup weeks
-          for (const key in matchups) {
-            if (key === "count") continue;
-
-            const matchupWrapper = matchups[key]?.matchup;
-            if (!matchupWrapper || !isRecord(matchupWrapper)) continue;
-
-            // Week is at the top level of matchup object, not nested
-            const week = matchupWrapper.week
-              ? safeParseInt(matchupWrapper.week)
-              : 1;
-            const matchupTeams: any[] = [];
-
-            // matchup is an object with numeric keys for teams, plus metadata like "week", "status", etc
-            for (const matchupKey in matchupWrapper) {
-              // Skip non-team keys
-              if (
-                matchupKey === "count" ||
-                matchupKey === "week" ||
-                matchupKey === "week_start" ||
-                matchupKey === "week_end" ||
-                matchupKey === "status" ||
-                matchupKey === "is_playoffs" ||
-                matchupKey === "is_consolation" ||
-                matchupKey === "is_matchup_of_the_week" ||
-                matchupKey === "is_matchup_recap_available"
-              ) {
-                continue;
-              }
-
-              const item = matchupWrapper[matchupKey];
-              if (!isRecord(item)) continue;
-
-              // Check for teams
-              if (item.teams && isRecord(item.teams)) {
-                // teams is an object with numeric keys
-                for (const teamKey in item.teams) {
-                  if (teamKey === "count") continue;
-                  const teamWrapper = item.teams[teamKey];
-                  if (teamWrapper) {
-                    matchupTeams.push(teamWrapper);
-                  }
-                }
-              }
-            }
-
-            // Extract scores from teams
-            for (const teamWrapper of matchupTeams) {
-              if (!isRecord(teamWrapper) || !teamWrapper.team) continue;
-
-              const team = teamWrapper.team;
-              if (!Array.isArray(team) || team.length < 2) continue;
-
-              // team[0] is an array of team info objects (contains name)
-              // team[1] is an object with team_points
-              let teamName = "";
-              let teamPoints = 0;
-
-              // Extract name from team[0] array
-              const teamInfoArray = team[0];
-              if (Array.isArray(teamInfoArray)) {
-                for (const infoItem of teamInfoArray) {
-                  if (isRecord(infoItem) && infoItem.name) {
-                    teamName = String(infoItem.name);
-                    break;
-                  }
-                }
-              }
-
-              // Extract points from team[1] object
-              const teamStatsObj = team[1];
-              if (
-                isRecord(teamStatsObj) &&
-                teamStatsObj.team_points &&
-                isRecord(teamStatsObj.team_points)
-              ) {
-                teamPoints = safeParseFloat(
-                  (teamStatsObj.team_points as any).total
-                );
-              }
-
-              if (teamName && teamPoints > 0) {
-                points.push({
-                  week,
-                  teamName,
-                  score: teamPoints,
-                });
-              }
-            }
+      for (const matchup of normalizeMatchups(scoreboardData)) {
+        if (matchup.status === "preevent") continue;
+
+        for (const team of matchup.teams) {
+          if (team.name) {
+            points.push({
+              week: matchup.week,
+              teamKey: team.teamKey,
+              teamName: team.name,
+              score: team.points,
+            });
           }
         }
-      } catch (err) {
-        points = [];
-      }
-    }
-
-    // Fallback: generate synthetic scores if scoreboard parsing failed
-    if (points.length === 0) {
-      const random = options.useDeterministicScores
-        ? seededRandom(options.seed ?? 42)
-        : Math.random;
-
-      for (let week = 1; week <= endWeek; week++) {
-        for (const team of teams) {
-          const avgScore =
-            team.seasonTotal > 0 ? team.seasonTotal / endWeek : 100;
-          const variance = avgScore * 0.3;
-          const score = Math.round(avgScore + (random() - 0.5) * variance * 2);
-
-          points.push({
-            week,
-            teamName: team.name,
-            score: Math.max(50, score),
-          });
-        }
       }
     }
 
@@ -420,6 +562,44 @@ function isTeamRosterResponse(data: unknown): data is TeamRosterResponse {
   return true;
 }
 
+/**
+ * Find the players object in a team roster response
+ * Returns null if the response has no roster
+ */
+function findRosterPlayers(data: unknown): Record<string, unknown> | null {
+  if (!isTeamRosterResponse(data)) {
+    return null;
+  }
+
+  const team = data.fantasy_content.team;
+  const rosterWrapper = team[1];
+
+  if (!isRecord(rosterWrapper) || !rosterWrapper.roster) {
+    return null;
+  }
+
+  const roster = rosterWrapper.roster as any;
+
+  // Yahoo returns roster as an array-like object with numeric keys
+  // We need to find the actual roster data which might be at roster[0] or roster directly
+  let players;
+
+  if (roster.players) {
+    // Direct access
+    players = roster.players;
+  } else if (roster[0]?.players) {
+    // Nested in array-like structure
+    players = roster[0].players;
+  } else if (Array.isArray(roster) && roster[0]?.players) {
+    // Actually an array
+    players = roster[0].players;
+  } else {
+    return null;
+  }
+
+  return isRecord(players) ? players : null;
+}
+
 /**
  * Extract player info from the player info array
  */
@@ -453,6 +633,7 @@ function extractPlayerInfo(playerInfoArray: YahooPlayerInfo[]): {
 function parsePlayerWeekData(playerWrapper: YahooRosterPlayer): {
   playerInfo: ReturnType<typeof extractPlayerInfo>;
   projectedPoints: number;
+  hasProjection: boolean; // Yahoo sent projected points, even if zero
   actualPoints: number;
 } | null {
   if (!playerWrapper?.player || !Array.isArray(playerWrapper.player)) {
@@ -471,6 +652,7 @@ function parsePlayerWeekData(playerWrapper: YahooRosterPlayer): {
   // Yahoo returns these as additional elements in the player array
   // The rest array typically has: [player_points, player_projected_points, player_stats]
   let projectedPoints = 0;
+  let hasProjection = false;
   let actualPoints = 0;
 
   for (let i = 0; i < rest.length; i++) {
@@ -490,6 +672,7 @@ function parsePlayerWeekData(playerWrapper: YahooRosterPlayer): {
       ) {
         const pts = safeParseFloat(item.player_projected_points.total);
         projectedPoints = pts;
+        hasProjection = true;
       }
 
       // Legacy: Check if it's a player_points structure with coverage_type
@@ -518,16 +701,150 @@ function parsePlayerWeekData(playerWrapper: YahooRosterPlayer): {
     if (info?.player_projected_points?.total) {
       const pts = safeParseFloat(info.player_projected_points.total);
       projectedPoints = pts;
+      hasProjection = true;
     }
   }
 
   return {
     playerInfo,
     projectedPoints,
+    hasProjection,
     actualPoints,
   };
 }
 
+/**
+ * Read a position out of Yahoo's position shapes, which vary by endpoint:
+ * "WR", { position: "WR" } or [{ coverage_type }, { position: "WR" }]
+ */
+function extractPosition(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const position = extractPosition(item);
+      if (position) return position;
+    }
+    return "";
+  }
+  if (isRecord(value) && typeof value.position === "string") {
+    return value.position;
+  }
+  return "";
+}
+
+/**
+ * Read stat values keyed by stat ID from a player_stats.stats array
+ * Entries are { stat: { stat_id, value } }; non-numeric values like "-" are skipped
+ */
+function extractStatValues(value: unknown): { [statId: number]: number } {
+  const stats: { [statId: number]: number } = {};
+  if (!Array.isArray(value)) return stats;
+
+  for (const entry of value) {
+    const stat = isRecord(entry) && isRecord(entry.stat) ? entry.stat : entry;
+    if (!isRecord(stat)) continue;
+
+    const statId = safeParseInt(stat.stat_id, NaN);
+    const statValue = safeParseFloat(stat.value, NaN);
+    if (!isNaN(statId) && !isNaN(statValue)) {
+      stats[statId] = statValue;
+    }
+  }
+
+  return stats;
+}
+
+/**
+ * Normalize a single week's roster, including where each player was slotted
+ * Players appear as [infoArray, { selected_position }, { player_points }, ...]
+ */
+export function normalizeRoster(data: unknown): NormalizedRosterPlayer[] {
+  const players = findRosterPlayers(data);
+  if (!players) {
+    return [];
+  }
+
+  const roster: NormalizedRosterPlayer[] = [];
+
+  try {
+    for (const key in players) {
+      if (key === "count") continue;
+
+      const playerWrapper = players[key] as YahooRosterPlayer;
+      const parsed = parsePlayerWeekData(playerWrapper);
+      if (!parsed) continue;
+
+      // selected_position and eligible_positions can sit in the info array
+      // or in their own element of the player array
+      const items: unknown[] = [
+        ...(playerWrapper.player[0] as unknown[]),
+        ...playerWrapper.player.slice(1),
+      ];
+
+      let selectedPosition = "";
+      let eligiblePositions: string[] = [];
+      let stats: { [statId: number]: number } = {};
+
+      for (const item of items) {
+        if (!isRecord(item)) continue;
+        if (isRecord(item.player_stats)) {
+          stats = extractStatValues(item.player_stats.stats);
+        }
+        if (item.selected_position) {
+          selectedPosition = extractPosition(item.selected_position);
+        }
+        if (Array.isArray(item.eligible_positions)) {
+          eligiblePositions = item.eligible_positions
+            .map(extractPosition)
+            .filter((position) => position !== "");
+        }
+      }
+
+      const { playerInfo, actualPoints, projectedPoints, hasProjection } =
+        parsed;
+
+      roster.push({
+        playerKey: playerInfo.playerKey || `player-${playerInfo.playerId}`,
+        name: playerInfo.name,
+        position: playerInfo.position,
+        team: playerInfo.team,
+        eligiblePositions:
+          eligiblePositions.length > 0
+            ? eligiblePositions
+            : playerInfo.position.split(","),
+        selectedPosition: selectedPosition || "BN",
+        actualPoints,
+        ...(hasProjection && { projectedPoints }),
+        stats,
+      });
+    }
+  } catch (err) {
+    console.error("normalizeRoster error:", err);
+    return [];
+  }
+
+  return roster;
+}
+
+/**
+ * Read the team key and name from a team roster response
+ */
+export function normalizeRosterTeam(
+  data: unknown
+): { teamKey: string; name: string } | null {
+  if (!isTeamRosterResponse(data)) {
+    return null;
+  }
+
+  const teamInfoArray = data.fantasy_content.team[0];
+  if (!Array.isArray(teamInfoArray)) {
+    return null;
+  }
+
+  const { teamKey, name } = extractTeamInfo(teamInfoArray);
+  return { teamKey, name };
+}
+
 /**
  * Normalize player stats data from multiple weekly roster responses
  * Takes an array of roster responses (one per week) and combines them into a single stats view
@@ -549,37 +866,8 @@ export function normalizePlayerStats(
 
   try {
     for (const { week, data } of weeklyRosterResponses) {
-      if (!isTeamRosterResponse(data)) {
-        continue;
-      }
-
-      const team = data.fantasy_content.team;
-      const rosterWrapper = team[1];
-
-      if (!isRecord(rosterWrapper) || !rosterWrapper.roster) {
-        continue;
-      }
-
-      const roster = rosterWrapper.roster as any;
-
-      // Yahoo returns roster as an array-like object with numeric keys
-      // We need to find the actual roster data which might be at roster[0] or roster directly
-      let players;
-
-      if (roster.players) {
-        // Direct access
-        players = roster.players;
-      } else if (roster[0]?.players) {
-        // Nested in array-like structure
-        players = roster[0].players;
-      } else if (Array.isArray(roster) && roster[0]?.players) {
-        // Actually an array
-        players = roster[0].players;
-      } else {
-        continue;
-      }
-
-      if (!isRecord(players)) {
+      const players = findRosterPlayers(data);
+      if (!players) {
         continue;
       }
 
@@ -716,6 +1004,215 @@ export function normalizePlayerStats(
   }
 }
 
+/**
+ * Normalize league draft results, in pick order
+ * Structure: fantasy_content.league[1].draft_results["0".."n"].draft_result
+ */
+export function normalizeDraftResults(data: unknown): NormalizedDraftPick[] {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return [];
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return [];
+
+  const resultsWrapper = league.find(
+    (item) => isRecord(item) && isRecord(item.draft_results)
+  );
+  if (!resultsWrapper) return [];
+
+  const picks: NormalizedDraftPick[] = [];
+  for (const [key, wrapper] of Object.entries(resultsWrapper.draft_results)) {
+    if (key === "count") continue;
+
+    const result = isRecord(wrapper) ? wrapper.draft_result : null;
+    // Picks not yet made (predraft) have no player
+    if (!isRecord(result) || !result.player_key) continue;
+
+    const cost = safeParseInt(result.cost, NaN);
+    picks.push({
+      pick: safeParseInt(result.pick),
+      round: safeParseInt(result.round),
+      teamKey: String(result.team_key),
+      playerKey: String(result.player_key),
+      ...(!isNaN(cost) && { cost }),
+    });
+  }
+
+  picks.sort((a, b) => a.pick - b.pick);
+  return picks;
+}
+
+/**
+ * Normalize a league players collection requested with /stats;type=season
+ * Players appear as [infoArray, { player_stats }, { player_points }]
+ */
+export function normalizeLeaguePlayers(
+  data: unknown
+): NormalizedLeaguePlayer[] {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return [];
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return [];
+
+  const playersWrapper = league.find(
+    (item) => isRecord(item) && isRecord(item.players)
+  );
+  if (!playersWrapper) return [];
+
+  const players: NormalizedLeaguePlayer[] = [];
+  for (const [key, wrapper] of Object.entries(playersWrapper.players)) {
+    if (key === "count") continue;
+
+    const parsed = parsePlayerWeekData(wrapper as YahooRosterPlayer);
+    if (!parsed || !parsed.playerInfo.playerKey) continue;
+
+    players.push({
+      playerKey: parsed.playerInfo.playerKey,
+      name: parsed.playerInfo.name,
+      position: parsed.playerInfo.position,
+      team: parsed.playerInfo.team,
+      points: parsed.actualPoints,
+    });
+  }
+
+  return players;
+}
+
+/**
+ * Normalize the game week calendar
+ * Structure: fantasy_content.game[1].game_weeks["0".."n"].game_week
+ */
+export function normalizeGameWeeks(data: unknown): NormalizedGameWeek[] {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return [];
+
+  const game = data.fantasy_content.game;
+  if (!Array.isArray(game)) return [];
+
+  const weeksWrapper = game.find(
+    (item) => isRecord(item) && isRecord(item.game_weeks)
+  );
+  if (!weeksWrapper) return [];
+
+  const weeks: NormalizedGameWeek[] = [];
+  for (const [key, wrapper] of Object.entries(weeksWrapper.game_weeks)) {
+    if (key === "count") continue;
+
+    const gameWeek = isRecord(wrapper) ? wrapper.game_week : null;
+    if (!isRecord(gameWeek) || !gameWeek.start || !gameWeek.end) continue;
+
+    weeks.push({
+      week: safeParseInt(gameWeek.week),
+      start: String(gameWeek.start),
+      end: String(gameWeek.end),
+    });
+  }
+
+  weeks.sort((a, b) => a.week - b.week);
+  return weeks;
+}
+
+/**
+ * Read one player's move from a transaction player entry
+ * Entries are [infoArray, { transaction_data }] where transaction_data is an
+ * object, or an array of one object for adds
+ */
+function parseTransactionPlayer(
+  playerWrapper: unknown
+): NormalizedTransactionPlayer | null {
+  if (!isRecord(playerWrapper) || !Array.isArray(playerWrapper.player)) {
+    return null;
+  }
+
+  const [playerInfoArray, ...rest] = playerWrapper.player;
+  if (!Array.isArray(playerInfoArray)) return null;
+
+  const playerInfo = extractPlayerInfo(playerInfoArray as YahooPlayerInfo[]);
+
+  for (const item of rest) {
+    if (!isRecord(item) || !item.transaction_data) continue;
+
+    const moveData = Array.isArray(item.transaction_data)
+      ? item.transaction_data[0]
+      : item.transaction_data;
+    if (!isRecord(moveData)) continue;
+
+    const sourceTeamKey = String(moveData.source_team_key || "");
+    const sourceTeamName = String(moveData.source_team_name || "");
+    const destinationTeamKey = String(moveData.destination_team_key || "");
+    const destinationTeamName = String(moveData.destination_team_name || "");
+
+    return {
+      playerKey: playerInfo.playerKey,
+      name: playerInfo.name,
+      position: playerInfo.position,
+      team: playerInfo.team,
+      action: String(moveData.type || ""),
+      sourceType: String(moveData.source_type || ""),
+      ...(sourceTeamKey && { sourceTeamKey }),
+      ...(sourceTeamName && { sourceTeamName }),
+      destinationType: String(moveData.destination_type || ""),
+      ...(destinationTeamKey && { destinationTeamKey }),
+      ...(destinationTeamName && { destinationTeamName }),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a league transactions collection, newest first
+ * Structure: fantasy_content.league[1].transactions["0".."n"].transaction,
+ * each transaction being [metadata, { players }]
+ */
+export function normalizeTransactions(data: unknown): NormalizedTransaction[] {
+  if (!isRecord(data) || !isRecord(data.fantasy_content)) return [];
+
+  const league = data.fantasy_content.league;
+  if (!Array.isArray(league)) return [];
+
+  const transactionsWrapper = league.find(
+    (item) => isRecord(item) && isRecord(item.transactions)
+  );
+  if (!transactionsWrapper) return [];
+
+  const transactions: NormalizedTransaction[] = [];
+  for (const [key, wrapper] of Object.entries(
+    transactionsWrapper.transactions
+  )) {
+    if (key === "count") continue;
+
+    const transaction = isRecord(wrapper) ? wrapper.transaction : null;
+    if (!Array.isArray(transaction) || !isRecord(transaction[0])) continue;
+
+    const meta = transaction[0];
+    const players: NormalizedTransactionPlayer[] = [];
+    const playersWrapper = transaction.find(
+      (item) => isRecord(item) && isRecord(item.players)
+    );
+    if (playersWrapper) {
+      for (const [playerKey, playerWrapper] of Object.entries(
+        playersWrapper.players
+      )) {
+        if (playerKey === "count") continue;
+        const move = parseTransactionPlayer(playerWrapper);
+        if (move) players.push(move);
+      }
+    }
+
+    const faabBid = safeParseInt(meta.faab_bid, NaN);
+    transactions.push({
+      transactionKey: String(meta.transaction_key || ""),
+      type: String(meta.type || ""),
+      status: String(meta.status || ""),
+      timestamp: safeParseInt(meta.timestamp),
+      ...(!isNaN(faabBid) && { faabBid }),
+      players,
+    });
+  }
+
+  transactions.sort((a, b) => b.timestamp - a.timestamp);
+  return transactions;
+}
+
 /**
  * Normalize player search results from Yahoo API
  */
@@ -730,8 +1227,9 @@ export function normalizePlayerSearch(
       throw new Error("Invalid player search response structure");
     }
 
+    // Game-wide searches come back under game, league searches under league
     const fantasyContent = data.fantasy_content;
-    const game = fantasyContent.game;
+    const game = fantasyContent.game ?? fantasyContent.league;
 
     if (!Array.isArray(game)) {
       throw new Error("Game data is not an array");
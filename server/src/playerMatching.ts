@@ -0,0 +1,213 @@
+/**
+ * Yahoo -> Sleeper player matching
+ *
+ * Scores Sleeper players against a Yahoo player on name, position and NFL
+ * team. Names are normalized first so "D.J. Moore", "DJ Moore" and
+ * "Odell Beckham Jr." vs "Odell Beckham" line up, and common nicknames
+ * ("Mike" / "Michael") count as a near match.
+ */
+
+import type { SleeperPlayer } from "./SleeperService";
+
+export interface YahooPlayerIdentity {
+  playerId: string; // Yahoo player_id, stable across seasons
+  name: string;
+  position: string; // Yahoo display_position, e.g. "WR" or "RB,WR"
+  team?: string; // NFL team abbreviation, missing for free agents
+}
+
+export interface PlayerMatch {
+  player: SleeperPlayer;
+  confidence: number; // 0-1
+}
+
+// Below this the best candidate is treated as no match at all
+export const MIN_MATCH_CONFIDENCE = 0.6;
+
+const NAME_SUFFIXES = ["jr", "sr", "ii", "iii", "iv", "v"];
+
+// Nickname -> formal first name
+const NICKNAMES: { [nickname: string]: string } = {
+  alex: "alexander",
+  ben: "benjamin",
+  cam: "cameron",
+  chris: "christopher",
+  dan: "daniel",
+  danny: "daniel",
+  dave: "david",
+  gabe: "gabriel",
+  greg: "gregory",
+  jake: "jacob",
+  jeff: "jeffrey",
+  joe: "joseph",
+  jon: "jonathan",
+  josh: "joshua",
+  ken: "kenneth",
+  kenny: "kenneth",
+  matt: "matthew",
+  mike: "michael",
+  mitch: "mitchell",
+  nick: "nicholas",
+  pat: "patrick",
+  rob: "robert",
+  bob: "robert",
+  sam: "samuel",
+  steve: "steven",
+  tony: "anthony",
+  will: "william",
+  zach: "zachary",
+  zack: "zachary",
+};
+
+// Yahoo abbreviations that differ from Sleeper's
+const TEAM_ALIASES: { [abbr: string]: string } = {
+  JAC: "JAX",
+  WSH: "WAS",
+  LA: "LAR",
+};
+
+// Weights for the confidence score (sum to 1)
+const NAME_WEIGHT = 0.6;
+const POSITION_WEIGHT = 0.25;
+const TEAM_WEIGHT = 0.15;
+
+/**
+ * Lowercase, strip accents and punctuation, and drop suffixes like "Jr."
+ */
+export function normalizePlayerName(name: string): string {
+  return name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.'’]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((part) => part !== "" && !NAME_SUFFIXES.includes(part))
+    .join(" ");
+}
+
+export function normalizeTeam(team: string | null | undefined): string {
+  const abbr = (team || "").toUpperCase();
+  return TEAM_ALIASES[abbr] || abbr;
+}
+
+function lastName(normalizedName: string): string {
+  const parts = normalizedName.split(" ");
+  return parts[parts.length - 1];
+}
+
+/**
+ * How well two normalized names match: 1 for identical, less for nickname
+ * or initial matches on the same last name, 0 otherwise
+ */
+function scoreName(yahooName: string, sleeperName: string): number {
+  if (yahooName === sleeperName) return 1;
+
+  const yahooParts = yahooName.split(" ");
+  const sleeperParts = sleeperName.split(" ");
+  if (lastName(yahooName) !== lastName(sleeperName)) return 0;
+
+  const yahooFirst = yahooParts[0];
+  const sleeperFirst = sleeperParts[0];
+  if (
+    (NICKNAMES[yahooFirst] || yahooFirst) ===
+    (NICKNAMES[sleeperFirst] || sleeperFirst)
+  ) {
+    return 0.85;
+  }
+  if (yahooFirst[0] === sleeperFirst[0]) return 0.5;
+  return 0;
+}
+
+function positionsMatch(yahooPosition: string, player: SleeperPlayer): boolean {
+  const sleeperPositions = [
+    player.position,
+    ...(player.fantasy_positions || []),
+  ];
+  return yahooPosition
+    .split(",")
+    .some((position) => sleeperPositions.includes(position.trim()));
+}
+
+/**
+ * Index Sleeper players by normalized last name for fast candidate lookup
+ */
+export function buildNameIndex(
+  players: Iterable<SleeperPlayer>
+): Map<string, SleeperPlayer[]> {
+  const index = new Map<string, SleeperPlayer[]>();
+  for (const player of players) {
+    const fullName =
+      player.full_name || `${player.first_name} ${player.last_name}`;
+    const key = lastName(normalizePlayerName(fullName));
+    if (!key) continue;
+
+    const bucket = index.get(key) || [];
+    bucket.push(player);
+    index.set(key, bucket);
+  }
+  return index;
+}
+
+/**
+ * Every plausible Sleeper match for a Yahoo player, best first
+ *
+ * When the top candidates are tied, the only active one among them wins.
+ * Otherwise picking any one of them is a guess, so every candidate's
+ * confidence is capped at half the tied score.
+ */
+export function rankCandidates(
+  yahoo: YahooPlayerIdentity,
+  players: Iterable<SleeperPlayer>,
+  nameIndex: Map<string, SleeperPlayer[]>
+): PlayerMatch[] {
+  const team = normalizeTeam(yahoo.team);
+
+  // Team defenses use the team abbreviation as their Sleeper ID
+  if (yahoo.position === "DEF") {
+    for (const player of players) {
+      if (player.position === "DEF" && normalizeTeam(player.team) === team) {
+        return [{ player, confidence: 1 }];
+      }
+    }
+    return [];
+  }
+
+  const yahooName = normalizePlayerName(yahoo.name);
+  const candidates = nameIndex.get(lastName(yahooName)) || [];
+
+  const matches: PlayerMatch[] = [];
+  for (const player of candidates) {
+    const fullName =
+      player.full_name || `${player.first_name} ${player.last_name}`;
+    const nameScore = scoreName(yahooName, normalizePlayerName(fullName));
+    if (nameScore === 0) continue;
+
+    const confidence =
+      nameScore * NAME_WEIGHT +
+      (positionsMatch(yahoo.position, player) ? POSITION_WEIGHT : 0) +
+      (team !== "" && normalizeTeam(player.team) === team ? TEAM_WEIGHT : 0);
+
+    matches.push({ player, confidence });
+  }
+
+  const isActive = (m: PlayerMatch) => m.player.status === "Active";
+  matches.sort(
+    (a, b) =>
+      b.confidence - a.confidence || Number(isActive(b)) - Number(isActive(a))
+  );
+
+  const best = matches[0]?.confidence;
+  const tied = matches.filter((m) => m.confidence === best);
+  if (tied.length > 1 && tied.filter(isActive).length !== 1) {
+    // No way to tell them apart: cap everyone so nobody is trusted, without
+    // moving a weaker candidate ahead of the tied ones
+    return matches.map((m) => ({
+      ...m,
+      confidence: Math.min(m.confidence, best / 2),
+    }));
+  }
+
+  return matches;
+}
@@ -0,0 +1,203 @@
+/**
+ * Monte Carlo playoff odds
+ *
+ * Plays out the rest of the regular season thousands of times. Each team's
+ * weekly score is drawn from a normal distribution fit to its completed weeks,
+ * and teams are seeded by record with points for as the tiebreaker.
+ */
+
+import type { NormalizedMatchup } from "./yahoo-types";
+import type { TeamPlayoffOdds } from "./models";
+
+export interface PlayoffFormat {
+  regularSeasonEndWeek: number;
+  numPlayoffTeams: number;
+  numPlayoffByes: number;
+}
+
+interface ScoreDistribution {
+  mean: number;
+  stdDev: number;
+}
+
+/**
+ * Number of first-round byes for a bracket, i.e. how many teams short of a
+ * power of two the bracket is (6 teams -> 2 byes, 4 or 8 teams -> none)
+ */
+export function getPlayoffByes(numPlayoffTeams: number): number {
+  if (numPlayoffTeams <= 1) return 0;
+  let bracketSize = 1;
+  while (bracketSize < numPlayoffTeams) bracketSize *= 2;
+  return bracketSize - numPlayoffTeams;
+}
+
+/**
+ * Standard normal sample (Box-Muller transform)
+ */
+function randomNormal(): number {
+  let u = 0;
+  while (u === 0) u = Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function fitDistribution(scores: number[]): ScoreDistribution {
+  const mean = scores.reduce((sum, s) => sum + s, 0) / scores.length;
+  const variance =
+    scores.length > 1
+      ? scores.reduce((sum, s) => sum + (s - mean) ** 2, 0) /
+        (scores.length - 1)
+      : 0;
+  return { mean, stdDev: Math.sqrt(variance) };
+}
+
+/**
+ * Simulate the remainder of the regular season
+ *
+ * @param matchups Every matchup of the season (past and future)
+ * @param format Regular season length and playoff bracket
+ * @param throughWeek Treat weeks up to and including this one as played;
+ *   later weeks are simulated even if they already have results
+ * @param simulations Number of seasons to simulate
+ */
+export function simulatePlayoffOdds(
+  matchups: NormalizedMatchup[],
+  format: PlayoffFormat,
+  throughWeek: number,
+  simulations: number
+): TeamPlayoffOdds[] {
+  const regularSeason = matchups.filter(
+    (m) => m.week <= format.regularSeasonEndWeek && m.teams.length === 2
+  );
+
+  // Index teams so the hot loop can work on plain arrays
+  const teamIndex = new Map<string, number>();
+  const teamNames: string[] = [];
+  for (const matchup of regularSeason) {
+    for (const team of matchup.teams) {
+      if (!teamIndex.has(team.teamKey)) {
+        teamIndex.set(team.teamKey, teamNames.length);
+        teamNames.push(team.name);
+      }
+    }
+  }
+
+  const numTeams = teamNames.length;
+  const wins = new Array<number>(numTeams).fill(0);
+  const losses = new Array<number>(numTeams).fill(0);
+  const ties = new Array<number>(numTeams).fill(0);
+  const pointsFor = new Array<number>(numTeams).fill(0);
+  const history: number[][] = teamNames.map(() => []);
+  const remaining: Array<[number, number]> = [];
+
+  // Tally completed games and collect the games left to play
+  for (const matchup of regularSeason) {
+    const [a, b] = matchup.teams.map((t) => teamIndex.get(t.teamKey)!);
+    const isPlayed =
+      matchup.week <= throughWeek && matchup.status === "postevent";
+
+    if (!isPlayed) {
+      remaining.push([a, b]);
+      continue;
+    }
+
+    const [scoreA, scoreB] = matchup.teams.map((t) => t.points);
+    pointsFor[a] += scoreA;
+    pointsFor[b] += scoreB;
+    history[a].push(scoreA);
+    history[b].push(scoreB);
+
+    if (scoreA > scoreB) {
+      wins[a]++;
+      losses[b]++;
+    } else if (scoreB > scoreA) {
+      wins[b]++;
+      losses[a]++;
+    } else {
+      ties[a]++;
+      ties[b]++;
+    }
+  }
+
+  // Fit each team's scoring distribution, falling back to the league-wide one
+  // for teams without enough history. With no games played at all every team
+  // is identical, so each game is a coin flip.
+  const allScores = history.flat();
+  const league: ScoreDistribution =
+    allScores.length > 1 ? fitDistribution(allScores) : { mean: 0, stdDev: 1 };
+  const distributions = history.map((scores) => {
+    if (scores.length < 2) return league;
+    const fit = fitDistribution(scores);
+    return { mean: fit.mean, stdDev: fit.stdDev || league.stdDev };
+  });
+
+  const seedCounts: number[][] = teamNames.map(() =>
+    new Array<number>(numTeams).fill(0)
+  );
+  const winTotals = new Array<number>(numTeams).fill(0);
+  const order = teamNames.map((_, i) => i);
+
+  for (let sim = 0; sim < simulations; sim++) {
+    const simWins = wins.slice();
+    const simTies = ties.slice();
+    const simPoints = pointsFor.slice();
+
+    for (const [a, b] of remaining) {
+      const scoreA =
+        distributions[a].mean + randomNormal() * distributions[a].stdDev;
+      const scoreB =
+        distributions[b].mean + randomNormal() * distributions[b].stdDev;
+
+      simPoints[a] += scoreA;
+      simPoints[b] += scoreB;
+
+      if (scoreA > scoreB) simWins[a]++;
+      else if (scoreB > scoreA) simWins[b]++;
+      else {
+        simTies[a]++;
+        simTies[b]++;
+      }
+    }
+
+    // Seed by record, points for breaks ties
+    order.sort(
+      (x, y) =>
+        simWins[y] + simTies[y] / 2 - (simWins[x] + simTies[x] / 2) ||
+        simPoints[y] - simPoints[x]
+    );
+
+    order.forEach((team, seed) => {
+      seedCounts[team][seed]++;
+      winTotals[team] += simWins[team];
+    });
+  }
+
+  const toPercent = (count: number) =>
+    simulations > 0 ? (count / simulations) * 100 : 0;
+
+  const results: TeamPlayoffOdds[] = [];
+  for (const [teamKey, i] of teamIndex) {
+    const seedOdds = seedCounts[i].map(toPercent);
+    results.push({
+      teamKey,
+      teamName: teamNames[i],
+      wins: wins[i],
+      losses: losses[i],
+      ties: ties[i],
+      pointsFor: pointsFor[i],
+      projectedWins: simulations > 0 ? winTotals[i] / simulations : wins[i],
+      playoffOdds: seedOdds
+        .slice(0, format.numPlayoffTeams)
+        .reduce((sum, p) => sum + p, 0),
+      byeOdds: seedOdds
+        .slice(0, format.numPlayoffByes)
+        .reduce((sum, p) => sum + p, 0),
+      seedOdds,
+    });
+  }
+
+  results.sort(
+    (a, b) => b.playoffOdds - a.playoffOdds || b.projectedWins - a.projectedWins
+  );
+  return results;
+}
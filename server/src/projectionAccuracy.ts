@@ -0,0 +1,168 @@
+/**
+ * How well weekly projections predicted the points players actually scored
+ *
+ * Each source is scored on the player-weeks it projected, overall and broken
+ * down by position, week and how many points were projected. Calibration
+ * buckets compare the average projection in a range to the average result:
+ * a well calibrated source scores about what it projects in every bucket.
+ */
+
+import type {
+  CalibrationBucket,
+  PositionAccuracy,
+  ProjectionAccuracy,
+  ProjectionSourceKind,
+  ProjectionSourceReport,
+  TierAccuracy,
+  WeekAccuracy,
+} from "./models";
+
+export interface ProjectedResult {
+  week: number;
+  position: string;
+  projected: number;
+  actual: number;
+}
+
+/**
+ * A player-week in the pool being measured: rostered players and free agents
+ * Projections missing from a source (byes, unmatched players) are undefined
+ */
+export interface PooledPlayerWeek {
+  week: number;
+  position: string;
+  actual: number;
+  sleeper?: number;
+  yahoo?: number;
+  // How to find the player in imported projections
+  lookup: { playerId?: string; name: string; position: string };
+}
+
+// Upper bounds of the projected-points tiers; the last tier is open ended
+const TIER_BOUNDS = [5, 10, 15, 20];
+
+// Calibration buckets are this many points wide up to the last one
+const CALIBRATION_BUCKET_POINTS = 3;
+const CALIBRATION_MAX_POINTS = 30;
+
+export function summarizeAccuracy(
+  results: ProjectedResult[]
+): ProjectionAccuracy {
+  const samples = results.length;
+  if (samples === 0) {
+    return { samples, mae: 0, rmse: 0, bias: 0, r2: 0 };
+  }
+
+  let absoluteError = 0;
+  let squaredError = 0;
+  let error = 0;
+  let actualTotal = 0;
+  for (const r of results) {
+    absoluteError += Math.abs(r.projected - r.actual);
+    squaredError += (r.projected - r.actual) ** 2;
+    error += r.projected - r.actual;
+    actualTotal += r.actual;
+  }
+
+  const actualMean = actualTotal / samples;
+  const actualVariance = results.reduce(
+    (sum, r) => sum + (r.actual - actualMean) ** 2,
+    0
+  );
+
+  return {
+    samples,
+    mae: absoluteError / samples,
+    rmse: Math.sqrt(squaredError / samples),
+    bias: error / samples,
+    // Undefined when every result is the same; call that no skill
+    r2: actualVariance > 0 ? 1 - squaredError / actualVariance : 0,
+  };
+}
+
+function groupBy<K>(
+  results: ProjectedResult[],
+  key: (r: ProjectedResult) => K
+): Map<K, ProjectedResult[]> {
+  const groups = new Map<K, ProjectedResult[]>();
+  for (const result of results) {
+    const k = key(result);
+    if (!groups.has(k)) groups.set(k, []);
+    groups.get(k)!.push(result);
+  }
+  return groups;
+}
+
+function tierAccuracy(results: ProjectedResult[]): TierAccuracy[] {
+  const lowerBounds = [0, ...TIER_BOUNDS];
+  return lowerBounds.map((min, i) => {
+    const max = TIER_BOUNDS[i];
+    const inTier = results.filter(
+      (r) =>
+        (i === 0 || r.projected >= min) &&
+        (max === undefined || r.projected < max)
+    );
+    return {
+      tier: max === undefined ? `${min}+` : `${min}-${max}`,
+      minProjected: min,
+      ...(max !== undefined && { maxProjected: max }),
+      ...summarizeAccuracy(inTier),
+    };
+  });
+}
+
+/**
+ * Average projection and result per projected-points bucket, leaving out
+ * empty buckets
+ */
+export function calibrate(results: ProjectedResult[]): CalibrationBucket[] {
+  const lastBucket = CALIBRATION_MAX_POINTS / CALIBRATION_BUCKET_POINTS;
+  const buckets = groupBy(results, (r) =>
+    Math.min(Math.floor(r.projected / CALIBRATION_BUCKET_POINTS), lastBucket)
+  );
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([bucket, inBucket]) => ({
+      minProjected: bucket * CALIBRATION_BUCKET_POINTS,
+      ...(bucket < lastBucket && {
+        maxProjected: (bucket + 1) * CALIBRATION_BUCKET_POINTS,
+      }),
+      samples: inBucket.length,
+      averageProjected:
+        inBucket.reduce((sum, r) => sum + r.projected, 0) / inBucket.length,
+      averageActual:
+        inBucket.reduce((sum, r) => sum + r.actual, 0) / inBucket.length,
+    }));
+}
+
+/**
+ * Everything the projection report shows for one source
+ */
+export function buildSourceReport(
+  source: string,
+  kind: ProjectionSourceKind,
+  results: ProjectedResult[]
+): ProjectionSourceReport {
+  const byPosition: PositionAccuracy[] = Array.from(
+    groupBy(results, (r) => r.position).entries()
+  )
+    .map(([position, group]) => ({ position, ...summarizeAccuracy(group) }))
+    .sort((a, b) => a.position.localeCompare(b.position));
+
+  const byWeek: WeekAccuracy[] = Array.from(
+    groupBy(results, (r) => r.week).entries()
+  )
+    .map(([week, group]) => ({ week, ...summarizeAccuracy(group) }))
+    .sort((a, b) => a.week - b.week);
+
+  return {
+    source,
+    kind,
+    overall: summarizeAccuracy(results),
+    byPosition,
+    byWeek,
+    byTier: tierAccuracy(results),
+    calibration: calibrate(results),
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Projections imported from CSV
+ *
+ * Any projection source can be compared with Sleeper and Yahoo by uploading
+ * it as CSV, one row per player and week, in the league's points:
+ *
+ *   week,player_id,name,position,points
+ *   3,30123,Patrick Mahomes,QB,21.4
+ *
+ * week and points are required, plus a Yahoo player_id or a name. Rows are
+ * matched to rostered players when the report runs, by player_id or else by
+ * name and position.
+ */
+
+import { ValidationError } from "./errors";
+import type { ImportedProjection } from "./storage";
+import { normalizePlayerName } from "./playerMatching";
+
+export type ImportedProjectionRow = Omit<ImportedProjection, "source">;
+
+// Files bigger than a full season of every fantasy-relevant player are a mistake
+const MAX_ROWS = 20000;
+
+/**
+ * Split a CSV line into fields; fields may be double quoted, with "" for a quote
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      fields.push(field.trim());
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+/**
+ * Parse an uploaded projections file, rejecting it whole on the first bad row
+ */
+export function parseProjectionCsv(csv: string): ImportedProjectionRow[] {
+  const lines = csv.split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length < 2) {
+    throw new ValidationError(
+      "The CSV needs a header row and at least one projection"
+    );
+  }
+  if (lines.length - 1 > MAX_ROWS) {
+    throw new ValidationError(`The CSV can have at most ${MAX_ROWS} rows`);
+  }
+
+  const header = splitCsvLine(lines[0]).map((h) => h.toLowerCase());
+  const weekColumn = header.indexOf("week");
+  const pointsColumn = header.indexOf("points");
+  const idColumn = header.indexOf("player_id");
+  const nameColumn = header.indexOf("name");
+  const positionColumn = header.indexOf("position");
+
+  if (weekColumn < 0 || pointsColumn < 0) {
+    throw new ValidationError("The CSV header needs week and points columns");
+  }
+  if (idColumn < 0 && nameColumn < 0) {
+    throw new ValidationError(
+      "The CSV header needs a player_id or name column"
+    );
+  }
+
+  return lines.slice(1).map((line, i) => {
+    const fields = splitCsvLine(line);
+    const field = (column: number) => (column >= 0 && fields[column]) || null;
+    const lineNumber = i + 2;
+
+    const week = Number(field(weekColumn));
+    if (!Number.isInteger(week) || week < 1) {
+      throw new ValidationError(
+        `Line ${lineNumber}: week must be a whole number`
+      );
+    }
+    const points = Number(field(pointsColumn) ?? NaN);
+    if (!Number.isFinite(points)) {
+      throw new ValidationError(`Line ${lineNumber}: points must be a number`);
+    }
+
+    const playerId = field(idColumn);
+    const name = field(nameColumn);
+    if (!playerId && !name) {
+      throw new ValidationError(
+        `Line ${lineNumber}: needs a player_id or name`
+      );
+    }
+
+    return {
+      week,
+      playerId,
+      name,
+      position: field(positionColumn)?.toUpperCase() ?? null,
+      points,
+    };
+  });
+}
+
+/**
+ * One source's imported projections, looked up for Yahoo players
+ */
+export class ImportedProjectionIndex {
+  private points = new Map<string, number>();
+
+  constructor(rows: ImportedProjectionRow[]) {
+    for (const row of rows) {
+      if (row.playerId) {
+        this.points.set(`${row.week}:id:${row.playerId}`, row.points);
+      } else if (row.name) {
+        const name = normalizePlayerName(row.name);
+        this.points.set(
+          `${row.week}:name:${name}:${row.position || ""}`,
+          row.points
+        );
+      }
+    }
+  }
+
+  /**
+   * By Yahoo player_id when the player has one, then by name and position,
+   * then by name alone for files without positions
+   */
+  get(
+    week: number,
+    player: { playerId?: string; name: string; position: string }
+  ): number | undefined {
+    const name = normalizePlayerName(player.name);
+    return (
+      (player.playerId !== undefined
+        ? this.points.get(`${week}:id:${player.playerId}`)
+        : undefined) ??
+      this.points.get(`${week}:name:${name}:${player.position}`) ??
+      this.points.get(`${week}:name:${name}:`)
+    );
+  }
+}
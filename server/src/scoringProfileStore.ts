@@ -0,0 +1,85 @@
+/**
+ * Scoring Profile Store, persisted in the database
+ *
+ * Named "what-if" scoring profiles, e.g. "full PPR" or "TE premium". A profile
+ * only lists the stats it changes; everything else keeps the league's own
+ * scoring from FantasyPointsCalculator.getScoringRules.
+ */
+
+import { Conflict } from "./errors";
+import { ScoringProfile, ScoringProfileInput } from "./models";
+import { storage } from "./storage";
+
+/**
+ * Turn a profile name into its ID, e.g. "Full PPR!" -> "full-ppr"
+ */
+export function slugifyProfileName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+class ScoringProfileStore {
+  /**
+   * All profiles, sorted by name
+   */
+  list(): ScoringProfile[] {
+    return storage.getScoringProfiles();
+  }
+
+  get(id: string): ScoringProfile | null {
+    return storage.getScoringProfile(id);
+  }
+
+  /**
+   * Create a profile, its ID derived from the name
+   */
+  create(input: ScoringProfileInput): ScoringProfile {
+    const id = slugifyProfileName(input.name);
+    if (storage.getScoringProfile(id)) {
+      throw new Conflict(
+        `A scoring profile named "${input.name}" already exists`
+      );
+    }
+
+    const now = new Date().toISOString();
+    const profile: ScoringProfile = {
+      ...input,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    storage.saveScoringProfile(profile);
+    return profile;
+  }
+
+  /**
+   * Replace a profile's name and rules; its ID stays the same so saved
+   * links keep working
+   */
+  update(id: string, input: ScoringProfileInput): ScoringProfile | null {
+    const existing = storage.getScoringProfile(id);
+    if (!existing) {
+      return null;
+    }
+
+    const profile: ScoringProfile = {
+      ...input,
+      id,
+      createdAt: existing.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+
+    storage.saveScoringProfile(profile);
+    return profile;
+  }
+
+  delete(id: string): boolean {
+    return storage.deleteScoringProfile(id);
+  }
+}
+
+// Singleton instance
+export const scoringProfileStore = new ScoringProfileStore();
@@ -0,0 +1,158 @@
+/**
+ * Shared league links
+ *
+ * A connected user can publish a league at /s/{slug} for leaguemates who
+ * aren't signed in. Visitors get read-only standings, the weekly chart and
+ * matchups: "live" links fetch them with the owner's token (tokenStore keeps
+ * it refreshed), "snapshot" links serve what was fetched when the link was
+ * created. Owners can list and revoke their links.
+ */
+
+import crypto from "crypto";
+import { FantasyService } from "./FantasyService";
+import {
+  LeagueResponse,
+  MatchupsResponse,
+  ShareLink,
+  ShareLinkInput,
+  SharedLeagueResponse,
+} from "./models";
+import { storage, StoredShareLink } from "./storage";
+import { tokenStore } from "./tokenStore";
+import { NotFound, UpstreamError } from "./errors";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ShareLinkSnapshot {
+  league: LeagueResponse;
+  matchups: MatchupsResponse;
+}
+
+function isExpired(link: StoredShareLink): boolean {
+  return link.expiresAt !== null && link.expiresAt <= Date.now();
+}
+
+function describeLink(link: StoredShareLink): ShareLink {
+  return {
+    slug: link.slug,
+    path: `/s/${link.slug}`,
+    leagueKey: link.leagueKey,
+    leagueName: link.leagueName,
+    mode: link.mode,
+    createdAt: new Date(link.createdAt).toISOString(),
+    expiresAt: link.expiresAt ? new Date(link.expiresAt).toISOString() : null,
+    expired: isExpired(link),
+  };
+}
+
+export class ShareLinkService {
+  private fantasyService = new FantasyService();
+
+  /**
+   * Publish a league; snapshot links fetch everything now
+   */
+  async create(
+    ownerUserId: string,
+    accessToken: string,
+    input: ShareLinkInput
+  ): Promise<ShareLink> {
+    const league = await this.fantasyService.getLeague(
+      input.leagueKey,
+      accessToken
+    );
+    const snapshot =
+      input.mode === "snapshot"
+        ? {
+            league,
+            matchups: await this.fantasyService.getMatchups(
+              input.leagueKey,
+              accessToken
+            ),
+          }
+        : null;
+
+    const now = Date.now();
+    const link: StoredShareLink = {
+      slug: crypto.randomBytes(9).toString("base64url"), // 12 URL-safe characters
+      ownerUserId,
+      leagueKey: input.leagueKey,
+      leagueName: league.name,
+      mode: input.mode,
+      snapshot,
+      createdAt: now,
+      expiresAt: input.expiresInDays
+        ? now + input.expiresInDays * DAY_MS
+        : null,
+    };
+    storage.saveShareLink(link);
+    console.log(
+      `[share] ${ownerUserId} shared ${link.leagueKey} as ${link.slug} (${link.mode})`
+    );
+    return describeLink(link);
+  }
+
+  list(ownerUserId: string): ShareLink[] {
+    return storage.getShareLinksByOwner(ownerUserId).map(describeLink);
+  }
+
+  revoke(ownerUserId: string, slug: string) {
+    if (!storage.deleteShareLink(slug, ownerUserId)) {
+      throw new NotFound(`Share link not found: ${slug}`);
+    }
+    console.log(`[share] ${ownerUserId} revoked ${slug}`);
+  }
+
+  async getLeague(slug: string): Promise<SharedLeagueResponse> {
+    const link = this.resolve(slug);
+    const league = link.snapshot
+      ? link.snapshot.league
+      : await this.fantasyService.getLeague(
+          link.leagueKey,
+          await this.ownerAccessToken(link)
+        );
+    return { link: describeLink(link), league };
+  }
+
+  async getMatchups(slug: string, week?: number): Promise<MatchupsResponse> {
+    const link = this.resolve(slug);
+    if (!link.snapshot) {
+      return this.fantasyService.getMatchups(
+        link.leagueKey,
+        await this.ownerAccessToken(link),
+        week
+      );
+    }
+
+    const { matchups } = link.snapshot;
+    return week === undefined
+      ? matchups
+      : {
+          ...matchups,
+          matchups: matchups.matchups.filter((m) => m.week === week),
+        };
+  }
+
+  /**
+   * The link behind a public slug; expired links look the same as missing ones
+   */
+  private resolve(slug: string): StoredShareLink {
+    const link = storage.getShareLink(slug);
+    if (!link || isExpired(link)) {
+      throw new NotFound("Share link not found or expired");
+    }
+    return link;
+  }
+
+  private async ownerAccessToken(link: StoredShareLink): Promise<string> {
+    const accessToken = await tokenStore.getAccessToken(link.ownerUserId);
+    if (!accessToken) {
+      throw new UpstreamError(
+        "This league can't be loaded until whoever shared it reconnects Yahoo"
+      );
+    }
+    return accessToken;
+  }
+}
+
+// Singleton instance
+export const shareLinkService = new ShareLinkService();
@@ -0,0 +1,177 @@
+/**
+ * Yahoo stat ID -> Sleeper stat mapping
+ *
+ * Yahoo scoring rules are keyed by stat ID, Sleeper stat lines by name. Most
+ * Yahoo stats are a single Sleeper field, some are the sum of several (2-point
+ * conversions, return TDs) and the points/yards allowed tiers are derived
+ * from the team's totals.
+ *
+ * Yahoo stat IDs are listed by GET /game/nfl/stat_categories
+ */
+
+export interface SleeperStatLine {
+  [stat: string]: number | undefined;
+}
+
+export interface StatMapping {
+  stat: string; // Label for the points breakdown
+  value: (stats: SleeperStatLine) => number | undefined;
+}
+
+/**
+ * A single Sleeper field
+ */
+function field(key: string): StatMapping {
+  return { stat: key, value: (stats) => stats[key] };
+}
+
+/**
+ * Sum of Sleeper fields, undefined if none are present
+ */
+function sum(label: string, ...keys: string[]): StatMapping {
+  return {
+    stat: label,
+    value: (stats) => {
+      const present = keys.filter((key) => stats[key] !== undefined);
+      if (present.length === 0) return undefined;
+      return present.reduce((total, key) => total + (stats[key] || 0), 0);
+    },
+  };
+}
+
+/**
+ * 1 if a team total falls in [min, max], 0 if it doesn't, undefined when the
+ * team didn't play (bye week). Projected totals are fractional, so they're
+ * rounded to the nearest whole point or yard first.
+ */
+function tier(
+  label: string,
+  key: string,
+  min: number,
+  max: number
+): StatMapping {
+  return {
+    stat: label,
+    value: (stats) => {
+      const total = stats[key];
+      if (total === undefined) return undefined;
+      const rounded = Math.round(total);
+      return rounded >= min && rounded <= max ? 1 : 0;
+    },
+  };
+}
+
+/**
+ * Team defense stat names overlap with offensive ones (a receiver can recover
+ * a fumble too), so only count them on team defense stat lines, which are
+ * the only ones with points allowed
+ */
+function teamDefense(mapping: StatMapping): StatMapping {
+  return {
+    stat: mapping.stat,
+    value: (stats) =>
+      stats.pts_allow === undefined ? undefined : mapping.value(stats),
+  };
+}
+
+export const YAHOO_STAT_MAPPINGS: { [yahooStatId: number]: StatMapping } = {
+  // Passing
+  1: field("pass_att"),
+  2: field("pass_cmp"),
+  3: field("pass_inc"),
+  4: field("pass_yd"),
+  5: field("pass_td"),
+  6: field("pass_int"),
+  7: field("pass_sack"), // Sacks taken
+  58: field("pass_int_td"), // Pick sixes thrown
+  59: field("pass_cmp_40p"),
+  60: field("pass_td_40p"),
+  79: field("pass_fd"),
+
+  // Rushing
+  8: field("rush_att"),
+  9: field("rush_yd"),
+  10: field("rush_td"),
+  61: field("rush_40p"),
+  62: field("rush_td_40p"),
+  81: field("rush_fd"),
+
+  // Receiving
+  11: field("rec"),
+  12: field("rec_yd"),
+  13: field("rec_td"),
+  63: field("rec_40p"),
+  64: field("rec_td_40p"),
+  78: field("rec_tgt"),
+  80: field("rec_fd"),
+
+  // Returns, 2-point conversions and fumbles
+  14: sum("ret_yd", "kr_yd", "pr_yd"),
+  15: sum("ret_td", "kr_td", "pr_td"),
+  16: sum("two_pt", "pass_2pt", "rush_2pt", "rec_2pt"),
+  17: field("fum"),
+  18: field("fum_lost"),
+  57: field("fum_rec_td"), // Offensive fumble return TD
+
+  // Kicking: made and missed field goals by distance, PATs
+  19: field("fgm_0_19"),
+  20: field("fgm_20_29"),
+  21: field("fgm_30_39"),
+  22: field("fgm_40_49"),
+  23: field("fgm_50p"),
+  24: field("fgmiss_0_19"),
+  25: field("fgmiss_20_29"),
+  26: field("fgmiss_30_39"),
+  27: field("fgmiss_40_49"),
+  28: field("fgmiss_50p"),
+  29: field("xpm"),
+  30: field("xpmiss"),
+  84: field("fgm_yds"),
+
+  // Team defense / special teams
+  31: field("pts_allow"),
+  32: teamDefense(field("sack")),
+  33: teamDefense(field("int")),
+  34: teamDefense(field("fum_rec")),
+  35: teamDefense(field("def_td")),
+  36: teamDefense(field("safe")),
+  37: teamDefense(field("blk_kick")),
+  48: teamDefense(sum("def_ret_yd", "def_kr_yd", "def_pr_yd")),
+  49: teamDefense(field("def_st_td")),
+  67: teamDefense(field("def_4_and_stop")),
+  68: teamDefense(field("tkl_loss")),
+  69: field("yds_allow"),
+  77: teamDefense(field("def_3_and_out")),
+  82: teamDefense(field("def_2pt")), // Extra point / 2-point attempt returned
+
+  // Points allowed tiers
+  50: tier("pts_allow_0", "pts_allow", 0, 0),
+  51: tier("pts_allow_1_6", "pts_allow", 1, 6),
+  52: tier("pts_allow_7_13", "pts_allow", 7, 13),
+  53: tier("pts_allow_14_20", "pts_allow", 14, 20),
+  54: tier("pts_allow_21_27", "pts_allow", 21, 27),
+  55: tier("pts_allow_28_34", "pts_allow", 28, 34),
+  56: tier("pts_allow_35p", "pts_allow", 35, Infinity),
+
+  // Yards allowed tiers
+  70: tier("yds_allow_neg", "yds_allow", -Infinity, -1),
+  71: tier("yds_allow_0_99", "yds_allow", 0, 99),
+  72: tier("yds_allow_100_199", "yds_allow", 100, 199),
+  73: tier("yds_allow_200_299", "yds_allow", 200, 299),
+  74: tier("yds_allow_300_399", "yds_allow", 300, 399),
+  75: tier("yds_allow_400_499", "yds_allow", 400, 499),
+  76: tier("yds_allow_500p", "yds_allow", 500, Infinity),
+
+  // Individual defensive players (IDP)
+  38: field("idp_tkl_solo"),
+  39: field("idp_tkl_ast"),
+  40: field("idp_sack"),
+  41: field("idp_int"),
+  42: field("idp_ff"),
+  43: field("idp_fum_rec"),
+  44: field("idp_def_td"),
+  45: field("idp_safe"),
+  46: field("idp_pass_def"),
+  47: field("idp_blk_kick"),
+  65: field("idp_tkl_loss"),
+};
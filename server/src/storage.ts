@@ -0,0 +1,857 @@
+/**
+ * Storage layer over the SQLite database
+ *
+ * Every service reads and writes persisted data through here instead of its
+ * own JSON files. Cache freshness (TTLs) stays with the callers: reads return
+ * the data along with when it was fetched.
+ */
+
+import type Database from "better-sqlite3";
+import { openDatabase } from "./database";
+import {
+  describeImport,
+  importJsonCacheOnce,
+  JSON_CACHE_DIR,
+} from "./importJsonCache";
+import type {
+  CrosswalkEntry,
+  SleeperPlayer,
+  SleeperStats,
+} from "./SleeperService";
+import type { StoredToken } from "./tokenStore";
+import type {
+  ScoringProfile,
+  ShareLinkMode,
+  WinProbabilityPoint,
+} from "./models";
+import type { ShareLinkSnapshot } from "./shareLinks";
+import { createTokenCipher, TokenCipher } from "./tokenCipher";
+
+export type WeeklyStatsKind = "stats" | "projections";
+
+export interface Fetched<T> {
+  data: T;
+  fetchedAt: number;
+}
+
+// Table per kind; never built from request input
+const WEEKLY_TABLES: { [kind in WeeklyStatsKind]: string } = {
+  stats: "weekly_stats",
+  projections: "weekly_projections",
+};
+
+interface PlayerRow {
+  player_id: string;
+  full_name: string | null;
+  first_name: string | null;
+  last_name: string | null;
+  position: string | null;
+  team: string | null;
+  number: number | null;
+  status: string | null;
+  injury_status: string | null;
+  fantasy_positions: string;
+}
+
+function toSleeperPlayer(row: PlayerRow): SleeperPlayer {
+  return {
+    player_id: row.player_id,
+    full_name: row.full_name ?? "",
+    first_name: row.first_name ?? "",
+    last_name: row.last_name ?? "",
+    position: row.position ?? "",
+    team: row.team,
+    number: row.number ?? 0,
+    status: row.status ?? "",
+    injury_status: row.injury_status,
+    fantasy_positions: JSON.parse(row.fantasy_positions),
+  };
+}
+
+export interface StoredShareLink {
+  slug: string;
+  ownerUserId: string;
+  leagueKey: string;
+  leagueName: string;
+  mode: ShareLinkMode;
+  snapshot: ShareLinkSnapshot | null;
+  createdAt: number;
+  expiresAt: number | null;
+}
+
+interface ShareLinkRow {
+  slug: string;
+  owner_user_id: string;
+  league_key: string;
+  league_name: string;
+  mode: ShareLinkMode;
+  snapshot: string | null;
+  created_at: number;
+  expires_at: number | null;
+}
+
+function toStoredShareLink(row: ShareLinkRow): StoredShareLink {
+  return {
+    slug: row.slug,
+    ownerUserId: row.owner_user_id,
+    leagueKey: row.league_key,
+    leagueName: row.league_name,
+    mode: row.mode,
+    snapshot: row.snapshot ? JSON.parse(row.snapshot) : null,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+  };
+}
+
+interface WinProbabilityRow {
+  team_key: string;
+  recorded_at: number;
+  points: number;
+  expected_points: number;
+  win_probability: number;
+}
+
+function toWinProbabilityPoint(row: WinProbabilityRow): WinProbabilityPoint {
+  return {
+    recordedAt: new Date(row.recorded_at).toISOString(),
+    teamKey: row.team_key,
+    points: row.points,
+    expectedPoints: row.expected_points,
+    winProbability: row.win_probability,
+  };
+}
+
+export interface ImportedProjection {
+  source: string;
+  week: number;
+  playerId: string | null; // Yahoo player_id
+  name: string | null;
+  position: string | null;
+  points: number;
+}
+
+interface ImportedProjectionRow {
+  source: string;
+  week: number;
+  player_id: string | null;
+  name: string | null;
+  position: string | null;
+  points: number;
+}
+
+function toImportedProjection(row: ImportedProjectionRow): ImportedProjection {
+  return {
+    source: row.source,
+    week: row.week,
+    playerId: row.player_id,
+    name: row.name,
+    position: row.position,
+    points: row.points,
+  };
+}
+
+interface ScoringProfileRow {
+  id: string;
+  name: string;
+  description: string | null;
+  overrides: string;
+  position_overrides: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+function toScoringProfile(row: ScoringProfileRow): ScoringProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    ...(row.description !== null && { description: row.description }),
+    overrides: JSON.parse(row.overrides),
+    ...(row.position_overrides !== null && {
+      positionOverrides: JSON.parse(row.position_overrides),
+    }),
+    createdAt: new Date(row.created_at).toISOString(),
+    updatedAt: new Date(row.updated_at).toISOString(),
+  };
+}
+
+// Smaller swings with no change in points aren't worth a row
+const MIN_RECORDED_PROBABILITY_CHANGE = 0.005;
+
+export class SqliteStorage {
+  constructor(
+    private readonly db: Database.Database,
+    private readonly tokenCipher: TokenCipher
+  ) {}
+
+  /**
+   * Run several writes as one transaction (much faster for bulk inserts)
+   */
+  transaction<T>(fn: () => T): T {
+    return this.db.transaction(fn)();
+  }
+
+  getMeta(key: string): string | null {
+    const row = this.db
+      .prepare("SELECT value FROM app_meta WHERE key = ?")
+      .get(key) as { value: string } | undefined;
+    return row ? row.value : null;
+  }
+
+  setMeta(key: string, value: string) {
+    this.db
+      .prepare(
+        "INSERT INTO app_meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value"
+      )
+      .run(key, value);
+  }
+
+  // ----- Sleeper players -----
+
+  /**
+   * All Sleeper players, or null if they have never been saved
+   */
+  getPlayers(): Fetched<SleeperPlayer[]> | null {
+    const fetchedAt = this.getMeta("players_fetched_at");
+    if (!fetchedAt) {
+      return null;
+    }
+
+    const rows = this.db.prepare("SELECT * FROM players").all() as PlayerRow[];
+    return { data: rows.map(toSleeperPlayer), fetchedAt: Number(fetchedAt) };
+  }
+
+  /**
+   * Replace the player list with a fresh download
+   */
+  savePlayers(players: SleeperPlayer[], fetchedAt: number = Date.now()) {
+    const insert = this.db.prepare(`
+      INSERT INTO players (
+        player_id, full_name, first_name, last_name, position, team, number,
+        status, injury_status, fantasy_positions, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.transaction(() => {
+      this.db.prepare("DELETE FROM players").run();
+      for (const p of players) {
+        insert.run(
+          p.player_id,
+          p.full_name ?? null,
+          p.first_name ?? null,
+          p.last_name ?? null,
+          p.position ?? null,
+          p.team ?? null,
+          typeof p.number === "number" ? p.number : null,
+          p.status ?? null,
+          p.injury_status ?? null,
+          JSON.stringify(p.fantasy_positions || []),
+          fetchedAt
+        );
+      }
+      this.setMeta("players_fetched_at", String(fetchedAt));
+    });
+  }
+
+  // ----- Yahoo -> Sleeper crosswalk -----
+
+  getCrosswalk(): Map<string, CrosswalkEntry> {
+    const rows = this.db.prepare("SELECT * FROM player_crosswalk").all() as {
+      yahoo_id: string;
+      sleeper_id: string | null;
+      confidence: number;
+      matched_at: number;
+    }[];
+
+    return new Map(
+      rows.map((row) => [
+        row.yahoo_id,
+        {
+          sleeperId: row.sleeper_id,
+          confidence: row.confidence,
+          matchedAt: row.matched_at,
+        },
+      ])
+    );
+  }
+
+  saveCrosswalkEntry(yahooId: string, entry: CrosswalkEntry) {
+    this.db
+      .prepare(
+        `INSERT INTO player_crosswalk (yahoo_id, sleeper_id, confidence, matched_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT (yahoo_id) DO UPDATE SET
+           sleeper_id = excluded.sleeper_id,
+           confidence = excluded.confidence,
+           matched_at = excluded.matched_at`
+      )
+      .run(yahooId, entry.sleeperId, entry.confidence, entry.matchedAt);
+  }
+
+  // ----- Sleeper weekly stats and projections -----
+
+  /**
+   * Every player's stat line for a week, or null if the week was never fetched
+   */
+  getWeeklyStats(
+    kind: WeeklyStatsKind,
+    season: number,
+    week: number
+  ): Fetched<SleeperStats> | null {
+    const fetch = this.db
+      .prepare(
+        "SELECT fetched_at FROM weekly_fetches WHERE kind = ? AND season = ? AND week = ?"
+      )
+      .get(kind, season, week) as { fetched_at: number } | undefined;
+    if (!fetch) {
+      return null;
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT player_id, stats FROM ${WEEKLY_TABLES[kind]} WHERE season = ? AND week = ?`
+      )
+      .all(season, week) as { player_id: string; stats: string }[];
+
+    const data: SleeperStats = {};
+    for (const row of rows) {
+      data[row.player_id] = JSON.parse(row.stats);
+    }
+    return { data, fetchedAt: fetch.fetched_at };
+  }
+
+  /**
+   * Stat lines for one position's players in a week, e.g. all WRs in week 5
+   */
+  getWeeklyStatsByPosition(
+    kind: WeeklyStatsKind,
+    season: number,
+    week: number,
+    position: string
+  ): SleeperStats {
+    const rows = this.db
+      .prepare(
+        `SELECT s.player_id, s.stats
+         FROM players p
+         JOIN ${WEEKLY_TABLES[kind]} s
+           ON s.season = ? AND s.week = ? AND s.player_id = p.player_id
+         WHERE p.position = ?`
+      )
+      .all(season, week, position) as { player_id: string; stats: string }[];
+
+    const data: SleeperStats = {};
+    for (const row of rows) {
+      data[row.player_id] = JSON.parse(row.stats);
+    }
+    return data;
+  }
+
+  /**
+   * Replace a week's stat lines with a fresh download
+   */
+  saveWeeklyStats(
+    kind: WeeklyStatsKind,
+    season: number,
+    week: number,
+    data: SleeperStats,
+    fetchedAt: number = Date.now()
+  ) {
+    const table = WEEKLY_TABLES[kind];
+    const insert = this.db.prepare(
+      `INSERT INTO ${table} (season, week, player_id, stats) VALUES (?, ?, ?, ?)`
+    );
+
+    this.transaction(() => {
+      this.db
+        .prepare(`DELETE FROM ${table} WHERE season = ? AND week = ?`)
+        .run(season, week);
+      for (const [playerId, stats] of Object.entries(data)) {
+        insert.run(season, week, playerId, JSON.stringify(stats));
+      }
+      this.db
+        .prepare(
+          `INSERT INTO weekly_fetches (kind, season, week, fetched_at) VALUES (?, ?, ?, ?)
+           ON CONFLICT (kind, season, week) DO UPDATE SET fetched_at = excluded.fetched_at`
+        )
+        .run(kind, season, week, fetchedAt);
+    });
+  }
+
+  /**
+   * Forget a fetched week so the next read downloads it again
+   */
+  deleteWeeklyStats(kind: WeeklyStatsKind, season: number, week: number) {
+    this.transaction(() => {
+      this.db
+        .prepare(
+          `DELETE FROM ${WEEKLY_TABLES[kind]} WHERE season = ? AND week = ?`
+        )
+        .run(season, week);
+      this.db
+        .prepare(
+          "DELETE FROM weekly_fetches WHERE kind = ? AND season = ? AND week = ?"
+        )
+        .run(kind, season, week);
+    });
+  }
+
+  /**
+   * Forget every fetched week of stats or projections
+   * @returns Number of weeks deleted
+   */
+  clearWeeklyStats(kind: WeeklyStatsKind): number {
+    return this.transaction(() => {
+      this.db.prepare(`DELETE FROM ${WEEKLY_TABLES[kind]}`).run();
+      return this.db
+        .prepare("DELETE FROM weekly_fetches WHERE kind = ?")
+        .run(kind).changes;
+    });
+  }
+
+  countWeeklyStats(kind: WeeklyStatsKind): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM weekly_fetches WHERE kind = ?")
+      .get(kind) as { count: number };
+    return row.count;
+  }
+
+  // ----- League scoring rules -----
+
+  getScoringRules(leagueKey: string): Fetched<Map<number, number>> | null {
+    const row = this.db
+      .prepare(
+        "SELECT rules, fetched_at FROM scoring_rules WHERE league_key = ?"
+      )
+      .get(leagueKey) as { rules: string; fetched_at: number } | undefined;
+    return row
+      ? { data: new Map(JSON.parse(row.rules)), fetchedAt: row.fetched_at }
+      : null;
+  }
+
+  saveScoringRules(
+    leagueKey: string,
+    rules: Map<number, number>,
+    fetchedAt: number = Date.now()
+  ) {
+    this.db
+      .prepare(
+        `INSERT INTO scoring_rules (league_key, rules, fetched_at) VALUES (?, ?, ?)
+         ON CONFLICT (league_key) DO UPDATE SET
+           rules = excluded.rules, fetched_at = excluded.fetched_at`
+      )
+      .run(leagueKey, JSON.stringify(Array.from(rules.entries())), fetchedAt);
+  }
+
+  // ----- OAuth tokens -----
+  // Token responses are stored encrypted (tokenCipher.ts)
+
+  /**
+   * Every stored token that decrypts with the configured keys
+   * Tokens that don't are skipped; those users have to reconnect
+   */
+  getTokens(): StoredToken[] {
+    const rows = this.db
+      .prepare(
+        "SELECT user_id, tokens, expires_at, nickname, connected_at FROM tokens"
+      )
+      .all() as {
+      user_id: string;
+      tokens: string;
+      expires_at: number;
+      nickname: string | null;
+      connected_at: number;
+    }[];
+
+    const stored: StoredToken[] = [];
+    for (const row of rows) {
+      try {
+        stored.push({
+          userId: row.user_id,
+          tokens: JSON.parse(this.tokenCipher.decrypt(row.tokens)),
+          expiresAt: row.expires_at,
+          nickname: row.nickname ?? undefined,
+          connectedAt: row.connected_at,
+        });
+      } catch (error: any) {
+        console.error(
+          `[storage] Skipping tokens for ${row.user_id}:`,
+          error.message
+        );
+      }
+    }
+    return stored;
+  }
+
+  saveToken(stored: StoredToken) {
+    const now = Date.now();
+    this.db
+      .prepare(
+        `INSERT INTO tokens (user_id, tokens, expires_at, nickname, connected_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (user_id) DO UPDATE SET
+           tokens = excluded.tokens,
+           expires_at = excluded.expires_at,
+           nickname = excluded.nickname,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        stored.userId,
+        this.tokenCipher.encrypt(JSON.stringify(stored.tokens)),
+        stored.expiresAt,
+        stored.nickname ?? null,
+        stored.connectedAt ?? now, // Tokens imported from JSON don't have one
+        now
+      );
+  }
+
+  /**
+   * Re-encrypt tokens stored in plaintext or under an old key
+   * @returns Number of tokens re-encrypted
+   */
+  rotateTokenEncryption(): number {
+    const rows = this.db
+      .prepare("SELECT user_id, tokens FROM tokens")
+      .all() as { user_id: string; tokens: string }[];
+    const update = this.db.prepare(
+      "UPDATE tokens SET tokens = ? WHERE user_id = ?"
+    );
+
+    let rotated = 0;
+    this.transaction(() => {
+      for (const row of rows) {
+        if (!this.tokenCipher.needsRotation(row.tokens)) {
+          continue;
+        }
+        try {
+          const plaintext = this.tokenCipher.decrypt(row.tokens);
+          update.run(this.tokenCipher.encrypt(plaintext), row.user_id);
+          rotated++;
+        } catch (error: any) {
+          console.error(
+            `[storage] Can't re-encrypt tokens for ${row.user_id}:`,
+            error.message
+          );
+        }
+      }
+    });
+    return rotated;
+  }
+
+  deleteToken(userId: string) {
+    this.db.prepare("DELETE FROM tokens WHERE user_id = ?").run(userId);
+  }
+
+  // ----- Share links -----
+
+  getShareLink(slug: string): StoredShareLink | null {
+    const row = this.db
+      .prepare("SELECT * FROM share_links WHERE slug = ?")
+      .get(slug) as ShareLinkRow | undefined;
+    return row ? toStoredShareLink(row) : null;
+  }
+
+  /**
+   * A user's share links, newest first
+   */
+  getShareLinksByOwner(ownerUserId: string): StoredShareLink[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM share_links WHERE owner_user_id = ? ORDER BY created_at DESC"
+      )
+      .all(ownerUserId) as ShareLinkRow[];
+    return rows.map(toStoredShareLink);
+  }
+
+  saveShareLink(link: StoredShareLink) {
+    this.db
+      .prepare(
+        `INSERT INTO share_links
+           (slug, owner_user_id, league_key, league_name, mode, snapshot, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        link.slug,
+        link.ownerUserId,
+        link.leagueKey,
+        link.leagueName,
+        link.mode,
+        link.snapshot ? JSON.stringify(link.snapshot) : null,
+        link.createdAt,
+        link.expiresAt
+      );
+  }
+
+  /**
+   * @returns Whether the owner had a link with this slug
+   */
+  deleteShareLink(slug: string, ownerUserId: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM share_links WHERE slug = ? AND owner_user_id = ?")
+      .run(slug, ownerUserId);
+    return result.changes > 0;
+  }
+
+  // ----- Win probability history -----
+
+  /**
+   * A week's recorded win probabilities, oldest first
+   */
+  getWinProbabilityHistory(
+    leagueKey: string,
+    week: number
+  ): WinProbabilityPoint[] {
+    const rows = this.db
+      .prepare(
+        `SELECT team_key, recorded_at, points, expected_points, win_probability
+         FROM win_probability_history
+         WHERE league_key = ? AND week = ?
+         ORDER BY recorded_at, team_key`
+      )
+      .all(leagueKey, week) as WinProbabilityRow[];
+    return rows.map(toWinProbabilityPoint);
+  }
+
+  /**
+   * Record each team's current win probability, skipping teams whose points
+   * and probability haven't moved since their last row
+   * @returns Number of rows recorded
+   */
+  recordWinProbabilities(
+    leagueKey: string,
+    week: number,
+    teams: Array<Omit<WinProbabilityPoint, "recordedAt">>,
+    recordedAt: number = Date.now()
+  ): number {
+    const latest = this.db.prepare(
+      `SELECT points, win_probability FROM win_probability_history
+       WHERE league_key = ? AND week = ? AND team_key = ?
+       ORDER BY recorded_at DESC LIMIT 1`
+    );
+    const insert = this.db.prepare(
+      `INSERT INTO win_probability_history
+         (league_key, week, team_key, recorded_at, points, expected_points, win_probability)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    return this.transaction(() => {
+      let recorded = 0;
+      for (const team of teams) {
+        const last = latest.get(leagueKey, week, team.teamKey) as
+          | Pick<WinProbabilityRow, "points" | "win_probability">
+          | undefined;
+        if (
+          last &&
+          last.points === team.points &&
+          Math.abs(last.win_probability - team.winProbability) <
+            MIN_RECORDED_PROBABILITY_CHANGE
+        ) {
+          continue;
+        }
+
+        insert.run(
+          leagueKey,
+          week,
+          team.teamKey,
+          recordedAt,
+          team.points,
+          team.expectedPoints,
+          team.winProbability
+        );
+        recorded++;
+      }
+      return recorded;
+    });
+  }
+
+  // ----- Imported projections -----
+
+  getImportedProjections(leagueKey: string): ImportedProjection[] {
+    const rows = this.db
+      .prepare(
+        `SELECT source, week, player_id, name, position, points
+         FROM imported_projections WHERE league_key = ?
+         ORDER BY source, week`
+      )
+      .all(leagueKey) as ImportedProjectionRow[];
+    return rows.map(toImportedProjection);
+  }
+
+  /**
+   * Replace everything imported for a league under a source's name
+   */
+  replaceImportedProjections(
+    leagueKey: string,
+    source: string,
+    projections: Array<Omit<ImportedProjection, "source">>
+  ) {
+    const insert = this.db.prepare(
+      `INSERT INTO imported_projections
+         (league_key, source, week, player_id, name, position, points)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+
+    this.transaction(() => {
+      this.deleteImportedProjections(leagueKey, source);
+      for (const p of projections) {
+        insert.run(
+          leagueKey,
+          source,
+          p.week,
+          p.playerId,
+          p.name,
+          p.position,
+          p.points
+        );
+      }
+    });
+  }
+
+  /**
+   * @returns Whether anything had been imported under that name
+   */
+  deleteImportedProjections(leagueKey: string, source: string): boolean {
+    const result = this.db
+      .prepare(
+        "DELETE FROM imported_projections WHERE league_key = ? AND source = ?"
+      )
+      .run(leagueKey, source);
+    return result.changes > 0;
+  }
+
+  // ----- Scoring profiles -----
+
+  /**
+   * All scoring profiles, sorted by name
+   */
+  getScoringProfiles(): ScoringProfile[] {
+    const rows = this.db
+      .prepare("SELECT * FROM scoring_profiles ORDER BY name COLLATE NOCASE")
+      .all() as ScoringProfileRow[];
+    return rows.map(toScoringProfile);
+  }
+
+  getScoringProfile(id: string): ScoringProfile | null {
+    const row = this.db
+      .prepare("SELECT * FROM scoring_profiles WHERE id = ?")
+      .get(id) as ScoringProfileRow | undefined;
+    return row ? toScoringProfile(row) : null;
+  }
+
+  /**
+   * Insert a profile, or replace the one with the same ID
+   */
+  saveScoringProfile(profile: ScoringProfile) {
+    this.db
+      .prepare(
+        `INSERT INTO scoring_profiles
+           (id, name, description, overrides, position_overrides, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           name = excluded.name,
+           description = excluded.description,
+           overrides = excluded.overrides,
+           position_overrides = excluded.position_overrides,
+           created_at = excluded.created_at,
+           updated_at = excluded.updated_at`
+      )
+      .run(
+        profile.id,
+        profile.name,
+        profile.description ?? null,
+        JSON.stringify(profile.overrides),
+        profile.positionOverrides
+          ? JSON.stringify(profile.positionOverrides)
+          : null,
+        Date.parse(profile.createdAt),
+        Date.parse(profile.updatedAt)
+      );
+  }
+
+  /**
+   * @returns Whether there was a profile with this ID
+   */
+  deleteScoringProfile(id: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM scoring_profiles WHERE id = ?")
+      .run(id);
+    return result.changes > 0;
+  }
+
+  // ----- Cache entries -----
+
+  /**
+   * A cached value, e.g. namespace "league_settings" and a league key
+   */
+  getCacheEntry(namespace: string, key: string): Fetched<any> | null {
+    const row = this.db
+      .prepare(
+        "SELECT data, fetched_at FROM cache_entries WHERE namespace = ? AND key = ?"
+      )
+      .get(namespace, key) as { data: string; fetched_at: number } | undefined;
+    return row
+      ? { data: JSON.parse(row.data), fetchedAt: row.fetched_at }
+      : null;
+  }
+
+  saveCacheEntry(
+    namespace: string,
+    key: string,
+    data: any,
+    fetchedAt: number = Date.now()
+  ) {
+    this.db
+      .prepare(
+        `INSERT INTO cache_entries (namespace, key, data, fetched_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (namespace, key) DO UPDATE SET
+           data = excluded.data, fetched_at = excluded.fetched_at`
+      )
+      .run(namespace, key, JSON.stringify(data), fetchedAt);
+  }
+
+  deleteCacheEntry(namespace: string, key: string) {
+    this.db
+      .prepare("DELETE FROM cache_entries WHERE namespace = ? AND key = ?")
+      .run(namespace, key);
+  }
+
+  /**
+   * Delete every entry in a namespace
+   * @returns Number of entries deleted
+   */
+  clearCacheNamespace(namespace: string): number {
+    return this.db
+      .prepare("DELETE FROM cache_entries WHERE namespace = ?")
+      .run(namespace).changes;
+  }
+
+  countCacheEntries(namespace: string): number {
+    const row = this.db
+      .prepare(
+        "SELECT COUNT(*) AS count FROM cache_entries WHERE namespace = ?"
+      )
+      .get(namespace) as { count: number };
+    return row.count;
+  }
+}
+
+function openStorage(): SqliteStorage {
+  const opened = new SqliteStorage(openDatabase(), createTokenCipher());
+
+  // Bring over the old JSON file cache before anything reads from the
+  // database. Throwaway in-memory databases (tests) start empty
+  if (process.env.DATABASE_FILE === ":memory:") {
+    return opened;
+  }
+  try {
+    const summary = importJsonCacheOnce(JSON_CACHE_DIR, opened);
+    if (summary) {
+      console.log(`[storage] Imported JSON cache: ${describeImport(summary)}`);
+    }
+  } catch (error) {
+    console.error("[storage] Failed to import JSON cache:", error);
+  }
+
+  return opened;
+}
+
+// Singleton instance
+export const storage = openStorage();
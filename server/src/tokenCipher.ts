@@ -0,0 +1,132 @@
+/**
+ * Encryption for OAuth tokens at rest
+ *
+ * Tokens are encrypted with AES-256-GCM under a key derived from
+ * TOKEN_ENCRYPTION_KEY. To rotate, move the old secret to
+ * TOKEN_ENCRYPTION_OLD_KEYS (comma separated) and set a new
+ * TOKEN_ENCRYPTION_KEY: tokens under an old key still decrypt, and are
+ * re-encrypted under the new one when the server starts.
+ */
+
+import crypto from "crypto";
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "enc:v1";
+const KEY_SALT = "fantasy-viz-tokens"; // Fixed: the secret alone must give the same key
+
+interface CipherKey {
+  id: string; // Stored with each ciphertext to pick the key that decrypts it
+  key: Buffer;
+}
+
+function deriveKey(secret: string): CipherKey {
+  const key = crypto.scryptSync(secret, KEY_SALT, 32);
+  const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+  return { id, key };
+}
+
+export class TokenCipher {
+  private readonly current: CipherKey;
+  private readonly keys = new Map<string, CipherKey>();
+
+  /**
+   * @param secret Secret new tokens are encrypted with
+   * @param oldSecrets Secrets from before a rotation, only used to decrypt
+   */
+  constructor(secret: string, oldSecrets: string[] = []) {
+    this.current = deriveKey(secret);
+    for (const derived of [this.current, ...oldSecrets.map(deriveKey)]) {
+      this.keys.set(derived.id, derived);
+    }
+  }
+
+  /**
+   * "enc:v1:<key id>:<iv>:<auth tag>:<ciphertext>", all base64
+   */
+  encrypt(plaintext: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, this.current.key, iv);
+    const encrypted = Buffer.concat([
+      cipher.update(plaintext, "utf8"),
+      cipher.final(),
+    ]);
+    return [
+      PREFIX,
+      this.current.id,
+      iv.toString("base64"),
+      cipher.getAuthTag().toString("base64"),
+      encrypted.toString("base64"),
+    ].join(":");
+  }
+
+  /**
+   * Decrypt a value from encrypt(). Values stored before encryption was
+   * added are returned unchanged
+   * @throws Error when none of the configured keys encrypted it
+   */
+  decrypt(stored: string): string {
+    if (!this.isEncrypted(stored)) {
+      return stored;
+    }
+
+    const [, , keyId, iv, tag, encrypted] = stored.split(":");
+    const derived = this.keys.get(keyId);
+    if (!derived) {
+      throw new Error(
+        `Token was encrypted with an unknown key (${keyId}). Add its secret to TOKEN_ENCRYPTION_OLD_KEYS`
+      );
+    }
+
+    const decipher = crypto.createDecipheriv(
+      ALGORITHM,
+      derived.key,
+      Buffer.from(iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(encrypted, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  }
+
+  /**
+   * Whether a stored value needs re-encrypting under the current key
+   */
+  needsRotation(stored: string): boolean {
+    return (
+      !this.isEncrypted(stored) || stored.split(":")[2] !== this.current.id
+    );
+  }
+
+  private isEncrypted(stored: string): boolean {
+    return stored.startsWith(`${PREFIX}:`);
+  }
+}
+
+/**
+ * Cipher for the keys in the environment
+ * Outside production, falls back to SESSION_SECRET so development works
+ * without extra setup
+ */
+export function createTokenCipher(): TokenCipher {
+  const { TOKEN_ENCRYPTION_KEY, TOKEN_ENCRYPTION_OLD_KEYS, SESSION_SECRET } =
+    process.env;
+  const oldSecrets = (TOKEN_ENCRYPTION_OLD_KEYS || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+  if (TOKEN_ENCRYPTION_KEY) {
+    return new TokenCipher(TOKEN_ENCRYPTION_KEY, oldSecrets);
+  }
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error(
+      "TOKEN_ENCRYPTION_KEY must be set in production. Generate one with: openssl rand -base64 32"
+    );
+  }
+  console.warn(
+    "TOKEN_ENCRYPTION_KEY is not set. Encrypting tokens with SESSION_SECRET instead."
+  );
+  return new TokenCipher(SESSION_SECRET || "dev-secret", oldSecrets);
+}
@@ -1,17 +1,21 @@
 /**
- * Token Store with automatic refresh and file persistence
+ * Token Store with automatic refresh and encrypted database persistence
+ *
+ * Users are keyed by their Yahoo GUID, so logging in again (or from another
+ * browser) reuses the same identity and tokens.
  *
  * Yahoo OAuth tokens:
  * - access_token: expires in 1 hour
  * - refresh_token: valid for multiple uses, expires after inactivity
  */
 
-import * as fs from "fs";
-import * as path from "path";
 import axios from "axios";
 import qs from "qs";
+import { NotAuthenticated } from "./errors";
+import { AccountResponse } from "./models";
+import { storage } from "./storage";
 
-interface YahooTokens {
+export interface YahooTokens {
   access_token: string;
   refresh_token: string;
   expires_in: number; // seconds until expiration
@@ -19,74 +23,69 @@ interface YahooTokens {
   xoauth_yahoo_guid?: string;
 }
 
-interface StoredToken {
+export interface StoredToken {
   tokens: YahooTokens;
   expiresAt: number; // timestamp when access_token expires
   userId: string;
+  nickname?: string; // Yahoo profile nickname, when Yahoo shared it
+  connectedAt: number; // timestamp of the OAuth login
 }
 
 class TokenStore {
   private tokens = new Map<string, StoredToken>();
-  private readonly tokenFile = path.join(
-    __dirname,
-    "..",
-    "cache",
-    "tokens.json"
-  );
 
   constructor() {
-    this.loadFromFile();
+    this.loadFromDatabase();
   }
 
   /**
-   * Load tokens from file (persists across server restarts)
+   * Load tokens from the database (persists across server restarts)
    */
-  private loadFromFile() {
+  private loadFromDatabase() {
     try {
-      if (fs.existsSync(this.tokenFile)) {
-        const data = JSON.parse(fs.readFileSync(this.tokenFile, "utf-8"));
+      // Plaintext tokens from before encryption, or after a key rotation
+      const rotated = storage.rotateTokenEncryption();
+      if (rotated > 0) {
+        console.log(`Re-encrypted ${rotated} stored tokens`);
+      }
 
-        // Convert array back to Map
-        for (const [userId, stored] of Object.entries(data)) {
-          this.tokens.set(userId, stored as StoredToken);
-        }
+      for (const stored of storage.getTokens()) {
+        this.tokens.set(stored.userId, stored);
       }
     } catch (error) {
-      console.error("Failed to load tokens from file:", error);
+      console.error("Failed to load tokens from the database:", error);
     }
   }
 
   /**
-   * Save tokens to file
+   * Save a user's tokens to the database
    */
-  private saveToFile() {
+  private saveToDatabase(stored: StoredToken) {
     try {
-      const cacheDir = path.dirname(this.tokenFile);
-      if (!fs.existsSync(cacheDir)) {
-        fs.mkdirSync(cacheDir, { recursive: true });
-      }
-
-      // Convert Map to object for JSON
-      const data = Object.fromEntries(this.tokens.entries());
-      fs.writeFileSync(this.tokenFile, JSON.stringify(data, null, 2), "utf-8");
+      storage.saveToken(stored);
     } catch (error) {
-      console.error("Failed to save tokens to file:", error);
+      console.error("Failed to save tokens to the database:", error);
     }
   }
 
   /**
    * Store tokens for a user
+   * Refreshed tokens keep the nickname and connection time of the login
    */
-  setTokens(userId: string, tokens: YahooTokens) {
+  setTokens(userId: string, tokens: YahooTokens, nickname?: string) {
     const expiresAt = Date.now() + tokens.expires_in * 1000;
+    const existing = this.tokens.get(userId);
 
-    this.tokens.set(userId, {
+    const stored: StoredToken = {
       tokens,
       expiresAt,
       userId,
-    });
+      nickname: nickname ?? existing?.nickname,
+      connectedAt: existing?.connectedAt ?? Date.now(),
+    };
+    this.tokens.set(userId, stored);
 
-    this.saveToFile();
+    this.saveToDatabase(stored);
   }
 
   /**
@@ -175,7 +174,27 @@ class TokenStore {
    */
   removeTokens(userId: string) {
     this.tokens.delete(userId);
-    this.saveToFile();
+    try {
+      storage.deleteToken(userId);
+    } catch (error) {
+      console.error("Failed to delete tokens from the database:", error);
+    }
+  }
+
+  /**
+   * Stored token with its account details, without refreshing
+   */
+  getStoredToken(userId: string): StoredToken | null {
+    return this.tokens.get(userId) || null;
+  }
+
+  /**
+   * Every connected user, most recently connected first
+   */
+  listTokens(): StoredToken[] {
+    return Array.from(this.tokens.values()).sort(
+      (a, b) => b.connectedAt - a.connectedAt
+    );
   }
 
   /**
@@ -190,8 +209,12 @@ class TokenStore {
 export const tokenStore = new TokenStore();
 
 // Legacy compatibility exports
-export function setTokenForUserId(userId: string, tokens: YahooTokens) {
-  tokenStore.setTokens(userId, tokens);
+export function setTokenForUserId(
+  userId: string,
+  tokens: YahooTokens,
+  nickname?: string
+) {
+  tokenStore.setTokens(userId, tokens, nickname);
 }
 
 export async function getTokenForUserId(
@@ -200,3 +223,36 @@ export async function getTokenForUserId(
   const accessToken = await tokenStore.getAccessToken(userId);
   return accessToken ? { access_token: accessToken } : null;
 }
+
+/**
+ * The Yahoo account behind a stored token, as the API returns it
+ */
+export function describeAccount(stored: StoredToken): AccountResponse {
+  return {
+    guid: stored.tokens.xoauth_yahoo_guid || null,
+    nickname: stored.nickname || null,
+    connectedAt: new Date(stored.connectedAt).toISOString(),
+    tokenExpiresAt: new Date(stored.expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Access token for the signed-in user of a controller request
+ * @throws NotAuthenticated when nobody is signed in or the token can't be refreshed
+ */
+export async function requireAccessToken(request: {
+  user?: { userId?: string };
+}): Promise<string> {
+  const userId = request.user?.userId;
+  if (!userId) {
+    throw new NotAuthenticated();
+  }
+
+  const accessToken = await tokenStore.getAccessToken(userId);
+  if (!accessToken) {
+    throw new NotAuthenticated(
+      "Not authenticated. Please reconnect with Yahoo."
+    );
+  }
+  return accessToken;
+}
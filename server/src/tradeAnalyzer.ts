@@ -0,0 +1,74 @@
+/**
+ * Trade analyzer
+ *
+ * Values a trade by how much it changes each team's best possible starting
+ * lineup over the rest of the season, using weekly projected points.
+ */
+
+import type { NormalizedRosterPlayer, RosterSlot } from "./yahoo-types";
+import type { TradeLineupWeek } from "./models";
+import { optimizeLineup } from "./lineupOptimizer";
+
+// Projected points keyed by week, then by Yahoo player key
+export type WeeklyProjections = Map<number, Map<string, number>>;
+
+/**
+ * Total projected points for a player across every projected week
+ */
+export function getRestOfSeasonPoints(
+  playerKey: string,
+  projections: WeeklyProjections
+): number {
+  let total = 0;
+  for (const weekProjections of projections.values()) {
+    total += weekProjections.get(playerKey) || 0;
+  }
+  return total;
+}
+
+/**
+ * Roster after a trade: players given away removed, players received added
+ *
+ * Roster size limits are ignored, so a 2-for-1 is valued as if the team
+ * could keep everyone. The extra player only counts if they'd start.
+ */
+export function applyTrade(
+  roster: NormalizedRosterPlayer[],
+  gives: string[],
+  gets: NormalizedRosterPlayer[]
+): NormalizedRosterPlayer[] {
+  return [...roster.filter((p) => !gives.includes(p.playerKey)), ...gets];
+}
+
+/**
+ * Projected optimal lineup points for each week, before and after a trade
+ */
+export function compareLineupStrength(
+  rosterBefore: NormalizedRosterPlayer[],
+  rosterAfter: NormalizedRosterPlayer[],
+  rosterPositions: RosterSlot[],
+  projections: WeeklyProjections
+): TradeLineupWeek[] {
+  const weeks: TradeLineupWeek[] = [];
+
+  for (const [week, weekProjections] of projections) {
+    // optimizeLineup ranks by actualPoints, so swap in this week's projection
+    const project = (roster: NormalizedRosterPlayer[]) =>
+      roster.map((p) => ({
+        ...p,
+        actualPoints: weekProjections.get(p.playerKey) || 0,
+      }));
+
+    const before = optimizeLineup(project(rosterBefore), rosterPositions);
+    const after = optimizeLineup(project(rosterAfter), rosterPositions);
+
+    weeks.push({
+      week,
+      before: before.points,
+      after: after.points,
+      change: after.points - before.points,
+    });
+  }
+
+  return weeks.sort((a, b) => a.week - b.week);
+}
@@ -0,0 +1,209 @@
+/**
+ * Transaction timeline
+ *
+ * Turns Yahoo transactions into typed records placed on the fantasy week
+ * calendar, works out how long each pickup stayed on the team that added it
+ * and totals FAAB spend per team.
+ */
+
+import type { NormalizedGameWeek, NormalizedTransaction } from "./yahoo-types";
+import type {
+  TeamFaabSpend,
+  Transaction,
+  TransactionPlayer,
+  TransactionType,
+} from "./models";
+
+export type TransactionFilterType = "add" | "drop" | "trade" | "waiver";
+
+export interface TransactionFilters {
+  teamKey?: string;
+  type?: TransactionFilterType;
+  week?: number;
+}
+
+/**
+ * A player's stay on the team that acquired them, in fantasy weeks
+ */
+export interface HoldingPeriod {
+  transactionKey: string;
+  playerKey: string;
+  teamKey: string;
+  startWeek: number;
+  endWeek: number; // Last week on the roster, capped at the last completed week
+}
+
+/**
+ * Calendar date of a Unix timestamp in US Eastern time, as YYYY-MM-DD.
+ * Yahoo's NFL week boundaries follow the Eastern calendar.
+ */
+function toEasternDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString("en-CA", {
+    timeZone: "America/New_York",
+  });
+}
+
+/**
+ * The first fantasy week a transaction counts for: the week it happened in,
+ * or the next one when it happened between weeks. Preseason moves count for
+ * the first week, moves after the last week for the last one.
+ */
+export function getTransactionWeek(
+  timestamp: number,
+  gameWeeks: NormalizedGameWeek[]
+): number {
+  if (gameWeeks.length === 0) return 0;
+
+  const date = toEasternDate(timestamp);
+  const week = gameWeeks.find((w) => date <= w.end);
+  return week ? week.week : gameWeeks[gameWeeks.length - 1].week;
+}
+
+function toTransactionPlayer(
+  move: NormalizedTransaction["players"][number]
+): TransactionPlayer {
+  return {
+    playerKey: move.playerKey,
+    name: move.name,
+    position: move.position,
+    team: move.team,
+    action: move.action as TransactionPlayer["action"],
+    source: move.sourceType as TransactionPlayer["source"],
+    ...(move.sourceTeamKey && { sourceTeamKey: move.sourceTeamKey }),
+    ...(move.sourceTeamName && { sourceTeamName: move.sourceTeamName }),
+    destination: move.destinationType as TransactionPlayer["destination"],
+    ...(move.destinationTeamKey && {
+      destinationTeamKey: move.destinationTeamKey,
+    }),
+    ...(move.destinationTeamName && {
+      destinationTeamName: move.destinationTeamName,
+    }),
+  };
+}
+
+/**
+ * Typed transactions placed on the week calendar, newest first
+ */
+export function buildTransactions(
+  transactions: NormalizedTransaction[],
+  gameWeeks: NormalizedGameWeek[]
+): Transaction[] {
+  return transactions.map((t) => {
+    const players = t.players.map(toTransactionPlayer);
+    const teamKeys = new Set<string>();
+    for (const player of players) {
+      if (player.sourceTeamKey) teamKeys.add(player.sourceTeamKey);
+      if (player.destinationTeamKey) teamKeys.add(player.destinationTeamKey);
+    }
+
+    return {
+      transactionKey: t.transactionKey,
+      type: t.type as TransactionType,
+      status: t.status,
+      timestamp: new Date(t.timestamp * 1000).toISOString(),
+      week: getTransactionWeek(t.timestamp, gameWeeks),
+      isWaiverClaim: players.some(
+        (p) => p.action === "add" && p.source === "waivers"
+      ),
+      ...(t.faabBid !== undefined && { faabBid: t.faabBid }),
+      teamKeys: Array.from(teamKeys),
+      players,
+    };
+  });
+}
+
+export function filterTransactions(
+  transactions: Transaction[],
+  filters: TransactionFilters
+): Transaction[] {
+  return transactions.filter((t) => {
+    if (filters.teamKey && !t.teamKeys.includes(filters.teamKey)) {
+      return false;
+    }
+    if (filters.week !== undefined && t.week !== filters.week) {
+      return false;
+    }
+    switch (filters.type) {
+      case "add":
+      case "drop":
+        return t.players.some((p) => p.action === filters.type);
+      case "trade":
+        return t.type === "trade";
+      case "waiver":
+        return t.isWaiverClaim;
+      default:
+        return true;
+    }
+  });
+}
+
+/**
+ * How long each acquired player (add or trade) stayed on the acquiring team
+ * A stay ends the week before the player was dropped or traded away.
+ */
+export function getHoldingPeriods(
+  transactions: Transaction[],
+  lastCompletedWeek: number
+): HoldingPeriod[] {
+  const successful = transactions
+    .filter((t) => t.status === "successful")
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+  const periods: HoldingPeriod[] = [];
+  successful.forEach((t, i) => {
+    for (const player of t.players) {
+      if (player.action === "drop" || !player.destinationTeamKey) continue;
+
+      const departure = successful
+        .slice(i + 1)
+        .find((later) =>
+          later.players.some(
+            (p) =>
+              p.playerKey === player.playerKey &&
+              p.sourceTeamKey === player.destinationTeamKey
+          )
+        );
+      const endWeek = departure
+        ? Math.min(departure.week - 1, lastCompletedWeek)
+        : lastCompletedWeek;
+
+      periods.push({
+        transactionKey: t.transactionKey,
+        playerKey: player.playerKey,
+        teamKey: player.destinationTeamKey,
+        startWeek: t.week,
+        endWeek,
+      });
+    }
+  });
+
+  return periods;
+}
+
+/**
+ * FAAB spent on successful waiver claims by each team, biggest spender first
+ */
+export function computeFaabSpend(transactions: Transaction[]): TeamFaabSpend[] {
+  const spend = new Map<string, TeamFaabSpend>();
+
+  for (const t of transactions) {
+    if (t.status !== "successful" || !t.isWaiverClaim) continue;
+
+    const added = t.players.find(
+      (p) => p.action === "add" && p.destinationTeamKey
+    );
+    if (!added?.destinationTeamKey) continue;
+
+    const team = spend.get(added.destinationTeamKey) || {
+      teamKey: added.destinationTeamKey,
+      teamName: added.destinationTeamName || added.destinationTeamKey,
+      spent: 0,
+      claims: 0,
+    };
+    team.spent += t.faabBid || 0;
+    team.claims++;
+    spend.set(team.teamKey, team);
+  }
+
+  return Array.from(spend.values()).sort((a, b) => b.spent - a.spent);
+}
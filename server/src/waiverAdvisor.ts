@@ -0,0 +1,159 @@
+/**
+ * Waiver advisor
+ *
+ * Pairs free agents with the roster player they should replace, valued by how
+ * much the team's best possible lineup improves over the rest of the season,
+ * and suggests FAAB bids from what the league has paid before.
+ */
+
+import type { NormalizedRosterPlayer, RosterSlot } from "./yahoo-types";
+import type { FaabBidRange, TradeLineupWeek } from "./models";
+import { optimizeLineup, RESERVE_SLOTS } from "./lineupOptimizer";
+import {
+  applyTrade,
+  compareLineupStrength,
+  getRestOfSeasonPoints,
+  WeeklyProjections,
+} from "./tradeAnalyzer";
+
+export interface AddDropPair {
+  drop: NormalizedRosterPlayer;
+  weeks: TradeLineupWeek[];
+  pointsGain: number;
+}
+
+/**
+ * A free agent as a bench player, so lineup functions can place them
+ */
+export function toRosterPlayer(player: {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string;
+}): NormalizedRosterPlayer {
+  return {
+    ...player,
+    eligiblePositions: player.position.split(","),
+    selectedPosition: "BN",
+    actualPoints: 0,
+    stats: {},
+  };
+}
+
+/**
+ * The roster player to drop for a free agent: whoever leaves the best lineup
+ * behind, the one with the fewest projected points on a tie. Null when the
+ * free agent wouldn't improve the lineup at all.
+ */
+export function findBestDrop(
+  roster: NormalizedRosterPlayer[],
+  add: NormalizedRosterPlayer,
+  rosterPositions: RosterSlot[],
+  projections: WeeklyProjections
+): AddDropPair | null {
+  const sumChange = (weeks: TradeLineupWeek[]) =>
+    weeks.reduce((sum, w) => sum + w.change, 0);
+
+  // Adding without dropping is the most a pickup can gain
+  const ceiling = sumChange(
+    compareLineupStrength(
+      roster,
+      applyTrade(roster, [], [add]),
+      rosterPositions,
+      projections
+    )
+  );
+  if (ceiling <= 0) return null;
+
+  let best: AddDropPair | null = null;
+  for (const drop of roster) {
+    if (RESERVE_SLOTS.includes(drop.selectedPosition)) continue;
+
+    const weeks = compareLineupStrength(
+      roster,
+      applyTrade(roster, [drop.playerKey], [add]),
+      rosterPositions,
+      projections
+    );
+    const pointsGain = sumChange(weeks);
+
+    if (
+      !best ||
+      pointsGain > best.pointsGain ||
+      (pointsGain === best.pointsGain &&
+        getRestOfSeasonPoints(drop.playerKey, projections) <
+          getRestOfSeasonPoints(best.drop.playerKey, projections))
+    ) {
+      best = { drop, weeks, pointsGain };
+    }
+  }
+
+  return best && best.pointsGain > 0 ? best : null;
+}
+
+/**
+ * The starter with the fewest rest-of-season points among those sharing a
+ * position with the free agent, from this week's projected optimal lineup
+ */
+export function getWeakestStarter(
+  roster: NormalizedRosterPlayer[],
+  position: string,
+  rosterPositions: RosterSlot[],
+  projections: WeeklyProjections
+): NormalizedRosterPlayer | null {
+  const firstWeek = Math.min(...Array.from(projections.keys()));
+  const weekProjections = projections.get(firstWeek);
+  if (!weekProjections) return null;
+
+  const { lineup } = optimizeLineup(
+    roster.map((p) => ({
+      ...p,
+      actualPoints: weekProjections.get(p.playerKey) || 0,
+    })),
+    rosterPositions
+  );
+  const starterKeys = new Set(lineup.map((slot) => slot.playerKey));
+  const positions = position.split(",");
+
+  const starters = roster.filter(
+    (p) =>
+      starterKeys.has(p.playerKey) &&
+      p.eligiblePositions.some((eligible) => positions.includes(eligible))
+  );
+  if (starters.length === 0) return null;
+
+  return starters.reduce((weakest, p) =>
+    getRestOfSeasonPoints(p.playerKey, projections) <
+    getRestOfSeasonPoints(weakest.playerKey, projections)
+      ? p
+      : weakest
+  );
+}
+
+function quantile(sorted: number[], q: number): number {
+  const index = Math.min(
+    sorted.length - 1,
+    Math.max(0, Math.round(q * (sorted.length - 1)))
+  );
+  return sorted[index];
+}
+
+/**
+ * Suggested bid from the league's past winning bids
+ *
+ * @param winningBids FAAB paid on successful waiver claims this season
+ * @param strength How strong the target is, 0-1 (1 = best target available)
+ * @returns Whole-dollar range, or null with no bidding history
+ */
+export function suggestFaabRange(
+  winningBids: number[],
+  strength: number
+): FaabBidRange | null {
+  if (winningBids.length === 0) return null;
+
+  const sorted = [...winningBids].sort((a, b) => a - b);
+  return {
+    low: Math.round(quantile(sorted, strength * 0.5)),
+    high: Math.round(quantile(sorted, strength * 0.9)),
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * In-game win probability for head-to-head matchups
+ *
+ * A team is expected to finish with the points it has plus what its starters
+ * are still projected to score: all of a projection before the player's NFL
+ * game kicks off, half of it while the game is on and none once it's final.
+ * How far players land from their projections is fit from the league's past
+ * weeks, and the two teams' final scores are compared as normal distributions.
+ */
+
+export type GameState = "pre" | "in" | "post";
+
+export interface StarterOutlook {
+  projectedPoints: number; // Full-game projection
+  gameState: GameState;
+}
+
+export interface TeamOutlook {
+  points: number; // Scored so far
+  remainingPoints: number; // Still projected to come
+  variance: number; // Of the points still to come
+}
+
+export interface ProjectionSample {
+  projected: number;
+  actual: number;
+}
+
+// Share of a projection still to come
+const REMAINING_SHARE: { [state in GameState]: number } = {
+  pre: 1,
+  in: 0.5,
+  post: 0,
+};
+
+// Variance of a player's score per projected point until there's history to
+// fit (a 15 point projection lands within about 8 points two times in three)
+export const DEFAULT_VARIANCE_PER_POINT = 4.5;
+
+// Fewer past projections than this are too noisy to fit
+const MIN_SAMPLES = 30;
+
+/**
+ * Standard normal cumulative distribution (Abramowitz and Stegun 7.1.26,
+ * accurate to about 1e-7)
+ */
+export function normalCdf(z: number): number {
+  const t = 1 / (1 + 0.3275911 * (Math.abs(z) / Math.SQRT2));
+  const erf =
+    1 -
+    t *
+      (0.254829592 +
+        t *
+          (-0.284496736 +
+            t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) *
+      Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Variance per projected point from past projections: the squared misses
+ * over the points projected, so bigger projections miss by more
+ */
+export function fitVariancePerPoint(samples: ProjectionSample[]): number {
+  const usable = samples.filter((s) => s.projected > 0);
+  if (usable.length < MIN_SAMPLES) {
+    return DEFAULT_VARIANCE_PER_POINT;
+  }
+
+  let squaredError = 0;
+  let projected = 0;
+  for (const sample of usable) {
+    squaredError += (sample.actual - sample.projected) ** 2;
+    projected += sample.projected;
+  }
+  return squaredError / projected;
+}
+
+/**
+ * Where a team is headed from its points so far and its starters' games
+ */
+export function projectTeam(
+  points: number,
+  starters: StarterOutlook[],
+  variancePerPoint: number
+): TeamOutlook {
+  const remainingPoints = starters.reduce(
+    (sum, s) => sum + s.projectedPoints * REMAINING_SHARE[s.gameState],
+    0
+  );
+  return {
+    points,
+    remainingPoints,
+    variance: remainingPoints * variancePerPoint,
+  };
+}
+
+/**
+ * Chance the first team wins, between 0 and 1
+ * Once neither team has points to come the result is settled (0.5 for a tie)
+ */
+export function winProbability(
+  team: TeamOutlook,
+  opponent: TeamOutlook
+): number {
+  const margin =
+    team.points +
+    team.remainingPoints -
+    (opponent.points + opponent.remainingPoints);
+  const stdDev = Math.sqrt(team.variance + opponent.variance);
+
+  if (stdDev === 0) {
+    return margin > 0 ? 1 : margin < 0 ? 0 : 0.5;
+  }
+  return normalCdf(margin / stdDev);
+}
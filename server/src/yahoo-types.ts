@@ -86,6 +86,33 @@ export interface YahooLeagueInfo {
   is_plus_league: string;
   game_code: string;
   season: string;
+  is_finished?: number; // Only present (as 1) once the season is over
+}
+
+/**
+ * League settings from /league/{league_key}/settings
+ * Found at fantasy_content.league[1].settings[0]
+ */
+export interface YahooLeagueSettings {
+  draft_type?: string;
+  scoring_type?: string;
+  uses_playoff?: string;
+  playoff_start_week?: string;
+  uses_playoff_reseeding?: number;
+  num_playoff_teams?: string;
+  num_playoff_consolation_teams?: number;
+  has_playoff_consolation_games?: boolean;
+  roster_positions?: Array<{
+    roster_position: {
+      position: string;
+      position_type?: string;
+      count: number | string;
+      is_starting_position?: number;
+    };
+  }>;
+  stat_modifiers?: {
+    stats: Array<{ stat: { stat_id: number; value: string } }>;
+  };
 }
 
 /**
@@ -287,10 +314,118 @@ export interface NormalizedLeague {
   points: WeeklyTeamScore[];
 }
 
+/**
+ * Season and week boundaries read from league metadata
+ */
+export interface NormalizedLeagueMetadata {
+  season: number;
+  currentWeek: number;
+  startWeek: number;
+  endWeek: number;
+  isFinished: boolean;
+}
+
+/**
+ * Playoff format and roster slots read from league settings
+ */
+export interface NormalizedLeagueSettings {
+  usesPlayoff: boolean;
+  playoffStartWeek: number;
+  numPlayoffTeams: number;
+  rosterPositions: RosterSlot[];
+}
+
+/**
+ * A roster slot type, e.g. { position: "W/R/T", count: 1 } for one FLEX
+ */
+export interface RosterSlot {
+  position: string;
+  count: number;
+  isStarting: boolean;
+}
+
+/**
+ * A player on a weekly roster and the slot the manager put them in
+ */
+export interface NormalizedRosterPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string; // NFL team abbreviation
+  eligiblePositions: string[];
+  selectedPosition: string;
+  actualPoints: number;
+  projectedPoints?: number; // Yahoo's projection, when the response has one
+  stats: { [statId: number]: number }; // Raw stat values keyed by Yahoo stat ID
+}
+
+/**
+ * A single pick from league draft results
+ */
+export interface NormalizedDraftPick {
+  pick: number; // Overall pick number
+  round: number;
+  teamKey: string;
+  playerKey: string;
+  cost?: number; // Auction price, missing for snake drafts
+}
+
+/**
+ * A player from a league players collection with season-to-date points
+ * scored by the league's settings
+ */
+export interface NormalizedLeaguePlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string; // NFL team abbreviation
+  points: number;
+}
+
+/**
+ * A fantasy week's date range from the game's week calendar
+ */
+export interface NormalizedGameWeek {
+  week: number;
+  start: string; // YYYY-MM-DD
+  end: string; // YYYY-MM-DD
+}
+
+/**
+ * One player's move within a transaction
+ */
+export interface NormalizedTransactionPlayer {
+  playerKey: string;
+  name: string;
+  position: string;
+  team: string; // NFL team abbreviation
+  action: string; // "add", "drop" or "trade"
+  sourceType: string; // "freeagents", "waivers" or "team"
+  sourceTeamKey?: string;
+  sourceTeamName?: string;
+  destinationType: string; // "team" or "waivers"
+  destinationTeamKey?: string;
+  destinationTeamName?: string;
+}
+
+/**
+ * A league transaction: add, drop, add/drop, trade or commissioner move
+ */
+export interface NormalizedTransaction {
+  transactionKey: string;
+  type: string; // "add", "drop", "add/drop", "trade" or "commish"
+  status: string; // "successful", "pending" or "vetoed"
+  timestamp: number; // Unix seconds
+  faabBid?: number;
+  players: NormalizedTransactionPlayer[];
+}
+
 export interface NormalizedTeam {
   id: string;
   teamKey: string;
   name: string;
+  managerGuid: string; // Yahoo account GUID, stable across seasons
+  managerName: string;
   seasonTotal: number;
   rank: number;
   wins: number;
@@ -300,10 +435,31 @@ export interface NormalizedTeam {
 
 export interface WeeklyTeamScore {
   week: number;
+  teamKey: string;
   teamName: string;
   score: number;
 }
 
+/**
+ * Normalized head-to-head matchup from a weekly scoreboard
+ */
+export interface NormalizedMatchupTeam {
+  teamKey: string;
+  name: string;
+  points: number;
+  projectedPoints: number;
+}
+
+export interface NormalizedMatchup {
+  week: number;
+  status: string; // "preevent", "midevent" or "postevent"
+  isPlayoffs: boolean;
+  isConsolation: boolean;
+  isTied: boolean;
+  winnerTeamKey: string | null;
+  teams: NormalizedMatchupTeam[];
+}
+
 /**
  * Normalized player statistics data
  */
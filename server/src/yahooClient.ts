@@ -0,0 +1,213 @@
+/**
+ * Yahoo Fantasy API client
+ *
+ * Every Yahoo request goes through the one client so the whole process shares
+ * a rate limit, however many services are created. Rate limit (429 and
+ * Yahoo's 999) and server errors are retried with exponential backoff,
+ * identical GETs already in flight share one request, and failures are thrown
+ * as domain errors (errors.ts) carrying the HTTP status to respond with.
+ * Set YAHOO_API_BASE_URL to send requests somewhere else, e.g. the fixture
+ * server (fixtures.ts).
+ */
+
+import axios, { AxiosInstance } from "axios";
+import {
+  AppError,
+  Forbidden,
+  NotAuthenticated,
+  NotFound,
+  UpstreamError,
+  UpstreamRateLimited,
+  UpstreamTimeout,
+} from "./errors";
+import { recordFixture } from "./fixtures";
+
+export const YAHOO_API_BASE_URL =
+  "https://fantasysports.yahooapis.com/fantasy/v2";
+
+// Yahoo blocks some requests without a browser User-Agent
+const USER_AGENT =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36";
+
+// ----- Rate limiting -----
+
+/**
+ * Token bucket: bursts of up to `capacity` requests, then `refillPerSecond`
+ * Callers wait their turn in order
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly capacity: number,
+    private readonly refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  take(): Promise<void> {
+    const turn = this.queue.then(() => this.waitForToken());
+    this.queue = turn;
+    return turn;
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    );
+    this.lastRefill = now;
+  }
+
+  private async waitForToken() {
+    this.refill();
+    if (this.tokens < 1) {
+      const waitMs = ((1 - this.tokens) / this.refillPerSecond) * 1000;
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+      this.refill();
+    }
+    this.tokens -= 1;
+  }
+}
+
+// ----- Client -----
+
+export interface YahooClientOptions {
+  baseUrl?: string;
+  burst?: number; // Requests allowed back to back
+  requestsPerSecond?: number; // Sustained rate once the burst is used
+  maxRetries?: number;
+  backoffMs?: number; // First retry delay, doubled for each retry after
+  timeoutMs?: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function isRetryable(err: any): boolean {
+  const status: number | undefined = err.response?.status;
+  if (!status) {
+    return err.code === "ECONNRESET"; // Dropped connection, not a timeout
+  }
+  return status === 429 || status === 999 || status >= 500;
+}
+
+export class YahooClient {
+  private readonly http: AxiosInstance;
+  private readonly bucket: TokenBucket;
+  private readonly maxRetries: number;
+  private readonly backoffMs: number;
+  private inFlight = new Map<string, Promise<any>>();
+
+  constructor({
+    baseUrl = YAHOO_API_BASE_URL,
+    burst = 10,
+    requestsPerSecond = 20,
+    maxRetries = 3,
+    backoffMs = 500,
+    timeoutMs = 10000,
+  }: YahooClientOptions = {}) {
+    this.http = axios.create({
+      baseURL: baseUrl,
+      timeout: timeoutMs,
+      headers: { "User-Agent": USER_AGENT },
+    });
+    this.bucket = new TokenBucket(burst, requestsPerSecond);
+    this.maxRetries = maxRetries;
+    this.backoffMs = backoffMs;
+  }
+
+  /**
+   * GET a Yahoo resource as JSON
+   * @param path Path under the API base URL, e.g. "league/423.l.12345/standings"
+   * @returns The response body
+   */
+  get<T = any>(path: string, accessToken: string): Promise<T> {
+    // Same resource for the same user: share the request already in flight
+    const key = `${accessToken}|${path}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.getWithRetries<T>(path, accessToken).finally(() =>
+      this.inFlight.delete(key)
+    );
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private async getWithRetries<T>(
+    path: string,
+    accessToken: string
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      await this.bucket.take();
+      try {
+        const response = await this.http.get<T>(path, {
+          headers: { Authorization: `Bearer ${accessToken}` },
+          params: { format: "json" },
+        });
+        recordFixture("yahoo", path, response.data);
+        return response.data;
+      } catch (err: any) {
+        if (!isRetryable(err) || attempt >= this.maxRetries) {
+          throw this.toYahooError(err);
+        }
+
+        // Prefer Yahoo's own Retry-After when it sends one, but never wait
+        // longer than the last backoff would
+        const retryAfterSeconds = Number(
+          err.response?.headers?.["retry-after"]
+        );
+        const maxDelayMs = this.backoffMs * 2 ** (this.maxRetries - 1) * 1.25;
+        const delayMs =
+          retryAfterSeconds > 0
+            ? Math.min(retryAfterSeconds * 1000, maxDelayMs)
+            : this.backoffMs * 2 ** attempt * (1 + Math.random() * 0.25);
+        console.warn(
+          `[YahooClient] ${
+            err.response?.status || err.code
+          } from ${path}, retry ${attempt + 1}/${
+            this.maxRetries
+          } in ${Math.round(delayMs)}ms`
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private toYahooError(err: any): AppError {
+    const status: number | undefined = err.response?.status;
+    if (err.code === "ECONNABORTED" || err.code === "ETIMEDOUT") {
+      return new UpstreamTimeout();
+    }
+    if (status === 401) {
+      return new NotAuthenticated(
+        "Not authorized. Please reconnect with Yahoo."
+      );
+    }
+    if (status === 403) {
+      return new Forbidden("Not allowed to view this on Yahoo");
+    }
+    if (status === 404) {
+      return new NotFound("Not found on Yahoo");
+    }
+    if (status === 429 || status === 999) {
+      return new UpstreamRateLimited();
+    }
+    if (!status || status >= 500) {
+      return new UpstreamError(undefined, err.message);
+    }
+    return new UpstreamError(`Yahoo API error ${status}`, err.message);
+  }
+}
+
+// Singleton instance
+export const yahooClient = new YahooClient({
+  baseUrl: process.env.YAHOO_API_BASE_URL || YAHOO_API_BASE_URL,
+});
@@ -0,0 +1,102 @@
+import axios from "axios";
+import request from "supertest";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { app } from "../src/app";
+import { setTokenForUserId, tokenStore } from "../src/tokenStore";
+import { sessionCookie } from "./helpers";
+
+const cookie = sessionCookie({ userId: "user-1" });
+
+beforeEach(() => {
+  setTokenForUserId(
+    "user-1",
+    {
+      access_token: "access",
+      refresh_token: "refresh",
+      expires_in: 3600,
+      token_type: "bearer",
+      xoauth_yahoo_guid: "GUID123",
+    },
+    "Sam"
+  );
+});
+
+describe("GET /auth/me", () => {
+  it("returns the connected account", async () => {
+    const res = await request(app).get("/auth/me").set("Cookie", cookie);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ guid: "GUID123", nickname: "Sam" });
+    expect(Date.parse(res.body.tokenExpiresAt)).toBeGreaterThan(Date.now());
+  });
+
+  it("answers 401 once the tokens are gone", async () => {
+    tokenStore.removeTokens("user-1");
+    const res = await request(app).get("/auth/me").set("Cookie", cookie);
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe("NOT_AUTHENTICATED");
+  });
+});
+
+describe("GET /auth/yahoo/callback", () => {
+  it("signs in as another account without signing the first one out", async () => {
+    const post = vi.spyOn(axios, "post").mockResolvedValueOnce({
+      data: {
+        access_token: "other-access",
+        refresh_token: "other-refresh",
+        expires_in: 3600,
+        token_type: "bearer",
+        xoauth_yahoo_guid: "GUID456",
+      },
+    });
+    const get = vi
+      .spyOn(axios, "get")
+      .mockResolvedValueOnce({ data: { sub: "GUID456", nickname: "Alex" } });
+    onTestFinished(() => {
+      post.mockRestore();
+      get.mockRestore();
+      tokenStore.removeTokens("GUID456");
+    });
+
+    const res = await request(app)
+      .get("/auth/yahoo/callback?code=abc&state=state-1")
+      .set(
+        "Cookie",
+        sessionCookie({ userId: "user-1", oauthState: "state-1" })
+      );
+
+    expect(res.status).toBe(302);
+    expect(tokenStore.getStoredToken("GUID456")).not.toBeNull();
+    // Still signed in in every other browser, and its share links still work
+    expect(tokenStore.getStoredToken("user-1")).not.toBeNull();
+  });
+});
+
+describe("POST /auth/logout", () => {
+  it("forgets the tokens and clears the session cookie", async () => {
+    const res = await request(app).post("/auth/logout").set("Cookie", cookie);
+
+    expect(res.status).toBe(204);
+    expect(tokenStore.getStoredToken("user-1")).toBeNull();
+    expect(String(res.headers["set-cookie"])).toMatch(/session=;/);
+  });
+
+  it("succeeds without a session", async () => {
+    const res = await request(app).post("/auth/logout");
+    expect(res.status).toBe(204);
+  });
+});
+
+describe("GET /api/admin/sessions", () => {
+  it("lists connected accounts", async () => {
+    const res = await request(app)
+      .get("/api/admin/sessions")
+      .set("X-Admin-Key", "test-admin-key");
+
+    expect(res.status).toBe(200);
+    expect(res.body.sessions).toEqual([
+      expect.objectContaining({ userId: "user-1", guid: "GUID123" }),
+    ]);
+  });
+});
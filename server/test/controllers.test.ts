@@ -0,0 +1,628 @@
+import http from "http";
+import { AddressInfo } from "net";
+import request from "supertest";
+import { beforeEach, describe, expect, it, onTestFinished, vi } from "vitest";
+import { app } from "../src/app";
+import { Forbidden } from "../src/errors";
+import { FantasyService } from "../src/FantasyService";
+import { setTokenForUserId } from "../src/tokenStore";
+import { sessionCookie } from "./helpers";
+
+// Every Yahoo and Sleeper request is answered from test/fixtures: league
+// 423.l.1 is two teams in week 3 of a four week 2024 season
+const cookie = sessionCookie({ userId: "user-1" });
+
+beforeEach(() => {
+  setTokenForUserId("user-1", {
+    access_token: "access",
+    refresh_token: "refresh",
+    expires_in: 3600,
+    token_type: "bearer",
+    xoauth_yahoo_guid: "GUID1",
+  });
+});
+
+function get(path: string) {
+  return request(app).get(path).set("Cookie", cookie);
+}
+
+describe("LeagueController", () => {
+  it("lists the user's leagues", async () => {
+    const res = await get("/api/league/user/leagues");
+
+    expect(res.status).toBe(200);
+    expect(res.body.leagues).toEqual([
+      {
+        leagueKey: "423.l.1",
+        name: "Fixture League",
+        season: "2024",
+        numTeams: 2,
+        gameCode: "nfl",
+      },
+    ]);
+  });
+
+  it("returns standings and weekly scores", async () => {
+    const res = await get("/api/league/423.l.1");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ name: "Fixture League", season: 2024 });
+    expect(res.body.teams.map((t: any) => [t.teamName, t.wins])).toEqual([
+      ["Fourth and Long", 2],
+      ["Gridiron Gurus", 0],
+    ]);
+    expect(res.body.points).toContainEqual({
+      week: 2,
+      teamKey: "423.l.1.t.1",
+      teamName: "Gridiron Gurus",
+      score: 27.5,
+    });
+    expect(res.body.weeks).toEqual([
+      { week: 1, dataStatus: "complete" },
+      { week: 2, dataStatus: "complete" },
+      { week: 3, dataStatus: "in-progress" },
+    ]);
+    expect(res.body.missingWeeks).toEqual([]);
+  });
+
+  it("reports weeks whose scoreboard failed instead of making up scores", async () => {
+    // 423.l.2 has no week 2 scoreboard fixture
+    const res = await get("/api/league/423.l.2");
+
+    expect(res.status).toBe(200);
+    expect(res.body.missingWeeks).toEqual([2]);
+    expect(res.body.weeks[1]).toEqual({ week: 2, dataStatus: "missing" });
+    expect(new Set(res.body.points.map((p: any) => p.week))).toEqual(
+      new Set([1, 3])
+    );
+    expect(res.body.demo).toBeUndefined();
+  });
+
+  it("makes up every week's scores in demo mode", async () => {
+    const res = await get("/api/league/423.l.2?demo=true");
+
+    expect(res.status).toBe(200);
+    expect(res.body.demo).toBe(true);
+    expect(res.body.points).toHaveLength(6);
+    // The real status of each week is still reported
+    expect(res.body.missingWeeks).toEqual([2]);
+  });
+
+  it("answers 404 for a league Yahoo doesn't know", async () => {
+    const res = await get("/api/league/423.l.404");
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("MatchupController", () => {
+  it("returns one week's matchups", async () => {
+    const res = await get("/api/league/423.l.1/matchups?week=1");
+
+    expect(res.status).toBe(200);
+    expect(res.body.weeks).toEqual([1]);
+    expect(res.body.matchups).toEqual([
+      expect.objectContaining({
+        week: 1,
+        status: "postevent",
+        winnerTeamKey: "423.l.1.t.2",
+      }),
+    ]);
+    expect(res.body.matchups[0].margin).toBeCloseTo(2.6);
+  });
+
+  it("returns every week played so far", async () => {
+    const res = await get("/api/league/423.l.1/matchups");
+
+    expect(res.body.weeks).toEqual([1, 2, 3]);
+    expect(res.body.matchups.map((m: any) => m.status)).toEqual([
+      "postevent",
+      "postevent",
+      "midevent",
+    ]);
+  });
+
+  it("adds win probabilities to the week being played", async () => {
+    const res = await get("/api/league/423.l.1/matchups");
+
+    const [week1, , week3] = res.body.matchups;
+    expect(week1.teams[0].winProbability).toBeUndefined();
+    expect(week1.winProbabilityTimeline).toBeUndefined();
+
+    const [gurus, fourth] = week3.teams;
+    expect(gurus.winProbability + fourth.winProbability).toBeCloseTo(1);
+    // Both quarterbacks' games are still on
+    expect(gurus.expectedPoints).toBeGreaterThan(gurus.points);
+    expect(fourth.expectedPoints).toBeGreaterThan(fourth.points);
+    // Reading matchups doesn't record the timeline, the live poller does
+    expect(week3.winProbabilityTimeline).toBeUndefined();
+  });
+
+  it("still returns the scoreboards when win probabilities can't be projected", async () => {
+    const projectMatchups = vi
+      .spyOn(FantasyService.prototype as any, "projectMatchups")
+      .mockRejectedValueOnce(new Error("Sleeper is down"));
+    onTestFinished(() => projectMatchups.mockRestore());
+
+    const res = await get("/api/league/423.l.1/matchups?week=3");
+
+    expect(res.status).toBe(200);
+    expect(res.body.matchups[0].teams[0].points).toBe(10.2);
+    expect(res.body.matchups[0].teams[0].winProbability).toBeUndefined();
+  });
+});
+
+describe("LiveScoringController", () => {
+  /**
+   * Open the live stream and resolve with the first event's name and data
+   */
+  async function firstLiveEvent(leagueKey: string) {
+    const server = app.listen(0);
+    onTestFinished(() => {
+      server.close();
+    });
+    const { port } = server.address() as AddressInfo;
+
+    return new Promise<{ event: string; data: any }>((resolve, reject) => {
+      const req = http.get(
+        { port, path: `/api/league/${leagueKey}/live`, headers: { cookie } },
+        (res) => {
+          expect(res.headers["content-type"]).toBe("text/event-stream");
+          let body = "";
+          res.on("data", (chunk) => {
+            body += chunk;
+            const match = body.match(/event: (\w+)\ndata: (.*)\n\n/);
+            if (match) {
+              req.destroy();
+              resolve({ event: match[1], data: JSON.parse(match[2]) });
+            }
+          });
+        }
+      );
+      req.on("error", reject);
+    });
+  }
+
+  it("starts the stream with the current week's scores", async () => {
+    const { event, data } = await firstLiveEvent("423.l.1");
+
+    expect(event).toBe("snapshot");
+    expect(data.week).toBe(3);
+    expect(data.matchups[0].teams.map((t: any) => t.points)).toEqual([
+      10.2, 12.6,
+    ]);
+    const [gurus, fourth] = data.matchups[0].teams;
+    expect(gurus.winProbability + fourth.winProbability).toBeCloseTo(1);
+    expect(data.players.map((p: any) => p.name).sort()).toEqual([
+      "Josh Allen",
+      "Patrick Mahomes",
+    ]);
+  });
+
+  it("streams the scores without win probabilities when they can't be projected", async () => {
+    const projectMatchups = vi
+      .spyOn(FantasyService.prototype as any, "projectMatchups")
+      .mockRejectedValueOnce(new Error("Sleeper is down"));
+    onTestFinished(() => projectMatchups.mockRestore());
+
+    const { event, data } = await firstLiveEvent("423.l.1");
+
+    expect(event).toBe("snapshot");
+    expect(data.matchups[0].teams[0].points).toBe(10.2);
+    expect(data.matchups[0].teams[0].winProbability).toBeUndefined();
+  });
+
+  it("records the win probability timeline as it polls", async () => {
+    const { data } = await firstLiveEvent("423.l.1");
+    const gurus = data.matchups[0].teams[0];
+
+    const res = await get("/api/league/423.l.1/matchups?week=3");
+    expect(res.body.matchups[0].winProbabilityTimeline).toContainEqual(
+      expect.objectContaining({
+        teamKey: "423.l.1.t.1",
+        points: 10.2,
+        winProbability: gurus.winProbability,
+      })
+    );
+  });
+
+  it("refuses to stream without a session", async () => {
+    const res = await request(app).get("/api/league/423.l.1/live");
+
+    expect(res.status).toBe(401);
+    expect(res.body.code).toBe("NOT_AUTHENTICATED");
+  });
+
+  it("refuses to stream a league the user can't see on Yahoo", async () => {
+    const res = await request(app)
+      .get("/api/league/423.l.99/live")
+      .set("Cookie", cookie);
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe("NOT_FOUND");
+  });
+});
+
+describe("HistoryController", () => {
+  it("summarizes the league's only season", async () => {
+    const res = await get("/api/league/423.l.1/history");
+
+    expect(res.status).toBe(200);
+    expect(res.body.seasons).toHaveLength(1);
+    expect(res.body.seasons[0]).toMatchObject({
+      season: 2024,
+      isFinished: false,
+    });
+  });
+});
+
+describe("PlayoffOddsController", () => {
+  it("puts both teams in a two team playoff", async () => {
+    const res = await get("/api/league/423.l.1/playoff-odds?simulations=1000");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      numPlayoffTeams: 2,
+      playoffStartWeek: 4,
+      lastCompletedWeek: 2,
+    });
+    expect(res.body.teams.map((t: any) => t.playoffOdds)).toEqual([100, 100]);
+  });
+});
+
+describe("LineupController", () => {
+  it("finds the week a better lineup would have won", async () => {
+    const res = await get("/api/league/423.l.1/lineup-efficiency");
+
+    expect(res.status).toBe(200);
+    expect(res.body.weekRange).toEqual({ start: 1, end: 2 });
+
+    const gurus = res.body.teams.find((t: any) => t.teamKey === "423.l.1.t.1");
+    // Adam Thielen's 14 points sat on the bench in a 27.5 - 28.3 loss
+    expect(gurus.flippedWeeks).toEqual([2]);
+    expect(gurus.benchPointsLost).toBeCloseTo(4.5);
+  });
+});
+
+describe("AnalyticsController", () => {
+  function importCsv(source: string, csv: string) {
+    return request(app)
+      .post("/api/analytics/projections/imports")
+      .set("Cookie", cookie)
+      .send({ leagueKey: "423.l.1", source, csv });
+  }
+
+  it("compares Sleeper and Yahoo projections over completed weeks", async () => {
+    const res = await get("/api/analytics/projections?leagueKey=423.l.1");
+
+    expect(res.status).toBe(200);
+    expect(res.body.weekRange).toEqual({ start: 1, end: 2 });
+    // Six rostered players, plus Gardner Minshew, Gabe Davis and Tank Dell
+    // as free agents. Sleeper's linebacker Josh Allen plays a position no
+    // one rosters
+    expect(res.body.players).toBe(9);
+    expect(res.body.sources.map((s: any) => s.source)).toEqual([
+      "Sleeper",
+      "Yahoo",
+    ]);
+
+    const [sleeper, yahoo] = res.body.sources;
+    expect(sleeper.kind).toBe("sleeper");
+    // Every player in both weeks
+    expect(sleeper.overall.samples).toBe(18);
+
+    // Only Fourth and Long's rosters came with Yahoo projections: three
+    // players over two weeks, over by 12.1 points in all
+    expect(yahoo.overall.samples).toBe(6);
+    expect(yahoo.overall.bias).toBeCloseTo(12.1 / 6);
+    expect(yahoo.byWeek.map((w: any) => w.week)).toEqual([1, 2]);
+    expect(yahoo.byPosition.map((p: any) => p.position)).toEqual(["QB", "WR"]);
+    expect(yahoo.calibration.length).toBeGreaterThan(0);
+  });
+
+  it("scores zero projections and free agents from imported CSVs", async () => {
+    await importCsv(
+      "Zeroes",
+      [
+        "week,player_id,name,position,points",
+        "1,30123,,,0",
+        "1,,Tank Dell,WR,10",
+      ].join("\n")
+    );
+
+    const res = await get("/api/analytics/projections?leagueKey=423.l.1");
+    const zeroes = res.body.sources.find((s: any) => s.source === "Zeroes");
+    expect(zeroes.overall.samples).toBe(2);
+
+    await request(app)
+      .delete("/api/analytics/projections/imports/Zeroes?leagueKey=423.l.1")
+      .set("Cookie", cookie);
+  });
+
+  it("adds imported CSV projections until they're deleted", async () => {
+    const imported = await importCsv(
+      "Spreadsheet",
+      [
+        "week,player_id,name,position,points",
+        "1,30123,,,20",
+        "1,,Josh Allen,QB,25",
+        "2,,Tyreek Hill,,10",
+      ].join("\n")
+    );
+    expect(imported.status).toBe(201);
+    expect(imported.body).toEqual({
+      source: "Spreadsheet",
+      rows: 3,
+      weeks: [1, 2],
+    });
+
+    const res = await get("/api/analytics/projections?leagueKey=423.l.1");
+    const spreadsheet = res.body.sources.find(
+      (s: any) => s.source === "Spreadsheet"
+    );
+    expect(spreadsheet.kind).toBe("csv");
+    expect(spreadsheet.overall.samples).toBe(3);
+    // 20 vs 20.3, 25 vs 25.4 and 10 vs 9.5
+    expect(spreadsheet.overall.mae).toBeCloseTo(0.4);
+
+    const deleted = await request(app)
+      .delete(
+        "/api/analytics/projections/imports/Spreadsheet?leagueKey=423.l.1"
+      )
+      .set("Cookie", cookie);
+    expect(deleted.status).toBe(204);
+
+    const again = await request(app)
+      .delete(
+        "/api/analytics/projections/imports/Spreadsheet?leagueKey=423.l.1"
+      )
+      .set("Cookie", cookie);
+    expect(again.status).toBe(404);
+  });
+
+  it("rejects bad imports", async () => {
+    expect((await importCsv("Sleeper", "week,name,points\n1,A,1")).status).toBe(
+      400
+    );
+    const outOfSeason = await importCsv("Later", "week,name,points\n9,A,1");
+    expect(outOfSeason.status).toBe(400);
+    expect(outOfSeason.body.error).toMatch(/Week 9/);
+  });
+
+  it("asks Yahoo whether the user can see the league before changing imports", async () => {
+    await importCsv("Shared", "week,name,points\n1,Josh Allen,25");
+    // Another user, whose token Yahoo turns away, after the league is cached
+    const checkLeagueAccess = vi
+      .spyOn(FantasyService.prototype, "checkLeagueAccess")
+      .mockRejectedValue(new Forbidden("Not allowed to view this on Yahoo"));
+    onTestFinished(() => checkLeagueAccess.mockRestore());
+
+    expect((await importCsv("Shared", "week,name,points\n1,A,1")).status).toBe(
+      403
+    );
+    const deleted = await request(app)
+      .delete("/api/analytics/projections/imports/Shared?leagueKey=423.l.1")
+      .set("Cookie", cookie);
+    expect(deleted.status).toBe(403);
+
+    checkLeagueAccess.mockRestore();
+    await request(app)
+      .delete("/api/analytics/projections/imports/Shared?leagueKey=423.l.1")
+      .set("Cookie", cookie);
+  });
+});
+
+describe("DraftController", () => {
+  it("grades the draft against season points", async () => {
+    const getLeague = vi.spyOn(FantasyService.prototype, "getLeague");
+    onTestFinished(() => getLeague.mockRestore());
+
+    const res = await get("/api/league/423.l.1/draft");
+
+    expect(res.status).toBe(200);
+    // Team names come from the standings alone, without the scoreboards
+    expect(getLeague).not.toHaveBeenCalled();
+    expect(res.body).toMatchObject({ draftType: "snake", rounds: 3 });
+    expect(res.body.picks).toHaveLength(6);
+    expect(res.body.teamOrder.map((t: any) => t.teamName)).toEqual([
+      "Gridiron Gurus",
+      "Fourth and Long",
+    ]);
+  });
+});
+
+describe("TransactionController", () => {
+  it("places transactions on the week calendar", async () => {
+    const res = await get("/api/league/423.l.1/transactions");
+
+    expect(res.status).toBe(200);
+    expect(res.body.transactions).toEqual([
+      expect.objectContaining({
+        type: "add/drop",
+        week: 2,
+        faabBid: 12,
+        isWaiverClaim: true,
+      }),
+    ]);
+    expect(res.body.transactions[0].players.map((p: any) => p.name)).toEqual([
+      "DK Metcalf",
+      "Gabe Davis",
+    ]);
+  });
+});
+
+describe("TradeController", () => {
+  it("lists every team's current roster", async () => {
+    const getLeague = vi.spyOn(FantasyService.prototype, "getLeague");
+    onTestFinished(() => getLeague.mockRestore());
+
+    const res = await get("/api/league/423.l.1/rosters");
+
+    expect(res.status).toBe(200);
+    // The team list comes from the standings alone, without the scoreboards
+    expect(getLeague).not.toHaveBeenCalled();
+    expect(res.body.week).toBe(3);
+    expect(res.body.teams.map((t: any) => t.players.length)).toEqual([3, 3]);
+  });
+
+  it("values a trade with rest of season projections", async () => {
+    const res = await request(app)
+      .post("/api/league/423.l.1/trade/evaluate")
+      .set("Cookie", cookie)
+      .send({
+        sides: [
+          { teamKey: "423.l.1.t.1", gives: ["423.p.30175"] },
+          { teamKey: "423.l.1.t.2", gives: ["423.p.32692"] },
+        ],
+      });
+
+    expect(res.status).toBe(200);
+    expect(res.body.weekRange).toEqual({ start: 3, end: 4 });
+
+    const [gurus] = res.body.sides;
+    expect(gurus.gives[0]).toMatchObject({
+      name: "Tyreek Hill",
+      hasProjections: true,
+    });
+    // Jefferson is projected for more than Hill every week
+    expect(gurus.netValue).toBeGreaterThan(0);
+  });
+
+  it("rejects players who aren't on the team", async () => {
+    const res = await request(app)
+      .post("/api/league/423.l.1/trade/evaluate")
+      .set("Cookie", cookie)
+      .send({
+        sides: [
+          { teamKey: "423.l.1.t.1", gives: ["423.p.32692"] },
+          { teamKey: "423.l.1.t.2", gives: ["423.p.30175"] },
+        ],
+      });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe("VALIDATION_ERROR");
+  });
+});
+
+describe("TeamController", () => {
+  it("returns a week's roster as Yahoo sends it", async () => {
+    const res = await get("/api/team/423.l.1.t.1/roster?week=1");
+
+    expect(res.status).toBe(200);
+    expect(res.body.fantasy_content.team[1].roster.week).toBe("1");
+  });
+
+  it("returns player stats across weeks", async () => {
+    const res = await get(
+      "/api/team/423.l.1.t.2/player-stats?startWeek=1&endWeek=2"
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.players.map((p: any) => p.name)).toEqual([
+      "Josh Allen",
+      "DK Metcalf",
+      "Justin Jefferson",
+    ]);
+  });
+
+  it("suggests free agents to pick up", async () => {
+    const res = await get("/api/team/423.l.1.t.1/waiver-targets");
+
+    expect(res.status).toBe(200);
+    expect(res.body.teamName).toBe("Gridiron Gurus");
+    expect(res.body.faabHistory).toEqual({
+      claims: 1,
+      medianBid: 12,
+      maxBid: 12,
+    });
+    for (const target of res.body.targets) {
+      expect(["Gardner Minshew II", "Tank Dell", "Gabe Davis"]).toContain(
+        target.add.name
+      );
+    }
+  });
+});
+
+describe("PlayerController", () => {
+  it("searches players", async () => {
+    const res = await get("/api/players/search?gameKey=423&search=mahomes");
+
+    expect(res.status).toBe(200);
+    expect(res.body.players.map((p: any) => p.name)).toEqual([
+      "Patrick Mahomes",
+    ]);
+  });
+
+  it("compares players with Sleeper stats", async () => {
+    const res = await get(
+      "/api/players/compare?playerKeys=423.p.30175,423.p.32692&leagueKey=423.l.1&startWeek=1&endWeek=2"
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.players.map((p: any) => p.name)).toEqual([
+      "Tyreek Hill",
+      "Justin Jefferson",
+    ]);
+    expect(res.body.players[0].weeklyData).toHaveLength(2);
+    // Hill outscored Jefferson in week 1 and Jefferson won week 2
+    expect(res.body.comparison).toEqual({
+      player1Better: 1,
+      player2Better: 1,
+      ties: 0,
+    });
+  });
+
+  it("maps Josh Allen the quarterback, not the linebacker", async () => {
+    const res = await get("/api/players/423.p.30977/mapping");
+
+    expect(res.status).toBe(200);
+    expect(res.body.sleeper).toMatchObject({
+      playerId: "4984",
+      position: "QB",
+    });
+    expect(res.body.candidates.map((c: any) => c.playerId)).toContain("4954");
+  });
+});
+
+describe("ScoringProfileController", () => {
+  it("rescores matchups under a profile", async () => {
+    const created = await request(app)
+      .post("/api/scoring-profiles")
+      .set("Cookie", cookie)
+      .send({ name: "Six Point Pass TD", overrides: { "5": 6 } });
+    expect(created.status).toBe(201);
+    // Profiles are saved to disk, so don't leave this one behind
+    onTestFinished(async () => {
+      await request(app)
+        .delete(`/api/scoring-profiles/${created.body.id}`)
+        .set("Cookie", cookie);
+    });
+
+    const res = await get(
+      `/api/league/423.l.1/matchups?week=1&scoringProfile=${created.body.id}`
+    );
+
+    expect(res.status).toBe(200);
+    expect(res.body.scoringProfile).toBe(created.body.id);
+    // Both starting quarterbacks threw two touchdowns, 4 more points each
+    expect(res.body.matchups[0].teams.map((t: any) => t.points)).toEqual([
+      40.54, 43.88,
+    ]);
+  });
+});
+
+describe("SharedLeagueController", () => {
+  it("serves a live link with the owner's Yahoo connection", async () => {
+    const created = await request(app)
+      .post("/api/share-links")
+      .set("Cookie", cookie)
+      .send({ leagueKey: "423.l.1", mode: "live" });
+    expect(created.status).toBe(201);
+
+    const res = await request(app).get(`/api/shared/${created.body.slug}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.league.teams).toHaveLength(2);
+  });
+});
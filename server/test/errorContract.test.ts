@@ -0,0 +1,100 @@
+/**
+ * Error contract: every route answers errors with an ErrorResponse whose
+ * status is declared in the spec, whatever layer the error came from
+ */
+
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { app } from "../src/app";
+import { examplePath, loadSwaggerSpec, sessionCookie } from "./helpers";
+
+const spec = loadSwaggerSpec();
+const errorSchema = spec.components.schemas.ErrorResponse;
+
+const securedOperations = Object.entries<any>(spec.paths).flatMap(
+  ([specPath, methods]) =>
+    Object.entries<any>(methods)
+      .filter(([, operation]) => operation.security?.length > 0)
+      .map(([method, operation]) => ({ method, specPath, operation }))
+);
+
+function expectErrorResponse(body: any, code: string) {
+  for (const field of errorSchema.required) {
+    expect(body).toHaveProperty(field);
+  }
+  expect(typeof body.error).toBe("string");
+  expect(body.code).toBe(code);
+}
+
+function expectDeclared(method: string, specPath: string, status: number) {
+  const responses = spec.paths[specPath][method].responses;
+  expect(
+    Object.keys(responses),
+    `${method.toUpperCase()} ${specPath} doesn't declare ${status}`
+  ).toContain(String(status));
+}
+
+describe("error contract", () => {
+  it("declares code on ErrorResponse", () => {
+    expect(errorSchema.required).toEqual(
+      expect.arrayContaining(["error", "code"])
+    );
+  });
+
+  it.each(securedOperations.map((o) => [o.method, o.specPath, o.operation]))(
+    "%s %s answers 401 without credentials",
+    async (method, specPath) => {
+      const res = await (request(app) as any)
+        [method](examplePath(specPath))
+        .send({});
+
+      expect(res.status).toBe(401);
+      expectErrorResponse(res.body, "NOT_AUTHENTICATED");
+      expectDeclared(method, specPath, 401);
+    }
+  );
+
+  it("answers 401 when the session has no Yahoo token", async () => {
+    const res = await request(app)
+      .get("/api/league/423.l.1")
+      .set("Cookie", sessionCookie({ userId: "user-without-token" }));
+
+    expect(res.status).toBe(401);
+    expectErrorResponse(res.body, "NOT_AUTHENTICATED");
+  });
+
+  it("answers 404 for an unknown cache namespace", async () => {
+    const res = await request(app)
+      .delete("/api/admin/cache/no-such-namespace")
+      .set("X-Admin-Key", "test-admin-key");
+
+    expect(res.status).toBe(404);
+    expectErrorResponse(res.body, "NOT_FOUND");
+    expectDeclared("delete", "/api/admin/cache/{namespace}", 404);
+  });
+
+  it("answers 400 when tsoa rejects the request body", async () => {
+    const res = await request(app)
+      .post("/api/scoring-profiles")
+      .set("Cookie", sessionCookie({ userId: "user-1" }))
+      .send({ name: 42, overrides: "lots" });
+
+    expect(res.status).toBe(400);
+    expectErrorResponse(res.body, "VALIDATION_ERROR");
+    expect(res.body.details).toBeTruthy();
+    expectDeclared("post", "/api/scoring-profiles", 400);
+  });
+
+  it("answers 400 from a controller's own checks", async () => {
+    // Used to come back as a 500
+    const res = await request(app)
+      .get("/api/players/compare")
+      .query({ playerKeys: "423.p.1" })
+      .set("Cookie", sessionCookie({ userId: "user-1" }));
+
+    expect(res.status).toBe(400);
+    expectErrorResponse(res.body, "VALIDATION_ERROR");
+    expect(res.body.error).toBe("leagueKey or teamKey is required");
+    expectDeclared("get", "/api/players/compare", 400);
+  });
+});
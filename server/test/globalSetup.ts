@@ -0,0 +1,16 @@
+import { createFixtureServer, FIXTURE_DIR } from "../src/fixtures";
+
+// Must match YAHOO_API_BASE_URL and SLEEPER_API_BASE_URL in vitest.config.ts
+const FIXTURE_PORT = 5055;
+
+/**
+ * Stand in for Yahoo and Sleeper with the recorded fixtures, so no test
+ * touches the network
+ */
+export default async function setup() {
+  const server = createFixtureServer(FIXTURE_DIR);
+  await new Promise<void>((resolve) =>
+    server.listen(FIXTURE_PORT, "127.0.0.1", resolve)
+  );
+  return () => new Promise<void>((resolve) => server.close(() => resolve()));
+}
@@ -0,0 +1,52 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import {
+  FIXTURE_DIR,
+  FixtureService,
+  loadFixtures,
+  normalizeFixturePath,
+} from "../src/fixtures";
+
+/**
+ * The spec tsoa generated from the controllers (npm test generates it first)
+ */
+export function loadSwaggerSpec(): any {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, "..", "src", "swagger.json"), "utf8")
+  );
+}
+
+/**
+ * Cookie header for a cookie-session session holding `session`,
+ * signed the way cookie-session signs with SESSION_SECRET
+ */
+export function sessionCookie(session: Record<string, unknown>): string {
+  const value = Buffer.from(JSON.stringify(session)).toString("base64");
+  const signature = crypto
+    .createHmac("sha1", process.env.SESSION_SECRET || "dev-secret")
+    .update(`session=${value}`)
+    .digest("base64")
+    .replace(/\/|\+|=/g, (c) => ({ "/": "_", "+": "-", "=": "" }[c] || ""));
+  return `session=${value}; session.sig=${signature}`;
+}
+
+/**
+ * Fill in {params} of a spec path with placeholder values
+ */
+export function examplePath(specPath: string): string {
+  return specPath.replace(/\{[^}]+\}/g, "test");
+}
+
+/**
+ * Body of a recorded response in test/fixtures
+ */
+export function fixtureBody(service: FixtureService, requestPath: string): any {
+  const fixture = loadFixtures(FIXTURE_DIR).get(
+    `${service}/${normalizeFixturePath(requestPath)}`
+  );
+  if (!fixture) {
+    throw new Error(`No ${service} fixture for ${requestPath}`);
+  }
+  return fixture.body;
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { computeAllPlayRecords } from "../src/leagueAnalytics";
+
+describe("computeAllPlayRecords", () => {
+  it("keeps teams with the same name apart", () => {
+    const records = computeAllPlayRecords(
+      [
+        { week: 1, teamKey: "423.l.1.t.1", teamName: "Team", score: 100 },
+        { week: 1, teamKey: "423.l.1.t.2", teamName: "Team", score: 80 },
+        { week: 1, teamKey: "423.l.1.t.3", teamName: "Other", score: 90 },
+        { week: 2, teamKey: "423.l.1.t.1", teamName: "Team", score: 50 },
+      ],
+      1
+    );
+
+    expect(records.get("423.l.1.t.1")).toEqual({
+      wins: 2,
+      losses: 0,
+      ties: 0,
+      expectedWins: 1,
+    });
+    expect(records.get("423.l.1.t.2")).toEqual({
+      wins: 0,
+      losses: 2,
+      ties: 0,
+      expectedWins: 0,
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import { optimizeLineup } from "../src/lineupOptimizer";
+import type { NormalizedRosterPlayer, RosterSlot } from "../src/yahoo-types";
+
+function player(
+  name: string,
+  eligiblePositions: string[],
+  actualPoints: number
+): NormalizedRosterPlayer {
+  return {
+    playerKey: `423.p.${name}`,
+    name,
+    position: eligiblePositions.join(","),
+    team: "KC",
+    eligiblePositions,
+    selectedPosition: "BN",
+    actualPoints,
+    stats: {},
+  };
+}
+
+function slots(...positions: string[]): RosterSlot[] {
+  return positions.map((position) => ({
+    position,
+    count: 1,
+    isStarting: true,
+  }));
+}
+
+describe("optimizeLineup", () => {
+  it("fills overlapping flex slots for the most points", () => {
+    const { lineup, points } = optimizeLineup(
+      [
+        player("WR", ["WR"], 10),
+        player("RB", ["RB"], 9),
+        player("TE", ["TE"], 1),
+      ],
+      slots("W/R", "W/T")
+    );
+
+    expect(points).toBe(19);
+    expect(lineup.map((s) => [s.slot, s.name])).toEqual(
+      expect.arrayContaining([
+        ["W/R", "RB"],
+        ["W/T", "WR"],
+      ])
+    );
+  });
+
+  it("starts a dual-position defender where they leave room for others", () => {
+    const { lineup, points } = optimizeLineup(
+      [
+        player("Edge", ["DE", "LB"], 10),
+        player("Backer", ["LB"], 8),
+        player("End", ["DE"], 1),
+      ],
+      slots("LB", "DE")
+    );
+
+    expect(points).toBe(18);
+    expect(lineup.map((s) => [s.slot, s.name])).toEqual(
+      expect.arrayContaining([
+        ["LB", "Backer"],
+        ["DE", "Edge"],
+      ])
+    );
+  });
+
+  it("fills every slot it can, even with a negative score", () => {
+    const { lineup, points } = optimizeLineup(
+      [player("QB", ["QB"], -2), player("K", ["K"], 5)],
+      slots("QB", "K", "DEF")
+    );
+
+    expect(lineup.map((s) => s.slot).sort()).toEqual(["K", "QB"]);
+    expect(points).toBe(3);
+  });
+});
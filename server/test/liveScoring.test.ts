@@ -0,0 +1,240 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  diffLiveScoreboards,
+  LiveEvent,
+  LiveScoringHub,
+} from "../src/liveScoring";
+import { LiveScoreboardResponse } from "../src/models";
+import { Forbidden, UpstreamRateLimited } from "../src/errors";
+import { setTokenForUserId } from "../src/tokenStore";
+
+function scoreboard(
+  gurus: number,
+  fourth: number,
+  mahomes: number
+): LiveScoreboardResponse {
+  return {
+    leagueKey: "423.l.1",
+    week: 3,
+    updatedAt: new Date().toISOString(),
+    matchups: [
+      {
+        status: "midevent",
+        teams: [
+          {
+            teamKey: "423.l.1.t.1",
+            teamName: "Gridiron Gurus",
+            points: gurus,
+            projectedPoints: gurus + 20,
+            winProbability: gurus > fourth ? 0.7 : 0.3,
+          },
+          {
+            teamKey: "423.l.1.t.2",
+            teamName: "Fourth and Long",
+            points: fourth,
+            projectedPoints: fourth + 20,
+            winProbability: gurus > fourth ? 0.3 : 0.7,
+          },
+        ],
+      },
+    ],
+    players: [
+      {
+        playerKey: "423.p.30123",
+        name: "Patrick Mahomes",
+        position: "QB",
+        teamKey: "423.l.1.t.1",
+        selectedPosition: "QB",
+        points: mahomes,
+        stats: [{ stat: "pass_td", value: mahomes / 4, points: mahomes }],
+      },
+    ],
+  };
+}
+
+describe("diffLiveScoreboards", () => {
+  it("reports nothing when nothing changed", () => {
+    expect(
+      diffLiveScoreboards(scoreboard(10, 12, 8), scoreboard(10, 12, 8))
+    ).toEqual([]);
+  });
+
+  it("reports score deltas, win probability swings and stat lines", () => {
+    const events = diffLiveScoreboards(
+      scoreboard(10, 12, 4),
+      scoreboard(14, 12, 8)
+    );
+
+    expect(events).toContainEqual({
+      type: "score",
+      data: {
+        teamKey: "423.l.1.t.1",
+        teamName: "Gridiron Gurus",
+        points: 14,
+        delta: 4,
+      },
+    });
+    expect(events.filter((e) => e.type === "score")).toHaveLength(1);
+    expect(events).toContainEqual({
+      type: "winProbability",
+      data: {
+        teamKey: "423.l.1.t.1",
+        teamName: "Gridiron Gurus",
+        winProbability: 0.7,
+        previousWinProbability: 0.3,
+      },
+    });
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        type: "stat",
+        data: expect.objectContaining({ points: 8, delta: 4, bigPlay: false }),
+      })
+    );
+  });
+
+  it("flags a touchdown's worth of points as a big play", () => {
+    const [stat] = diffLiveScoreboards(
+      scoreboard(10, 12, 4),
+      scoreboard(10, 12, 10)
+    ).filter((e) => e.type === "stat");
+
+    expect(stat.data).toMatchObject({ delta: 6, bigPlay: true });
+  });
+
+  it("leaves out players missing from the newer poll", () => {
+    const next = { ...scoreboard(10, 12, 4), players: [] };
+    expect(diffLiveScoreboards(scoreboard(10, 12, 4), next)).toEqual([]);
+  });
+
+  it("starts over with a snapshot when the week changes", () => {
+    const next = { ...scoreboard(0, 0, 0), week: 4 };
+    expect(diffLiveScoreboards(scoreboard(10, 12, 4), next)).toEqual([
+      { type: "snapshot", data: next },
+    ]);
+  });
+});
+
+describe("LiveScoringHub", () => {
+  const allowAll = async () => {};
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    setTokenForUserId("live-user", {
+      access_token: "access",
+      refresh_token: "refresh",
+      expires_in: 3600,
+      token_type: "bearer",
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls while followed and pushes changes", async () => {
+    const polls = [scoreboard(10, 12, 4), scoreboard(11, 12, 4)];
+    const fetch = vi.fn(async () => polls.shift()!);
+    const hub = new LiveScoringHub(fetch, 60_000, allowAll);
+    const events: LiveEvent[] = [];
+
+    await hub.authorize("423.l.1", "live-user", "access");
+    const unfollow = hub.follow("423.l.1", "live-user", (e) => events.push(e));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(events.map((e) => e.type)).toEqual(["snapshot"]);
+    expect(fetch).toHaveBeenCalledWith("423.l.1", "access");
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(events.map((e) => e.type)).toEqual(["snapshot", "score"]);
+
+    unfollow();
+    expect(hub.activeLeagues).toBe(0);
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("shares one poller and greets late followers with the snapshot", async () => {
+    const fetch = vi.fn(async () => scoreboard(10, 12, 4));
+    const hub = new LiveScoringHub(fetch, 60_000, allowAll);
+    const first: LiveEvent[] = [];
+    const second: LiveEvent[] = [];
+
+    await hub.authorize("423.l.1", "live-user", "access");
+    hub.follow("423.l.1", "live-user", (e) => first.push(e));
+    await vi.advanceTimersByTimeAsync(0);
+    hub.follow("423.l.1", "live-user", (e) => second.push(e));
+
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(second.map((e) => e.type)).toEqual(["snapshot"]);
+  });
+
+  it("keeps the last win probabilities when a poll has none", async () => {
+    const withoutOdds = scoreboard(11, 12, 4);
+    for (const team of withoutOdds.matchups[0].teams) {
+      delete team.winProbability;
+    }
+    const polls = [scoreboard(10, 12, 4), withoutOdds];
+    const fetch = vi.fn(async () => polls.shift()!);
+    const hub = new LiveScoringHub(fetch, 60_000, allowAll);
+    const events: LiveEvent[] = [];
+
+    await hub.authorize("423.l.1", "live-user", "access");
+    hub.follow("423.l.1", "live-user", (e) => events.push(e));
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(events.map((e) => e.type)).toEqual(["snapshot", "score"]);
+
+    const late: LiveEvent[] = [];
+    hub.follow("423.l.1", "live-user", (e) => late.push(e));
+    const [snapshot] = late;
+    expect(
+      snapshot.type === "snapshot" &&
+        snapshot.data.matchups[0].teams.map((t) => t.winProbability)
+    ).toEqual([0.3, 0.7]);
+  });
+
+  it("sends errors and backs off when rate limited", async () => {
+    const fetch = vi.fn(async () => {
+      throw new UpstreamRateLimited();
+    });
+    const hub = new LiveScoringHub(fetch, 60_000, allowAll);
+    const events: LiveEvent[] = [];
+
+    await hub.authorize("423.l.1", "live-user", "access");
+    hub.follow("423.l.1", "live-user", (e) => events.push(e));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(events[0]).toMatchObject({
+      type: "error",
+      data: { code: "UPSTREAM_RATE_LIMITED" },
+    });
+
+    // The next poll waits twice as long
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("only lets users who can see the league follow it", async () => {
+    const fetch = vi.fn(async () => scoreboard(10, 12, 4));
+    const checkAccess = vi.fn(async (_leagueKey: string, token: string) => {
+      if (token !== "access") throw new Forbidden("Not allowed");
+    });
+    const hub = new LiveScoringHub(fetch, 60_000, checkAccess);
+
+    await expect(
+      hub.authorize("423.l.1", "outsider", "other-access")
+    ).rejects.toBeInstanceOf(Forbidden);
+    expect(() => hub.follow("423.l.1", "outsider", () => {})).toThrow(
+      Forbidden
+    );
+    expect(hub.activeLeagues).toBe(0);
+
+    // Access is checked once an hour, not on every reconnect
+    await hub.authorize("423.l.1", "live-user", "access");
+    await hub.authorize("423.l.1", "live-user", "access");
+    expect(checkAccess).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(() => hub.follow("423.l.1", "live-user", () => {})).toThrow(
+      Forbidden
+    );
+  });
+});
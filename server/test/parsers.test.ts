@@ -0,0 +1,251 @@
+import { describe, expect, it } from "vitest";
+import {
+  normalizeLeague,
+  normalizePlayerSearch,
+  normalizePlayerStats,
+} from "../src/parsers";
+import { fixtureBody } from "./helpers";
+
+const standings = fixtureBody("yahoo", "league/423.l.1/standings");
+const scoreboards = [1, 2, 3].map((week) =>
+  fixtureBody("yahoo", `league/423.l.1/scoreboard;week=${week}`)
+);
+const weeklyRosters = [1, 2].map((week) => ({
+  week,
+  data: fixtureBody(
+    "yahoo",
+    `team/423.l.1.t.1/roster;week=${week}/players/stats`
+  ),
+}));
+
+describe("normalizeLeague", () => {
+  it("reads teams from the standings, best rank first", () => {
+    const league = normalizeLeague(standings, scoreboards);
+
+    expect(league).toMatchObject({ id: "1", name: "Fixture League" });
+    expect(league.teams).toEqual([
+      expect.objectContaining({
+        teamKey: "423.l.1.t.2",
+        name: "Fourth and Long",
+        managerName: "Sam",
+        rank: 1,
+        wins: 2,
+        losses: 0,
+        ties: 0,
+        seasonTotal: 66.4,
+      }),
+      expect.objectContaining({ teamKey: "423.l.1.t.1", rank: 2, wins: 0 }),
+    ]);
+  });
+
+  it("takes weekly scores from the scoreboards", () => {
+    const { points } = normalizeLeague(standings, scoreboards);
+
+    expect(points.filter((p) => p.week === 1)).toEqual([
+      {
+        week: 1,
+        teamKey: "423.l.1.t.1",
+        teamName: "Gridiron Gurus",
+        score: 35.5,
+      },
+      {
+        week: 1,
+        teamKey: "423.l.1.t.2",
+        teamName: "Fourth and Long",
+        score: 38.1,
+      },
+    ]);
+    expect(new Set(points.map((p) => p.week))).toEqual(new Set([1, 2, 3]));
+  });
+
+  it("keeps a team that scored zero", () => {
+    const shutout = structuredClone(scoreboards[0]);
+    const matchups = shutout.fantasy_content.league[1].scoreboard["0"].matchups;
+    matchups["0"].matchup["0"].teams["0"].team[1].team_points.total = "0";
+
+    const { points } = normalizeLeague(standings, [shutout]);
+    expect(points).toContainEqual({
+      week: 1,
+      teamKey: "423.l.1.t.1",
+      teamName: "Gridiron Gurus",
+      score: 0,
+    });
+  });
+
+  it("leaves out matchups that haven't kicked off", () => {
+    const upcoming = structuredClone(scoreboards[2]);
+    const matchups =
+      upcoming.fantasy_content.league[1].scoreboard["0"].matchups;
+    matchups["0"].matchup.status = "preevent";
+
+    const { points } = normalizeLeague(standings, [scoreboards[0], upcoming]);
+    expect(new Set(points.map((p) => p.week))).toEqual(new Set([1]));
+  });
+
+  it("makes up no scores for weeks without a scoreboard", () => {
+    expect(normalizeLeague(standings).points).toEqual([]);
+    expect(normalizeLeague(standings, [scoreboards[1]]).points).toEqual([
+      {
+        week: 2,
+        teamKey: "423.l.1.t.1",
+        teamName: "Gridiron Gurus",
+        score: 27.5,
+      },
+      {
+        week: 2,
+        teamKey: "423.l.1.t.2",
+        teamName: "Fourth and Long",
+        score: 28.3,
+      },
+    ]);
+  });
+
+  it("skips teams missing their points or standings", () => {
+    const broken = structuredClone(standings);
+    const teams = broken.fantasy_content.league[1].standings[0].teams;
+    teams["1"].team = teams["1"].team.slice(0, 2);
+
+    const league = normalizeLeague(broken, scoreboards);
+    expect(league.teams.map((t) => t.teamKey)).toEqual(["423.l.1.t.2"]);
+  });
+
+  it.each([
+    ["nothing", undefined],
+    ["an error body", { error: { description: "Invalid league key" } }],
+    ["a league without standings", { fantasy_content: { league: [{}] } }],
+    [
+      "standings without teams",
+      {
+        fantasy_content: {
+          league: [{ league_id: "1", name: "L" }, { standings: [] }],
+        },
+      },
+    ],
+  ])("returns no teams for %s", (_, data) => {
+    expect(normalizeLeague(data, scoreboards).teams).toEqual([]);
+  });
+});
+
+describe("normalizePlayerStats", () => {
+  it("combines weekly rosters into each player's season", () => {
+    const stats = normalizePlayerStats(weeklyRosters);
+
+    // Most points first
+    expect(stats.map((p) => p.name)).toEqual([
+      "Patrick Mahomes",
+      "Tyreek Hill",
+      "Adam Thielen",
+    ]);
+    expect(stats[0]).toMatchObject({
+      playerKey: "423.p.30123",
+      playerId: "30123",
+      position: "QB",
+      team: "KC",
+    });
+    expect(stats[0].weeklyData.map((w) => w.actualPoints)).toEqual([20.3, 18]);
+    expect(stats[0].summary).toMatchObject({
+      totalActual: 38.3,
+      weeksPlayed: 2,
+    });
+  });
+
+  it("projects each week from the player's average so far", () => {
+    // Yahoo rosters carry no projections
+    const [mahomes] = normalizePlayerStats(weeklyRosters);
+
+    expect(mahomes.weeklyData[0].projectedPoints).toBe(20.3);
+    expect(mahomes.weeklyData[1].projectedPoints).toBe(20.3);
+    expect(mahomes.weeklyData[1].difference).toBeCloseTo(-2.3);
+  });
+
+  it("skips weeks that aren't roster responses", () => {
+    const stats = normalizePlayerStats([
+      ...weeklyRosters,
+      { week: 3, data: null },
+      { week: 4, data: { fantasy_content: { team: [[], {}] } } },
+    ]);
+
+    expect(stats).toHaveLength(3);
+    expect(stats[0].weeklyData).toHaveLength(2);
+  });
+
+  it("leaves out players who haven't scored", () => {
+    const stats = normalizePlayerStats([
+      {
+        week: 3,
+        data: fixtureBody("yahoo", "team/423.l.1.t.1/roster/players/stats"),
+      },
+    ]);
+
+    // Only Mahomes has played in week 3
+    expect(stats.map((p) => p.name)).toEqual(["Patrick Mahomes"]);
+  });
+});
+
+describe("normalizePlayerSearch", () => {
+  it("reads game-wide search results", () => {
+    const data = fixtureBody(
+      "yahoo",
+      "game/423/players?search=mahomes&start=0&count=25"
+    );
+
+    expect(normalizePlayerSearch(data, "423", 0, 25)).toEqual({
+      gameKey: "423",
+      totalResults: 1,
+      start: 0,
+      count: 25,
+      players: [
+        {
+          playerKey: "423.p.30123",
+          playerId: "30123",
+          name: "Patrick Mahomes",
+          position: "QB",
+          team: "KC",
+          imageUrl: "https://s.yimg.com/headshot.png",
+          status: undefined,
+        },
+      ],
+    });
+  });
+
+  it("reads league player collections, with injury status", () => {
+    const data = fixtureBody(
+      "yahoo",
+      "league/423.l.1/players?position=WR&status=A&sort=AR&count=25"
+    );
+    const result = normalizePlayerSearch(data, "423", 0, 25);
+
+    expect(result.totalResults).toBe(2);
+    expect(result.players.map((p) => [p.name, p.status])).toEqual([
+      ["Tank Dell", "Q"],
+      ["Gabe Davis", undefined],
+    ]);
+  });
+
+  it("skips players without a key or name", () => {
+    const data = structuredClone(
+      fixtureBody(
+        "yahoo",
+        "league/423.l.1/players?position=WR&status=A&sort=AR&count=25"
+      )
+    );
+    data.fantasy_content.league[1].players["0"].player = [[]];
+
+    const result = normalizePlayerSearch(data, "423", 0, 25);
+    expect(result.players.map((p) => p.name)).toEqual(["Gabe Davis"]);
+  });
+
+  it.each([
+    ["nothing", null],
+    ["an error body", { error: { description: "Invalid game key" } }],
+    ["a game without players", { fantasy_content: { game: [{}] } }],
+  ])("returns no players for %s", (_, data) => {
+    expect(normalizePlayerSearch(data, "423", 50, 10)).toEqual({
+      gameKey: "423",
+      totalResults: 0,
+      start: 50,
+      count: 10,
+      players: [],
+    });
+  });
+});
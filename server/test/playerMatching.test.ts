@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildNameIndex,
+  MIN_MATCH_CONFIDENCE,
+  rankCandidates,
+} from "../src/playerMatching";
+import type { SleeperPlayer } from "../src/SleeperService";
+
+function sleeperPlayer(
+  playerId: string,
+  position: string,
+  team: string,
+  status: string = "Active"
+): SleeperPlayer {
+  return {
+    player_id: playerId,
+    first_name: "Josh",
+    last_name: "Allen",
+    full_name: "Josh Allen",
+    team,
+    position,
+    number: 0,
+    status,
+    injury_status: null,
+    fantasy_positions: [position],
+  };
+}
+
+const joshAllen = {
+  playerId: "30977",
+  name: "Josh Allen",
+  position: "QB",
+  team: "BUF",
+};
+
+function rank(players: SleeperPlayer[]) {
+  return rankCandidates(joshAllen, players, buildNameIndex(players));
+}
+
+describe("rankCandidates", () => {
+  it("trusts none of the candidates when the top ones can't be told apart", () => {
+    const matches = rank([
+      sleeperPlayer("1", "QB", "BUF"),
+      sleeperPlayer("2", "QB", "BUF"),
+      sleeperPlayer("3", "LB", "JAX"),
+    ]);
+
+    // The name-only linebacker never moves ahead of the quarterbacks
+    expect(matches.map((m) => m.player.player_id)).toEqual(["1", "2", "3"]);
+    expect(matches.map((m) => m.confidence)).toEqual([0.5, 0.5, 0.5]);
+    expect(matches[0].confidence).toBeLessThan(MIN_MATCH_CONFIDENCE);
+  });
+
+  it("breaks a tie on the only active player", () => {
+    const matches = rank([
+      sleeperPlayer("1", "QB", "BUF", "Inactive"),
+      sleeperPlayer("2", "QB", "BUF"),
+      sleeperPlayer("3", "LB", "JAX"),
+    ]);
+
+    expect(matches.map((m) => m.player.player_id)).toEqual(["2", "1", "3"]);
+    expect(matches[0].confidence).toBe(1);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildSourceReport,
+  calibrate,
+  ProjectedResult,
+  summarizeAccuracy,
+} from "../src/projectionAccuracy";
+import {
+  ImportedProjectionIndex,
+  parseProjectionCsv,
+} from "../src/projectionCsv";
+
+const result = (
+  projected: number,
+  actual: number,
+  position = "WR",
+  week = 1
+): ProjectedResult => ({ week, position, projected, actual });
+
+describe("summarizeAccuracy", () => {
+  it("computes MAE, RMSE, bias and R²", () => {
+    const accuracy = summarizeAccuracy([
+      result(10, 12),
+      result(20, 14),
+      result(5, 5),
+      result(15, 17),
+    ]);
+
+    expect(accuracy.samples).toBe(4);
+    expect(accuracy.mae).toBeCloseTo(2.5); // (2 + 6 + 0 + 2) / 4
+    expect(accuracy.rmse).toBeCloseTo(Math.sqrt(11)); // (4 + 36 + 0 + 4) / 4
+    expect(accuracy.bias).toBeCloseTo(0.5); // (-2 + 6 + 0 - 2) / 4
+    // Actual mean 12, variance sum 0 + 4 + 49 + 25 = 78
+    expect(accuracy.r2).toBeCloseTo(1 - 44 / 78);
+  });
+
+  it("reports over-projection as positive bias", () => {
+    expect(summarizeAccuracy([result(15, 10), result(8, 6)]).bias).toBe(3.5);
+  });
+
+  it("is all zeros without samples", () => {
+    expect(summarizeAccuracy([])).toEqual({
+      samples: 0,
+      mae: 0,
+      rmse: 0,
+      bias: 0,
+      r2: 0,
+    });
+  });
+});
+
+describe("calibrate", () => {
+  it("averages projections and results per bucket, top bucket open ended", () => {
+    expect(
+      calibrate([result(4, 2), result(5, 8), result(1, 0), result(35, 20)])
+    ).toEqual([
+      {
+        minProjected: 0,
+        maxProjected: 3,
+        samples: 1,
+        averageProjected: 1,
+        averageActual: 0,
+      },
+      {
+        minProjected: 3,
+        maxProjected: 6,
+        samples: 2,
+        averageProjected: 4.5,
+        averageActual: 5,
+      },
+      { minProjected: 30, samples: 1, averageProjected: 35, averageActual: 20 },
+    ]);
+  });
+});
+
+describe("buildSourceReport", () => {
+  it("breaks results down by position, week and tier", () => {
+    const report = buildSourceReport("Sleeper", "sleeper", [
+      result(22, 25, "QB", 1),
+      result(12, 8, "WR", 1),
+      result(3, 0, "WR", 2),
+    ]);
+
+    expect(report.byPosition.map((p) => [p.position, p.samples])).toEqual([
+      ["QB", 1],
+      ["WR", 2],
+    ]);
+    expect(report.byWeek.map((w) => [w.week, w.samples])).toEqual([
+      [1, 2],
+      [2, 1],
+    ]);
+    expect(report.byTier.map((t) => [t.tier, t.samples])).toEqual([
+      ["0-5", 1],
+      ["5-10", 0],
+      ["10-15", 1],
+      ["15-20", 0],
+      ["20+", 1],
+    ]);
+    expect(report.byTier[4].maxProjected).toBeUndefined();
+  });
+});
+
+describe("parseProjectionCsv", () => {
+  it("reads rows by header name, with quoted fields", () => {
+    const rows = parseProjectionCsv(
+      [
+        "Name,Week,Position,Points",
+        '"Smith, Jr., Odell",1,wr,12.5',
+        "Patrick Mahomes,2,QB,21",
+        "",
+      ].join("\r\n")
+    );
+
+    expect(rows).toEqual([
+      {
+        week: 1,
+        playerId: null,
+        name: "Smith, Jr., Odell",
+        position: "WR",
+        points: 12.5,
+      },
+      {
+        week: 2,
+        playerId: null,
+        name: "Patrick Mahomes",
+        position: "QB",
+        points: 21,
+      },
+    ]);
+  });
+
+  it("rejects files missing columns or with bad rows", () => {
+    expect(() => parseProjectionCsv("week,points\n1,10")).toThrow(
+      /player_id or name column/
+    );
+    expect(() => parseProjectionCsv("name,points\nAllen,10")).toThrow(
+      /week and points/
+    );
+    expect(() =>
+      parseProjectionCsv("week,name,points\n1,Allen,10\nx,Hill,9")
+    ).toThrow(/Line 3: week/);
+    expect(() => parseProjectionCsv("week,name,points\n1,Allen,")).toThrow(
+      /Line 2: points/
+    );
+  });
+});
+
+describe("ImportedProjectionIndex", () => {
+  const index = new ImportedProjectionIndex([
+    { week: 1, playerId: "30123", name: null, position: null, points: 22 },
+    {
+      week: 1,
+      playerId: null,
+      name: "Tyreek Hill",
+      position: "WR",
+      points: 16,
+    },
+    { week: 1, playerId: null, name: "Josh Allen", position: null, points: 24 },
+  ]);
+
+  it("matches by player_id, name and position, or name alone", () => {
+    const player = (playerId: string, name: string, position: string) => ({
+      playerId,
+      name,
+      position,
+    });
+
+    expect(index.get(1, player("30123", "Patrick Mahomes", "QB"))).toBe(22);
+    expect(index.get(1, player("30175", "Tyreek Hill", "WR"))).toBe(16);
+    expect(index.get(1, player("30977", "Josh Allen", "QB"))).toBe(24);
+    expect(index.get(1, player("30175", "Tyreek Hill", "RB"))).toBeUndefined();
+    expect(
+      index.get(2, player("30123", "Patrick Mahomes", "QB"))
+    ).toBeUndefined();
+  });
+});
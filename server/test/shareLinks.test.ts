@@ -0,0 +1,113 @@
+import request from "supertest";
+import { describe, expect, it } from "vitest";
+import { app } from "../src/app";
+import { storage, StoredShareLink } from "../src/storage";
+import { sessionCookie } from "./helpers";
+
+const league = {
+  leagueKey: "423.l.1",
+  name: "Test League",
+  season: 2024,
+  teams: [],
+  points: [{ week: 1, teamName: "Team A", score: 100 }],
+};
+
+const matchups = {
+  leagueKey: "423.l.1",
+  weeks: [1, 2],
+  matchups: [
+    { week: 1, status: "postevent", teams: [] },
+    { week: 2, status: "postevent", teams: [] },
+  ],
+};
+
+function saveLink(overrides: Partial<StoredShareLink> = {}): string {
+  const slug = `slug-${Math.random().toString(36).slice(2)}`;
+  storage.saveShareLink({
+    slug,
+    ownerUserId: "owner",
+    leagueKey: "423.l.1",
+    leagueName: "Test League",
+    mode: "snapshot",
+    snapshot: { league, matchups } as any,
+    createdAt: Date.now(),
+    expiresAt: null,
+    ...overrides,
+  });
+  return slug;
+}
+
+describe("shared league views", () => {
+  it("serves a snapshot without signing in", async () => {
+    const slug = saveLink();
+    const res = await request(app).get(`/api/shared/${slug}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.league).toEqual(league);
+    expect(res.body.link).toMatchObject({ path: `/s/${slug}`, expired: false });
+  });
+
+  it("filters snapshot matchups by week", async () => {
+    const slug = saveLink();
+    const res = await request(app)
+      .get(`/api/shared/${slug}/matchups`)
+      .query({ week: 2 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.matchups.map((m: any) => m.week)).toEqual([2]);
+  });
+
+  it("answers 404 once a link expires", async () => {
+    const slug = saveLink({ expiresAt: Date.now() - 1000 });
+    const res = await request(app).get(`/api/shared/${slug}`);
+
+    expect(res.status).toBe(404);
+    expect(res.body.code).toBe("NOT_FOUND");
+  });
+
+  it("answers 502 for a live link whose owner disconnected", async () => {
+    const slug = saveLink({ mode: "live", snapshot: null });
+    const res = await request(app).get(`/api/shared/${slug}`);
+
+    expect(res.status).toBe(502);
+    expect(res.body.code).toBe("UPSTREAM_ERROR");
+  });
+});
+
+describe("managing share links", () => {
+  it("lists and revokes the owner's links", async () => {
+    const slug = saveLink();
+    const cookie = sessionCookie({ userId: "owner" });
+
+    const list = await request(app)
+      .get("/api/share-links")
+      .set("Cookie", cookie);
+    expect(list.body.links.map((l: any) => l.slug)).toContain(slug);
+
+    const revoke = await request(app)
+      .delete(`/api/share-links/${slug}`)
+      .set("Cookie", cookie);
+    expect(revoke.status).toBe(204);
+    expect((await request(app).get(`/api/shared/${slug}`)).status).toBe(404);
+  });
+
+  it("doesn't let anyone else revoke a link", async () => {
+    const slug = saveLink();
+    const res = await request(app)
+      .delete(`/api/share-links/${slug}`)
+      .set("Cookie", sessionCookie({ userId: "someone-else" }));
+
+    expect(res.status).toBe(404);
+    expect((await request(app).get(`/api/shared/${slug}`)).status).toBe(200);
+  });
+
+  it("rejects an invalid expiry", async () => {
+    const res = await request(app)
+      .post("/api/share-links")
+      .set("Cookie", sessionCookie({ userId: "owner" }))
+      .send({ leagueKey: "423.l.1", mode: "live", expiresInDays: 0 });
+
+    expect(res.status).toBe(400);
+    expect(res.body.code).toBe("VALIDATION_ERROR");
+  });
+});
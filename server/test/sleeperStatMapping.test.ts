@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { FantasyPointsCalculator } from "../src/FantasyPointsCalculator";
+import { normalizeRoster } from "../src/parsers";
+import { SleeperService } from "../src/SleeperService";
+import { YAHOO_STAT_MAPPINGS } from "../src/sleeperStatMapping";
+import { fixtureBody } from "./helpers";
+
+// League 423.l.3 scores kickers, team defenses (with points and yards
+// allowed tiers) and individual defensive players
+const roster = normalizeRoster(
+  fixtureBody("yahoo", "team/423.l.3.t.1/roster;week=1/players/stats")
+);
+const sleeperStats = fixtureBody("sleeper", "stats/nfl/regular/2024/1");
+
+// Yahoo player -> Sleeper player ID (team abbreviations for defenses)
+const SLEEPER_IDS: { [playerKey: string]: string } = {
+  "423.p.31002": "4195", // Harrison Butker, K
+  "423.p.100012": "KC", // Kansas City, DEF
+  "423.p.100025": "SF", // San Francisco, DEF
+  "423.p.30150": "5850", // Roquan Smith, LB
+};
+
+describe("YAHOO_STAT_MAPPINGS", () => {
+  const sleeperService = new SleeperService();
+
+  it.each(roster.map((player) => [player.name, player] as const))(
+    "scores %s's Sleeper stat line the way Yahoo did",
+    async (_name, player) => {
+      const scoringRules = await FantasyPointsCalculator.getScoringRules(
+        "423.l.3",
+        "access"
+      );
+      const statLine = sleeperStats[SLEEPER_IDS[player.playerKey]];
+
+      const { points } = sleeperService.calculateFantasyPoints(statLine, {
+        statMappings: new Map(),
+        scoringRules,
+      });
+
+      expect(player.actualPoints).toBeGreaterThan(0);
+      expect(points).toBeCloseTo(player.actualPoints, 2);
+      // Yahoo's own stat line adds up to the same
+      expect(
+        FantasyPointsCalculator.scoreStats(player.stats, scoringRules)
+      ).toBeCloseTo(player.actualPoints, 2);
+    }
+  );
+
+  it("puts projected points and yards allowed in the nearest whole tier", () => {
+    const value = (statId: number, stats: { [stat: string]: number }) =>
+      YAHOO_STAT_MAPPINGS[statId].value(stats);
+
+    // 14-20 and 21-27 points allowed
+    expect(value(53, { pts_allow: 20.4 })).toBe(1);
+    expect(value(54, { pts_allow: 20.4 })).toBe(0);
+    expect(value(54, { pts_allow: 20.5 })).toBe(1);
+    // 300-399 yards allowed
+    expect(value(74, { yds_allow: 299.5 })).toBe(1);
+    expect(value(73, { yds_allow: 299.4 })).toBe(1);
+    // Bye weeks have no tier at all
+    expect(value(50, {})).toBeUndefined();
+  });
+
+  it("only counts team defense stats on team defense lines", () => {
+    // An IDP line can carry fum_rec too
+    expect(YAHOO_STAT_MAPPINGS[34].value(sleeperStats["5850"])).toBeUndefined();
+    expect(YAHOO_STAT_MAPPINGS[34].value(sleeperStats["KC"])).toBe(1);
+  });
+});
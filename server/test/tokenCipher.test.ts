@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { openDatabase } from "../src/database";
+import { SqliteStorage } from "../src/storage";
+import { TokenCipher } from "../src/tokenCipher";
+
+const tokens = {
+  access_token: "access",
+  refresh_token: "refresh-secret",
+  expires_in: 3600,
+  token_type: "bearer",
+  xoauth_yahoo_guid: "GUID123",
+};
+
+describe("TokenCipher", () => {
+  it("round-trips without leaking the plaintext", () => {
+    const cipher = new TokenCipher("secret");
+    const encrypted = cipher.encrypt("refresh-secret");
+
+    expect(encrypted).not.toContain("refresh-secret");
+    expect(cipher.decrypt(encrypted)).toBe("refresh-secret");
+  });
+
+  it("decrypts with an old key after rotation", () => {
+    const encrypted = new TokenCipher("old").encrypt("value");
+    const rotated = new TokenCipher("new", ["old"]);
+
+    expect(rotated.decrypt(encrypted)).toBe("value");
+    expect(rotated.needsRotation(encrypted)).toBe(true);
+    expect(rotated.needsRotation(rotated.encrypt("value"))).toBe(false);
+  });
+
+  it("refuses values from an unknown key", () => {
+    const encrypted = new TokenCipher("other").encrypt("value");
+    expect(() => new TokenCipher("secret").decrypt(encrypted)).toThrow(
+      /unknown key/
+    );
+  });
+
+  it("rejects tampered values", () => {
+    const cipher = new TokenCipher("secret");
+    const parts = cipher.encrypt("value").split(":");
+    parts[5] = Buffer.from("other").toString("base64");
+    expect(() => cipher.decrypt(parts.join(":"))).toThrow();
+  });
+});
+
+describe("SqliteStorage tokens", () => {
+  it("re-encrypts tokens under the new key", () => {
+    const db = openDatabase(":memory:");
+    const before = new SqliteStorage(db, new TokenCipher("old"));
+    before.saveToken({
+      userId: "GUID123",
+      tokens,
+      expiresAt: 0,
+      connectedAt: 0,
+    });
+
+    const after = new SqliteStorage(db, new TokenCipher("new", ["old"]));
+    expect(after.rotateTokenEncryption()).toBe(1);
+    expect(after.rotateTokenEncryption()).toBe(0);
+
+    // Readable without the old key once rotated
+    const newOnly = new SqliteStorage(db, new TokenCipher("new"));
+    expect(newOnly.getTokens()[0].tokens).toEqual(tokens);
+  });
+
+  it("encrypts tokens stored before encryption", () => {
+    const db = openDatabase(":memory:");
+    db.prepare(
+      "INSERT INTO tokens (user_id, tokens, expires_at, updated_at) VALUES (?, ?, 0, 0)"
+    ).run("user-1", JSON.stringify(tokens));
+
+    const storage = new SqliteStorage(db, new TokenCipher("secret"));
+    expect(storage.rotateTokenEncryption()).toBe(1);
+
+    const row = db.prepare("SELECT tokens FROM tokens").get() as {
+      tokens: string;
+    };
+    expect(row.tokens).not.toContain("refresh-secret");
+    expect(storage.getTokens()[0].tokens).toEqual(tokens);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_VARIANCE_PER_POINT,
+  fitVariancePerPoint,
+  normalCdf,
+  projectTeam,
+  winProbability,
+} from "../src/winProbability";
+
+describe("normalCdf", () => {
+  it("matches the standard normal table", () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 6);
+    expect(normalCdf(1.96)).toBeCloseTo(0.975, 3);
+    expect(normalCdf(-1)).toBeCloseTo(0.1587, 3);
+  });
+});
+
+describe("projectTeam", () => {
+  it("counts all of a projection before kickoff, half during and none after", () => {
+    const team = projectTeam(
+      30,
+      [
+        { projectedPoints: 20, gameState: "pre" },
+        { projectedPoints: 10, gameState: "in" },
+        { projectedPoints: 15, gameState: "post" },
+      ],
+      2
+    );
+    expect(team).toEqual({ points: 30, remainingPoints: 25, variance: 50 });
+  });
+});
+
+describe("fitVariancePerPoint", () => {
+  it("falls back to the default without enough history", () => {
+    expect(fitVariancePerPoint([{ projected: 10, actual: 20 }])).toBe(
+      DEFAULT_VARIANCE_PER_POINT
+    );
+  });
+
+  it("scales squared misses by the points projected", () => {
+    const samples = Array.from({ length: 40 }, (_, i) => ({
+      projected: 10,
+      actual: i % 2 === 0 ? 14 : 6,
+    }));
+    // Every projection misses by 4: 16 squared per 10 projected points
+    expect(fitVariancePerPoint(samples)).toBeCloseTo(1.6);
+  });
+
+  it("ignores players projected for nothing", () => {
+    const samples = Array.from({ length: 40 }, () => ({
+      projected: 0,
+      actual: 12,
+    }));
+    expect(fitVariancePerPoint(samples)).toBe(DEFAULT_VARIANCE_PER_POINT);
+  });
+});
+
+describe("winProbability", () => {
+  it("favors the team projected to finish ahead", () => {
+    const ahead = projectTeam(
+      40,
+      [{ projectedPoints: 70, gameState: "pre" }],
+      4.5
+    );
+    const behind = projectTeam(
+      50,
+      [{ projectedPoints: 50, gameState: "pre" }],
+      4.5
+    );
+    const chance = winProbability(ahead, behind);
+    expect(chance).toBeGreaterThan(0.5);
+    expect(chance).toBeLessThan(1);
+    expect(winProbability(behind, ahead)).toBeCloseTo(1 - chance);
+  });
+
+  it("is even for identical teams and settled once every game is final", () => {
+    const side = projectTeam(
+      50,
+      [{ projectedPoints: 50, gameState: "in" }],
+      4.5
+    );
+    expect(winProbability(side, side)).toBeCloseTo(0.5);
+
+    const done = (points: number) =>
+      projectTeam(points, [{ projectedPoints: 20, gameState: "post" }], 4.5);
+    expect(winProbability(done(101), done(100))).toBe(1);
+    expect(winProbability(done(100), done(101))).toBe(0);
+    expect(winProbability(done(100), done(100))).toBe(0.5);
+  });
+});
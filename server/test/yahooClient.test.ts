@@ -0,0 +1,87 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { YahooClient } from "../src/yahooClient";
+import {
+  NotAuthenticated,
+  NotFound,
+  UpstreamError,
+  UpstreamRateLimited,
+  UpstreamTimeout,
+} from "../src/errors";
+
+// Each path answers with the status in its name, e.g. /status/404
+let server: http.Server;
+let baseUrl: string;
+const hits = new Map<string, number>();
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const path = req.url!.split("?")[0];
+    hits.set(path, (hits.get(path) || 0) + 1);
+
+    if (path === "/retry-after" && hits.get(path) === 1) {
+      res.writeHead(429, { "Retry-After": "3600" });
+      res.end();
+      return;
+    }
+    if (path === "/slow") {
+      setTimeout(() => res.end("{}"), 500);
+      return;
+    }
+    const status = Number(path.split("/").pop()) || 200;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ path }));
+  });
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+function client() {
+  return new YahooClient({ baseUrl, backoffMs: 1, timeoutMs: 100 });
+}
+
+describe("YahooClient errors", () => {
+  it.each([
+    [401, NotAuthenticated],
+    [404, NotFound],
+    [429, UpstreamRateLimited],
+    [999, UpstreamRateLimited],
+    [503, UpstreamError],
+  ])("maps %i to %o", async (status, errorClass) => {
+    await expect(client().get(`status/${status}`, "token")).rejects.toThrow(
+      errorClass
+    );
+  });
+
+  it("retries rate limits before giving up", async () => {
+    await expect(client().get("retried/429", "token")).rejects.toThrow(
+      UpstreamRateLimited
+    );
+    expect(hits.get("/retried/429")).toBe(4); // First try + 3 retries
+  });
+
+  it("waits no longer than its own backoff for a Retry-After", async () => {
+    const started = Date.now();
+    await expect(client().get("retry-after", "token")).resolves.toEqual({
+      path: "/retry-after",
+    });
+    expect(hits.get("/retry-after")).toBe(2);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it("doesn't retry not found", async () => {
+    await expect(client().get("once/404", "token")).rejects.toThrow(NotFound);
+    expect(hits.get("/once/404")).toBe(1);
+  });
+
+  it("maps timeouts to UpstreamTimeout", async () => {
+    await expect(client().get("slow", "token")).rejects.toThrow(
+      UpstreamTimeout
+    );
+  });
+});
@@ -0,0 +1,17 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    include: ["test/**/*.test.ts"],
+    globalSetup: ["test/globalSetup.ts"],
+    // Keep tests off the real database, cache, Yahoo app and upstream APIs
+    env: {
+      DATABASE_FILE: ":memory:",
+      CACHE_BACKEND: "memory",
+      ADMIN_API_KEY: "test-admin-key",
+      SESSION_SECRET: "test-secret",
+      YAHOO_API_BASE_URL: "http://127.0.0.1:5055/yahoo",
+      SLEEPER_API_BASE_URL: "http://127.0.0.1:5055/sleeper",
+    },
+  },
+});